@@ -79,6 +79,20 @@ export async function verifyLogin(username: string, password: string): Promise<b
   return isValid;
 }
 
+/**
+ * Verify the admin password for supervisor-only actions (no login side effects)
+ */
+export async function verifyAdminPassword(password: string): Promise<boolean> {
+  const db = getDatabase();
+  const admin = db.prepare('SELECT password_hash FROM admin LIMIT 1').get() as any;
+  
+  if (!admin || !password) {
+    return false;
+  }
+  
+  return verifyPassword(password, admin.password_hash);
+}
+
 /**
  * Verify master key for password reset
  */
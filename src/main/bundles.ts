@@ -0,0 +1,137 @@
+import { getDatabase } from './database';
+
+export interface BundleComponentInput {
+  component_id: number;
+  quantity: number;
+}
+
+export interface StockLine {
+  product_id: number;
+  product_name: string;
+  quantity: number;
+}
+
+/**
+ * Components of a kit, with what one kit needs of each
+ */
+export function getBundleComponents(bundleId: number): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT bc.component_id, bc.quantity, p.name as product_name, p.product_type, p.stock_quantity
+    FROM bundle_components bc
+    INNER JOIN products p ON bc.component_id = p.id
+    WHERE bc.bundle_id = ?
+    ORDER BY bc.id
+  `).all(bundleId);
+}
+
+/**
+ * Components of every kit, keyed by kit product id
+ */
+export function getAllBundleComponents(): Map<number, any[]> {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT bc.bundle_id, bc.component_id, bc.quantity, p.name as product_name, p.product_type
+    FROM bundle_components bc
+    INNER JOIN products p ON bc.component_id = p.id
+    ORDER BY bc.bundle_id, bc.id
+  `).all() as any[];
+  const byBundle = new Map<number, any[]>();
+  for (const { bundle_id, ...component } of rows) {
+    byBundle.set(bundle_id, [...(byBundle.get(bundle_id) || []), component]);
+  }
+  return byBundle;
+}
+
+/**
+ * Replace the components of a kit. Must run in the same transaction as the product save.
+ */
+export function saveBundleComponents(bundleId: number, components: BundleComponentInput[]): void {
+  const db = getDatabase();
+
+  const lines = (components || []).filter((component) => component.component_id);
+  if (lines.length === 0) {
+    throw new Error('Add at least one component to the kit');
+  }
+
+  const parent = db.prepare(`
+    SELECT p.name FROM bundle_components bc INNER JOIN products p ON bc.bundle_id = p.id WHERE bc.component_id = ?
+  `).get(bundleId) as { name: string } | undefined;
+  if (parent) {
+    throw new Error(`This product is part of the kit ${parent.name}; kits cannot be nested`);
+  }
+
+  const productStmt = db.prepare('SELECT name, product_type FROM products WHERE id = ?');
+  const seen = new Set<number>();
+  for (const line of lines) {
+    const quantity = Number(line.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Component quantities must be whole numbers above zero');
+    }
+    if (line.component_id === bundleId) {
+      throw new Error('A kit cannot contain itself');
+    }
+    if (seen.has(line.component_id)) {
+      throw new Error('Each product can only be listed once in a kit');
+    }
+    seen.add(line.component_id);
+    const product = productStmt.get(line.component_id) as { name: string; product_type: string } | undefined;
+    if (!product) {
+      throw new Error('A kit component no longer exists');
+    }
+    if (product.product_type === 'bundle') {
+      throw new Error(`${product.name} is a kit itself; kits cannot be nested`);
+    }
+  }
+
+  db.prepare('DELETE FROM bundle_components WHERE bundle_id = ?').run(bundleId);
+  const insertStmt = db.prepare('INSERT INTO bundle_components (bundle_id, component_id, quantity) VALUES (?, ?, ?)');
+  for (const line of lines) {
+    insertStmt.run(bundleId, line.component_id, Number(line.quantity));
+  }
+}
+
+/**
+ * Record the components a sold kit line takes from stock and return them.
+ * Lines for anything other than a kit return the product itself.
+ */
+export function recordInvoiceItemComponents(
+  invoiceItemId: number,
+  item: { product_id: number; product_name: string; quantity: number }
+): StockLine[] {
+  const db = getDatabase();
+  const components = getBundleComponents(item.product_id);
+  if (components.length === 0) {
+    return [{ product_id: item.product_id, product_name: item.product_name, quantity: item.quantity }];
+  }
+
+  const insertStmt = db.prepare(`
+    INSERT INTO invoice_item_components (invoice_item_id, product_id, product_name, quantity) VALUES (?, ?, ?, ?)
+  `);
+  return components.map((component) => {
+    const line = { product_id: component.component_id, product_name: component.product_name, quantity: component.quantity * item.quantity };
+    insertStmt.run(invoiceItemId, line.product_id, line.product_name, line.quantity);
+    return line;
+  });
+}
+
+/**
+ * What came out of stock for `quantity` units of an invoice line: the recorded
+ * components for a kit, otherwise the product itself
+ */
+export function getInvoiceItemStockLines(
+  item: { id: number; product_id: number; product_name: string; quantity: number },
+  quantity: number = item.quantity
+): StockLine[] {
+  const db = getDatabase();
+  const components = db.prepare(`
+    SELECT product_id, product_name, quantity FROM invoice_item_components WHERE invoice_item_id = ? ORDER BY id
+  `).all(item.id) as StockLine[];
+  if (components.length === 0) {
+    return [{ product_id: item.product_id, product_name: item.product_name, quantity }];
+  }
+  return components.map((component) => ({
+    ...component,
+    quantity: component.quantity / item.quantity * quantity,
+  }));
+}
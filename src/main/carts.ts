@@ -0,0 +1,182 @@
+import { getDatabase } from './database';
+import { getLocalDateTime } from './utils';
+import { getBundleComponents } from './bundles';
+import { getLocationQuantity, resolveLocationId } from './locations';
+
+export interface ParkedCartItemInput {
+  product_id: number;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  discount_type?: string | null;
+  discount_value?: number | null;
+}
+
+export interface ParkedCartInput {
+  label: string;
+  customer_id?: number | null;
+  vehicle_id?: number | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  bill_discount_type?: string | null;
+  bill_discount_value?: number | null;
+  location_id?: number | null; // Billing's location; the default location when not given
+  items: ParkedCartItemInput[];
+}
+
+/**
+ * Quantity of a product held in carts parked at a location, directly or inside parked kits
+ */
+export function getHeldQuantity(productId: number, locationId: number): number {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT
+      COALESCE((SELECT SUM(pci.quantity) FROM parked_cart_items pci
+                INNER JOIN parked_carts pc ON pc.id = pci.parked_cart_id
+                WHERE pci.product_id = ? AND pc.location_id = ?), 0) +
+      COALESCE((SELECT SUM(pci.quantity * bc.quantity) FROM parked_cart_items pci
+                INNER JOIN parked_carts pc ON pc.id = pci.parked_cart_id
+                INNER JOIN bundle_components bc ON bc.bundle_id = pci.product_id
+                WHERE bc.component_id = ? AND pc.location_id = ?), 0) as held
+  `).get(productId, locationId, productId, locationId) as { held: number };
+  return row.held;
+}
+
+/**
+ * List parked carts, oldest first, with their item count and value
+ */
+export function getParkedCarts(): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT pc.*,
+      COUNT(pci.id) as item_count,
+      COALESCE(SUM(pci.quantity), 0) as total_quantity,
+      COALESCE(SUM(pci.quantity * pci.unit_price), 0) as gross_total,
+      CAST((julianday(?) - julianday(pc.created_at)) * 1440 AS INTEGER) as age_minutes
+    FROM parked_carts pc
+    LEFT JOIN parked_cart_items pci ON pci.parked_cart_id = pc.id
+    GROUP BY pc.id
+    ORDER BY pc.created_at, pc.id
+  `).all(getLocalDateTime());
+}
+
+/**
+ * Park a cart. Its quantities are held against the stock at Billing's location until
+ * it is resumed or discarded.
+ */
+export function parkCart(data: ParkedCartInput): { id: number } {
+  const db = getDatabase();
+
+  const label = data.label?.trim();
+  if (!label) {
+    throw new Error('Give the cart a label (customer name or vehicle plate)');
+  }
+  const items = (data.items || []).filter((item) => item.quantity > 0);
+  if (items.length === 0) {
+    throw new Error('Cannot park an empty cart');
+  }
+
+  const transaction = db.transaction(() => {
+    const locationId = resolveLocationId(data.location_id);
+
+    // Stock the cart needs, with kits counted as their components
+    const needed = new Map<number, number>();
+    for (const item of items) {
+      const components = getBundleComponents(item.product_id);
+      const lines = components.length > 0
+        ? components.map((component) => ({ product_id: component.component_id, quantity: component.quantity * item.quantity }))
+        : [{ product_id: item.product_id, quantity: item.quantity }];
+      for (const line of lines) {
+        needed.set(line.product_id, (needed.get(line.product_id) || 0) + line.quantity);
+      }
+    }
+
+    const productStmt = db.prepare('SELECT name, product_type FROM products WHERE id = ?');
+    for (const [productId, quantity] of needed) {
+      const product = productStmt.get(productId) as { name: string; product_type: string } | undefined;
+      if (!product) {
+        throw new Error('A product in the cart no longer exists');
+      }
+      if (product.product_type === 'service' || product.product_type === 'bundle') continue;
+      const available = getLocationQuantity(productId, locationId) - getHeldQuantity(productId, locationId);
+      if (quantity > available) {
+        throw new Error(`Only ${Math.max(available, 0)} of ${product.name} available here (the rest is on hold in other carts or at other locations)`);
+      }
+    }
+
+    const result = db.prepare(`
+      INSERT INTO parked_carts (label, customer_id, vehicle_id, customer_name, customer_phone,
+        bill_discount_type, bill_discount_value, location_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      label,
+      data.customer_id || null,
+      data.vehicle_id || null,
+      data.customer_name || null,
+      data.customer_phone || null,
+      data.bill_discount_type || null,
+      Number(data.bill_discount_value) || 0,
+      locationId,
+      getLocalDateTime()
+    );
+    const cartId = result.lastInsertRowid as number;
+
+    const itemStmt = db.prepare(`
+      INSERT INTO parked_cart_items (parked_cart_id, product_id, product_name, quantity, unit_price, discount_type, discount_value)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const item of items) {
+      itemStmt.run(
+        cartId,
+        item.product_id,
+        item.product_name,
+        item.quantity,
+        item.unit_price,
+        item.discount_type || null,
+        Number(item.discount_value) || 0
+      );
+    }
+
+    return { id: cartId };
+  });
+
+  return transaction();
+}
+
+/**
+ * Take a parked cart back to the till. The cart is removed and its hold released;
+ * park it again to keep it.
+ */
+export function resumeParkedCart(id: number): any {
+  const db = getDatabase();
+  const transaction = db.transaction(() => {
+    const cart = db.prepare('SELECT * FROM parked_carts WHERE id = ?').get(id) as any;
+    if (!cart) {
+      throw new Error('Parked cart not found');
+    }
+    // Prices are kept as parked; products deleted since are dropped
+    const items = db.prepare(`
+      SELECT pci.*, p.stock_quantity
+      FROM parked_cart_items pci
+      INNER JOIN products p ON pci.product_id = p.id
+      WHERE pci.parked_cart_id = ?
+      ORDER BY pci.id
+    `).all(id);
+    db.prepare('DELETE FROM parked_carts WHERE id = ?').run(id);
+    return { ...cart, items };
+  });
+  return transaction();
+}
+
+/**
+ * Discard a parked cart and release its hold on stock
+ */
+export function deleteParkedCart(id: number): { success: boolean } {
+  const db = getDatabase();
+  // Items go with the cart (ON DELETE CASCADE)
+  const result = db.prepare('DELETE FROM parked_carts WHERE id = ?').run(id);
+  if (result.changes === 0) {
+    throw new Error('Parked cart not found');
+  }
+  return { success: true };
+}
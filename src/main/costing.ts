@@ -0,0 +1,356 @@
+import { getDatabase } from './database';
+import { getSetting, setSetting } from './settings';
+import { getLocalDateTime, roundMoney } from './utils';
+
+export type CostingMethod = 'fifo' | 'average';
+
+export interface CostingSettings {
+  method: CostingMethod;
+}
+
+const COSTING_METHOD_KEY = 'costing_method';
+
+/**
+ * Get how issued stock is costed
+ */
+export function getCostingSettings(): CostingSettings {
+  return { method: getSetting(COSTING_METHOD_KEY, 'fifo') === 'average' ? 'average' : 'fifo' };
+}
+
+/**
+ * Switch between FIFO and weighted average. Applies to stock issued from now on;
+ * costs already charged are kept.
+ */
+export function updateCostingSettings(data: CostingSettings): CostingSettings {
+  if (data.method !== 'fifo' && data.method !== 'average') {
+    throw new Error('Costing method must be FIFO or weighted average');
+  }
+  setSetting(COSTING_METHOD_KEY, data.method);
+  return getCostingSettings();
+}
+
+/**
+ * Quantity and value of a product's stock by its cost ledger: everything received
+ * less everything issued
+ */
+function getLedgerPosition(productId: number): { quantity: number; value: number } {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      COALESCE((SELECT SUM(quantity) FROM cost_layers WHERE product_id = ?), 0) -
+      COALESCE((SELECT SUM(quantity) FROM cost_consumptions WHERE product_id = ?), 0) as quantity,
+      COALESCE((SELECT SUM(quantity * unit_cost) FROM cost_layers WHERE product_id = ?), 0) -
+      COALESCE((SELECT SUM(quantity * unit_cost) FROM cost_consumptions WHERE product_id = ?), 0) as value
+  `).get(productId, productId, productId, productId) as { quantity: number; value: number };
+}
+
+/**
+ * Unit cost of a product now: the weighted average of its stock on hand, or with none
+ * on hand, its latest layer, or failing that its cost price
+ */
+export function getCurrentUnitCost(productId: number): number {
+  const db = getDatabase();
+  const position = getLedgerPosition(productId);
+  if (position.quantity > 0) {
+    return position.value / position.quantity;
+  }
+  const latest = db.prepare('SELECT unit_cost FROM cost_layers WHERE product_id = ? ORDER BY id DESC LIMIT 1')
+    .get(productId) as { unit_cost: number } | undefined;
+  if (latest) return latest.unit_cost;
+  const product = db.prepare('SELECT cost_price FROM products WHERE id = ?').get(productId) as { cost_price: number | null } | undefined;
+  return product?.cost_price || 0;
+}
+
+/**
+ * Add a cost layer for stock that has just come in. Issues still waiting for stock
+ * (backorders) are settled from it first, re-costed at this layer's cost along with
+ * the invoice lines they belong to. Must run in the caller's transaction.
+ */
+export function addCostLayer(
+  productId: number,
+  quantity: number,
+  unitCost: number,
+  sourceType: string,
+  referenceId: number | null,
+  createdAt: string = getLocalDateTime()
+): void {
+  if (quantity <= 0) return;
+  const db = getDatabase();
+  const layerId = db.prepare(`
+    INSERT INTO cost_layers (product_id, source_type, reference_id, unit_cost, quantity, remaining_quantity, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(productId, sourceType, referenceId, unitCost, quantity, quantity, createdAt).lastInsertRowid as number;
+
+  let remaining = quantity;
+  const waiting = db.prepare(`
+    SELECT * FROM cost_consumptions WHERE product_id = ? AND layer_id IS NULL ORDER BY id
+  `).all(productId) as any[];
+  for (const consumption of waiting) {
+    if (remaining === 0) break;
+    const take = Math.min(remaining, consumption.quantity);
+    if (take === consumption.quantity) {
+      db.prepare('UPDATE cost_consumptions SET layer_id = ?, unit_cost = ? WHERE id = ?').run(layerId, unitCost, consumption.id);
+    } else {
+      // Split: the settled part moves onto the layer, the rest keeps waiting
+      db.prepare('UPDATE cost_consumptions SET quantity = quantity - ? WHERE id = ?').run(take, consumption.id);
+      db.prepare(`
+        INSERT INTO cost_consumptions (product_id, layer_id, source_type, reference_id, invoice_item_id, quantity, unit_cost, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(productId, layerId, consumption.source_type, consumption.reference_id, consumption.invoice_item_id, take,
+        unitCost, consumption.created_at);
+    }
+    const difference = take * (unitCost - consumption.unit_cost);
+    if (consumption.invoice_item_id && difference !== 0) {
+      db.prepare('UPDATE invoice_items SET cogs = ROUND(COALESCE(cogs, 0) + ?, 2) WHERE id = ?').run(difference, consumption.invoice_item_id);
+    }
+    remaining -= take;
+  }
+  if (remaining !== quantity) {
+    db.prepare('UPDATE cost_layers SET remaining_quantity = ? WHERE id = ?').run(remaining, layerId);
+  }
+}
+
+/**
+ * Take stock out of a product's cost layers, oldest first, and return what it cost.
+ * FIFO charges each layer's own cost; weighted average charges the average of all
+ * stock on hand. Anything beyond the layers is charged at the current unit cost and
+ * waits for the next layer. Must run in the caller's transaction.
+ */
+export function consumeCostLayers(
+  productId: number,
+  quantity: number,
+  sourceType: string,
+  referenceId: number | null,
+  invoiceItemId: number | null = null,
+  createdAt: string = getLocalDateTime()
+): number {
+  if (quantity <= 0) return 0;
+  const db = getDatabase();
+  const { method } = getCostingSettings();
+  const averageCost = getCurrentUnitCost(productId);
+  const layers = db.prepare(`
+    SELECT id, unit_cost, remaining_quantity FROM cost_layers
+    WHERE product_id = ? AND remaining_quantity > 0
+    ORDER BY id
+  `).all(productId) as { id: number; unit_cost: number; remaining_quantity: number }[];
+  const consumptionStmt = db.prepare(`
+    INSERT INTO cost_consumptions (product_id, layer_id, source_type, reference_id, invoice_item_id, quantity, unit_cost, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const layerUpdateStmt = db.prepare('UPDATE cost_layers SET remaining_quantity = remaining_quantity - ? WHERE id = ?');
+
+  let remaining = quantity;
+  let cost = 0;
+  for (const layer of layers) {
+    if (remaining === 0) break;
+    const take = Math.min(remaining, layer.remaining_quantity);
+    const unitCost = method === 'fifo' ? layer.unit_cost : averageCost;
+    consumptionStmt.run(productId, layer.id, sourceType, referenceId, invoiceItemId, take, unitCost, createdAt);
+    layerUpdateStmt.run(take, layer.id);
+    cost += take * unitCost;
+    remaining -= take;
+  }
+  if (remaining > 0) {
+    consumptionStmt.run(productId, null, sourceType, referenceId, invoiceItemId, remaining, averageCost, createdAt);
+    cost += remaining * averageCost;
+  }
+  return roundMoney(cost);
+}
+
+/**
+ * Unit cost a sold line was charged for one of its products, so voids and returns
+ * put stock back at that cost. Lines sold before costing began fall back to the line's
+ * recorded cost, then the current cost.
+ */
+export function getSoldUnitCost(invoiceItemId: number, productId: number): number {
+  const db = getDatabase();
+  const charged = db.prepare(`
+    SELECT SUM(quantity * unit_cost) as cost, SUM(quantity) as quantity
+    FROM cost_consumptions WHERE invoice_item_id = ? AND product_id = ?
+  `).get(invoiceItemId, productId) as { cost: number | null; quantity: number | null };
+  if (charged.quantity) {
+    return charged.cost! / charged.quantity;
+  }
+  const item = db.prepare('SELECT product_id, quantity, cogs FROM invoice_items WHERE id = ?').get(invoiceItemId) as any;
+  if (item && item.product_id === productId && item.cogs !== null && item.quantity > 0) {
+    return item.cogs / item.quantity;
+  }
+  return getCurrentUnitCost(productId);
+}
+
+/**
+ * Stock quantity and value of every product as of the end of a day, from the cost
+ * ledger. Cost layers begin when costing was switched on; `costing_since` says when.
+ */
+export function getInventoryValuation(asOfDate: string): any {
+  const db = getDatabase();
+  const asOf = `${asOfDate} 23:59:59`;
+  const rows = db.prepare(`
+    SELECT p.id as product_id, p.name as product_name, p.sku, p.size_display, p.product_type,
+      (SELECT b.name FROM brands b WHERE UPPER(p.name) LIKE UPPER(b.name) || '%' ORDER BY LENGTH(b.name) DESC LIMIT 1) as brand,
+      COALESCE(l.quantity, 0) - COALESCE(c.quantity, 0) as quantity,
+      COALESCE(l.value, 0) - COALESCE(c.value, 0) as value
+    FROM products p
+    LEFT JOIN (
+      SELECT product_id, SUM(quantity) as quantity, SUM(quantity * unit_cost) as value
+      FROM cost_layers WHERE created_at <= ? GROUP BY product_id
+    ) l ON l.product_id = p.id
+    LEFT JOIN (
+      SELECT product_id, SUM(quantity) as quantity, SUM(quantity * unit_cost) as value
+      FROM cost_consumptions WHERE created_at <= ? GROUP BY product_id
+    ) c ON c.product_id = p.id
+    WHERE l.product_id IS NOT NULL OR c.product_id IS NOT NULL
+    ORDER BY p.name
+  `).all(asOf, asOf) as any[];
+
+  const items = rows
+    .filter((row) => row.quantity !== 0 || Math.abs(row.value) >= 0.005)
+    .map((row) => ({
+      ...row,
+      value: roundMoney(row.value),
+      unit_cost: row.quantity > 0 ? roundMoney(row.value / row.quantity) : null,
+    }));
+  const since = db.prepare('SELECT MIN(created_at) as since FROM cost_layers').get() as { since: string | null };
+
+  return {
+    as_of: asOfDate,
+    method: getCostingSettings().method,
+    costing_since: since.since,
+    total_quantity: items.reduce((sum, item) => sum + item.quantity, 0),
+    total_value: roundMoney(items.reduce((sum, item) => sum + item.value, 0)),
+    items,
+  };
+}
+
+export type MarginGrouping = 'invoice' | 'product' | 'brand' | 'product_type';
+
+// Share of an invoice line's total that is revenue: after the bill discount, before tax.
+// Needs the invoice aliased as `i`.
+export const REVENUE_RATIO_SQL = `
+  COALESCE((i.total_amount - i.tax_amount) / NULLIF((SELECT SUM(x.total_price) FROM invoice_items x WHERE x.invoice_id = i.id), 0), 1)
+`;
+
+const PRODUCT_TYPE_LABELS: Record<string, string> = {
+  tire: 'Tires',
+  alloy_wheel: 'Alloy Wheels',
+  general: 'General',
+  service: 'Services',
+  bundle: 'Kits',
+};
+
+/**
+ * Gross profit, margin (profit over revenue) and markup (profit over cost) from
+ * revenue and cost of goods sold
+ */
+export function getMarginFigures(revenue: number, cogs: number) {
+  const roundedRevenue = roundMoney(revenue);
+  const roundedCogs = roundMoney(cogs);
+  const grossProfit = roundMoney(roundedRevenue - roundedCogs);
+  return {
+    revenue: roundedRevenue,
+    cogs: roundedCogs,
+    gross_profit: grossProfit,
+    margin_percent: roundedRevenue !== 0 ? roundMoney(grossProfit / roundedRevenue * 100) : null,
+    markup_percent: roundedCogs !== 0 ? roundMoney(grossProfit / roundedCogs * 100) : null,
+  };
+}
+
+/**
+ * Revenue and cost of goods sold per day between two dates. Returns come off the day
+ * their credit note was issued, as in the date range sales report.
+ */
+export function getDailyProfit(startDate: string, endDate: string): any[] {
+  const db = getDatabase();
+  const sales = db.prepare(`
+    SELECT SUBSTR(i.created_at, 1, 10) as date,
+      COALESCE(SUM(i.total_amount - i.tax_amount), 0) as revenue,
+      COALESCE(SUM((SELECT SUM(COALESCE(ii.cogs, 0)) FROM invoice_items ii WHERE ii.invoice_id = i.id)), 0) as cogs
+    FROM invoices i
+    WHERE SUBSTR(i.created_at, 1, 10) >= ? AND SUBSTR(i.created_at, 1, 10) <= ? AND i.status != 'void'
+    GROUP BY SUBSTR(i.created_at, 1, 10)
+  `).all(startDate, endDate) as { date: string; revenue: number; cogs: number }[];
+  const returns = db.prepare(`
+    SELECT SUBSTR(cn.created_at, 1, 10) as date,
+      COALESCE(SUM(cn.total_amount - cn.tax_amount), 0) as revenue,
+      COALESCE(SUM((SELECT SUM(COALESCE(cni.cogs, 0)) FROM credit_note_items cni WHERE cni.credit_note_id = cn.id)), 0) as cogs
+    FROM credit_notes cn
+    WHERE SUBSTR(cn.created_at, 1, 10) >= ? AND SUBSTR(cn.created_at, 1, 10) <= ?
+    GROUP BY SUBSTR(cn.created_at, 1, 10)
+  `).all(startDate, endDate) as { date: string; revenue: number; cogs: number }[];
+
+  const days = new Map<string, { revenue: number; cogs: number }>();
+  for (const day of sales) {
+    days.set(day.date, { revenue: day.revenue, cogs: day.cogs });
+  }
+  for (const day of returns) {
+    const entry = days.get(day.date) || { revenue: 0, cogs: 0 };
+    entry.revenue -= day.revenue;
+    entry.cogs -= day.cogs;
+    days.set(day.date, entry);
+  }
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({ date, ...getMarginFigures(day.revenue, day.cogs) }));
+}
+
+/**
+ * Gross margin on the invoices raised between two dates, net of anything returned
+ * from them since, grouped per invoice, product, brand or product type. Revenue is
+ * after all discounts and before tax; kits count under the kit.
+ */
+export function getGrossMargins(startDate: string, endDate: string, groupBy: MarginGrouping): any {
+  const db = getDatabase();
+  const lines = db.prepare(`
+    SELECT ii.id, ii.invoice_id, i.invoice_number, i.created_at, i.customer_name, ii.product_id, ii.product_name,
+      (SELECT b.name FROM brands b WHERE UPPER(ii.product_name) LIKE UPPER(b.name) || '%' ORDER BY LENGTH(b.name) DESC LIMIT 1) as brand,
+      COALESCE(p.product_type, 'general') as product_type,
+      ii.quantity, ii.total_price, COALESCE(ii.cogs, 0) as cogs,
+      ${REVENUE_RATIO_SQL} as revenue_ratio,
+      COALESCE(r.quantity, 0) as returned_quantity, COALESCE(r.total_price, 0) as returned_price, COALESCE(r.cogs, 0) as returned_cogs
+    FROM invoice_items ii
+    INNER JOIN invoices i ON i.id = ii.invoice_id
+    LEFT JOIN products p ON p.id = ii.product_id
+    LEFT JOIN (
+      SELECT invoice_item_id, SUM(quantity) as quantity, SUM(total_price) as total_price, SUM(COALESCE(cogs, 0)) as cogs
+      FROM credit_note_items GROUP BY invoice_item_id
+    ) r ON r.invoice_item_id = ii.id
+    WHERE SUBSTR(i.created_at, 1, 10) >= ? AND SUBSTR(i.created_at, 1, 10) <= ? AND i.status != 'void'
+    ORDER BY i.created_at, ii.id
+  `).all(startDate, endDate) as any[];
+
+  const groups = new Map<string, any>();
+  for (const line of lines) {
+    const key = groupBy === 'invoice' ? String(line.invoice_id)
+      : groupBy === 'product' ? String(line.product_id)
+      : groupBy === 'product_type' ? line.product_type
+      : line.brand || '';
+    const group = groups.get(key) || {
+      key,
+      label: groupBy === 'invoice' ? line.invoice_number
+        : groupBy === 'product' ? line.product_name
+        : groupBy === 'product_type' ? PRODUCT_TYPE_LABELS[line.product_type] || line.product_type
+        : line.brand || 'Other',
+      detail: groupBy === 'invoice' ? [line.created_at.slice(0, 10), line.customer_name].filter(Boolean).join(' · ') : null,
+      quantity: 0,
+      revenue: 0,
+      cogs: 0,
+    };
+    group.quantity += line.quantity - line.returned_quantity;
+    group.revenue += (line.total_price - line.returned_price) * line.revenue_ratio;
+    group.cogs += line.cogs - line.returned_cogs;
+    groups.set(key, group);
+  }
+
+  const rows = [...groups.values()]
+    .map((group) => ({ ...group, ...getMarginFigures(group.revenue, group.cogs) }))
+    .sort((a, b) => (groupBy === 'invoice' ? 0 : b.gross_profit - a.gross_profit));
+
+  return {
+    method: getCostingSettings().method,
+    summary: getMarginFigures(
+      rows.reduce((sum, row) => sum + row.revenue, 0),
+      rows.reduce((sum, row) => sum + row.cogs, 0)
+    ),
+    rows,
+  };
+}
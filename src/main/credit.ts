@@ -0,0 +1,311 @@
+import { getDatabase } from './database';
+import { PaymentMethod, PAYMENT_METHODS } from './payments';
+import { nextDocumentNumber } from './numbering';
+import { getLocalDateTime, roundMoney } from './utils';
+
+export interface SettlementInput {
+  amount: number;
+  payment_method: PaymentMethod;
+  reference?: string | null;
+  notes?: string | null;
+  invoice_id?: number | null; // settle one invoice; otherwise oldest open invoices first
+}
+
+export interface AgingBuckets {
+  days_0_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_over_90: number;
+  balance: number;
+}
+
+// Age in whole days of each open credit invoice, as of a local date
+const OPEN_INVOICES_SQL = `
+  SELECT
+    i.id, i.invoice_number, i.customer_id, i.total_amount, i.balance_due, i.created_at,
+    CAST(julianday(?) - julianday(DATE(i.created_at)) AS INTEGER) as age_days
+  FROM invoices i
+  WHERE i.balance_due > 0 AND i.status != 'void'
+`;
+
+const AGING_SUMS_SQL = `
+  COALESCE(SUM(CASE WHEN o.age_days <= 30 THEN o.balance_due ELSE 0 END), 0) as days_0_30,
+  COALESCE(SUM(CASE WHEN o.age_days BETWEEN 31 AND 60 THEN o.balance_due ELSE 0 END), 0) as days_31_60,
+  COALESCE(SUM(CASE WHEN o.age_days BETWEEN 61 AND 90 THEN o.balance_due ELSE 0 END), 0) as days_61_90,
+  COALESCE(SUM(CASE WHEN o.age_days > 90 THEN o.balance_due ELSE 0 END), 0) as days_over_90,
+  COALESCE(SUM(o.balance_due), 0) as balance
+`;
+
+const today = () => getLocalDateTime().substring(0, 10);
+
+/**
+ * Check that a credit sale can go on the customer's account.
+ * Must be called inside the invoice transaction, once the invoice and its tenders are
+ * recorded but before its balance_due is set, so the sale is not yet counted in what
+ * the customer owes.
+ */
+export function assertCreditAvailable(customerId: number | null, amount: number): void {
+  if (amount <= 0) return;
+  if (!customerId) {
+    throw new Error('Credit sales need a customer phone number');
+  }
+
+  const db = getDatabase();
+  const customer = db.prepare(`
+    SELECT c.name, c.phone, c.credit_limit,
+      COALESCE((SELECT SUM(i.balance_due) FROM invoices i WHERE i.customer_id = c.id AND i.status != 'void'), 0) as balance
+    FROM customers c
+    WHERE c.id = ?
+  `).get(customerId) as any;
+  if (!customer) {
+    throw new Error('Customer not found');
+  }
+  if (customer.credit_limit === null || customer.credit_limit === undefined) {
+    throw new Error(`${customer.name || customer.phone} does not have a credit account`);
+  }
+
+  const available = roundMoney(customer.credit_limit - customer.balance);
+  if (roundMoney(amount) > available) {
+    throw new Error(
+      `Credit limit exceeded: Rs. ${available.toFixed(2)} available of Rs. ${customer.credit_limit.toFixed(2)}`
+    );
+  }
+}
+
+/**
+ * Store credit a customer has left from returns
+ */
+export function getStoreCreditBalance(customerId: number): number {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT COALESCE(SUM(cn.credit_balance), 0) as balance
+    FROM credit_notes cn
+    INNER JOIN invoices i ON cn.invoice_id = i.id
+    WHERE i.customer_id = ?
+  `).get(customerId) as { balance: number };
+  return roundMoney(row.balance);
+}
+
+/**
+ * Spend a customer's store credit on a sale, oldest credit note first.
+ * Must be called inside the invoice transaction.
+ */
+export function redeemStoreCredit(customerId: number | null, invoiceId: number, amount: number, createdAt: string): void {
+  if (amount <= 0) return;
+  if (!customerId) {
+    throw new Error('Paying with store credit needs the customer\'s phone number');
+  }
+  const available = getStoreCreditBalance(customerId);
+  if (roundMoney(amount) > available) {
+    throw new Error(`Only Rs. ${available.toFixed(2)} of store credit is available`);
+  }
+
+  const db = getDatabase();
+  const creditNotes = db.prepare(`
+    SELECT cn.id, cn.credit_balance
+    FROM credit_notes cn
+    INNER JOIN invoices i ON cn.invoice_id = i.id
+    WHERE i.customer_id = ? AND cn.credit_balance > 0
+    ORDER BY cn.created_at, cn.id
+  `).all(customerId) as { id: number; credit_balance: number }[];
+  const drawStmt = db.prepare('UPDATE credit_notes SET credit_balance = ? WHERE id = ?');
+  const redemptionStmt = db.prepare(`
+    INSERT INTO store_credit_redemptions (credit_note_id, invoice_id, amount, created_at) VALUES (?, ?, ?, ?)
+  `);
+
+  let remaining = roundMoney(amount);
+  for (const creditNote of creditNotes) {
+    if (remaining <= 0) break;
+    const drawn = Math.min(creditNote.credit_balance, remaining);
+    drawStmt.run(roundMoney(creditNote.credit_balance - drawn), creditNote.id);
+    redemptionStmt.run(creditNote.id, invoiceId, drawn, createdAt);
+    remaining = roundMoney(remaining - drawn);
+  }
+}
+
+/**
+ * Give back the store credit spent on a voided sale. Must run in the void transaction.
+ */
+export function restoreStoreCredit(invoiceId: number): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE credit_notes
+    SET credit_balance = ROUND(credit_balance + (SELECT SUM(r.amount) FROM store_credit_redemptions r
+                                                WHERE r.credit_note_id = credit_notes.id AND r.invoice_id = ?), 2)
+    WHERE id IN (SELECT credit_note_id FROM store_credit_redemptions WHERE invoice_id = ?)
+  `).run(invoiceId, invoiceId);
+  db.prepare('DELETE FROM store_credit_redemptions WHERE invoice_id = ?').run(invoiceId);
+}
+
+/**
+ * Open credit invoices for a customer, oldest first
+ */
+export function getOpenInvoices(customerId: number): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    ${OPEN_INVOICES_SQL}
+    AND i.customer_id = ?
+    ORDER BY i.created_at, i.id
+  `).all(today(), customerId);
+}
+
+/**
+ * Record a payment against a customer's account. The amount is allocated to the chosen
+ * invoice, or to the oldest open invoices first, and cannot exceed what is owed.
+ */
+export function recordSettlement(customerId: number, data: SettlementInput): { id: number; settlement_number: string; amount: number; allocations: Array<{ invoice_id: number; invoice_number: string; amount: number }> } {
+  const db = getDatabase();
+
+  const amount = roundMoney(Number(data.amount) || 0);
+  if (amount <= 0) {
+    throw new Error('Payment amount must be greater than zero');
+  }
+  if (!PAYMENT_METHODS.includes(data.payment_method) || data.payment_method === 'credit' || data.payment_method === 'store_credit') {
+    throw new Error(`Invalid payment method: ${data.payment_method}`);
+  }
+
+  const transaction = db.transaction(() => {
+    let openInvoices = getOpenInvoices(customerId);
+    if (data.invoice_id) {
+      openInvoices = openInvoices.filter((invoice) => invoice.id === data.invoice_id);
+      if (openInvoices.length === 0) {
+        throw new Error('Invoice is not open on this customer\'s account');
+      }
+    }
+
+    const owed = roundMoney(openInvoices.reduce((sum, invoice) => sum + invoice.balance_due, 0));
+    if (owed <= 0) {
+      throw new Error('Nothing is owed on this account');
+    }
+    if (amount > owed) {
+      throw new Error(`Payment (Rs. ${amount.toFixed(2)}) is more than the balance owed (Rs. ${owed.toFixed(2)})`);
+    }
+
+    const numberTakenStmt = db.prepare('SELECT 1 FROM customer_settlements WHERE settlement_number = ?');
+    const settlementNumber = nextDocumentNumber('customer_settlement', (number) => !!numberTakenStmt.get(number));
+    const settlementResult = db.prepare(`
+      INSERT INTO customer_settlements (settlement_number, customer_id, amount, payment_method, reference, notes, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(settlementNumber, customerId, amount, data.payment_method, data.reference || null, data.notes || null, getLocalDateTime());
+    const settlementId = settlementResult.lastInsertRowid as number;
+
+    const allocationStmt = db.prepare(`
+      INSERT INTO settlement_allocations (settlement_id, invoice_id, amount) VALUES (?, ?, ?)
+    `);
+    const balanceStmt = db.prepare('UPDATE invoices SET balance_due = ? WHERE id = ?');
+
+    const allocations: Array<{ invoice_id: number; invoice_number: string; amount: number }> = [];
+    let remaining = amount;
+    for (const invoice of openInvoices) {
+      if (remaining <= 0) break;
+      const applied = Math.min(invoice.balance_due, remaining);
+      allocationStmt.run(settlementId, invoice.id, applied);
+      balanceStmt.run(roundMoney(invoice.balance_due - applied), invoice.id);
+      allocations.push({ invoice_id: invoice.id, invoice_number: invoice.invoice_number, amount: applied });
+      remaining = roundMoney(remaining - applied);
+    }
+
+    return { id: settlementId, settlement_number: settlementNumber, amount, allocations };
+  });
+
+  return transaction();
+}
+
+/**
+ * Outstanding balances by customer in 0-30, 31-60, 61-90 and 90+ day buckets,
+ * aged from the invoice date
+ */
+export function getReceivablesAging(): { customers: any[]; totals: AgingBuckets } {
+  const db = getDatabase();
+  const asOf = today();
+
+  const customers = db.prepare(`
+    SELECT
+      c.id as customer_id, c.name, c.phone, c.credit_limit,
+      COUNT(o.id) as open_invoices,
+      MIN(o.created_at) as oldest_invoice,
+      ${AGING_SUMS_SQL}
+    FROM (${OPEN_INVOICES_SQL}) o
+    INNER JOIN customers c ON o.customer_id = c.id
+    GROUP BY c.id
+    ORDER BY balance DESC
+  `).all(asOf);
+
+  const totals = db.prepare(`
+    SELECT ${AGING_SUMS_SQL}
+    FROM (${OPEN_INVOICES_SQL}) o
+  `).get(asOf) as AgingBuckets;
+
+  return { customers, totals };
+}
+
+/**
+ * Account statement for a customer: credit sales, returns against them and payments
+ * with a running balance, and the store credit left. Dates are inclusive local dates;
+ * without a start date the statement covers the whole account.
+ */
+export function getCustomerStatement(customerId: number, startDate?: string | null, endDate?: string | null): any {
+  const db = getDatabase();
+  const customer = db.prepare('SELECT * FROM customers WHERE id = ?').get(customerId) as any;
+  if (!customer) {
+    throw new Error('Customer not found');
+  }
+
+  const entries = db.prepare(`
+    SELECT * FROM (
+      SELECT i.created_at as date, 'invoice' as type, i.invoice_number as reference,
+        'Credit sale' as description, SUM(ip.amount) as debit, 0 as credit
+      FROM invoice_payments ip
+      INNER JOIN invoices i ON ip.invoice_id = i.id
+      WHERE i.customer_id = ? AND i.status != 'void' AND ip.payment_method = 'credit'
+      GROUP BY i.id
+
+      UNION ALL
+
+      SELECT cn.created_at, 'return', cn.credit_note_number,
+        'Return on ' || i.invoice_number, 0, cn.account_credit
+      FROM credit_notes cn
+      INNER JOIN invoices i ON cn.invoice_id = i.id
+      WHERE i.customer_id = ? AND cn.account_credit > 0
+
+      UNION ALL
+
+      SELECT s.created_at, 'payment', s.settlement_number,
+        'Payment (' || REPLACE(s.payment_method, '_', ' ') || COALESCE(' ' || s.reference, '') || ')', 0, s.amount
+      FROM customer_settlements s
+      WHERE s.customer_id = ?
+    )
+    ORDER BY date, type
+  `).all(customerId, customerId, customerId) as any[];
+
+  let openingBalance = 0;
+  let balance = 0;
+  const lines: any[] = [];
+  for (const entry of entries) {
+    const day = entry.date.substring(0, 10);
+    if (endDate && day > endDate) continue;
+    balance = roundMoney(balance + entry.debit - entry.credit);
+    if (startDate && day < startDate) {
+      openingBalance = balance;
+      continue;
+    }
+    lines.push({ ...entry, balance });
+  }
+
+  const aging = db.prepare(`
+    SELECT ${AGING_SUMS_SQL}
+    FROM (${OPEN_INVOICES_SQL} AND i.customer_id = ?) o
+  `).get(today(), customerId) as AgingBuckets;
+
+  return {
+    customer,
+    start_date: startDate || null,
+    end_date: endDate || today(),
+    opening_balance: openingBalance,
+    closing_balance: balance,
+    store_credit: getStoreCreditBalance(customerId),
+    entries: lines,
+    open_invoices: getOpenInvoices(customerId),
+    aging,
+  };
+}
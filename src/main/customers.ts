@@ -0,0 +1,403 @@
+import { getDatabase } from './database';
+import { getLocalDateTime, normalizePhone } from './utils';
+
+export interface CustomerInput {
+  name?: string | null;
+  phone: string;
+  email?: string | null;
+  address?: string | null;
+  notes?: string | null;
+  credit_limit?: number | null; // null: no credit account
+}
+
+export interface VehicleInput {
+  customer_id: number;
+  registration_number: string;
+  make?: string | null;
+  model?: string | null;
+  year?: number | null;
+  tire_size?: string | null;
+  wheel_pcd?: string | null;
+  wheel_stud_count?: number | null;
+  notes?: string | null;
+}
+
+// Lifetime figures leave out void invoices and are net of returns; store_credit is left to spend
+const CUSTOMER_STATS_SQL = `
+  SELECT
+    c.*,
+    COUNT(i.id) as visit_count,
+    COALESCE(SUM(i.total_amount), 0) - COALESCE((
+      SELECT SUM(cn.total_amount)
+      FROM credit_notes cn
+      INNER JOIN invoices ri ON cn.invoice_id = ri.id
+      WHERE ri.customer_id = c.id AND ri.status != 'void'
+    ), 0) as total_spent,
+    MAX(i.created_at) as last_visit,
+    COALESCE(SUM(i.balance_due), 0) as balance_due,
+    COALESCE((
+      SELECT SUM(cn.credit_balance)
+      FROM credit_notes cn
+      INNER JOIN invoices ri ON cn.invoice_id = ri.id
+      WHERE ri.customer_id = c.id
+    ), 0) as store_credit
+  FROM customers c
+  LEFT JOIN invoices i ON i.customer_id = c.id AND i.status != 'void'
+`;
+
+/**
+ * Get all customers with visit count, lifetime spend and last visit.
+ * `search` matches the name or phone number.
+ */
+export function getCustomers(search?: string): any[] {
+  const db = getDatabase();
+  const term = search?.trim();
+  if (!term) {
+    return db.prepare(`
+      ${CUSTOMER_STATS_SQL}
+      GROUP BY c.id
+      ORDER BY COALESCE(last_visit, c.created_at) DESC
+    `).all();
+  }
+
+  const phoneTerm = normalizePhone(term) || term;
+  return db.prepare(`
+    ${CUSTOMER_STATS_SQL}
+    WHERE c.name LIKE ? OR c.phone LIKE ?
+    GROUP BY c.id
+    ORDER BY COALESCE(last_visit, c.created_at) DESC
+  `).all(`%${term}%`, `%${phoneTerm}%`);
+}
+
+/**
+ * Find customers whose phone number contains the digits typed so far (Billing autocomplete)
+ */
+export function searchCustomersByPhone(phone: string): any[] {
+  const db = getDatabase();
+  const digits = normalizePhone(phone);
+  if (!digits) return [];
+  return db.prepare(`
+    ${CUSTOMER_STATS_SQL}
+    WHERE c.phone LIKE ?
+    GROUP BY c.id
+    ORDER BY CASE WHEN c.phone = ? THEN 0 ELSE 1 END, last_visit DESC
+    LIMIT 8
+  `).all(`%${digits}%`, digits);
+}
+
+/**
+ * Get a customer with lifetime figures, visit history and every item bought
+ */
+export function getCustomerById(id: number): any {
+  const db = getDatabase();
+  const customer = db.prepare(`
+    ${CUSTOMER_STATS_SQL}
+    WHERE c.id = ?
+    GROUP BY c.id
+  `).get(id) as any;
+  if (!customer) return null;
+
+  customer.vehicles = getCustomerVehicles(id);
+
+  customer.invoices = db.prepare(`
+    SELECT
+      i.id, i.invoice_number, i.status, i.total_amount, i.balance_due, i.payment_method, i.created_at,
+      v.registration_number,
+      COALESCE((SELECT SUM(ii.quantity) FROM invoice_items ii WHERE ii.invoice_id = i.id), 0) as item_count,
+      COALESCE((SELECT SUM(cn.total_amount) FROM credit_notes cn WHERE cn.invoice_id = i.id), 0) as returned_amount
+    FROM invoices i
+    LEFT JOIN customer_vehicles v ON i.vehicle_id = v.id
+    WHERE i.customer_id = ?
+    ORDER BY i.created_at DESC
+  `).all(id);
+
+  customer.items = db.prepare(`
+    SELECT
+      ii.id, ii.product_id, ii.product_name, ii.quantity, ii.unit_price, ii.total_price,
+      COALESCE((SELECT SUM(cni.quantity) FROM credit_note_items cni WHERE cni.invoice_item_id = ii.id), 0) as quantity_returned,
+      p.product_type, p.size_display,
+      i.invoice_number, i.created_at
+    FROM invoice_items ii
+    INNER JOIN invoices i ON ii.invoice_id = i.id
+    LEFT JOIN products p ON ii.product_id = p.id
+    WHERE i.customer_id = ? AND i.status != 'void'
+    ORDER BY i.created_at DESC, ii.id
+  `).all(id);
+
+  return customer;
+}
+
+function validateCreditLimit(value: number | null | undefined): number | null {
+  if (value === null || value === undefined || (value as any) === '') return null;
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new Error('Credit limit must be zero or more');
+  }
+  return limit;
+}
+
+/**
+ * Create a customer. The phone number is the unique key.
+ */
+export function createCustomer(data: CustomerInput): any {
+  const db = getDatabase();
+  const phone = normalizePhone(data.phone);
+  if (!phone) {
+    throw new Error('Phone number is required');
+  }
+  const creditLimit = validateCreditLimit(data.credit_limit);
+  try {
+    const result = db.prepare(`
+      INSERT INTO customers (name, phone, email, address, notes, credit_limit, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      data.name?.trim() || null,
+      phone,
+      data.email || null,
+      data.address || null,
+      data.notes || null,
+      creditLimit,
+      getLocalDateTime()
+    );
+    return { id: result.lastInsertRowid, ...data, phone, credit_limit: creditLimit };
+  } catch (e: any) {
+    if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw new Error('A customer with this phone number already exists');
+    }
+    throw e;
+  }
+}
+
+/**
+ * Update a customer. Invoices keep the name and phone printed on them.
+ */
+export function updateCustomer(id: number, data: CustomerInput): any {
+  const db = getDatabase();
+  const phone = normalizePhone(data.phone);
+  if (!phone) {
+    throw new Error('Phone number is required');
+  }
+  const creditLimit = validateCreditLimit(data.credit_limit);
+  if (creditLimit === null) {
+    const owed = db.prepare(`
+      SELECT COALESCE(SUM(balance_due), 0) as balance FROM invoices WHERE customer_id = ? AND status != 'void'
+    `).get(id) as { balance: number };
+    if (owed.balance > 0) {
+      throw new Error(`Cannot close the credit account while Rs. ${owed.balance.toFixed(2)} is owed`);
+    }
+  }
+  try {
+    const result = db.prepare(`
+      UPDATE customers
+      SET name = ?, phone = ?, email = ?, address = ?, notes = ?, credit_limit = ?
+      WHERE id = ?
+    `).run(
+      data.name?.trim() || null,
+      phone,
+      data.email || null,
+      data.address || null,
+      data.notes || null,
+      creditLimit,
+      id
+    );
+    if (result.changes === 0) {
+      throw new Error('Customer not found');
+    }
+    return { id, ...data, phone, credit_limit: creditLimit };
+  } catch (e: any) {
+    if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw new Error('A customer with this phone number already exists');
+    }
+    throw e;
+  }
+}
+
+/**
+ * Delete a customer. Customers with invoices are kept for the sales history.
+ */
+export function deleteCustomer(id: number): { success: boolean } {
+  const db = getDatabase();
+  const invoices = db.prepare('SELECT COUNT(*) as count FROM invoices WHERE customer_id = ?').get(id) as { count: number };
+  if (invoices.count > 0) {
+    throw new Error(`Cannot delete customer: ${invoices.count} invoice(s) reference it`);
+  }
+  const result = db.prepare('DELETE FROM customers WHERE id = ?').run(id);
+  if (result.changes === 0) {
+    throw new Error('Customer not found');
+  }
+  return { success: true };
+}
+
+/**
+ * Find or create the customer for a new invoice by phone number.
+ * A name or email on the bill fills in missing details but never overwrites them.
+ * Returns null for walk-in sales without a phone number.
+ */
+export function resolveInvoiceCustomer(data: { customer_name?: string | null; customer_phone?: string | null; customer_email?: string | null }): number | null {
+  const db = getDatabase();
+  const phone = normalizePhone(data.customer_phone);
+  if (!phone) return null;
+
+  const name = data.customer_name?.trim() || null;
+  const email = data.customer_email?.trim() || null;
+
+  const existing = db.prepare('SELECT id FROM customers WHERE phone = ?').get(phone) as { id: number } | undefined;
+  if (existing) {
+    db.prepare(`
+      UPDATE customers SET name = COALESCE(name, ?), email = COALESCE(email, ?) WHERE id = ?
+    `).run(name, email, existing.id);
+    return existing.id;
+  }
+
+  const result = db.prepare(`
+    INSERT INTO customers (name, phone, email, created_at) VALUES (?, ?, ?, ?)
+  `).run(name, phone, email, getLocalDateTime());
+  return result.lastInsertRowid as number;
+}
+
+/**
+ * Registration numbers are stored upper case with single spaces, e.g. "WP CAB-1234"
+ */
+function normalizeRegistration(registration: string | null | undefined): string | null {
+  const normalized = (registration || '').trim().toUpperCase().replace(/\s+/g, ' ');
+  return normalized || null;
+}
+
+function validateVehicle(data: VehicleInput): { registration: string; year: number | null; studCount: number | null } {
+  const registration = normalizeRegistration(data.registration_number);
+  if (!registration) {
+    throw new Error('Registration number is required');
+  }
+  const year = data.year ? Number(data.year) : null;
+  if (year !== null && (!Number.isInteger(year) || year < 1950 || year > new Date().getFullYear() + 1)) {
+    throw new Error('Please enter a valid model year');
+  }
+  const studCount = data.wheel_stud_count ? Number(data.wheel_stud_count) : null;
+  if (studCount !== null && (!Number.isInteger(studCount) || studCount < 3 || studCount > 10)) {
+    throw new Error('Stud count must be between 3 and 10');
+  }
+  return { registration, year, studCount };
+}
+
+/**
+ * Get a customer's vehicles with their last visit
+ */
+export function getCustomerVehicles(customerId: number): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      v.*,
+      COUNT(i.id) as visit_count,
+      MAX(i.created_at) as last_visit
+    FROM customer_vehicles v
+    LEFT JOIN invoices i ON i.vehicle_id = v.id AND i.status != 'void'
+    WHERE v.customer_id = ?
+    GROUP BY v.id
+    ORDER BY v.registration_number
+  `).all(customerId);
+}
+
+/**
+ * Add a vehicle to a customer. Registration numbers are unique across customers.
+ */
+export function createVehicle(data: VehicleInput): any {
+  const db = getDatabase();
+  const { registration, year, studCount } = validateVehicle(data);
+  try {
+    const result = db.prepare(`
+      INSERT INTO customer_vehicles (customer_id, registration_number, make, model, year, tire_size, wheel_pcd, wheel_stud_count, notes, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      data.customer_id,
+      registration,
+      data.make?.trim() || null,
+      data.model?.trim() || null,
+      year,
+      data.tire_size?.trim().toUpperCase() || null,
+      data.wheel_pcd?.trim().toLowerCase() || null,
+      studCount,
+      data.notes || null,
+      getLocalDateTime()
+    );
+    return { id: result.lastInsertRowid, ...data, registration_number: registration };
+  } catch (e: any) {
+    if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw new Error(`Vehicle ${registration} is already registered`);
+    }
+    if (e.code === 'SQLITE_CONSTRAINT_FOREIGNKEY') {
+      throw new Error('Customer not found');
+    }
+    throw e;
+  }
+}
+
+/**
+ * Update a vehicle. Ownership can be moved by changing customer_id.
+ */
+export function updateVehicle(id: number, data: VehicleInput): any {
+  const db = getDatabase();
+  const { registration, year, studCount } = validateVehicle(data);
+  try {
+    const result = db.prepare(`
+      UPDATE customer_vehicles
+      SET customer_id = ?, registration_number = ?, make = ?, model = ?, year = ?,
+          tire_size = ?, wheel_pcd = ?, wheel_stud_count = ?, notes = ?
+      WHERE id = ?
+    `).run(
+      data.customer_id,
+      registration,
+      data.make?.trim() || null,
+      data.model?.trim() || null,
+      year,
+      data.tire_size?.trim().toUpperCase() || null,
+      data.wheel_pcd?.trim().toLowerCase() || null,
+      studCount,
+      data.notes || null,
+      id
+    );
+    if (result.changes === 0) {
+      throw new Error('Vehicle not found');
+    }
+    return { id, ...data, registration_number: registration };
+  } catch (e: any) {
+    if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw new Error(`Vehicle ${registration} is already registered`);
+    }
+    if (e.code === 'SQLITE_CONSTRAINT_FOREIGNKEY') {
+      throw new Error('Customer not found');
+    }
+    throw e;
+  }
+}
+
+/**
+ * Delete a vehicle. Vehicles on invoices are kept for the service history.
+ */
+export function deleteVehicle(id: number): { success: boolean } {
+  const db = getDatabase();
+  const invoices = db.prepare('SELECT COUNT(*) as count FROM invoices WHERE vehicle_id = ?').get(id) as { count: number };
+  if (invoices.count > 0) {
+    throw new Error(`Cannot delete vehicle: ${invoices.count} invoice(s) reference it`);
+  }
+  const result = db.prepare('DELETE FROM customer_vehicles WHERE id = ?').run(id);
+  if (result.changes === 0) {
+    throw new Error('Vehicle not found');
+  }
+  return { success: true };
+}
+
+/**
+ * Check that the vehicle on a new invoice belongs to the invoice's customer
+ */
+export function resolveInvoiceVehicle(vehicleId: number | null | undefined, customerId: number | null): number | null {
+  if (!vehicleId) return null;
+  const db = getDatabase();
+  const vehicle = db.prepare('SELECT customer_id FROM customer_vehicles WHERE id = ?').get(vehicleId) as { customer_id: number } | undefined;
+  if (!vehicle) {
+    throw new Error('Vehicle not found');
+  }
+  if (vehicle.customer_id !== customerId) {
+    throw new Error('The selected vehicle does not belong to this customer');
+  }
+  return vehicleId;
+}
@@ -0,0 +1,149 @@
+import { verifyAdminPassword } from './auth';
+import { getSetting, setSetting } from './settings';
+import { roundMoney } from './utils';
+
+export type DiscountType = 'percent' | 'amount';
+
+export interface DiscountSettings {
+  approval_limit_percent: number; // discounts above this need the admin password
+}
+
+export interface InvoiceLineInput {
+  product_id: number;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  unit_ids?: number[]; // DOT units picked in Billing; the oldest are sold otherwise
+}
+
+export interface PricedLine extends InvoiceLineInput {
+  discount_type: DiscountType | null;
+  discount_value: number;
+  discount_amount: number;
+  total_price: number;
+}
+
+export interface PricedInvoice {
+  items: PricedLine[];
+  subtotal: number; // gross of quantity x unit price
+  bill_discount_type: DiscountType | null;
+  bill_discount_value: number;
+  discount_amount: number; // line discounts plus bill discount
+  max_discount_percent: number; // largest of each discount and the invoice's total discount on its gross
+}
+
+const APPROVAL_LIMIT_KEY = 'discount_approval_limit';
+
+/**
+ * Get the discount approval limit
+ */
+export function getDiscountSettings(): DiscountSettings {
+  return { approval_limit_percent: parseFloat(getSetting(APPROVAL_LIMIT_KEY, '10')) };
+}
+
+/**
+ * Update the discount approval limit (0-100%)
+ */
+export function updateDiscountSettings(data: DiscountSettings): DiscountSettings {
+  const limit = Number(data.approval_limit_percent);
+  if (!Number.isFinite(limit) || limit < 0 || limit > 100) {
+    throw new Error('Approval limit must be between 0 and 100%');
+  }
+  setSetting(APPROVAL_LIMIT_KEY, String(limit));
+  return getDiscountSettings();
+}
+
+/**
+ * Money value of a percent or fixed discount on an amount. Cannot exceed the amount.
+ */
+export function calculateDiscount(amount: number, type: DiscountType | null | undefined, value: number | null | undefined): number {
+  const discountValue = Number(value) || 0;
+  if (!type || discountValue === 0) return 0;
+  if (discountValue < 0) {
+    throw new Error('Discounts cannot be negative');
+  }
+  if (type === 'percent') {
+    if (discountValue > 100) {
+      throw new Error('A percentage discount cannot be more than 100%');
+    }
+    return roundMoney(amount * discountValue / 100);
+  }
+  if (type === 'amount') {
+    if (discountValue > amount + 0.005) {
+      throw new Error(`Discount of Rs. ${discountValue.toFixed(2)} is more than the amount (Rs. ${amount.toFixed(2)})`);
+    }
+    return roundMoney(discountValue);
+  }
+  throw new Error(`Unknown discount type: ${type}`);
+}
+
+/**
+ * Work out line totals and discounts for a new invoice. Line discounts apply to the
+ * line's gross; the bill discount applies to what is left after line discounts.
+ */
+export function priceInvoice(data: {
+  items: InvoiceLineInput[];
+  bill_discount_type?: DiscountType | null;
+  bill_discount_value?: number | null;
+}): PricedInvoice {
+  let maxPercent = 0;
+
+  const items: PricedLine[] = (data.items || []).map((item) => {
+    const gross = roundMoney(item.quantity * item.unit_price);
+    const discountAmount = calculateDiscount(gross, item.discount_type, item.discount_value);
+    if (gross > 0) maxPercent = Math.max(maxPercent, discountAmount / gross * 100);
+    return {
+      ...item,
+      discount_type: discountAmount > 0 ? item.discount_type || null : null,
+      discount_value: discountAmount > 0 ? Number(item.discount_value) : 0,
+      discount_amount: discountAmount,
+      total_price: roundMoney(gross - discountAmount),
+    };
+  });
+
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0));
+  const afterLines = roundMoney(items.reduce((sum, item) => sum + item.total_price, 0));
+  const billDiscount = calculateDiscount(afterLines, data.bill_discount_type, data.bill_discount_value);
+  if (afterLines > 0) maxPercent = Math.max(maxPercent, billDiscount / afterLines * 100);
+  const discountAmount = roundMoney(subtotal - afterLines + billDiscount);
+  if (subtotal > 0) maxPercent = Math.max(maxPercent, discountAmount / subtotal * 100);
+
+  return {
+    items,
+    subtotal,
+    bill_discount_type: billDiscount > 0 ? data.bill_discount_type || null : null,
+    bill_discount_value: billDiscount > 0 ? Number(data.bill_discount_value) : 0,
+    discount_amount: discountAmount,
+    max_discount_percent: roundMoney(maxPercent),
+  };
+}
+
+/**
+ * Price an invoice and check its discounts against the approval limit.
+ * A line or bill discount above the limit needs the admin password, and so does
+ * an invoice whose line and bill discounts together come to more than the limit
+ * of its gross.
+ */
+export async function authorizeInvoiceDiscounts(data: {
+  items: InvoiceLineInput[];
+  bill_discount_type?: DiscountType | null;
+  bill_discount_value?: number | null;
+  discount_password?: string | null;
+}): Promise<PricedInvoice & { discount_authorized: boolean }> {
+  const priced = priceInvoice(data);
+  const { approval_limit_percent: limit } = getDiscountSettings();
+
+  if (priced.max_discount_percent <= limit) {
+    return { ...priced, discount_authorized: false };
+  }
+  if (!data.discount_password) {
+    throw new Error(`Discounts over ${limit}% need the admin password`);
+  }
+  const isValid = await verifyAdminPassword(data.discount_password);
+  if (!isValid) {
+    throw new Error('Admin password is incorrect');
+  }
+  return { ...priced, discount_authorized: true };
+}
@@ -0,0 +1,214 @@
+import { getDatabase } from './database';
+import { verifyAdminPassword } from './auth';
+import { getLocalDateTime } from './utils';
+import { getInvoiceItemStockLines } from './bundles';
+import { releaseUnits } from './units';
+import { voidWarranties } from './warranties';
+import { changeLocationStock, getLocationQuantity, getReturnLocationId } from './locations';
+import { addCostLayer, getSoldUnitCost } from './costing';
+import { restoreStoreCredit } from './credit';
+import { getHeldQuantity } from './carts';
+
+/**
+ * Void an invoice. Requires a reason and the admin password.
+ * Stock is restored with compensating 'void' stock movements, at the cost it was sold at; the invoice keeps
+ * its number and rows but is marked 'void' so reports leave it out. Any credit sale
+ * comes off the customer's account, store credit spent on it is given back and its
+ * warranties are voided.
+ */
+export async function voidInvoice(invoiceId: number, reason: string, adminPassword: string): Promise<{ success: boolean }> {
+  if (!reason || !reason.trim()) {
+    throw new Error('A reason is required to void an invoice');
+  }
+
+  const isValid = await verifyAdminPassword(adminPassword);
+  if (!isValid) {
+    throw new Error('Admin password is incorrect');
+  }
+
+  const db = getDatabase();
+  const transaction = db.transaction(() => {
+    const invoice = db.prepare('SELECT * FROM invoices WHERE id = ?').get(invoiceId) as any;
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (invoice.status === 'void') {
+      throw new Error('Invoice is already void');
+    }
+    if (invoice.status === 'returned' || invoice.status === 'partially_returned') {
+      throw new Error('Invoices with returns cannot be voided; return the remaining items instead');
+    }
+    const settled = db.prepare('SELECT COUNT(*) as count FROM settlement_allocations WHERE invoice_id = ?').get(invoiceId) as { count: number };
+    if (settled.count > 0) {
+      throw new Error('Invoices with account payments against them cannot be voided');
+    }
+    voidWarranties(invoiceId);
+    restoreStoreCredit(invoiceId);
+
+    const localDateTime = getLocalDateTime();
+    const items = db.prepare('SELECT * FROM invoice_items WHERE invoice_id = ?').all(invoiceId) as any[];
+    const locationId = getReturnLocationId(invoice.location_id);
+
+    // Services carry no stock
+    const stockUpdateStmt = db.prepare(`
+      UPDATE products SET stock_quantity = stock_quantity + ? WHERE id = ? AND product_type IS NOT 'service'
+    `);
+    const stockMovementStmt = db.prepare(`
+      INSERT INTO stock_movements (product_id, movement_type, quantity, reference_id, notes, location_id, created_at)
+      VALUES (?, 'void', ?, ?, ?, ?, ?)
+    `);
+
+    // Kit lines put back the components they took, at the location they left;
+    // DOT units go back in stock
+    for (const item of items) {
+      for (const line of getInvoiceItemStockLines(item)) {
+        if (stockUpdateStmt.run(line.quantity, line.product_id).changes === 0) continue;
+        stockMovementStmt.run(
+          line.product_id,
+          line.quantity,
+          invoiceId,
+          `Void ${invoice.invoice_number}: ${reason.trim()}`,
+          locationId,
+          localDateTime
+        );
+        changeLocationStock(line.product_id, locationId, line.quantity);
+        addCostLayer(line.product_id, line.quantity, getSoldUnitCost(item.id, line.product_id), 'void', invoiceId, localDateTime);
+        releaseUnits(item.id, line.product_id, line.quantity, locationId);
+      }
+    }
+
+    db.prepare(`
+      UPDATE invoices SET status = 'void', void_reason = ?, voided_at = ?, balance_due = 0 WHERE id = ?
+    `).run(reason.trim(), localDateTime, invoiceId);
+  });
+
+  transaction();
+  return { success: true };
+}
+
+// Marks the JSON list of offending lines at the end of a rejected sale's error message,
+// the only part of an error that crosses IPC
+export const SALE_REJECTED_MARKER = '[sale-rejected]';
+
+export interface SaleProblem {
+  line: number; // index of the sale line; for stock, the first line that needs it
+  product_id: number;
+  product_name: string;
+  code: 'invalid_quantity' | 'not_found' | 'price_changed' | 'quote_not_valid' | 'insufficient_stock';
+  message: string;
+  requested?: number;
+  available?: number;
+  price?: number;
+}
+
+/**
+ * Check a sale against the database before anything is written: it has at least one
+ * line, every product exists, quantities are whole and above zero, prices are the
+ * product's own (or the converted quotation's, while it is open and unexpired) and the
+ * location holds the stock, adding up repeat lines and kit components. Stock on hold in
+ * carts parked at the location is not available; a cart being checked out was removed
+ * when it was resumed, so it holds nothing. Products that allow backorders may go below
+ * zero. Must run in the invoice's transaction. Throws one error listing every offending line.
+ */
+export function validateSaleItems(
+  items: { product_id: number; product_name?: string; quantity: number; unit_price: number }[],
+  locationId: number,
+  quotationId?: number | null
+): void {
+  if (items.length === 0) {
+    throw new Error('Add at least one item to the sale');
+  }
+
+  const db = getDatabase();
+  const productStmt = db.prepare('SELECT id, name, price, product_type, allow_backorder FROM products WHERE id = ?');
+  const componentsStmt = db.prepare(`
+    SELECT bc.component_id, bc.quantity, p.name, p.product_type, p.allow_backorder
+    FROM bundle_components bc
+    INNER JOIN products p ON p.id = bc.component_id
+    WHERE bc.bundle_id = ?
+  `);
+  const quotedPriceStmt = db.prepare('SELECT 1 FROM quotation_items WHERE quotation_id = ? AND product_id = ? AND ABS(unit_price - ?) < 0.005');
+  // Quoted prices only hold while the quotation is open and still valid
+  const quotation = quotationId
+    ? db.prepare('SELECT quotation_number, status, valid_until FROM quotations WHERE id = ?').get(quotationId) as
+      { quotation_number: string; status: string; valid_until: string } | undefined
+    : undefined;
+  const quotationProblem = !quotation ? 'the quotation no longer exists'
+    : quotation.status !== 'open' ? `quotation ${quotation.quotation_number} is ${quotation.status}`
+    : quotation.valid_until < getLocalDateTime().substring(0, 10) ? `quotation ${quotation.quotation_number} expired on ${quotation.valid_until}`
+    : null;
+
+  const problems: SaleProblem[] = [];
+  // Stock needed per product across the sale, with the first line that needs it
+  const needed = new Map<number, { name: string; quantity: number; line: number }>();
+  const need = (productId: number, name: string, quantity: number, line: number) => {
+    const entry = needed.get(productId);
+    needed.set(productId, entry ? { ...entry, quantity: entry.quantity + quantity } : { name, quantity, line });
+  };
+
+  items.forEach((item, line) => {
+    const name = item.product_name || 'Unknown product';
+    const product = productStmt.get(item.product_id) as any;
+    if (!product) {
+      problems.push({ line, product_id: item.product_id, product_name: name, code: 'not_found', message: `${name} no longer exists` });
+      return;
+    }
+    const quantity = Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      problems.push({ line, product_id: product.id, product_name: product.name, code: 'invalid_quantity', message: `${product.name}: quantity must be a whole number above zero` });
+      return;
+    }
+    const unitPrice = Number(item.unit_price);
+    const quoted = quotationId && quotedPriceStmt.get(quotationId, product.id, unitPrice);
+    if (Math.abs(unitPrice - product.price) >= 0.005 && quoted && quotationProblem) {
+      problems.push({
+        line,
+        product_id: product.id,
+        product_name: product.name,
+        code: 'quote_not_valid',
+        message: `${product.name}: ${quotationProblem}; price is now Rs. ${product.price.toFixed(2)}`,
+        price: product.price,
+      });
+    } else if (Math.abs(unitPrice - product.price) >= 0.005 && !quoted) {
+      problems.push({
+        line,
+        product_id: product.id,
+        product_name: product.name,
+        code: 'price_changed',
+        message: `${product.name}: price is now Rs. ${product.price.toFixed(2)}`,
+        price: product.price,
+      });
+    }
+
+    if (product.product_type === 'bundle') {
+      for (const component of componentsStmt.all(product.id) as any[]) {
+        if (component.product_type === 'service' || component.allow_backorder) continue;
+        need(component.component_id, component.name, component.quantity * quantity, line);
+      }
+    } else if (product.product_type !== 'service' && !product.allow_backorder) {
+      need(product.id, product.name, quantity, line);
+    }
+  });
+
+  for (const [productId, { name, quantity, line }] of needed) {
+    const held = getHeldQuantity(productId, locationId);
+    const available = getLocationQuantity(productId, locationId) - held;
+    if (quantity > available) {
+      problems.push({
+        line,
+        product_id: productId,
+        product_name: name,
+        code: 'insufficient_stock',
+        message: `${name}: ${quantity} needed, only ${Math.max(available, 0)} in stock`
+          + (held > 0 ? ` (${held} on hold in parked carts)` : ''),
+        requested: quantity,
+        available: Math.max(available, 0),
+      });
+    }
+  }
+
+  if (problems.length > 0) {
+    const summary = ['This sale cannot be completed:', ...problems.map((problem) => `- ${problem.message}`)].join('\n');
+    throw new Error(`${summary}\n${SALE_REJECTED_MARKER}${JSON.stringify(problems)}`);
+  }
+}
@@ -1,5 +1,6 @@
 import { ipcMain, app } from 'electron';
 import { getDatabase } from './database';
+import { getLocalDateTime, roundMoney } from './utils';
 import {
   loadBackupSettings,
   saveBackupSettings,
@@ -17,6 +18,130 @@ import {
   getAdminInfo,
   generateMasterKey,
 } from './auth';
+import {
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  createPurchaseOrder,
+  cancelPurchaseOrder,
+  receiveGoods,
+} from './purchases';
+import {
+  getSuppliers,
+  deleteSupplier,
+  getSupplierPriceList,
+  getProductSuppliers,
+  setProductSupplier,
+  removeProductSupplier,
+  compareSupplierPrices,
+  getSupplierContacts,
+  addSupplierContact,
+  deleteSupplierContact,
+} from './suppliers';
+import { createSalesReturn, getCreditNotesForInvoice } from './returns';
+import { voidInvoice, validateSaleItems } from './invoices';
+import {
+  getCustomers,
+  searchCustomersByPhone,
+  getCustomerById,
+  createCustomer,
+  updateCustomer,
+  deleteCustomer,
+  resolveInvoiceCustomer,
+  getCustomerVehicles,
+  createVehicle,
+  updateVehicle,
+  deleteVehicle,
+  resolveInvoiceVehicle,
+} from './customers';
+import { recordInvoicePayments, getInvoicePayments } from './payments';
+import { assertCreditAvailable, redeemStoreCredit, getOpenInvoices, recordSettlement, getReceivablesAging, getCustomerStatement } from './credit';
+import { getDiscountSettings, updateDiscountSettings, authorizeInvoiceDiscounts } from './discounts';
+import { getNumberingSettings, updateNumberingSettings, previewNextNumber, nextDocumentNumber } from './numbering';
+import {
+  getTaxRates,
+  createTaxRate,
+  updateTaxRate,
+  deleteTaxRate,
+  calculateInvoiceTaxes,
+  recordLineTaxes,
+  getInvoiceTaxes,
+  getTaxSummary,
+} from './taxes';
+import { getParkedCarts, parkCart, resumeParkedCart, deleteParkedCart } from './carts';
+import { getQuotations, getQuotationById, createQuotation, cancelQuotation, markQuotationConverted } from './quotations';
+import { getBundleComponents, getAllBundleComponents, saveBundleComponents, recordInvoiceItemComponents } from './bundles';
+import { getProductUnits, countLocationUnits, registerUnits, deleteUnit, allocateUnits, getAgedUnits } from './units';
+import {
+  normalizeWarrantyMonths,
+  recordWarranty,
+  searchWarranties,
+  getInvoiceWarranties,
+  getClaimedQuantity,
+  getWarrantyClaims,
+  getWarrantyClaimById,
+  createWarrantyClaim,
+  updateWarrantyClaimStatus,
+  issueWarrantyReplacement,
+} from './warranties';
+import {
+  getLocations,
+  createLocation,
+  updateLocation,
+  setDefaultLocation,
+  deleteLocation,
+  getDefaultLocationId,
+  resolveLocationId,
+  changeLocationStock,
+  getLocationQuantity,
+  getLocationQuantities,
+  getProductStock,
+  getLowStockProducts,
+  getStockTransfers,
+  getStockTransferById,
+  createStockTransfer,
+} from './locations';
+import { adjustStock, recordAdjustmentMovement, getStockMovements } from './stock';
+import {
+  getStockTakes,
+  getStockTakeById,
+  createStockTake,
+  saveStockTakeCounts,
+  postStockTake,
+  cancelStockTake,
+} from './stocktakes';
+import { getReorderSuggestions, normalizeReorderSetting } from './reorders';
+import {
+  consumeCostLayers,
+  getCostingSettings,
+  updateCostingSettings,
+  getInventoryValuation,
+  getGrossMargins,
+  getDailyProfit,
+  getMarginFigures,
+  MarginGrouping,
+  REVENUE_RATIO_SQL,
+} from './costing';
+
+/**
+ * Reorder point, reorder quantity and lead time from the product form; services and kits are never reordered
+ */
+function reorderSettings(product: any): (number | null)[] {
+  if (product.product_type === 'service' || product.product_type === 'bundle') return [null, null, null];
+  const reorderQuantity = normalizeReorderSetting(product.reorder_quantity, 'Reorder quantity');
+  return [
+    normalizeReorderSetting(product.reorder_point, 'Reorder point'),
+    reorderQuantity || null, // ordering in lots of zero means no lot size
+    normalizeReorderSetting(product.lead_time_days, 'Lead time'),
+  ];
+}
+
+/**
+ * Add cost, gross profit, margin and markup to a report row with net_revenue and cogs
+ */
+function withProfit(row: any): any {
+  const { revenue, ...profit } = getMarginFigures(row.net_revenue || 0, row.cogs || 0);
+  return { ...row, net_revenue: revenue, ...profit };
+}
 
 /**
  * Setup all IPC handlers for communication between renderer and main process
@@ -24,14 +149,58 @@ import {
 export function setupIpcHandlers(): void {
   // ========== PRODUCT HANDLERS ==========
   
-  ipcMain.handle('products:getAll', async () => {
+  ipcMain.handle('products:getAll', async (_, locationId?: number) => {
     const db = getDatabase();
-    return db.prepare('SELECT * FROM products ORDER BY name').all();
+    // held_quantity: units on hold in parked carts, directly or inside parked kits; only
+    // carts parked at the location when one is asked for
+    // unit_count: units in stock with a registered DOT code, at the location when one is asked for
+    const heldLocationId = locationId || null;
+    const products = db.prepare(`
+      SELECT p.*,
+        COALESCE((SELECT SUM(pci.quantity) FROM parked_cart_items pci
+                  INNER JOIN parked_carts pc ON pc.id = pci.parked_cart_id
+                  WHERE pci.product_id = p.id AND (? IS NULL OR pc.location_id = ?)), 0) +
+        COALESCE((SELECT SUM(pci.quantity * bc.quantity) FROM parked_cart_items pci
+                  INNER JOIN parked_carts pc ON pc.id = pci.parked_cart_id
+                  INNER JOIN bundle_components bc ON bc.bundle_id = pci.product_id
+                  WHERE bc.component_id = p.id AND (? IS NULL OR pc.location_id = ?)), 0) as held_quantity,
+        (SELECT COUNT(*) FROM product_units pu
+         WHERE pu.product_id = p.id AND pu.status = 'in_stock' AND (? IS NULL OR pu.location_id = ?)) as unit_count
+      FROM products p
+      ORDER BY p.name
+    `).all(heldLocationId, heldLocationId, heldLocationId, heldLocationId, heldLocationId, heldLocationId) as any[];
+
+    // location_quantity: stock at the location asked for (Billing sells from one location)
+    if (locationId) {
+      const quantities = getLocationQuantities(locationId);
+      for (const product of products) {
+        product.location_quantity = quantities.get(product.id) || 0;
+      }
+    }
+
+    // Kits list their components with the stock each has free
+    const components = getAllBundleComponents();
+    const byId = new Map(products.map((product) => [product.id, product]));
+    for (const product of products) {
+      if (product.product_type !== 'bundle') continue;
+      product.components = (components.get(product.id) || []).map((component) => {
+        const stocked = byId.get(component.component_id);
+        return {
+          ...component,
+          available_quantity: stocked ? (stocked.location_quantity ?? stocked.stock_quantity) - stocked.held_quantity : 0,
+        };
+      });
+    }
+    return products;
   });
 
   ipcMain.handle('products:getById', async (_, id: number) => {
     const db = getDatabase();
-    return db.prepare('SELECT * FROM products WHERE id = ?').get(id);
+    const product = db.prepare('SELECT * FROM products WHERE id = ?').get(id) as any;
+    if (product?.product_type === 'bundle') {
+      product.components = getBundleComponents(id);
+    }
+    return product;
   });
 
   ipcMain.handle('products:create', async (_, product: any) => {
@@ -40,16 +209,97 @@ export function setupIpcHandlers(): void {
       const stmt = db.prepare(`
         INSERT INTO products (name, description, sku, price, cost_price, stock_quantity, low_stock_threshold, category,
                              product_type, tire_width, tire_aspect_ratio, tire_diameter, tire_load_index, tire_speed_rating,
-                             wheel_diameter, wheel_width, wheel_pcd, wheel_offset, wheel_center_bore, wheel_stud_count, wheel_stud_type, size_display)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                             wheel_diameter, wheel_width, wheel_pcd, wheel_offset, wheel_center_bore, wheel_stud_count, wheel_stud_type, size_display,
+                             auto_add_with, track_units, warranty_months, allow_backorder, reorder_point, reorder_quantity, lead_time_days)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
-      const result = stmt.run(
+      const isService = product.product_type === 'service';
+      const isBundle = product.product_type === 'bundle';
+      const result = db.transaction(() => {
+        const result = stmt.run(
+          product.name,
+          product.description || null,
+          product.sku || null,
+          product.price || 0,
+          product.cost_price || 0,
+          isService || isBundle ? 0 : product.stock_quantity || 0, // services and kits carry no stock
+          product.low_stock_threshold || 10,
+          product.category || null,
+          product.product_type || 'general',
+          product.tire_width || null,
+          product.tire_aspect_ratio || null,
+          product.tire_diameter || null,
+          product.tire_load_index || null,
+          product.tire_speed_rating || null,
+          product.wheel_diameter || null,
+          product.wheel_width || null,
+          product.wheel_pcd || null,
+          product.wheel_offset || null,
+          product.wheel_center_bore || null,
+          product.wheel_stud_count || null,
+          product.wheel_stud_type || null,
+          product.size_display || null,
+          isService ? product.auto_add_with || null : null,
+          product.product_type === 'tire' && product.track_units ? 1 : 0, // DOT registry is for tires only
+          normalizeWarrantyMonths(product.warranty_months),
+          !isService && !isBundle && product.allow_backorder ? 1 : 0,
+          ...reorderSettings(product)
+        );
+        if (isBundle) {
+          saveBundleComponents(result.lastInsertRowid as number, product.components);
+        } else if (!isService && product.stock_quantity > 0) {
+          // Opening stock is at the default location
+          const defaultLocationId = getDefaultLocationId();
+          changeLocationStock(result.lastInsertRowid as number, defaultLocationId, product.stock_quantity);
+          recordAdjustmentMovement(result.lastInsertRowid as number, defaultLocationId, product.stock_quantity, 'opening');
+        }
+        return result;
+      })();
+      return { id: result.lastInsertRowid, ...product };
+    } catch (error: any) {
+      console.error('Error creating product:', error);
+      throw new Error(error.message || 'Failed to create product');
+    }
+  });
+
+  ipcMain.handle('products:update', async (_, id: number, product: any) => {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+      UPDATE products 
+      SET name = ?, description = ?, sku = ?, price = ?, cost_price = ?, 
+          stock_quantity = ?, low_stock_threshold = ?, category = ?,
+          product_type = ?, tire_width = ?, tire_aspect_ratio = ?, tire_diameter = ?, 
+          tire_load_index = ?, tire_speed_rating = ?, wheel_diameter = ?, wheel_width = ?,
+          wheel_pcd = ?, wheel_offset = ?, wheel_center_bore = ?, wheel_stud_count = ?, wheel_stud_type = ?, size_display = ?,
+          auto_add_with = ?, track_units = ?, warranty_months = ?, allow_backorder = ?,
+          reorder_point = ?, reorder_quantity = ?, lead_time_days = ?
+      WHERE id = ?
+    `);
+    const isService = product.product_type === 'service';
+    const isBundle = product.product_type === 'bundle';
+    db.transaction(() => {
+      // A stock figure edited here is counted at the default location
+      const previous = db.prepare('SELECT stock_quantity FROM products WHERE id = ?').get(id) as { stock_quantity: number } | undefined;
+      const stockChange = (isService || isBundle ? 0 : product.stock_quantity || 0) - (previous?.stock_quantity || 0);
+      if (stockChange !== 0) {
+        const defaultLocationId = getDefaultLocationId();
+        const atDefault = getLocationQuantity(id, defaultLocationId);
+        if (atDefault + stockChange < 0) {
+          throw new Error(`Only ${atDefault} of ${product.name} at the default location; transfer stock there first`);
+        }
+        if (countLocationUnits(id, defaultLocationId) > atDefault + stockChange) {
+          throw new Error(`${product.name} has DOT-coded tires at the default location; take stock out with Adjust Stock and pick the tires that are gone`);
+        }
+        changeLocationStock(id, defaultLocationId, stockChange);
+        recordAdjustmentMovement(id, defaultLocationId, stockChange, 'count_correction', 'Edited on the product form');
+      }
+      stmt.run(
         product.name,
         product.description || null,
         product.sku || null,
         product.price || 0,
         product.cost_price || 0,
-        product.stock_quantity || 0,
+        isService || isBundle ? 0 : product.stock_quantity || 0, // services and kits carry no stock
         product.low_stock_threshold || 10,
         product.category || null,
         product.product_type || 'general',
@@ -65,57 +315,34 @@ export function setupIpcHandlers(): void {
         product.wheel_center_bore || null,
         product.wheel_stud_count || null,
         product.wheel_stud_type || null,
-        product.size_display || null
+        product.size_display || null,
+        isService ? product.auto_add_with || null : null,
+        product.product_type === 'tire' && product.track_units ? 1 : 0, // DOT registry is for tires only
+        normalizeWarrantyMonths(product.warranty_months),
+        !isService && !isBundle && product.allow_backorder ? 1 : 0,
+        ...reorderSettings(product),
+        id
       );
-      return { id: result.lastInsertRowid, ...product };
-    } catch (error: any) {
-      console.error('Error creating product:', error);
-      throw new Error(error.message || 'Failed to create product');
-    }
-  });
-
-  ipcMain.handle('products:update', async (_, id: number, product: any) => {
-    const db = getDatabase();
-    const stmt = db.prepare(`
-      UPDATE products 
-      SET name = ?, description = ?, sku = ?, price = ?, cost_price = ?, 
-          stock_quantity = ?, low_stock_threshold = ?, category = ?,
-          product_type = ?, tire_width = ?, tire_aspect_ratio = ?, tire_diameter = ?, 
-          tire_load_index = ?, tire_speed_rating = ?, wheel_diameter = ?, wheel_width = ?,
-          wheel_pcd = ?, wheel_offset = ?, wheel_center_bore = ?, wheel_stud_count = ?, wheel_stud_type = ?, size_display = ?
-      WHERE id = ?
-    `);
-    stmt.run(
-      product.name,
-      product.description || null,
-      product.sku || null,
-      product.price || 0,
-      product.cost_price || 0,
-      product.stock_quantity || 0,
-      product.low_stock_threshold || 10,
-      product.category || null,
-      product.product_type || 'general',
-      product.tire_width || null,
-      product.tire_aspect_ratio || null,
-      product.tire_diameter || null,
-      product.tire_load_index || null,
-      product.tire_speed_rating || null,
-      product.wheel_diameter || null,
-      product.wheel_width || null,
-      product.wheel_pcd || null,
-      product.wheel_offset || null,
-      product.wheel_center_bore || null,
-      product.wheel_stud_count || null,
-      product.wheel_stud_type || null,
-      product.size_display || null,
-      id
-    );
+      if (isBundle) {
+        saveBundleComponents(id, product.components);
+      } else {
+        db.prepare('DELETE FROM bundle_components WHERE bundle_id = ?').run(id);
+      }
+    })();
     return { id, ...product };
   });
 
   ipcMain.handle('products:delete', async (_, id: number) => {
     const db = getDatabase();
     try {
+      // Kits would silently lose a component
+      const kit = db.prepare(`
+        SELECT p.name FROM bundle_components bc INNER JOIN products p ON bc.bundle_id = p.id WHERE bc.component_id = ?
+      `).get(id) as { name: string } | undefined;
+      if (kit) {
+        throw new Error(`This product is part of the kit ${kit.name}; remove it from the kit first`);
+      }
+
       // Check if product is used in any invoices
       const invoiceItemsCheck = db.prepare('SELECT COUNT(*) as count FROM invoice_items WHERE product_id = ?').get(id) as { count: number };
       
@@ -127,6 +354,14 @@ export function setupIpcHandlers(): void {
         db.prepare('DELETE FROM invoice_items WHERE product_id = ?').run(id);
       }
       
+      // Delete purchase and return lines that reference the product
+      db.prepare('DELETE FROM grn_items WHERE product_id = ?').run(id);
+      db.prepare('DELETE FROM credit_note_items WHERE product_id = ?').run(id);
+      db.prepare('DELETE FROM purchase_order_items WHERE product_id = ?').run(id);
+      db.prepare('DELETE FROM parked_cart_items WHERE product_id = ?').run(id);
+      db.prepare('DELETE FROM invoice_item_components WHERE product_id = ?').run(id);
+      db.prepare('DELETE FROM product_units WHERE product_id = ?').run(id);
+      
       // Delete stock movements if any exist
       db.prepare('DELETE FROM stock_movements WHERE product_id = ?').run(id);
       
@@ -150,7 +385,14 @@ export function setupIpcHandlers(): void {
     try {
       // Delete all related records first
       db.prepare('DELETE FROM stock_movements').run();
+      db.prepare('DELETE FROM credit_note_items').run();
       db.prepare('DELETE FROM invoice_items').run();
+      db.prepare('DELETE FROM grn_items').run();
+      db.prepare('DELETE FROM purchase_order_items').run();
+      db.prepare('DELETE FROM parked_cart_items').run();
+      db.prepare('DELETE FROM invoice_item_components').run();
+      db.prepare('DELETE FROM bundle_components').run();
+      db.prepare('DELETE FROM product_units').run();
       
       // Delete all products
       const result = db.prepare('DELETE FROM products').run();
@@ -176,7 +418,14 @@ export function setupIpcHandlers(): void {
       for (const product of products) {
         // Delete related records
         db.prepare('DELETE FROM stock_movements WHERE product_id = ?').run(product.id);
+        db.prepare('DELETE FROM credit_note_items WHERE product_id = ?').run(product.id);
         db.prepare('DELETE FROM invoice_items WHERE product_id = ?').run(product.id);
+        db.prepare('DELETE FROM grn_items WHERE product_id = ?').run(product.id);
+        db.prepare('DELETE FROM purchase_order_items WHERE product_id = ?').run(product.id);
+        db.prepare('DELETE FROM parked_cart_items WHERE product_id = ?').run(product.id);
+        db.prepare('DELETE FROM invoice_item_components WHERE product_id = ?').run(product.id);
+        db.prepare('DELETE FROM bundle_components WHERE bundle_id = ? OR component_id = ?').run(product.id, product.id);
+        db.prepare('DELETE FROM product_units WHERE product_id = ?').run(product.id);
         // Delete the product
         db.prepare('DELETE FROM products WHERE id = ?').run(product.id);
         deleted++;
@@ -189,13 +438,12 @@ export function setupIpcHandlers(): void {
     }
   });
 
-  ipcMain.handle('products:getLowStock', async () => {
-    const db = getDatabase();
-    return db.prepare(`
-      SELECT * FROM products 
-      WHERE stock_quantity <= low_stock_threshold 
-      ORDER BY stock_quantity ASC
-    `).all();
+  ipcMain.handle('products:getLowStock', async (_, locationId?: number) => {
+    return getLowStockProducts(locationId);
+  });
+
+  ipcMain.handle('products:getStock', async (_, id: number) => {
+    return getProductStock(id);
   });
 
   ipcMain.handle('products:getByType', async (_, productType: string) => {
@@ -233,6 +481,12 @@ export function setupIpcHandlers(): void {
     }
   });
 
+  ipcMain.handle('brands:setWarranty', async (_, id: number, months: number | null) => {
+    const db = getDatabase();
+    db.prepare('UPDATE brands SET warranty_months = ? WHERE id = ?').run(normalizeWarrantyMonths(months), id);
+    return { success: true };
+  });
+
   ipcMain.handle('brands:delete', async (_, id: number) => {
     const db = getDatabase();
     const stmt = db.prepare('DELETE FROM brands WHERE id = ?');
@@ -240,6 +494,82 @@ export function setupIpcHandlers(): void {
     return { success: true };
   });
 
+  // ========== STOCK LOCATION HANDLERS ==========
+
+  ipcMain.handle('locations:getAll', async () => {
+    return getLocations();
+  });
+
+  ipcMain.handle('locations:create', async (_, data: any) => {
+    return createLocation(data);
+  });
+
+  ipcMain.handle('locations:update', async (_, id: number, data: any) => {
+    return updateLocation(id, data);
+  });
+
+  ipcMain.handle('locations:setDefault', async (_, id: number) => {
+    return setDefaultLocation(id);
+  });
+
+  ipcMain.handle('locations:delete', async (_, id: number) => {
+    return deleteLocation(id);
+  });
+
+  ipcMain.handle('transfers:getAll', async () => {
+    return getStockTransfers();
+  });
+
+  ipcMain.handle('transfers:getById', async (_, id: number) => {
+    return getStockTransferById(id);
+  });
+
+  ipcMain.handle('transfers:create', async (_, data: any) => {
+    return createStockTransfer(data);
+  });
+
+  // ========== STOCK ADJUSTMENT HANDLERS ==========
+
+  ipcMain.handle('stock:adjust', async (_, data: any) => {
+    return adjustStock(data);
+  });
+
+  ipcMain.handle('stock:getMovements', async (_, productId: number, locationId?: number) => {
+    return getStockMovements(productId, locationId);
+  });
+
+  // ========== STOCK TAKE HANDLERS ==========
+
+  ipcMain.handle('stockTakes:getAll', async () => {
+    return getStockTakes();
+  });
+
+  ipcMain.handle('stockTakes:getById', async (_, id: number) => {
+    return getStockTakeById(id);
+  });
+
+  ipcMain.handle('stockTakes:create', async (_, data: any) => {
+    return createStockTake(data);
+  });
+
+  ipcMain.handle('stockTakes:saveCounts', async (_, id: number, counts: any[]) => {
+    return saveStockTakeCounts(id, counts);
+  });
+
+  ipcMain.handle('stockTakes:post', async (_, id: number) => {
+    return postStockTake(id);
+  });
+
+  ipcMain.handle('stockTakes:cancel', async (_, id: number) => {
+    return cancelStockTake(id);
+  });
+
+  // ========== REORDER HANDLERS ==========
+
+  ipcMain.handle('reorders:getSuggestions', async (_, days?: number) => {
+    return getReorderSuggestions(days);
+  });
+
   // ========== TIRE SIZES HANDLERS ==========
 
   ipcMain.handle('tireSizes:getAll', async () => {
@@ -335,40 +665,232 @@ export function setupIpcHandlers(): void {
     return { success: true };
   });
 
+  // ========== SUPPLIER HANDLERS ==========
+
+  ipcMain.handle('suppliers:getAll', async () => {
+    return getSuppliers();
+  });
+
+  ipcMain.handle('suppliers:create', async (_, supplier: any) => {
+    const db = getDatabase();
+    try {
+      const stmt = db.prepare(`
+        INSERT INTO suppliers (name, contact_person, phone, email, address, notes, lead_time_days)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+      const result = stmt.run(
+        supplier.name,
+        supplier.contact_person || null,
+        supplier.phone || null,
+        supplier.email || null,
+        supplier.address || null,
+        supplier.notes || null,
+        normalizeReorderSetting(supplier.lead_time_days, 'Lead time')
+      );
+      return { id: result.lastInsertRowid, ...supplier };
+    } catch (e: any) {
+      if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new Error('Supplier already exists');
+      }
+      throw e;
+    }
+  });
+
+  ipcMain.handle('suppliers:update', async (_, id: number, supplier: any) => {
+    const db = getDatabase();
+    try {
+      const stmt = db.prepare(`
+        UPDATE suppliers
+        SET name = ?, contact_person = ?, phone = ?, email = ?, address = ?, notes = ?, lead_time_days = ?
+        WHERE id = ?
+      `);
+      stmt.run(
+        supplier.name,
+        supplier.contact_person || null,
+        supplier.phone || null,
+        supplier.email || null,
+        supplier.address || null,
+        supplier.notes || null,
+        normalizeReorderSetting(supplier.lead_time_days, 'Lead time'),
+        id
+      );
+      return { id, ...supplier };
+    } catch (e: any) {
+      if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new Error('Supplier already exists');
+      }
+      throw e;
+    }
+  });
+
+  ipcMain.handle('suppliers:delete', async (_, id: number) => {
+    return deleteSupplier(id);
+  });
+
+  ipcMain.handle('suppliers:getPriceList', async (_, supplierId: number) => {
+    return getSupplierPriceList(supplierId);
+  });
+
+  ipcMain.handle('suppliers:getForProduct', async (_, productId: number) => {
+    return getProductSuppliers(productId);
+  });
+
+  ipcMain.handle('suppliers:setProductPrice', async (_, data: any) => {
+    return setProductSupplier(data);
+  });
+
+  ipcMain.handle('suppliers:removeProductPrice', async (_, id: number) => {
+    return removeProductSupplier(id);
+  });
+
+  ipcMain.handle('suppliers:comparePrices', async (_, sizeDisplay?: string) => {
+    return compareSupplierPrices(sizeDisplay);
+  });
+
+  ipcMain.handle('suppliers:getContacts', async (_, supplierId: number) => {
+    return getSupplierContacts(supplierId);
+  });
+
+  ipcMain.handle('suppliers:addContact', async (_, contact: any) => {
+    return addSupplierContact(contact);
+  });
+
+  ipcMain.handle('suppliers:deleteContact', async (_, id: number) => {
+    return deleteSupplierContact(id);
+  });
+
+  // ========== PURCHASE HANDLERS ==========
+
+  ipcMain.handle('purchases:getAll', async () => {
+    return getPurchaseOrders();
+  });
+
+  ipcMain.handle('purchases:getById', async (_, id: number) => {
+    return getPurchaseOrderById(id);
+  });
+
+  ipcMain.handle('purchases:create', async (_, orderData: any) => {
+    return createPurchaseOrder(orderData);
+  });
+
+  ipcMain.handle('purchases:cancel', async (_, id: number) => {
+    return cancelPurchaseOrder(id);
+  });
+
+  ipcMain.handle('purchases:receive', async (_, id: number, receiptData: any) => {
+    return receiveGoods(id, receiptData);
+  });
+
+  // ========== CUSTOMER HANDLERS ==========
+
+  ipcMain.handle('customers:getAll', async (_, search?: string) => {
+    return getCustomers(search);
+  });
+
+  ipcMain.handle('customers:searchByPhone', async (_, phone: string) => {
+    return searchCustomersByPhone(phone);
+  });
+
+  ipcMain.handle('customers:getById', async (_, id: number) => {
+    return getCustomerById(id);
+  });
+
+  ipcMain.handle('customers:create', async (_, customer: any) => {
+    return createCustomer(customer);
+  });
+
+  ipcMain.handle('customers:update', async (_, id: number, customer: any) => {
+    return updateCustomer(id, customer);
+  });
+
+  ipcMain.handle('customers:delete', async (_, id: number) => {
+    return deleteCustomer(id);
+  });
+
+  ipcMain.handle('vehicles:getByCustomer', async (_, customerId: number) => {
+    return getCustomerVehicles(customerId);
+  });
+
+  ipcMain.handle('vehicles:create', async (_, vehicle: any) => {
+    return createVehicle(vehicle);
+  });
+
+  ipcMain.handle('vehicles:update', async (_, id: number, vehicle: any) => {
+    return updateVehicle(id, vehicle);
+  });
+
+  ipcMain.handle('vehicles:delete', async (_, id: number) => {
+    return deleteVehicle(id);
+  });
+
+  // ========== PARKED CART HANDLERS ==========
+
+  ipcMain.handle('carts:getParked', async () => {
+    return getParkedCarts();
+  });
+
+  ipcMain.handle('carts:park', async (_, data: any) => {
+    return parkCart(data);
+  });
+
+  ipcMain.handle('carts:resume', async (_, id: number) => {
+    return resumeParkedCart(id);
+  });
+
+  ipcMain.handle('carts:delete', async (_, id: number) => {
+    return deleteParkedCart(id);
+  });
+
   // ========== INVOICE HANDLERS ==========
 
   ipcMain.handle('invoices:create', async (_, invoiceData: any) => {
     const db = getDatabase();
+    // Line totals and discounts are worked out here; large discounts need the admin password
+    const priced = await authorizeInvoiceDiscounts(invoiceData);
+    // Taxes come from the configured rates for each product; inclusive taxes are already in the prices
+    const taxed = calculateInvoiceTaxes(priced);
+    const totalAmount = roundMoney(priced.subtotal - priced.discount_amount + taxed.tax_amount - taxed.inclusive_tax_amount);
+    
     const transaction = db.transaction(() => {
-      // Generate invoice number
-      const invoiceNumber = `INV-${Date.now()}`;
+      // Take the next invoice number from the sequence (rolled back with the invoice on failure)
+      const invoiceNumberTakenStmt = db.prepare('SELECT 1 FROM invoices WHERE invoice_number = ?');
+      const invoiceNumber = nextDocumentNumber('invoice', (number) => !!invoiceNumberTakenStmt.get(number));
       
-      // Get current local date/time as ISO string (without timezone conversion)
-      const now = new Date();
-      const localDateTime = now.getFullYear() + '-' + 
-        String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-        String(now.getDate()).padStart(2, '0') + ' ' +
-        String(now.getHours()).padStart(2, '0') + ':' +
-        String(now.getMinutes()).padStart(2, '0') + ':' +
-        String(now.getSeconds()).padStart(2, '0');
+      // Get current local date/time (without timezone conversion)
+      const localDateTime = getLocalDateTime();
+      
+      // Link the customer by phone number (created on first visit)
+      const customerId = resolveInvoiceCustomer(invoiceData);
+      const vehicleId = resolveInvoiceVehicle(invoiceData.vehicle_id, customerId);
+      // Stock leaves the location chosen in Billing
+      const locationId = resolveLocationId(invoiceData.location_id);
+      validateSaleItems(invoiceData.items || [], locationId, invoiceData.quotation_id);
       
       // Create invoice
       const invoiceStmt = db.prepare(`
-        INSERT INTO invoices (invoice_number, customer_name, customer_phone, customer_email,
-                             subtotal, tax_amount, discount_amount, total_amount, payment_method, created_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO invoices (invoice_number, customer_id, vehicle_id, customer_name, customer_phone, customer_email,
+                             subtotal, tax_amount, inclusive_tax_amount, discount_amount, bill_discount_type, bill_discount_value,
+                             discount_authorized, total_amount, payment_method, location_id, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
       
       const invoiceResult = invoiceStmt.run(
         invoiceNumber,
+        customerId,
+        vehicleId,
         invoiceData.customer_name || null,
         invoiceData.customer_phone || null,
         invoiceData.customer_email || null,
-        invoiceData.subtotal || 0,
-        invoiceData.tax_amount || 0,
-        invoiceData.discount_amount || 0,
-        invoiceData.total_amount || 0,
+        priced.subtotal,
+        taxed.tax_amount,
+        taxed.inclusive_tax_amount,
+        priced.discount_amount,
+        priced.bill_discount_type,
+        priced.bill_discount_value,
+        priced.discount_authorized ? 1 : 0,
+        totalAmount,
         invoiceData.payment_method || 'cash',
+        locationId,
         localDateTime
       );
       
@@ -376,36 +898,92 @@ export function setupIpcHandlers(): void {
       
       // Create invoice items
       const itemStmt = db.prepare(`
-        INSERT INTO invoice_items (invoice_id, product_id, product_name, quantity, unit_price, total_price)
-        VALUES (?, ?, ?, ?, ?, ?)
+        INSERT INTO invoice_items (invoice_id, product_id, product_name, quantity, unit_price,
+                                   discount_type, discount_value, discount_amount, total_price, tax_amount)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
       
-      // Update stock quantities
+      // Update stock quantities (services carry no stock)
       const stockUpdateStmt = db.prepare(`
-        UPDATE products SET stock_quantity = stock_quantity - ? WHERE id = ?
+        UPDATE products SET stock_quantity = stock_quantity - ? WHERE id = ? AND product_type IS NOT 'service'
       `);
       
-      // Create stock movements
+      // Create stock movements: the quantity sold, referencing the invoice it was sold on
       const stockMovementStmt = db.prepare(`
-        INSERT INTO stock_movements (product_id, movement_type, quantity, reference_id)
-        VALUES (?, 'sale', ?, ?)
+        INSERT INTO stock_movements (product_id, movement_type, quantity, reference_id, notes, location_id, reason, created_at)
+        VALUES (?, 'sale', ?, ?, ?, ?, ?, ?)
       `);
       
-      for (const item of invoiceData.items || []) {
-        itemStmt.run(
+      const dotCodesStmt = db.prepare('UPDATE invoice_items SET dot_codes = ? WHERE id = ?');
+      const cogsStmt = db.prepare('UPDATE invoice_items SET cogs = ? WHERE id = ?');
+      const serviceCostStmt = db.prepare('SELECT cost_price FROM products WHERE id = ?');
+      
+      for (const item of taxed.items) {
+        const itemResult = itemStmt.run(
           invoiceId,
           item.product_id,
           item.product_name,
           item.quantity,
           item.unit_price,
-          item.total_price
+          item.discount_type,
+          item.discount_value,
+          item.discount_amount,
+          item.total_price,
+          item.tax_amount
         );
+        const invoiceItemId = itemResult.lastInsertRowid as number;
+        recordLineTaxes(invoiceId, invoiceItemId, item.taxes);
         
-        stockUpdateStmt.run(item.quantity, item.product_id);
-        stockMovementStmt.run(item.product_id, invoiceId, item.quantity);
+        // Kits take their components out of stock; tires with a DOT registry sell the
+        // units picked in Billing, then the oldest. Each line leaving stock gets its warranty.
+        // The line's cost: stock at its FIFO or average cost, services at their cost price
+        const dotCodes: string[] = [];
+        let cogs = 0;
+        for (const line of recordInvoiceItemComponents(invoiceItemId, item)) {
+          if (stockUpdateStmt.run(line.quantity, line.product_id).changes === 0) {
+            cogs += line.quantity * ((serviceCostStmt.get(line.product_id) as { cost_price: number | null } | undefined)?.cost_price || 0);
+          } else {
+            const isKitComponent = line.product_id !== item.product_id;
+            // Only backorder products get past validation without the stock; note how many were short
+            const short = line.quantity - Math.max(getLocationQuantity(line.product_id, locationId), 0);
+            const notes = [isKitComponent ? `Kit: ${item.product_name}` : null, short > 0 ? `Backorder: ${short} short` : null]
+              .filter(Boolean).join('; ') || null;
+            stockMovementStmt.run(line.product_id, line.quantity, invoiceId, notes, locationId, short > 0 ? 'backorder' : null, localDateTime);
+            changeLocationStock(line.product_id, locationId, -line.quantity);
+            cogs += consumeCostLayers(line.product_id, line.quantity, 'sale', invoiceId, invoiceItemId, localDateTime);
+            const lineDotCodes = allocateUnits(invoiceItemId, line, locationId, isKitComponent ? [] : item.unit_ids);
+            recordWarranty(invoiceId, invoiceItemId, line, lineDotCodes, { customer_id: customerId, vehicle_id: vehicleId }, localDateTime);
+            dotCodes.push(...lineDotCodes);
+          }
+        }
+        if (dotCodes.length > 0) {
+          dotCodesStmt.run(dotCodes.join(', '), invoiceItemId);
+        }
+        cogsStmt.run(roundMoney(cogs), invoiceItemId);
+      }
+      
+      // An invoice made from a quotation closes it
+      if (invoiceData.quotation_id) {
+        markQuotationConverted(invoiceData.quotation_id, invoiceId);
       }
       
-      return { id: invoiceId, invoice_number: invoiceNumber };
+      // Record tenders; older callers send a single payment_method for the full amount
+      const tenders = invoiceData.payments || [
+        { payment_method: invoiceData.payment_method || 'cash', amount: totalAmount },
+      ];
+      const payment = recordInvoicePayments(invoiceId, totalAmount, tenders, localDateTime);
+      assertCreditAvailable(customerId, payment.balance_due);
+      redeemStoreCredit(customerId, invoiceId, payment.store_credit, localDateTime);
+      db.prepare('UPDATE invoices SET payment_method = ?, change_due = ?, balance_due = ? WHERE id = ?')
+        .run(payment.payment_method, payment.change_due, payment.balance_due, invoiceId);
+      
+      return {
+        id: invoiceId,
+        invoice_number: invoiceNumber,
+        total_amount: totalAmount,
+        change_due: payment.change_due,
+        balance_due: payment.balance_due,
+      };
     });
     
     return transaction();
@@ -426,10 +1004,32 @@ export function setupIpcHandlers(): void {
     if (!invoice) return null;
     
     const items = db.prepare(`
-      SELECT * FROM invoice_items WHERE invoice_id = ?
-    `).all(id);
+      SELECT ii.*,
+        COALESCE((SELECT SUM(cni.quantity) FROM credit_note_items cni WHERE cni.invoice_item_id = ii.id), 0) as quantity_returned
+      FROM invoice_items ii
+      WHERE ii.invoice_id = ?
+    `).all(id) as any[];
+    
+    // Kit lines list the components they were made up of; quantity_claimed is under warranty claim
+    const componentsStmt = db.prepare(`
+      SELECT product_id, product_name, quantity FROM invoice_item_components WHERE invoice_item_id = ? ORDER BY id
+    `);
+    for (const item of items) {
+      const components = componentsStmt.all(item.id);
+      if (components.length > 0) item.components = components;
+      item.quantity_claimed = getClaimedQuantity(item);
+    }
+    
+    const credit_notes = getCreditNotesForInvoice(id);
+    const payments = getInvoicePayments(id);
+    const taxes = getInvoiceTaxes(id);
+    const warranties = getInvoiceWarranties(id);
     
-    return { ...invoice, items };
+    return { ...invoice, items, credit_notes, payments, taxes, warranties };
+  });
+
+  ipcMain.handle('invoices:void', async (_, id: number, reason: string, adminPassword: string) => {
+    return voidInvoice(id, reason, adminPassword);
   });
 
   ipcMain.handle('invoices:getByDateRange', async (_, startDate: string, endDate: string) => {
@@ -441,6 +1041,88 @@ export function setupIpcHandlers(): void {
     `).all(startDate, endDate);
   });
 
+  // ========== QUOTATION HANDLERS ==========
+
+  ipcMain.handle('quotations:getAll', async () => {
+    return getQuotations();
+  });
+
+  ipcMain.handle('quotations:getById', async (_, id: number) => {
+    return getQuotationById(id);
+  });
+
+  ipcMain.handle('quotations:create', async (_, data: any) => {
+    return createQuotation(data);
+  });
+
+  ipcMain.handle('quotations:cancel', async (_, id: number) => {
+    return cancelQuotation(id);
+  });
+
+  // ========== PRODUCT UNIT (DOT) HANDLERS ==========
+
+  ipcMain.handle('units:getByProduct', async (_, productId: number, locationId?: number) => {
+    return getProductUnits(productId, locationId);
+  });
+
+  ipcMain.handle('units:register', async (_, productId: number, units: any[], locationId?: number) => {
+    return registerUnits(productId, units, locationId);
+  });
+
+  ipcMain.handle('units:delete', async (_, id: number) => {
+    return deleteUnit(id);
+  });
+
+  // ========== WARRANTY HANDLERS ==========
+
+  ipcMain.handle('warranties:search', async (_, search: string) => {
+    return searchWarranties(search);
+  });
+
+  ipcMain.handle('warranties:getClaims', async () => {
+    return getWarrantyClaims();
+  });
+
+  ipcMain.handle('warranties:getClaimById', async (_, id: number) => {
+    return getWarrantyClaimById(id);
+  });
+
+  ipcMain.handle('warranties:createClaim', async (_, claimData: any) => {
+    return createWarrantyClaim(claimData);
+  });
+
+  ipcMain.handle('warranties:updateClaimStatus', async (_, id: number, statusData: any) => {
+    return updateWarrantyClaimStatus(id, statusData);
+  });
+
+  ipcMain.handle('warranties:issueReplacement', async (_, id: number, replacementData: any) => {
+    return issueWarrantyReplacement(id, replacementData);
+  });
+
+  // ========== RETURN HANDLERS ==========
+
+  ipcMain.handle('returns:create', async (_, invoiceId: number, returnData: any) => {
+    return createSalesReturn(invoiceId, returnData);
+  });
+
+  ipcMain.handle('returns:getByInvoice', async (_, invoiceId: number) => {
+    return getCreditNotesForInvoice(invoiceId);
+  });
+
+  // ========== CREDIT ACCOUNT HANDLERS ==========
+
+  ipcMain.handle('credit:getOpenInvoices', async (_, customerId: number) => {
+    return getOpenInvoices(customerId);
+  });
+
+  ipcMain.handle('credit:recordSettlement', async (_, customerId: number, settlement: any) => {
+    return recordSettlement(customerId, settlement);
+  });
+
+  ipcMain.handle('credit:getStatement', async (_, customerId: number, startDate?: string, endDate?: string) => {
+    return getCustomerStatement(customerId, startDate, endDate);
+  });
+
   // ========== REPORTS HANDLERS ==========
 
   ipcMain.handle('reports:dailySales', async (_, date: string) => {
@@ -453,19 +1135,26 @@ export function setupIpcHandlers(): void {
         SUM(total_amount) as total_revenue,
         SUM(subtotal) as total_subtotal,
         SUM(tax_amount) as total_tax,
-        SUM(discount_amount) as total_discount
-      FROM invoices
-      WHERE SUBSTR(created_at, 1, 10) = ?
+        SUM(discount_amount) as total_discount,
+        COALESCE(SUM(bill_discount), 0) as total_bill_discount,
+        COALESCE(SUM(discount_amount), 0) - COALESCE(SUM(bill_discount), 0) as total_line_discount
+      FROM (
+        -- discount_amount covers line and bill discounts; the bill part is what the lines don't account for
+        SELECT i.*, i.discount_amount - COALESCE((SELECT SUM(ii.discount_amount) FROM invoice_items ii WHERE ii.invoice_id = i.id), 0) as bill_discount
+        FROM invoices i
+        WHERE SUBSTR(i.created_at, 1, 10) = ? AND i.status != 'void'
+      )
     `).get(date);
     
     const topProducts = db.prepare(`
       SELECT 
         ii.product_name,
         SUM(ii.quantity) as total_quantity,
-        SUM(ii.total_price) as total_revenue
+        SUM(ii.total_price) as total_revenue,
+        SUM(ii.discount_amount) as total_discount
       FROM invoice_items ii
       INNER JOIN invoices i ON ii.invoice_id = i.id
-      WHERE SUBSTR(i.created_at, 1, 10) = ?
+      WHERE SUBSTR(i.created_at, 1, 10) = ? AND i.status != 'void'
       GROUP BY ii.product_id, ii.product_name
       ORDER BY total_revenue DESC
       LIMIT 10
@@ -485,50 +1174,118 @@ export function setupIpcHandlers(): void {
         COALESCE(SUM(discount_amount), 0) as total_discount,
         COALESCE(AVG(total_amount), 0) as avg_invoice_value
       FROM invoices
+      WHERE SUBSTR(created_at, 1, 10) >= ? AND SUBSTR(created_at, 1, 10) <= ? AND status != 'void'
+    `).get(startDate, endDate);
+    
+    // Returns are netted out on the day the credit note was issued
+    const returnsResult: any = db.prepare(`
+      SELECT 
+        COUNT(*) as total_returns_count,
+        COALESCE(SUM(total_amount), 0) as total_returns,
+        COALESCE(SUM(subtotal), 0) as returns_subtotal,
+        COALESCE(SUM(tax_amount), 0) as returns_tax
+      FROM credit_notes
       WHERE SUBSTR(created_at, 1, 10) >= ? AND SUBSTR(created_at, 1, 10) <= ?
     `).get(startDate, endDate);
     
+    const grossRevenue = summaryResult?.total_revenue || 0;
+    const totalReturns = returnsResult?.total_returns || 0;
+    
+    // Profit is on revenue before tax, at the cost captured on each sold line
+    const dailyProfit = getDailyProfit(startDate, endDate);
+    const { revenue: netSales, cogs: totalCogs, ...profit } = getMarginFigures(
+      dailyProfit.reduce((sum, day) => sum + day.revenue, 0),
+      dailyProfit.reduce((sum, day) => sum + day.cogs, 0)
+    );
+    
     const summary = {
       total_invoices: summaryResult?.total_invoices || 0,
-      total_revenue: summaryResult?.total_revenue || 0,
-      total_subtotal: summaryResult?.total_subtotal || 0,
-      total_tax: summaryResult?.total_tax || 0,
+      gross_revenue: grossRevenue,
+      total_returns: totalReturns,
+      total_returns_count: returnsResult?.total_returns_count || 0,
+      total_revenue: grossRevenue - totalReturns,
+      total_subtotal: (summaryResult?.total_subtotal || 0) - (returnsResult?.returns_subtotal || 0),
+      total_tax: (summaryResult?.total_tax || 0) - (returnsResult?.returns_tax || 0),
       total_discount: summaryResult?.total_discount || 0,
       avg_invoice_value: summaryResult?.avg_invoice_value || 0,
+      net_sales: netSales,
+      total_cogs: totalCogs,
+      ...profit,
     };
     
-    const dailyBreakdown = db.prepare(`
+    const salesByDay = db.prepare(`
       SELECT 
         SUBSTR(created_at, 1, 10) as date,
         COUNT(*) as invoices,
         COALESCE(SUM(total_amount), 0) as revenue
       FROM invoices
+      WHERE SUBSTR(created_at, 1, 10) >= ? AND SUBSTR(created_at, 1, 10) <= ? AND status != 'void'
+      GROUP BY SUBSTR(created_at, 1, 10)
+    `).all(startDate, endDate) as Array<{ date: string; invoices: number; revenue: number }>;
+    
+    const returnsByDay = db.prepare(`
+      SELECT 
+        SUBSTR(created_at, 1, 10) as date,
+        COALESCE(SUM(total_amount), 0) as returns
+      FROM credit_notes
       WHERE SUBSTR(created_at, 1, 10) >= ? AND SUBSTR(created_at, 1, 10) <= ?
       GROUP BY SUBSTR(created_at, 1, 10)
-      ORDER BY date ASC
-    `).all(startDate, endDate);
+    `).all(startDate, endDate) as Array<{ date: string; returns: number }>;
     
-    const topProducts = db.prepare(`
+    const days = new Map<string, { date: string; invoices: number; revenue: number; returns: number }>();
+    for (const day of salesByDay) {
+      days.set(day.date, { ...day, returns: 0 });
+    }
+    for (const day of returnsByDay) {
+      const entry = days.get(day.date) || { date: day.date, invoices: 0, revenue: 0, returns: 0 };
+      entry.returns = day.returns;
+      entry.revenue -= day.returns;
+      days.set(day.date, entry);
+    }
+    const profitByDay = new Map(dailyProfit.map((day) => [day.date, day]));
+    const dailyBreakdown = Array.from(days.values())
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map((day) => {
+        const { revenue: dayNetSales, ...dayProfit } = profitByDay.get(day.date) || getMarginFigures(0, 0);
+        return { ...day, net_sales: dayNetSales, ...dayProfit };
+      });
+    
+    const topProducts = (db.prepare(`
       SELECT 
-        ii.product_name,
-        SUM(ii.quantity) as total_quantity,
-        SUM(ii.total_price) as total_revenue
-      FROM invoice_items ii
-      INNER JOIN invoices i ON ii.invoice_id = i.id
-      WHERE SUBSTR(i.created_at, 1, 10) >= ? AND SUBSTR(i.created_at, 1, 10) <= ?
-      GROUP BY ii.product_id, ii.product_name
+        product_name,
+        SUM(quantity) as total_quantity,
+        SUM(total_price) as total_revenue,
+        SUM(net_revenue) as net_revenue,
+        SUM(cogs) as cogs
+      FROM (
+        SELECT ii.product_id, ii.product_name, ii.quantity, ii.total_price,
+          ii.total_price * ${REVENUE_RATIO_SQL} as net_revenue, COALESCE(ii.cogs, 0) as cogs
+        FROM invoice_items ii
+        INNER JOIN invoices i ON ii.invoice_id = i.id
+        WHERE SUBSTR(i.created_at, 1, 10) >= ? AND SUBSTR(i.created_at, 1, 10) <= ? AND i.status != 'void'
+        UNION ALL
+        SELECT cni.product_id, cni.product_name, -cni.quantity, -cni.total_price,
+          -cni.total_price * ${REVENUE_RATIO_SQL}, -COALESCE(cni.cogs, 0)
+        FROM credit_note_items cni
+        INNER JOIN credit_notes cn ON cni.credit_note_id = cn.id
+        INNER JOIN invoices i ON cn.invoice_id = i.id
+        WHERE SUBSTR(cn.created_at, 1, 10) >= ? AND SUBSTR(cn.created_at, 1, 10) <= ?
+      )
+      GROUP BY product_id, product_name
       ORDER BY total_revenue DESC
       LIMIT 10
-    `).all(startDate, endDate);
+    `).all(startDate, endDate, startDate, endDate) as any[]).map(withProfit);
     
+    // Add up the individual tenders so split payments count under each method
     const paymentMethods = db.prepare(`
       SELECT 
-        payment_method,
-        COUNT(*) as count,
-        COALESCE(SUM(total_amount), 0) as total
-      FROM invoices
-      WHERE SUBSTR(created_at, 1, 10) >= ? AND SUBSTR(created_at, 1, 10) <= ?
-      GROUP BY payment_method
+        ip.payment_method,
+        COUNT(DISTINCT ip.invoice_id) as count,
+        COALESCE(SUM(ip.amount), 0) as total
+      FROM invoice_payments ip
+      INNER JOIN invoices i ON ip.invoice_id = i.id
+      WHERE SUBSTR(i.created_at, 1, 10) >= ? AND SUBSTR(i.created_at, 1, 10) <= ? AND i.status != 'void'
+      GROUP BY ip.payment_method
       ORDER BY total DESC
     `).all(startDate, endDate);
     
@@ -538,18 +1295,26 @@ export function setupIpcHandlers(): void {
   ipcMain.handle('reports:productPerformance', async () => {
     const db = getDatabase();
     
-    const bestSellers = db.prepare(`
+    // Profit is net of returns, on revenue before tax
+    const bestSellers = (db.prepare(`
       SELECT 
         ii.product_name,
         SUM(ii.quantity) as total_sold,
         SUM(ii.total_price) as total_revenue,
-        AVG(ii.unit_price) as avg_price
+        AVG(ii.unit_price) as avg_price,
+        SUM((ii.total_price - COALESCE(r.total_price, 0)) * ${REVENUE_RATIO_SQL}) as net_revenue,
+        SUM(COALESCE(ii.cogs, 0) - COALESCE(r.cogs, 0)) as cogs
       FROM invoice_items ii
       INNER JOIN invoices i ON ii.invoice_id = i.id
+      LEFT JOIN (
+        SELECT invoice_item_id, SUM(total_price) as total_price, SUM(COALESCE(cogs, 0)) as cogs
+        FROM credit_note_items GROUP BY invoice_item_id
+      ) r ON r.invoice_item_id = ii.id
+      WHERE i.status != 'void'
       GROUP BY ii.product_id, ii.product_name
       ORDER BY total_sold DESC
       LIMIT 10
-    `).all();
+    `).all() as any[]).map(withProfit);
     
     const slowMovers = db.prepare(`
       SELECT 
@@ -558,7 +1323,7 @@ export function setupIpcHandlers(): void {
         MAX(i.created_at) as last_sold
       FROM products p
       LEFT JOIN invoice_items ii ON p.id = ii.product_id
-      LEFT JOIN invoices i ON ii.invoice_id = i.id
+      LEFT JOIN invoices i ON ii.invoice_id = i.id AND i.status != 'void'
       WHERE p.stock_quantity > 0
       GROUP BY p.id, p.name, p.stock_quantity
       HAVING last_sold IS NULL OR 
@@ -574,18 +1339,16 @@ export function setupIpcHandlers(): void {
     const db = getDatabase();
     
     const totalCustomers: any = db.prepare(`
-      SELECT COUNT(DISTINCT customer_name) as count
-      FROM invoices
-      WHERE customer_name IS NOT NULL AND customer_name != ''
+      SELECT COUNT(*) as count FROM customers
     `).get();
     
     const repeatCustomers: any = db.prepare(`
       SELECT COUNT(*) as count
       FROM (
-        SELECT customer_name
+        SELECT customer_id
         FROM invoices
-        WHERE customer_name IS NOT NULL AND customer_name != ''
-        GROUP BY customer_name
+        WHERE customer_id IS NOT NULL AND status != 'void'
+        GROUP BY customer_id
         HAVING COUNT(*) > 1
       )
     `).get();
@@ -593,17 +1356,20 @@ export function setupIpcHandlers(): void {
     const avgPurchase: any = db.prepare(`
       SELECT AVG(total_amount) as avg
       FROM invoices
+      WHERE status != 'void'
     `).get();
     
     const topCustomers = db.prepare(`
       SELECT 
-        customer_name,
-        customer_phone,
+        c.id as customer_id,
+        c.name as customer_name,
+        c.phone as customer_phone,
         COUNT(*) as invoice_count,
-        SUM(total_amount) as total_spent
-      FROM invoices
-      WHERE customer_name IS NOT NULL AND customer_name != ''
-      GROUP BY customer_name, customer_phone
+        SUM(i.total_amount) as total_spent
+      FROM invoices i
+      INNER JOIN customers c ON i.customer_id = c.id
+      WHERE i.status != 'void'
+      GROUP BY c.id
       ORDER BY total_spent DESC
       LIMIT 10
     `).all();
@@ -616,6 +1382,26 @@ export function setupIpcHandlers(): void {
     };
   });
 
+  ipcMain.handle('reports:receivables', async () => {
+    return getReceivablesAging();
+  });
+
+  ipcMain.handle('reports:taxSummary', async (_, startDate: string, endDate: string, groupBy: 'day' | 'month') => {
+    return getTaxSummary(startDate, endDate, groupBy);
+  });
+
+  ipcMain.handle('reports:agedStock', async (_, years: number) => {
+    return getAgedUnits(years);
+  });
+
+  ipcMain.handle('reports:inventoryValuation', async (_, asOfDate: string) => {
+    return getInventoryValuation(asOfDate);
+  });
+
+  ipcMain.handle('reports:grossMargins', async (_, startDate: string, endDate: string, groupBy: MarginGrouping) => {
+    return getGrossMargins(startDate, endDate, groupBy);
+  });
+
   // ========== UTILITY HANDLERS ==========
 
   ipcMain.handle('app:getVersion', async () => {
@@ -626,6 +1412,55 @@ export function setupIpcHandlers(): void {
     return app.getPath('userData');
   });
 
+  // ========== DISCOUNT HANDLERS ==========
+
+  ipcMain.handle('discounts:getSettings', async () => {
+    return getDiscountSettings();
+  });
+
+  ipcMain.handle('discounts:updateSettings', async (_, data: any) => {
+    return updateDiscountSettings(data);
+  });
+
+  // ========== COSTING HANDLERS ==========
+
+  ipcMain.handle('costing:getSettings', async () => {
+    return getCostingSettings();
+  });
+
+  ipcMain.handle('costing:updateSettings', async (_, data: any) => {
+    return updateCostingSettings(data);
+  });
+
+  // ========== TAX HANDLERS ==========
+
+  ipcMain.handle('taxes:getAll', async () => {
+    return getTaxRates();
+  });
+
+  ipcMain.handle('taxes:create', async (_, data: any) => {
+    return createTaxRate(data);
+  });
+
+  ipcMain.handle('taxes:update', async (_, id: number, data: any) => {
+    return updateTaxRate(id, data);
+  });
+
+  ipcMain.handle('taxes:delete', async (_, id: number) => {
+    return deleteTaxRate(id);
+  });
+
+  // ========== NUMBERING HANDLERS ==========
+
+  ipcMain.handle('numbering:getSettings', async (_, documentType: string) => {
+    return { ...getNumberingSettings(documentType), next_number: previewNextNumber(documentType) };
+  });
+
+  ipcMain.handle('numbering:updateSettings', async (_, documentType: string, data: any) => {
+    const settings = updateNumberingSettings(documentType, data);
+    return { ...settings, next_number: previewNextNumber(documentType) };
+  });
+
   // ========== BACKUP HANDLERS ==========
 
   ipcMain.handle('backup:getSettings', async () => {
@@ -0,0 +1,368 @@
+import { getDatabase } from './database';
+import { nextDocumentNumber } from './numbering';
+import { getLocalDateTime } from './utils';
+
+export interface LocationInput {
+  name: string;
+  is_active?: boolean;
+}
+
+export interface StockTransferInput {
+  from_location_id: number;
+  to_location_id: number;
+  notes?: string | null;
+  items: { product_id: number; quantity: number }[];
+}
+
+/**
+ * List locations with how much stock each holds; the default location first
+ */
+export function getLocations(): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT l.*,
+      COALESCE(SUM(ps.quantity), 0) as total_quantity,
+      COUNT(CASE WHEN ps.quantity > 0 THEN 1 END) as product_count
+    FROM stock_locations l
+    LEFT JOIN product_stock ps ON ps.location_id = l.id
+    GROUP BY l.id
+    ORDER BY l.is_default DESC, l.name
+  `).all();
+}
+
+/**
+ * Add a location
+ */
+export function createLocation(data: LocationInput): { id: number } {
+  const db = getDatabase();
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error('Location name is required');
+  }
+  if (db.prepare('SELECT 1 FROM stock_locations WHERE name = ? COLLATE NOCASE').get(name)) {
+    throw new Error(`A location called ${name} already exists`);
+  }
+  const result = db.prepare('INSERT INTO stock_locations (name, created_at) VALUES (?, ?)').run(name, getLocalDateTime());
+  return { id: result.lastInsertRowid as number };
+}
+
+/**
+ * Rename a location or close it. A location can only be closed once it is empty.
+ */
+export function updateLocation(id: number, data: LocationInput): { success: boolean } {
+  const db = getDatabase();
+  const location = db.prepare('SELECT * FROM stock_locations WHERE id = ?').get(id) as any;
+  if (!location) {
+    throw new Error('Location not found');
+  }
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error('Location name is required');
+  }
+  if (db.prepare('SELECT 1 FROM stock_locations WHERE name = ? COLLATE NOCASE AND id != ?').get(name, id)) {
+    throw new Error(`A location called ${name} already exists`);
+  }
+
+  const isActive = data.is_active ?? !!location.is_active;
+  if (!isActive && location.is_active) {
+    if (location.is_default) {
+      throw new Error('The default location cannot be closed; make another location the default first');
+    }
+    if (getLocationStockTotal(id) !== 0) {
+      throw new Error(`Move the stock out of ${location.name} before closing it`);
+    }
+  }
+
+  db.prepare('UPDATE stock_locations SET name = ?, is_active = ? WHERE id = ?').run(name, isActive ? 1 : 0, id);
+  return { success: true };
+}
+
+/**
+ * Make a location the one sales and receipts use unless another is chosen
+ */
+export function setDefaultLocation(id: number): { success: boolean } {
+  const db = getDatabase();
+  const location = db.prepare('SELECT is_active FROM stock_locations WHERE id = ?').get(id) as { is_active: number } | undefined;
+  if (!location) {
+    throw new Error('Location not found');
+  }
+  if (!location.is_active) {
+    throw new Error('A closed location cannot be the default');
+  }
+  db.transaction(() => {
+    db.prepare('UPDATE stock_locations SET is_default = 0 WHERE is_default = 1').run();
+    db.prepare('UPDATE stock_locations SET is_default = 1 WHERE id = ?').run(id);
+  })();
+  return { success: true };
+}
+
+/**
+ * Delete a location added by mistake. Locations that have held stock are closed instead.
+ */
+export function deleteLocation(id: number): { success: boolean } {
+  const db = getDatabase();
+  const location = db.prepare('SELECT * FROM stock_locations WHERE id = ?').get(id) as any;
+  if (!location) {
+    throw new Error('Location not found');
+  }
+  if (location.is_default) {
+    throw new Error('The default location cannot be deleted');
+  }
+  const used = db.prepare(`
+    SELECT 1 FROM stock_movements WHERE location_id = ?
+    UNION ALL SELECT 1 FROM stock_transfers WHERE from_location_id = ? OR to_location_id = ?
+    UNION ALL SELECT 1 FROM invoices WHERE location_id = ?
+    UNION ALL SELECT 1 FROM stock_takes WHERE location_id = ?
+    LIMIT 1
+  `).get(id, id, id, id, id);
+  if (used || getLocationStockTotal(id) !== 0) {
+    throw new Error(`${location.name} has stock history; close it instead`);
+  }
+  db.transaction(() => {
+    db.prepare('DELETE FROM product_stock WHERE location_id = ?').run(id);
+    db.prepare('DELETE FROM stock_locations WHERE id = ?').run(id);
+  })();
+  return { success: true };
+}
+
+function getLocationStockTotal(locationId: number): number {
+  const db = getDatabase();
+  return (db.prepare('SELECT COALESCE(SUM(ABS(quantity)), 0) as total FROM product_stock WHERE location_id = ?')
+    .get(locationId) as { total: number }).total;
+}
+
+/**
+ * Where stock comes back to on a void or return: the location it left, or the default
+ * if that location has since been closed
+ */
+export function getReturnLocationId(locationId?: number | null): number {
+  const db = getDatabase();
+  const open = locationId && db.prepare('SELECT 1 FROM stock_locations WHERE id = ? AND is_active = 1').get(locationId);
+  return open ? (locationId as number) : getDefaultLocationId();
+}
+
+/**
+ * The location used when none is chosen
+ */
+export function getDefaultLocationId(): number {
+  const db = getDatabase();
+  const location = db.prepare('SELECT id FROM stock_locations WHERE is_default = 1').get() as { id: number } | undefined;
+  if (!location) {
+    throw new Error('No default stock location is set');
+  }
+  return location.id;
+}
+
+/**
+ * The location a stock change applies to: the one given, which must be open, or the default
+ */
+export function resolveLocationId(locationId?: number | null): number {
+  if (!locationId) return getDefaultLocationId();
+  const db = getDatabase();
+  const location = db.prepare('SELECT name, is_active FROM stock_locations WHERE id = ?').get(locationId) as
+    { name: string; is_active: number } | undefined;
+  if (!location) {
+    throw new Error('Stock location not found');
+  }
+  if (!location.is_active) {
+    throw new Error(`${location.name} is closed`);
+  }
+  return locationId;
+}
+
+/**
+ * Add to (or, with a negative quantity, take from) a product's stock at a location.
+ * products.stock_quantity is kept by the caller. Must run in the caller's transaction.
+ */
+export function changeLocationStock(productId: number, locationId: number, quantity: number): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO product_stock (product_id, location_id, quantity) VALUES (?, ?, ?)
+    ON CONFLICT(product_id, location_id) DO UPDATE SET quantity = quantity + excluded.quantity
+  `).run(productId, locationId, quantity);
+}
+
+/**
+ * Quantity of a product at a location
+ */
+export function getLocationQuantity(productId: number, locationId: number): number {
+  const db = getDatabase();
+  const row = db.prepare('SELECT quantity FROM product_stock WHERE product_id = ? AND location_id = ?')
+    .get(productId, locationId) as { quantity: number } | undefined;
+  return row?.quantity ?? 0;
+}
+
+/**
+ * Quantities of every product at a location, by product id
+ */
+export function getLocationQuantities(locationId: number): Map<number, number> {
+  const db = getDatabase();
+  const rows = db.prepare('SELECT product_id, quantity FROM product_stock WHERE location_id = ?')
+    .all(locationId) as { product_id: number; quantity: number }[];
+  return new Map(rows.map((row) => [row.product_id, row.quantity]));
+}
+
+/**
+ * A product's stock at each open location
+ */
+export function getProductStock(productId: number): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT l.id as location_id, l.name as location_name, l.is_default, COALESCE(ps.quantity, 0) as quantity
+    FROM stock_locations l
+    LEFT JOIN product_stock ps ON ps.location_id = l.id AND ps.product_id = ?
+    WHERE l.is_active = 1 OR ps.quantity != 0
+    ORDER BY l.is_default DESC, l.name
+  `).all(productId);
+}
+
+/**
+ * Products at or below their low-stock threshold: at one location when given,
+ * otherwise across all locations together
+ */
+export function getLowStockProducts(locationId?: number | null): any[] {
+  const db = getDatabase();
+  if (!locationId) {
+    return db.prepare(`
+      SELECT * FROM products
+      WHERE stock_quantity <= low_stock_threshold AND product_type IS NOT 'service' AND product_type IS NOT 'bundle'
+      ORDER BY stock_quantity ASC
+    `).all();
+  }
+  return db.prepare(`
+    SELECT p.*, l.id as location_id, l.name as location_name, COALESCE(ps.quantity, 0) as location_quantity
+    FROM products p
+    INNER JOIN stock_locations l ON l.id = ?
+    LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = l.id
+    WHERE COALESCE(ps.quantity, 0) <= p.low_stock_threshold
+      AND p.product_type IS NOT 'service' AND p.product_type IS NOT 'bundle'
+    ORDER BY location_quantity ASC
+  `).all(locationId);
+}
+
+/**
+ * List transfers between locations, newest first
+ */
+export function getStockTransfers(): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT t.*, fl.name as from_location_name, tl.name as to_location_name,
+      (SELECT COALESCE(SUM(quantity), 0) FROM stock_transfer_items WHERE transfer_id = t.id) as total_quantity
+    FROM stock_transfers t
+    INNER JOIN stock_locations fl ON t.from_location_id = fl.id
+    INNER JOIN stock_locations tl ON t.to_location_id = tl.id
+    ORDER BY t.created_at DESC, t.id DESC
+    LIMIT 200
+  `).all();
+}
+
+/**
+ * Get a transfer with its lines
+ */
+export function getStockTransferById(id: number): any {
+  const db = getDatabase();
+  const transfer = db.prepare(`
+    SELECT t.*, fl.name as from_location_name, tl.name as to_location_name
+    FROM stock_transfers t
+    INNER JOIN stock_locations fl ON t.from_location_id = fl.id
+    INNER JOIN stock_locations tl ON t.to_location_id = tl.id
+    WHERE t.id = ?
+  `).get(id) as any;
+  if (!transfer) return null;
+  transfer.items = db.prepare('SELECT * FROM stock_transfer_items WHERE transfer_id = ? ORDER BY id').all(id);
+  return transfer;
+}
+
+/**
+ * Move stock from one location to another. Each line writes a 'transfer_out' movement
+ * at the source and a 'transfer_in' movement at the destination; the product's total
+ * stock does not change. DOT units go along, oldest first, where the source would
+ * otherwise keep more units than stock.
+ */
+export function createStockTransfer(data: StockTransferInput): { id: number; transfer_number: string } {
+  const db = getDatabase();
+
+  const transaction = db.transaction(() => {
+    const fromId = resolveLocationId(data.from_location_id);
+    const toId = resolveLocationId(data.to_location_id);
+    if (fromId === toId) {
+      throw new Error('Choose two different locations');
+    }
+
+    // Add up repeated products so the stock check sees the whole quantity
+    const quantities = new Map<number, number>();
+    for (const item of data.items || []) {
+      const quantity = Number(item.quantity);
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new Error('Transfer quantities must be whole numbers above zero');
+      }
+      quantities.set(item.product_id, (quantities.get(item.product_id) || 0) + quantity);
+    }
+    if (quantities.size === 0) {
+      throw new Error('Add at least one product to transfer');
+    }
+
+    const locationNameStmt = db.prepare('SELECT name FROM stock_locations WHERE id = ?');
+    const fromName = (locationNameStmt.get(fromId) as { name: string }).name;
+    const toName = (locationNameStmt.get(toId) as { name: string }).name;
+
+    const numberTakenStmt = db.prepare('SELECT 1 FROM stock_transfers WHERE transfer_number = ?');
+    const transferNumber = nextDocumentNumber('stock_transfer', (number) => !!numberTakenStmt.get(number));
+    const createdAt = getLocalDateTime();
+
+    const transferResult = db.prepare(`
+      INSERT INTO stock_transfers (transfer_number, from_location_id, to_location_id, notes, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(transferNumber, fromId, toId, data.notes?.trim() || null, createdAt);
+    const transferId = transferResult.lastInsertRowid as number;
+
+    const productStmt = db.prepare('SELECT name, product_type FROM products WHERE id = ?');
+    const itemStmt = db.prepare(`
+      INSERT INTO stock_transfer_items (transfer_id, product_id, product_name, quantity) VALUES (?, ?, ?, ?)
+    `);
+    const movementStmt = db.prepare(`
+      INSERT INTO stock_movements (product_id, movement_type, quantity, reference_id, notes, location_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const unitCountStmt = db.prepare(`
+      SELECT COUNT(*) as count FROM product_units WHERE product_id = ? AND location_id = ? AND status = 'in_stock'
+    `);
+    const moveUnitsStmt = db.prepare(`
+      UPDATE product_units SET location_id = ?
+      WHERE id IN (
+        SELECT id FROM product_units
+        WHERE product_id = ? AND location_id = ? AND status = 'in_stock'
+        ORDER BY manufactured_on, id
+        LIMIT ?
+      )
+    `);
+
+    for (const [productId, quantity] of quantities) {
+      const product = productStmt.get(productId) as { name: string; product_type: string } | undefined;
+      if (!product) {
+        throw new Error('A product on the transfer no longer exists');
+      }
+      if (product.product_type === 'service' || product.product_type === 'bundle') {
+        throw new Error(`${product.name} carries no stock`);
+      }
+      const available = getLocationQuantity(productId, fromId);
+      if (quantity > available) {
+        throw new Error(`Only ${available} of ${product.name} at ${fromName}`);
+      }
+
+      itemStmt.run(transferId, productId, product.name, quantity);
+      changeLocationStock(productId, fromId, -quantity);
+      changeLocationStock(productId, toId, quantity);
+      const unitsToMove = (unitCountStmt.get(productId, fromId) as { count: number }).count - (available - quantity);
+      if (unitsToMove > 0) {
+        moveUnitsStmt.run(toId, productId, fromId, unitsToMove);
+      }
+      movementStmt.run(productId, 'transfer_out', quantity, transferId, `${transferNumber} to ${toName}`, fromId, createdAt);
+      movementStmt.run(productId, 'transfer_in', quantity, transferId, `${transferNumber} from ${fromName}`, toId, createdAt);
+    }
+
+    return { id: transferId, transfer_number: transferNumber };
+  });
+
+  return transaction();
+}
@@ -2,16 +2,83 @@ import { app, BrowserWindow } from 'electron';
 import path from 'path';
 import { pathToFileURL } from 'url';
 import * as fs from 'fs';
-import { initDatabase } from './database';
+import { initDatabase, MigrationError } from './database';
 import { setupIpcHandlers } from './ipc-handlers';
 
 let mainWindow: BrowserWindow | null = null;
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
+/**
+ * Escape text for safe inclusion in the failure screen HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Show a blocking error screen when the database could not be migrated.
+ * The app must not open on a partially upgraded schema.
+ */
+function showDatabaseFailure(error: any): void {
+  const isMigrationError = error instanceof MigrationError;
+  const title = isMigrationError ? 'Database Upgrade Failed' : 'Database Failed to Open';
+  const details = isMigrationError
+    ? `<p>Migration <b>${error.version} (${escapeHtml(error.migrationName)})</b> could not be applied.</p>
+       <p>The database has been left at the last successfully applied version. No sales data has been changed.</p>
+       ${error.snapshotPath
+         ? `<p>A copy of the database taken before the upgrade is saved at:</p><pre>${escapeHtml(error.snapshotPath)}</pre>`
+         : ''}
+       <p>Error:</p><pre>${escapeHtml(error.cause?.message || String(error.cause))}</pre>`
+    : `<p>Error:</p><pre>${escapeHtml(error?.message || String(error))}</pre>`;
+
+  const html = `<!DOCTYPE html>
+    <html>
+    <head><title>${title}</title>
+      <style>
+        body { font-family: Arial, sans-serif; background: #fef2f2; color: #1f2937; padding: 40px; }
+        .card { max-width: 720px; margin: 0 auto; background: #fff; border-left: 6px solid #dc2626; border-radius: 8px; padding: 24px 32px; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+        h1 { color: #b91c1c; font-size: 22px; }
+        pre { background: #f3f4f6; padding: 12px; border-radius: 6px; white-space: pre-wrap; word-break: break-all; }
+      </style>
+    </head>
+    <body>
+      <div class="card">
+        <h1>⚠️ ${title}</h1>
+        ${details}
+        <p>Please close the application and contact support before using this PC for billing.</p>
+      </div>
+    </body>
+    </html>`;
+
+  mainWindow = new BrowserWindow({
+    width: 900,
+    height: 600,
+    title,
+    webPreferences: {
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+  mainWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+  mainWindow.on('closed', () => {
+    mainWindow = null;
+  });
+}
+
 function createWindow(): void {
   // Initialize database before creating window
-  initDatabase();
+  try {
+    initDatabase();
+  } catch (error) {
+    console.error('Database initialization failed:', error);
+    showDatabaseFailure(error);
+    return;
+  }
 
   // Create the browser window
   mainWindow = new BrowserWindow({
@@ -0,0 +1,127 @@
+import { Migration } from './types';
+
+/**
+ * Suppliers, purchase orders and goods-received notes (GRNs).
+ * Receiving a GRN writes 'purchase' stock movements.
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'purchasing',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS suppliers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        contact_person TEXT,
+        phone TEXT,
+        email TEXT,
+        address TEXT,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS purchase_orders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        po_number TEXT UNIQUE NOT NULL,
+        supplier_id INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'ordered', -- 'draft', 'ordered', 'partially_received', 'received', 'cancelled'
+        order_date DATETIME,
+        expected_date TEXT,
+        notes TEXT,
+        total_amount REAL NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (supplier_id) REFERENCES suppliers(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS purchase_order_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        purchase_order_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        quantity_ordered INTEGER NOT NULL,
+        quantity_received INTEGER NOT NULL DEFAULT 0,
+        unit_cost REAL NOT NULL DEFAULT 0,
+        total_cost REAL NOT NULL DEFAULT 0,
+        FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS goods_received_notes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        grn_number TEXT UNIQUE NOT NULL,
+        purchase_order_id INTEGER NOT NULL,
+        received_date DATETIME,
+        notes TEXT,
+        total_amount REAL NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS grn_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        grn_id INTEGER NOT NULL,
+        purchase_order_item_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        quantity INTEGER NOT NULL,
+        unit_cost REAL NOT NULL DEFAULT 0,
+        total_cost REAL NOT NULL DEFAULT 0,
+        FOREIGN KEY (grn_id) REFERENCES goods_received_notes(id) ON DELETE CASCADE,
+        FOREIGN KEY (purchase_order_item_id) REFERENCES purchase_order_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers(name);
+      CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+      CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+      CREATE INDEX IF NOT EXISTS idx_purchase_order_items_po_id ON purchase_order_items(purchase_order_id);
+      CREATE INDEX IF NOT EXISTS idx_purchase_order_items_product_id ON purchase_order_items(product_id);
+      CREATE INDEX IF NOT EXISTS idx_grn_purchase_order_id ON goods_received_notes(purchase_order_id);
+      CREATE INDEX IF NOT EXISTS idx_grn_items_grn_id ON grn_items(grn_id);
+      CREATE INDEX IF NOT EXISTS idx_grn_items_product_id ON grn_items(product_id);
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_suppliers_timestamp
+      AFTER UPDATE ON suppliers
+      BEGIN
+        UPDATE suppliers SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+      END
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_purchase_orders_timestamp
+      AFTER UPDATE ON purchase_orders
+      BEGIN
+        UPDATE purchase_orders SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+      END
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TRIGGER IF EXISTS update_purchase_orders_timestamp;
+      DROP TRIGGER IF EXISTS update_suppliers_timestamp;
+      DROP TABLE IF EXISTS grn_items;
+      DROP TABLE IF EXISTS goods_received_notes;
+      DROP TABLE IF EXISTS purchase_order_items;
+      DROP TABLE IF EXISTS purchase_orders;
+      DROP TABLE IF EXISTS suppliers;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,64 @@
+import { Migration } from './types';
+
+/**
+ * Per-supplier product price lists (preferred / alternate) and supplier contact history.
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'supplier_directory',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS product_suppliers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER NOT NULL,
+        supplier_id INTEGER NOT NULL,
+        cost_price REAL NOT NULL DEFAULT 0,
+        is_preferred INTEGER NOT NULL DEFAULT 0, -- 1 = preferred supplier, 0 = alternate
+        supplier_sku TEXT,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(product_id, supplier_id),
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (supplier_id) REFERENCES suppliers(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS supplier_contacts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        supplier_id INTEGER NOT NULL,
+        contact_date DATETIME NOT NULL,
+        contact_type TEXT NOT NULL DEFAULT 'call', -- 'call', 'email', 'visit', 'price_list', 'other'
+        summary TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (supplier_id) REFERENCES suppliers(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_product_suppliers_product_id ON product_suppliers(product_id);
+      CREATE INDEX IF NOT EXISTS idx_product_suppliers_supplier_id ON product_suppliers(supplier_id);
+      CREATE INDEX IF NOT EXISTS idx_supplier_contacts_supplier_id ON supplier_contacts(supplier_id);
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_product_suppliers_timestamp
+      AFTER UPDATE ON product_suppliers
+      BEGIN
+        UPDATE product_suppliers SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+      END
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TRIGGER IF EXISTS update_product_suppliers_timestamp;
+      DROP TABLE IF EXISTS supplier_contacts;
+      DROP TABLE IF EXISTS product_suppliers;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,61 @@
+import { Migration } from './types';
+
+/**
+ * Sales returns. Each return is a credit note against the original invoice;
+ * returned items write 'return' stock movements.
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'sales_returns',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS credit_notes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        credit_note_number TEXT UNIQUE NOT NULL,
+        invoice_id INTEGER NOT NULL,
+        refund_method TEXT NOT NULL DEFAULT 'refund', -- 'refund' or 'store_credit'
+        reason TEXT,
+        subtotal REAL NOT NULL DEFAULT 0,
+        tax_amount REAL NOT NULL DEFAULT 0,
+        total_amount REAL NOT NULL DEFAULT 0,
+        credit_balance REAL NOT NULL DEFAULT 0, -- unredeemed store credit
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (invoice_id) REFERENCES invoices(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS credit_note_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        credit_note_id INTEGER NOT NULL,
+        invoice_item_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        quantity INTEGER NOT NULL,
+        unit_price REAL NOT NULL,
+        total_price REAL NOT NULL,
+        FOREIGN KEY (credit_note_id) REFERENCES credit_notes(id) ON DELETE CASCADE,
+        FOREIGN KEY (invoice_item_id) REFERENCES invoice_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice_id ON credit_notes(invoice_id);
+      CREATE INDEX IF NOT EXISTS idx_credit_notes_created_at ON credit_notes(created_at);
+      CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note_id ON credit_note_items(credit_note_id);
+      CREATE INDEX IF NOT EXISTS idx_credit_note_items_invoice_item_id ON credit_note_items(invoice_item_id);
+      CREATE INDEX IF NOT EXISTS idx_credit_note_items_product_id ON credit_note_items(product_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS credit_note_items;
+      DROP TABLE IF EXISTS credit_notes;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Void audit trail on invoices. Voided invoices keep their number and rows
+ * but get status 'void' and are excluded from reports.
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'invoice_voiding',
+
+  up(db) {
+    addColumnIfMissing(db, 'invoices', 'void_reason', 'TEXT');
+    addColumnIfMissing(db, 'invoices', 'voided_at', 'DATETIME');
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_invoices_status;
+      ALTER TABLE invoices DROP COLUMN voided_at;
+      ALTER TABLE invoices DROP COLUMN void_reason;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+import { Migration } from './types';
+
+/**
+ * Configurable sequential document numbers. document_sequences holds the format
+ * per document type; document_counters holds the last number issued per reset period.
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'document_numbering',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS document_sequences (
+        document_type TEXT PRIMARY KEY, -- 'invoice'
+        prefix TEXT NOT NULL DEFAULT '',
+        reset_period TEXT NOT NULL DEFAULT 'yearly', -- 'never', 'yearly', 'monthly'
+        padding INTEGER NOT NULL DEFAULT 5,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS document_counters (
+        document_type TEXT NOT NULL,
+        period_key TEXT NOT NULL, -- '' (never), 'YYYY' (yearly) or 'YYYY-MM' (monthly)
+        last_value INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (document_type, period_key),
+        FOREIGN KEY (document_type) REFERENCES document_sequences(document_type) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      INSERT OR IGNORE INTO document_sequences (document_type, prefix, reset_period, padding)
+      VALUES ('invoice', 'INV-', 'yearly', 5)
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS document_counters;
+      DROP TABLE IF EXISTS document_sequences;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,85 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+import { normalizePhone } from '../utils';
+
+/**
+ * Customer master records keyed by phone number, linked from invoices.
+ * Existing invoices with a phone number are grouped into customers; invoices
+ * without one stay as walk-in sales.
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'customers',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS customers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT,
+        phone TEXT UNIQUE NOT NULL, -- normalized, see normalizePhone()
+        email TEXT,
+        address TEXT,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_customers_timestamp
+      AFTER UPDATE ON customers
+      BEGIN
+        UPDATE customers SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+      END
+    `);
+
+    // customers.id; no REFERENCES clause so the column can be dropped again in down()
+    addColumnIfMissing(db, 'invoices', 'customer_id', 'INTEGER');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_invoices_customer ON invoices(customer_id)');
+
+    // Backfill from invoice history, oldest first so the latest name/email wins
+    const invoices = db.prepare(`
+      SELECT id, customer_name, customer_phone, customer_email, created_at
+      FROM invoices
+      WHERE customer_phone IS NOT NULL AND TRIM(customer_phone) != ''
+      ORDER BY created_at, id
+    `).all() as any[];
+
+    const findStmt = db.prepare('SELECT id FROM customers WHERE phone = ?');
+    const insertStmt = db.prepare(`
+      INSERT INTO customers (name, phone, email, created_at) VALUES (?, ?, ?, ?)
+    `);
+    const refreshStmt = db.prepare(`
+      UPDATE customers SET name = COALESCE(?, name), email = COALESCE(?, email) WHERE id = ?
+    `);
+    const linkStmt = db.prepare('UPDATE invoices SET customer_id = ? WHERE id = ?');
+
+    for (const invoice of invoices) {
+      const phone = normalizePhone(invoice.customer_phone);
+      if (!phone) continue;
+      const name = invoice.customer_name?.trim() || null;
+      const email = invoice.customer_email?.trim() || null;
+
+      const existing = findStmt.get(phone) as { id: number } | undefined;
+      let customerId: number;
+      if (existing) {
+        customerId = existing.id;
+        refreshStmt.run(name, email, customerId);
+      } else {
+        customerId = insertStmt.run(name, phone, email, invoice.created_at).lastInsertRowid as number;
+      }
+      linkStmt.run(customerId, invoice.id);
+    }
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_invoices_customer;
+      ALTER TABLE invoices DROP COLUMN customer_id;
+      DROP TRIGGER IF EXISTS update_customers_timestamp;
+      DROP TABLE IF EXISTS customers;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,56 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Vehicles owned by customers, with OEM fitment used to suggest matching
+ * tires and wheels on the Billing page. Invoices can record the vehicle served.
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'customer_vehicles',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS customer_vehicles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        customer_id INTEGER NOT NULL,
+        registration_number TEXT UNIQUE NOT NULL, -- upper case, single spaces
+        make TEXT,
+        model TEXT,
+        year INTEGER,
+        tire_size TEXT, -- OEM size, e.g. 195/65R15
+        wheel_pcd TEXT, -- e.g. 5x114.3
+        wheel_stud_count INTEGER,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_customer_vehicles_customer ON customer_vehicles(customer_id)
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_customer_vehicles_timestamp
+      AFTER UPDATE ON customer_vehicles
+      BEGIN
+        UPDATE customer_vehicles SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+      END
+    `);
+
+    // customer_vehicles.id
+    addColumnIfMissing(db, 'invoices', 'vehicle_id', 'INTEGER');
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE invoices DROP COLUMN vehicle_id;
+      DROP TRIGGER IF EXISTS update_customer_vehicles_timestamp;
+      DROP TABLE IF EXISTS customer_vehicles;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,49 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Multiple tenders per invoice. invoices.payment_method stays as a summary
+ * ('split' when more than one method was used); reports add up invoice_payments.
+ * Existing invoices get one tender for their total.
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'invoice_payments',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS invoice_payments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoice_id INTEGER NOT NULL,
+        payment_method TEXT NOT NULL, -- 'cash', 'card', 'mobile', 'bank_transfer', 'cheque'
+        amount REAL NOT NULL, -- applied to the invoice
+        tendered REAL NOT NULL, -- handed over; more than amount for cash with change
+        reference TEXT, -- card approval code, cheque number, etc.
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(invoice_id)
+    `);
+
+    addColumnIfMissing(db, 'invoices', 'change_due', 'REAL NOT NULL DEFAULT 0');
+
+    db.exec(`
+      INSERT INTO invoice_payments (invoice_id, payment_method, amount, tendered, created_at)
+      SELECT id, COALESCE(payment_method, 'cash'), total_amount, total_amount, created_at
+      FROM invoices
+      WHERE id NOT IN (SELECT invoice_id FROM invoice_payments)
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE invoices DROP COLUMN change_due;
+      DROP TABLE IF EXISTS invoice_payments;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,62 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Customer credit accounts. A 'credit' tender leaves invoices.balance_due open on the
+ * customer's account; settlements are allocated against open invoices and returns on a
+ * credit invoice reduce what is owed (credit_notes.account_credit).
+ * customers.credit_limit is NULL for customers without a credit account.
+ */
+const migration: Migration = {
+  version: 10,
+  name: 'customer_credit',
+
+  up(db) {
+    addColumnIfMissing(db, 'customers', 'credit_limit', 'REAL');
+    addColumnIfMissing(db, 'invoices', 'balance_due', 'REAL NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'credit_notes', 'account_credit', 'REAL NOT NULL DEFAULT 0');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS customer_settlements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        customer_id INTEGER NOT NULL,
+        amount REAL NOT NULL,
+        payment_method TEXT NOT NULL, -- 'cash', 'card', 'mobile', 'bank_transfer', 'cheque'
+        reference TEXT,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (customer_id) REFERENCES customers(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS settlement_allocations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        settlement_id INTEGER NOT NULL,
+        invoice_id INTEGER NOT NULL,
+        amount REAL NOT NULL,
+        FOREIGN KEY (settlement_id) REFERENCES customer_settlements(id) ON DELETE CASCADE,
+        FOREIGN KEY (invoice_id) REFERENCES invoices(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_customer_settlements_customer ON customer_settlements(customer_id);
+      CREATE INDEX IF NOT EXISTS idx_settlement_allocations_invoice ON settlement_allocations(invoice_id);
+      CREATE INDEX IF NOT EXISTS idx_invoices_balance_due ON invoices(balance_due) WHERE balance_due > 0;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS settlement_allocations;
+      DROP TABLE IF EXISTS customer_settlements;
+      DROP INDEX IF EXISTS idx_invoices_balance_due;
+      ALTER TABLE credit_notes DROP COLUMN account_credit;
+      ALTER TABLE invoices DROP COLUMN balance_due;
+      ALTER TABLE customers DROP COLUMN credit_limit;
+    `);
+  },
+};
+
+export default migration;
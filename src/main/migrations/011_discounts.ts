@@ -0,0 +1,50 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Line and bill discounts. invoice_items.total_price is the line total after its discount;
+ * invoices.subtotal stays the gross of quantity x unit price and invoices.discount_amount
+ * is every discount on the bill (lines plus bill discount), so
+ * total = subtotal - discount_amount + tax_amount.
+ * app_settings holds shop-wide settings such as the discount approval limit.
+ */
+const migration: Migration = {
+  version: 11,
+  name: 'discounts',
+
+  up(db) {
+    addColumnIfMissing(db, 'invoice_items', 'discount_type', 'TEXT'); // 'percent' or 'amount'
+    addColumnIfMissing(db, 'invoice_items', 'discount_value', 'REAL NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'invoice_items', 'discount_amount', 'REAL NOT NULL DEFAULT 0');
+
+    addColumnIfMissing(db, 'invoices', 'bill_discount_type', 'TEXT');
+    addColumnIfMissing(db, 'invoices', 'bill_discount_value', 'REAL NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'invoices', 'discount_authorized', 'INTEGER NOT NULL DEFAULT 0');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      INSERT OR IGNORE INTO app_settings (key, value) VALUES ('discount_approval_limit', '10')
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS app_settings;
+      ALTER TABLE invoices DROP COLUMN discount_authorized;
+      ALTER TABLE invoices DROP COLUMN bill_discount_value;
+      ALTER TABLE invoices DROP COLUMN bill_discount_type;
+      ALTER TABLE invoice_items DROP COLUMN discount_amount;
+      ALTER TABLE invoice_items DROP COLUMN discount_value;
+      ALTER TABLE invoice_items DROP COLUMN discount_type;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,86 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Named tax rates (VAT, SSCL, ...) assigned to product types or categories.
+ * Taxes are worked out per invoice line and kept in invoice_item_taxes.
+ * invoices.tax_amount is every tax on the bill; inclusive_tax_amount is the part
+ * already inside the prices, so total = subtotal - discount + tax - inclusive tax.
+ */
+const migration: Migration = {
+  version: 12,
+  name: 'taxes',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS tax_rates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        rate REAL NOT NULL, -- percent
+        is_inclusive INTEGER NOT NULL DEFAULT 0, -- 1: prices already include this tax
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Which products a rate applies to. NULL matches anything, so a row with both
+    // NULL applies the rate to every product.
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS tax_rate_assignments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tax_rate_id INTEGER NOT NULL,
+        product_type TEXT, -- 'tire', 'alloy_wheel', 'general'
+        category TEXT,
+        FOREIGN KEY (tax_rate_id) REFERENCES tax_rates(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS invoice_item_taxes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoice_item_id INTEGER NOT NULL,
+        invoice_id INTEGER NOT NULL,
+        tax_rate_id INTEGER,
+        tax_name TEXT NOT NULL, -- as charged, in case the rate is renamed later
+        rate REAL NOT NULL,
+        is_inclusive INTEGER NOT NULL DEFAULT 0,
+        taxable_amount REAL NOT NULL,
+        tax_amount REAL NOT NULL,
+        FOREIGN KEY (invoice_item_id) REFERENCES invoice_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE,
+        FOREIGN KEY (tax_rate_id) REFERENCES tax_rates(id) ON DELETE SET NULL
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_tax_rate_assignments_rate ON tax_rate_assignments(tax_rate_id);
+      CREATE INDEX IF NOT EXISTS idx_invoice_item_taxes_invoice ON invoice_item_taxes(invoice_id);
+      CREATE INDEX IF NOT EXISTS idx_invoice_item_taxes_item ON invoice_item_taxes(invoice_item_id);
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_tax_rates_timestamp
+      AFTER UPDATE ON tax_rates
+      BEGIN
+        UPDATE tax_rates SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+      END
+    `);
+
+    addColumnIfMissing(db, 'invoice_items', 'tax_amount', 'REAL NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'invoices', 'inclusive_tax_amount', 'REAL NOT NULL DEFAULT 0');
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE invoices DROP COLUMN inclusive_tax_amount;
+      ALTER TABLE invoice_items DROP COLUMN tax_amount;
+      DROP TRIGGER IF EXISTS update_tax_rates_timestamp;
+      DROP TABLE IF EXISTS invoice_item_taxes;
+      DROP TABLE IF EXISTS tax_rate_assignments;
+      DROP TABLE IF EXISTS tax_rates;
+    `);
+  },
+};
+
+export default migration;
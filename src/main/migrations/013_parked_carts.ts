@@ -0,0 +1,65 @@
+import { Migration } from './types';
+
+/**
+ * Carts parked at the till so another customer can be served. Parked quantities are
+ * held against stock until the cart is resumed or discarded.
+ */
+const migration: Migration = {
+  version: 13,
+  name: 'parked_carts',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS parked_carts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        label TEXT NOT NULL, -- customer name or vehicle plate
+        customer_id INTEGER,
+        vehicle_id INTEGER,
+        customer_name TEXT,
+        customer_phone TEXT,
+        bill_discount_type TEXT,
+        bill_discount_value REAL NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS parked_cart_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        parked_cart_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        quantity INTEGER NOT NULL,
+        unit_price REAL NOT NULL,
+        discount_type TEXT,
+        discount_value REAL NOT NULL DEFAULT 0,
+        FOREIGN KEY (parked_cart_id) REFERENCES parked_carts(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_parked_cart_items_cart ON parked_cart_items(parked_cart_id);
+      CREATE INDEX IF NOT EXISTS idx_parked_cart_items_product ON parked_cart_items(product_id);
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_parked_carts_timestamp
+      AFTER UPDATE ON parked_carts
+      BEGIN
+        UPDATE parked_carts SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+      END
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TRIGGER IF EXISTS update_parked_carts_timestamp;
+      DROP TABLE IF EXISTS parked_cart_items;
+      DROP TABLE IF EXISTS parked_carts;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,102 @@
+import { Migration } from './types';
+
+/**
+ * Quotations (estimates). Priced like an invoice but never touch stock; an open
+ * quotation is converted by creating an invoice from it, which links the two.
+ * Taxes are kept per quotation, added up by rate, for the printed quote.
+ */
+const migration: Migration = {
+  version: 14,
+  name: 'quotations',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS quotations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        quotation_number TEXT UNIQUE NOT NULL,
+        customer_id INTEGER,
+        vehicle_id INTEGER,
+        customer_name TEXT,
+        customer_phone TEXT,
+        customer_email TEXT,
+        subtotal REAL NOT NULL,
+        discount_amount REAL NOT NULL DEFAULT 0,
+        bill_discount_type TEXT,
+        bill_discount_value REAL NOT NULL DEFAULT 0,
+        discount_authorized INTEGER NOT NULL DEFAULT 0,
+        tax_amount REAL NOT NULL DEFAULT 0,
+        inclusive_tax_amount REAL NOT NULL DEFAULT 0,
+        total_amount REAL NOT NULL,
+        valid_until DATE NOT NULL,
+        notes TEXT,
+        status TEXT NOT NULL DEFAULT 'open', -- 'open', 'converted', 'cancelled'
+        invoice_id INTEGER, -- set when converted
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS quotation_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        quotation_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        quantity INTEGER NOT NULL,
+        unit_price REAL NOT NULL,
+        discount_type TEXT,
+        discount_value REAL NOT NULL DEFAULT 0,
+        discount_amount REAL NOT NULL DEFAULT 0,
+        total_price REAL NOT NULL,
+        tax_amount REAL NOT NULL DEFAULT 0,
+        FOREIGN KEY (quotation_id) REFERENCES quotations(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS quotation_taxes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        quotation_id INTEGER NOT NULL,
+        tax_name TEXT NOT NULL,
+        rate REAL NOT NULL,
+        is_inclusive INTEGER NOT NULL DEFAULT 0,
+        taxable_amount REAL NOT NULL,
+        tax_amount REAL NOT NULL,
+        FOREIGN KEY (quotation_id) REFERENCES quotations(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_quotations_customer ON quotations(customer_id);
+      CREATE INDEX IF NOT EXISTS idx_quotations_status ON quotations(status);
+      CREATE INDEX IF NOT EXISTS idx_quotation_items_quotation ON quotation_items(quotation_id);
+      CREATE INDEX IF NOT EXISTS idx_quotation_taxes_quotation ON quotation_taxes(quotation_id);
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_quotations_timestamp
+      AFTER UPDATE ON quotations
+      BEGIN
+        UPDATE quotations SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+      END
+    `);
+
+    db.exec(`
+      INSERT OR IGNORE INTO document_sequences (document_type, prefix, reset_period, padding)
+      VALUES ('quotation', 'QUO-', 'yearly', 5)
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DELETE FROM document_counters WHERE document_type = 'quotation';
+      DELETE FROM document_sequences WHERE document_type = 'quotation';
+      DROP TRIGGER IF EXISTS update_quotations_timestamp;
+      DROP TABLE IF EXISTS quotation_taxes;
+      DROP TABLE IF EXISTS quotation_items;
+      DROP TABLE IF EXISTS quotations;
+    `);
+  },
+};
+
+export default migration;
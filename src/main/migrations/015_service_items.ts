@@ -0,0 +1,25 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Service items (fitting, balancing, alignment...). They are products with
+ * product_type 'service' that carry no stock and never write stock_movements.
+ * products.auto_add_with names the product type a service is added to the
+ * cart with, one per unit (e.g. fitting with every tire); NULL adds it by hand only.
+ */
+const migration: Migration = {
+  version: 15,
+  name: 'service_items',
+
+  up(db) {
+    addColumnIfMissing(db, 'products', 'auto_add_with', 'TEXT');
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE products DROP COLUMN auto_add_with;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,52 @@
+import { Migration } from './types';
+
+/**
+ * Kits sold as one line at a bundle price (e.g. 4 tires + 4 valves + fitting).
+ * A kit is a product with product_type 'bundle' and no stock of its own;
+ * bundle_components lists what goes into one kit. invoice_item_components records
+ * the components each sold kit line took from stock, so voids and returns put back
+ * exactly what left the shelf even if the kit is changed later.
+ */
+const migration: Migration = {
+  version: 16,
+  name: 'bundles',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS bundle_components (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        bundle_id INTEGER NOT NULL,
+        component_id INTEGER NOT NULL,
+        quantity INTEGER NOT NULL CHECK (quantity > 0), -- per kit
+        UNIQUE (bundle_id, component_id),
+        FOREIGN KEY (bundle_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (component_id) REFERENCES products(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS invoice_item_components (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoice_item_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        quantity INTEGER NOT NULL, -- for the whole line, not per kit
+        FOREIGN KEY (invoice_item_id) REFERENCES invoice_items(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_bundle_components_component ON bundle_components(component_id);
+      CREATE INDEX IF NOT EXISTS idx_invoice_item_components_item ON invoice_item_components(invoice_item_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS invoice_item_components;
+      DROP TABLE IF EXISTS bundle_components;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,55 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Per-unit serial / DOT registry for tires. products.track_units turns it on for
+ * a product; product_units then holds one row per tire with its DOT date code
+ * (week and year of manufacture) and optional serial. Units are received in stock,
+ * sold against an invoice line (oldest first unless picked in Billing) and put back
+ * by voids and returns. invoice_items.dot_codes keeps the codes printed on the receipt.
+ * Stock from before tracking was turned on simply has no units.
+ */
+const migration: Migration = {
+  version: 17,
+  name: 'product_units',
+
+  up(db) {
+    addColumnIfMissing(db, 'products', 'track_units', 'INTEGER DEFAULT 0');
+    addColumnIfMissing(db, 'invoice_items', 'dot_codes', 'TEXT');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS product_units (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER NOT NULL,
+        dot_code TEXT NOT NULL,
+        dot_week INTEGER NOT NULL,
+        dot_year INTEGER NOT NULL,
+        manufactured_on TEXT NOT NULL, -- start of the DOT week, YYYY-MM-DD
+        serial_number TEXT,
+        status TEXT NOT NULL DEFAULT 'in_stock' CHECK (status IN ('in_stock', 'sold')),
+        grn_id INTEGER,
+        invoice_item_id INTEGER,
+        received_at TEXT NOT NULL,
+        sold_at TEXT,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (grn_id) REFERENCES goods_received_notes(id) ON DELETE SET NULL,
+        FOREIGN KEY (invoice_item_id) REFERENCES invoice_items(id) ON DELETE SET NULL
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_product_units_product ON product_units(product_id, status);
+      CREATE INDEX IF NOT EXISTS idx_product_units_invoice_item ON product_units(invoice_item_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS product_units;
+      ALTER TABLE invoice_items DROP COLUMN dot_codes;
+      ALTER TABLE products DROP COLUMN track_units;
+    `);
+  },
+};
+
+export default migration;
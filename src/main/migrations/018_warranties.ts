@@ -0,0 +1,110 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Warranties and warranty claims. The warranty period comes from
+ * products.warranty_months, or else from the brand the product name starts with
+ * (brands.warranty_months); NULL on both means no warranty. Each sale writes a
+ * warranty per invoice line (per component for kits) for the customer.
+ * A claim is tracked through the supplier with an event per status change;
+ * a replacement is issued as a zero-value invoice taking the tire out of stock.
+ */
+const migration: Migration = {
+  version: 18,
+  name: 'warranties',
+
+  up(db) {
+    addColumnIfMissing(db, 'brands', 'warranty_months', 'INTEGER');
+    addColumnIfMissing(db, 'products', 'warranty_months', 'INTEGER');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS warranties (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoice_id INTEGER NOT NULL,
+        invoice_item_id INTEGER NOT NULL,
+        customer_id INTEGER,
+        vehicle_id INTEGER,
+        product_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        quantity INTEGER NOT NULL, -- reduced by returns
+        dot_codes TEXT,
+        months INTEGER NOT NULL,
+        starts_on DATE NOT NULL,
+        expires_on DATE NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'void')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (invoice_id) REFERENCES invoices(id),
+        FOREIGN KEY (invoice_item_id) REFERENCES invoice_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS warranty_claims (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        claim_number TEXT UNIQUE NOT NULL,
+        warranty_id INTEGER NOT NULL,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        dot_code TEXT, -- the tire claimed, when known
+        issue TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open'
+          CHECK (status IN ('open', 'sent_to_supplier', 'approved', 'rejected', 'replaced', 'closed')),
+        supplier_id INTEGER,
+        supplier_reference TEXT,
+        replacement_invoice_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (warranty_id) REFERENCES warranties(id) ON DELETE CASCADE,
+        FOREIGN KEY (supplier_id) REFERENCES suppliers(id) ON DELETE SET NULL,
+        FOREIGN KEY (replacement_invoice_id) REFERENCES invoices(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS warranty_claim_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        claim_id INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (claim_id) REFERENCES warranty_claims(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_warranties_invoice ON warranties(invoice_id);
+      CREATE INDEX IF NOT EXISTS idx_warranties_customer ON warranties(customer_id);
+      CREATE INDEX IF NOT EXISTS idx_warranty_claims_warranty ON warranty_claims(warranty_id);
+      CREATE INDEX IF NOT EXISTS idx_warranty_claims_status ON warranty_claims(status);
+      CREATE INDEX IF NOT EXISTS idx_warranty_claim_events_claim ON warranty_claim_events(claim_id);
+    `);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_warranty_claims_timestamp
+      AFTER UPDATE ON warranty_claims
+      BEGIN
+        UPDATE warranty_claims SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+      END
+    `);
+
+    db.exec(`
+      INSERT OR IGNORE INTO document_sequences (document_type, prefix, reset_period, padding)
+      VALUES ('warranty_claim', 'WC-', 'yearly', 4)
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DELETE FROM document_counters WHERE document_type = 'warranty_claim';
+      DELETE FROM document_sequences WHERE document_type = 'warranty_claim';
+      DROP TRIGGER IF EXISTS update_warranty_claims_timestamp;
+      DROP TABLE IF EXISTS warranty_claim_events;
+      DROP TABLE IF EXISTS warranty_claims;
+      DROP TABLE IF EXISTS warranties;
+      ALTER TABLE products DROP COLUMN warranty_months;
+      ALTER TABLE brands DROP COLUMN warranty_months;
+    `);
+  },
+};
+
+export default migration;
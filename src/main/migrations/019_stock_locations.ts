@@ -0,0 +1,110 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Stock locations (shop floor, store room, branches). product_stock holds the quantity
+ * of each product at each location; products.stock_quantity stays the total across
+ * locations. Existing stock starts at the default location. Stock movements, invoices
+ * and GRNs record the location they took stock from or put it into, and a transfer
+ * between locations writes a 'transfer_out' and a 'transfer_in' movement per line.
+ * DOT units are not tied to a location.
+ */
+const migration: Migration = {
+  version: 19,
+  name: 'stock_locations',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS stock_locations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        is_default INTEGER NOT NULL DEFAULT 0, -- where sales and receipts go unless told otherwise
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS product_stock (
+        product_id INTEGER NOT NULL,
+        location_id INTEGER NOT NULL,
+        quantity INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (product_id, location_id),
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (location_id) REFERENCES stock_locations(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS stock_transfers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        transfer_number TEXT UNIQUE NOT NULL,
+        from_location_id INTEGER NOT NULL,
+        to_location_id INTEGER NOT NULL,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (from_location_id) REFERENCES stock_locations(id),
+        FOREIGN KEY (to_location_id) REFERENCES stock_locations(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS stock_transfer_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        transfer_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        FOREIGN KEY (transfer_id) REFERENCES stock_transfers(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+      )
+    `);
+
+    addColumnIfMissing(db, 'stock_movements', 'location_id', 'INTEGER');
+    addColumnIfMissing(db, 'invoices', 'location_id', 'INTEGER');
+    addColumnIfMissing(db, 'goods_received_notes', 'location_id', 'INTEGER');
+
+    db.exec(`
+      INSERT OR IGNORE INTO stock_locations (name, is_default) VALUES ('Shop Floor', 1)
+    `);
+    const defaultId = (db.prepare('SELECT id FROM stock_locations WHERE is_default = 1').get() as { id: number }).id;
+
+    // Whatever is in stock today is at the default location
+    db.prepare(`
+      INSERT OR IGNORE INTO product_stock (product_id, location_id, quantity)
+      SELECT id, ?, stock_quantity FROM products WHERE product_type IS NOT 'service' AND product_type IS NOT 'bundle'
+    `).run(defaultId);
+    db.prepare('UPDATE stock_movements SET location_id = ? WHERE location_id IS NULL').run(defaultId);
+    db.prepare('UPDATE invoices SET location_id = ? WHERE location_id IS NULL').run(defaultId);
+    db.prepare('UPDATE goods_received_notes SET location_id = ? WHERE location_id IS NULL').run(defaultId);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_product_stock_location ON product_stock(location_id);
+      CREATE INDEX IF NOT EXISTS idx_stock_movements_location ON stock_movements(location_id);
+      CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_transfer ON stock_transfer_items(transfer_id);
+    `);
+
+    db.exec(`
+      INSERT OR IGNORE INTO document_sequences (document_type, prefix, reset_period, padding)
+      VALUES ('stock_transfer', 'TRF-', 'yearly', 4)
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DELETE FROM document_counters WHERE document_type = 'stock_transfer';
+      DELETE FROM document_sequences WHERE document_type = 'stock_transfer';
+      DROP INDEX IF EXISTS idx_stock_movements_location;
+      DELETE FROM stock_movements WHERE movement_type IN ('transfer_out', 'transfer_in');
+      ALTER TABLE goods_received_notes DROP COLUMN location_id;
+      ALTER TABLE invoices DROP COLUMN location_id;
+      ALTER TABLE stock_movements DROP COLUMN location_id;
+      DROP TABLE IF EXISTS stock_transfer_items;
+      DROP TABLE IF EXISTS stock_transfers;
+      DROP TABLE IF EXISTS product_stock;
+      DROP TABLE IF EXISTS stock_locations;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Stock adjustments become real ledger entries. An 'adjustment' movement carries a
+ * reason code and who made it, and unlike other movement types its quantity is signed:
+ * negative takes stock out.
+ */
+const migration: Migration = {
+  version: 20,
+  name: 'stock_adjustments',
+
+  up(db) {
+    addColumnIfMissing(db, 'stock_movements', 'reason', 'TEXT'); // damage, theft, count_correction, sample, opening
+    addColumnIfMissing(db, 'stock_movements', 'created_by', 'TEXT');
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE stock_movements DROP COLUMN created_by;
+      ALTER TABLE stock_movements DROP COLUMN reason;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,65 @@
+import { Migration } from './types';
+
+/**
+ * Stock-take (cycle count) sessions. Opening a session freezes the expected quantity
+ * of every product in scope at one location; counts are entered against it and posting
+ * writes the variances as 'adjustment' movements referencing the session.
+ */
+const migration: Migration = {
+  version: 21,
+  name: 'stock_takes',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS stock_takes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stock_take_number TEXT UNIQUE NOT NULL,
+        location_id INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open', -- 'open', 'posted', 'cancelled'
+        brand TEXT, -- scope: products whose name starts with the brand
+        rim_size INTEGER, -- scope: tire or wheel diameter
+        product_type TEXT,
+        notes TEXT,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        posted_at DATETIME,
+        FOREIGN KEY (location_id) REFERENCES stock_locations(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS stock_take_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stock_take_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        expected_quantity INTEGER NOT NULL,
+        counted_quantity INTEGER, -- NULL until counted
+        unit_cost REAL NOT NULL DEFAULT 0,
+        FOREIGN KEY (stock_take_id) REFERENCES stock_takes(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_stock_takes_status ON stock_takes(status);
+      CREATE INDEX IF NOT EXISTS idx_stock_take_items_stock_take ON stock_take_items(stock_take_id);
+    `);
+
+    db.exec(`
+      INSERT OR IGNORE INTO document_sequences (document_type, prefix, reset_period, padding)
+      VALUES ('stock_take', 'ST-', 'yearly', 4)
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DELETE FROM document_counters WHERE document_type = 'stock_take';
+      DELETE FROM document_sequences WHERE document_type = 'stock_take';
+      DROP TABLE IF EXISTS stock_take_items;
+      DROP TABLE IF EXISTS stock_takes;
+    `);
+  },
+};
+
+export default migration;
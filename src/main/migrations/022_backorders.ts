@@ -0,0 +1,24 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Products that may be sold below zero on purpose (ordered in for the customer).
+ * Other products are refused once the location runs out. A sale that takes a
+ * backorder product below zero marks its stock movement with the reason 'backorder'.
+ */
+const migration: Migration = {
+  version: 22,
+  name: 'backorders',
+
+  up(db) {
+    addColumnIfMissing(db, 'products', 'allow_backorder', 'INTEGER NOT NULL DEFAULT 0');
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE products DROP COLUMN allow_backorder;
+    `);
+  },
+};
+
+export default migration;
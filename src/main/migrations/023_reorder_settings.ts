@@ -0,0 +1,31 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Reorder planning. A product's reorder point and quantity are optional overrides;
+ * left empty, the point comes from sales velocity over the lead time and the quantity
+ * tops stock up for a month. Lead time is set per supplier and may be overridden
+ * per product.
+ */
+const migration: Migration = {
+  version: 23,
+  name: 'reorder_settings',
+
+  up(db) {
+    addColumnIfMissing(db, 'products', 'reorder_point', 'INTEGER');
+    addColumnIfMissing(db, 'products', 'reorder_quantity', 'INTEGER');
+    addColumnIfMissing(db, 'products', 'lead_time_days', 'INTEGER');
+    addColumnIfMissing(db, 'suppliers', 'lead_time_days', 'INTEGER');
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE suppliers DROP COLUMN lead_time_days;
+      ALTER TABLE products DROP COLUMN lead_time_days;
+      ALTER TABLE products DROP COLUMN reorder_quantity;
+      ALTER TABLE products DROP COLUMN reorder_point;
+    `);
+  },
+};
+
+export default migration;
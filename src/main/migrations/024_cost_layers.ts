@@ -0,0 +1,105 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Inventory costing. Every receipt of stock (goods received, opening stock, found
+ * stock, returns and voids) adds a cost layer; every issue (sales, warranty
+ * replacements, write-offs) consumes layers oldest first and records the cost it was
+ * charged, FIFO or weighted average as set in app_settings 'costing_method'.
+ * Issues beyond the layers on hand (backorders) are charged at the last known cost
+ * and attached to the next layer that arrives.
+ *
+ * invoice_items.cogs and credit_note_items.cogs hold the cost of each line. Existing
+ * stock becomes one opening layer per product at its cost price, and past sales are
+ * costed at today's cost price since their real cost was never kept.
+ */
+const migration: Migration = {
+  version: 24,
+  name: 'cost_layers',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS cost_layers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER NOT NULL,
+        source_type TEXT NOT NULL, -- 'purchase', 'opening', 'adjustment', 'return', 'void'
+        reference_id INTEGER, -- GRN, stock movement, credit note or invoice
+        unit_cost REAL NOT NULL,
+        quantity INTEGER NOT NULL,
+        remaining_quantity INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS cost_consumptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER NOT NULL,
+        layer_id INTEGER, -- NULL while the stock it took had not arrived yet
+        source_type TEXT NOT NULL, -- 'sale', 'warranty', 'adjustment'
+        reference_id INTEGER, -- invoice or stock movement
+        invoice_item_id INTEGER,
+        quantity INTEGER NOT NULL,
+        unit_cost REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (layer_id) REFERENCES cost_layers(id) ON DELETE SET NULL
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_cost_layers_product ON cost_layers(product_id, remaining_quantity);
+      CREATE INDEX IF NOT EXISTS idx_cost_layers_created_at ON cost_layers(created_at);
+      CREATE INDEX IF NOT EXISTS idx_cost_consumptions_product ON cost_consumptions(product_id, layer_id);
+      CREATE INDEX IF NOT EXISTS idx_cost_consumptions_invoice_item ON cost_consumptions(invoice_item_id);
+      CREATE INDEX IF NOT EXISTS idx_cost_consumptions_created_at ON cost_consumptions(created_at);
+    `);
+
+    addColumnIfMissing(db, 'invoice_items', 'cogs', 'REAL');
+    addColumnIfMissing(db, 'credit_note_items', 'cogs', 'REAL');
+
+    db.exec(`
+      INSERT OR IGNORE INTO app_settings (key, value) VALUES ('costing_method', 'fifo')
+    `);
+
+    // Stock on hand today, at its cost price
+    db.exec(`
+      INSERT INTO cost_layers (product_id, source_type, unit_cost, quantity, remaining_quantity, created_at)
+      SELECT id, 'opening', COALESCE(cost_price, 0), stock_quantity, stock_quantity, datetime('now', 'localtime')
+      FROM products
+      WHERE stock_quantity > 0 AND product_type IS NOT 'service' AND product_type IS NOT 'bundle'
+        AND NOT EXISTS (SELECT 1 FROM cost_layers cl WHERE cl.product_id = products.id)
+    `);
+
+    // Past sales: kits cost what their components cost, everything else its own cost price
+    db.exec(`
+      UPDATE invoice_items SET cogs = ROUND(COALESCE(
+        (SELECT SUM(iic.quantity * COALESCE(p.cost_price, 0))
+         FROM invoice_item_components iic
+         INNER JOIN products p ON p.id = iic.product_id
+         WHERE iic.invoice_item_id = invoice_items.id),
+        invoice_items.quantity * COALESCE((SELECT cost_price FROM products WHERE id = invoice_items.product_id), 0)
+      ), 2)
+      WHERE cogs IS NULL
+    `);
+    db.exec(`
+      UPDATE credit_note_items SET cogs = ROUND(quantity * COALESCE(
+        (SELECT ii.cogs / ii.quantity FROM invoice_items ii WHERE ii.id = credit_note_items.invoice_item_id AND ii.quantity > 0), 0
+      ), 2)
+      WHERE cogs IS NULL
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DELETE FROM app_settings WHERE key = 'costing_method';
+      ALTER TABLE credit_note_items DROP COLUMN cogs;
+      ALTER TABLE invoice_items DROP COLUMN cogs;
+      DROP TABLE IF EXISTS cost_consumptions;
+      DROP TABLE IF EXISTS cost_layers;
+    `);
+  },
+};
+
+export default migration;
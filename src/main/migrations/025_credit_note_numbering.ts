@@ -0,0 +1,26 @@
+import { Migration } from './types';
+
+/**
+ * Credit notes take sequential numbers from the numbering service instead of a
+ * timestamp. Existing credit notes keep the numbers they were issued with.
+ */
+const migration: Migration = {
+  version: 25,
+  name: 'credit_note_numbering',
+
+  up(db) {
+    db.exec(`
+      INSERT OR IGNORE INTO document_sequences (document_type, prefix, reset_period, padding)
+      VALUES ('credit_note', 'CN-', 'yearly', 5)
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DELETE FROM document_counters WHERE document_type = 'credit_note';
+      DELETE FROM document_sequences WHERE document_type = 'credit_note';
+    `);
+  },
+};
+
+export default migration;
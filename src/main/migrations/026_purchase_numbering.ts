@@ -0,0 +1,27 @@
+import { Migration } from './types';
+
+/**
+ * Purchase orders and goods-received notes take sequential numbers from the numbering
+ * service instead of a timestamp, each in its own sequence. Existing documents keep
+ * the numbers they were issued with.
+ */
+const migration: Migration = {
+  version: 26,
+  name: 'purchase_numbering',
+
+  up(db) {
+    db.exec(`
+      INSERT OR IGNORE INTO document_sequences (document_type, prefix, reset_period, padding)
+      VALUES ('purchase_order', 'PO-', 'yearly', 5), ('goods_received', 'GRN-', 'yearly', 5)
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DELETE FROM document_counters WHERE document_type IN ('purchase_order', 'goods_received');
+      DELETE FROM document_sequences WHERE document_type IN ('purchase_order', 'goods_received');
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Parked carts hold stock at the location Billing was selling from, not across all
+ * locations. Carts parked before this are held at the default location.
+ */
+const migration: Migration = {
+  version: 27,
+  name: 'parked_cart_locations',
+
+  up(db) {
+    addColumnIfMissing(db, 'parked_carts', 'location_id', 'INTEGER');
+    db.exec(`
+      UPDATE parked_carts SET location_id = (SELECT id FROM stock_locations WHERE is_default = 1)
+      WHERE location_id IS NULL
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE parked_carts DROP COLUMN location_id;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,88 @@
+import { Migration } from './types';
+
+const UNIT_COLUMNS = `id, product_id, dot_code, dot_week, dot_year, manufactured_on, serial_number, status,
+  grn_id, invoice_item_id, received_at, sold_at`;
+
+/**
+ * DOT units sit at a stock location, so a sale only takes units held where it is
+ * made. Units written off by a stock adjustment get the 'written_off' status and
+ * keep the movement that removed them. The status check can only change by
+ * rebuilding the table. Units received on a GRN are placed at its location, the
+ * rest at the default location.
+ */
+const migration: Migration = {
+  version: 28,
+  name: 'unit_locations',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE product_units_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER NOT NULL,
+        dot_code TEXT NOT NULL,
+        dot_week INTEGER NOT NULL,
+        dot_year INTEGER NOT NULL,
+        manufactured_on TEXT NOT NULL, -- start of the DOT week, YYYY-MM-DD
+        serial_number TEXT,
+        status TEXT NOT NULL DEFAULT 'in_stock' CHECK (status IN ('in_stock', 'sold', 'written_off')),
+        location_id INTEGER,
+        grn_id INTEGER,
+        invoice_item_id INTEGER,
+        stock_movement_id INTEGER, -- the adjustment that wrote it off
+        received_at TEXT NOT NULL,
+        sold_at TEXT,
+        written_off_at TEXT,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (location_id) REFERENCES stock_locations(id),
+        FOREIGN KEY (grn_id) REFERENCES goods_received_notes(id) ON DELETE SET NULL,
+        FOREIGN KEY (invoice_item_id) REFERENCES invoice_items(id) ON DELETE SET NULL
+      );
+
+      INSERT INTO product_units_new (${UNIT_COLUMNS}, location_id)
+      SELECT ${UNIT_COLUMNS},
+        COALESCE((SELECT location_id FROM goods_received_notes WHERE id = product_units.grn_id),
+                 (SELECT id FROM stock_locations WHERE is_default = 1))
+      FROM product_units;
+
+      DROP TABLE product_units;
+      ALTER TABLE product_units_new RENAME TO product_units;
+
+      CREATE INDEX IF NOT EXISTS idx_product_units_product ON product_units(product_id, status);
+      CREATE INDEX IF NOT EXISTS idx_product_units_location ON product_units(product_id, location_id, status);
+      CREATE INDEX IF NOT EXISTS idx_product_units_invoice_item ON product_units(invoice_item_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      CREATE TABLE product_units_old (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER NOT NULL,
+        dot_code TEXT NOT NULL,
+        dot_week INTEGER NOT NULL,
+        dot_year INTEGER NOT NULL,
+        manufactured_on TEXT NOT NULL, -- start of the DOT week, YYYY-MM-DD
+        serial_number TEXT,
+        status TEXT NOT NULL DEFAULT 'in_stock' CHECK (status IN ('in_stock', 'sold')),
+        grn_id INTEGER,
+        invoice_item_id INTEGER,
+        received_at TEXT NOT NULL,
+        sold_at TEXT,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (grn_id) REFERENCES goods_received_notes(id) ON DELETE SET NULL,
+        FOREIGN KEY (invoice_item_id) REFERENCES invoice_items(id) ON DELETE SET NULL
+      );
+
+      INSERT INTO product_units_old (${UNIT_COLUMNS})
+      SELECT ${UNIT_COLUMNS} FROM product_units WHERE status != 'written_off';
+
+      DROP TABLE product_units;
+      ALTER TABLE product_units_old RENAME TO product_units;
+
+      CREATE INDEX IF NOT EXISTS idx_product_units_product ON product_units(product_id, status);
+      CREATE INDEX IF NOT EXISTS idx_product_units_invoice_item ON product_units(invoice_item_id);
+    `);
+  },
+};
+
+export default migration;
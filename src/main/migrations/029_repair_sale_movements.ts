@@ -0,0 +1,35 @@
+import Database from 'better-sqlite3';
+import { Migration } from './types';
+
+// Both timestamps are SQLite's CURRENT_TIMESTAMP, which the old code left created_at to
+function swapOldSaleMovements(db: Database.Database): void {
+  db.exec(`
+    UPDATE stock_movements
+    SET quantity = reference_id, reference_id = quantity
+    WHERE movement_type = 'sale'
+      AND created_at < (SELECT applied_at FROM schema_migrations WHERE version = 5)
+  `);
+}
+
+/**
+ * Repair sale movements written before invoice voiding was added. Invoice creation
+ * passed the invoice id as the movement's quantity and the quantity sold as its
+ * reference_id, so those rows show the wrong amount leaving stock and point at the
+ * wrong invoice. The fix shipped with migration 5, so every sale row stamped before
+ * it was applied was written the old way and is swapped back, whatever its values.
+ * Down swaps the same rows again, so a later re-apply does not undo the repair.
+ */
+const migration: Migration = {
+  version: 29,
+  name: 'repair_sale_movements',
+
+  up(db) {
+    swapOldSaleMovements(db);
+  },
+
+  down(db) {
+    swapOldSaleMovements(db);
+  },
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import { Migration } from './types';
+
+/**
+ * Store credit from returns can be spent. credit_notes.credit_balance is what is
+ * left on each credit note; a 'store_credit' tender draws it down, oldest credit
+ * note first, and each draw is kept so a void can put it back.
+ */
+const migration: Migration = {
+  version: 30,
+  name: 'store_credit',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS store_credit_redemptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        credit_note_id INTEGER NOT NULL,
+        invoice_id INTEGER NOT NULL, -- the sale it paid for
+        amount REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (credit_note_id) REFERENCES credit_notes(id) ON DELETE CASCADE,
+        FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_store_credit_redemptions_invoice ON store_credit_redemptions(invoice_id);
+      CREATE INDEX IF NOT EXISTS idx_store_credit_redemptions_credit_note ON store_credit_redemptions(credit_note_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS store_credit_redemptions;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import { Migration } from './types';
+
+/**
+ * Account payments take sequential numbers from the numbering service instead of
+ * showing their row id. Existing payments keep the PMT-<id> reference their
+ * statements were printed with.
+ */
+const migration: Migration = {
+  version: 31,
+  name: 'settlement_numbering',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE customer_settlements ADD COLUMN settlement_number TEXT;
+      UPDATE customer_settlements SET settlement_number = 'PMT-' || id;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_settlements_number ON customer_settlements(settlement_number);
+
+      INSERT OR IGNORE INTO document_sequences (document_type, prefix, reset_period, padding)
+      VALUES ('customer_settlement', 'PMT-', 'yearly', 5);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DELETE FROM document_counters WHERE document_type = 'customer_settlement';
+      DELETE FROM document_sequences WHERE document_type = 'customer_settlement';
+      DROP INDEX IF EXISTS idx_customer_settlements_number;
+      ALTER TABLE customer_settlements DROP COLUMN settlement_number;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import Database from 'better-sqlite3';
+import { Migration } from './types';
+
+const DOCUMENT_TYPES = `'warranty_claim', 'stock_transfer', 'stock_take'`;
+
+function setPadding(db: Database.Database, from: number, to: number): void {
+  db.prepare(`
+    UPDATE document_sequences SET padding = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE document_type IN (${DOCUMENT_TYPES}) AND padding = ?
+  `).run(to, from);
+}
+
+/**
+ * Warranty claim, stock transfer and stock-take numbers were seeded with 4-digit
+ * padding; every other document uses 5. Sequences still on the seeded padding are
+ * widened, and their counters carry on. Documents already issued keep their numbers.
+ */
+const migration: Migration = {
+  version: 32,
+  name: 'document_number_padding',
+
+  up(db) {
+    setPadding(db, 4, 5);
+  },
+
+  down(db) {
+    setPadding(db, 5, 4);
+  },
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Check whether a column exists on a table
+ */
+export function columnExists(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Add a column only when it is missing (databases created before versioned migrations)
+ */
+export function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  if (!columnExists(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
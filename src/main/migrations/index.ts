@@ -0,0 +1,74 @@
+import { Migration } from './types';
+import m001 from './001_initial_schema';
+import m002 from './002_purchasing';
+import m003 from './003_supplier_directory';
+import m004 from './004_sales_returns';
+import m005 from './005_invoice_voiding';
+import m006 from './006_document_numbering';
+import m007 from './007_customers';
+import m008 from './008_customer_vehicles';
+import m009 from './009_invoice_payments';
+import m010 from './010_customer_credit';
+import m011 from './011_discounts';
+import m012 from './012_taxes';
+import m013 from './013_parked_carts';
+import m014 from './014_quotations';
+import m015 from './015_service_items';
+import m016 from './016_bundles';
+import m017 from './017_product_units';
+import m018 from './018_warranties';
+import m019 from './019_stock_locations';
+import m020 from './020_stock_adjustments';
+import m021 from './021_stock_takes';
+import m022 from './022_backorders';
+import m023 from './023_reorder_settings';
+import m024 from './024_cost_layers';
+import m025 from './025_credit_note_numbering';
+import m026 from './026_purchase_numbering';
+import m027 from './027_parked_cart_locations';
+import m028 from './028_unit_locations';
+import m029 from './029_repair_sale_movements';
+import m030 from './030_store_credit';
+import m031 from './031_settlement_numbering';
+import m032 from './032_document_number_padding';
+
+/**
+ * All schema migrations, in version order.
+ * Add new migrations as NNN_description.ts and append them here.
+ */
+export const migrations: Migration[] = [
+  m001,
+  m002,
+  m003,
+  m004,
+  m005,
+  m006,
+  m007,
+  m008,
+  m009,
+  m010,
+  m011,
+  m012,
+  m013,
+  m014,
+  m015,
+  m016,
+  m017,
+  m018,
+  m019,
+  m020,
+  m021,
+  m022,
+  m023,
+  m024,
+  m025,
+  m026,
+  m027,
+  m028,
+  m029,
+  m030,
+  m031,
+  m032,
+];
+
+export type { Migration } from './types';
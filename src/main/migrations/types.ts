@@ -0,0 +1,12 @@
+import Database from 'better-sqlite3';
+
+/**
+ * A single numbered schema migration.
+ * `up` applies the change, `down` reverts it. Both run inside a transaction.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+  down: (db: Database.Database) => void;
+}
@@ -0,0 +1,112 @@
+import { getDatabase } from './database';
+import { getLocalDateTime } from './utils';
+
+export type ResetPeriod = 'never' | 'yearly' | 'monthly';
+
+export interface NumberingSettings {
+  document_type: string;
+  prefix: string;
+  reset_period: ResetPeriod;
+  padding: number;
+}
+
+const RESET_PERIODS: ResetPeriod[] = ['never', 'yearly', 'monthly'];
+
+/**
+ * Counter bucket for a date: '' (never), 'YYYY' (yearly) or 'YYYY-MM' (monthly)
+ */
+function getPeriodKey(resetPeriod: ResetPeriod, localDateTime: string): string {
+  if (resetPeriod === 'yearly') return localDateTime.substring(0, 4);
+  if (resetPeriod === 'monthly') return localDateTime.substring(0, 7);
+  return '';
+}
+
+function formatNumber(settings: NumberingSettings, periodKey: string, value: number): string {
+  const counter = String(value).padStart(settings.padding, '0');
+  return periodKey ? `${settings.prefix}${periodKey}-${counter}` : `${settings.prefix}${counter}`;
+}
+
+/**
+ * Get the numbering format for a document type
+ */
+export function getNumberingSettings(documentType: string): NumberingSettings {
+  const db = getDatabase();
+  const settings = db.prepare(`
+    SELECT document_type, prefix, reset_period, padding FROM document_sequences WHERE document_type = ?
+  `).get(documentType) as NumberingSettings | undefined;
+  if (!settings) {
+    throw new Error(`No numbering sequence configured for ${documentType}`);
+  }
+  return settings;
+}
+
+/**
+ * Update the numbering format. Counters are kept per reset period, so changing
+ * the prefix or padding continues the current period's count.
+ */
+export function updateNumberingSettings(documentType: string, data: Partial<NumberingSettings>): NumberingSettings {
+  const db = getDatabase();
+  const current = getNumberingSettings(documentType);
+
+  const prefix = data.prefix !== undefined ? data.prefix.trim() : current.prefix;
+  const resetPeriod = data.reset_period ?? current.reset_period;
+  const padding = data.padding !== undefined ? Number(data.padding) : current.padding;
+
+  if (prefix.length > 10) {
+    throw new Error('Prefix must be 10 characters or fewer');
+  }
+  if (!RESET_PERIODS.includes(resetPeriod)) {
+    throw new Error('Reset period must be never, yearly or monthly');
+  }
+  if (!Number.isInteger(padding) || padding < 1 || padding > 10) {
+    throw new Error('Padding must be a whole number from 1 to 10');
+  }
+
+  db.prepare(`
+    UPDATE document_sequences
+    SET prefix = ?, reset_period = ?, padding = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE document_type = ?
+  `).run(prefix, resetPeriod, padding, documentType);
+
+  return getNumberingSettings(documentType);
+}
+
+/**
+ * Preview the number the next document will get, without using it up
+ */
+export function previewNextNumber(documentType: string): string {
+  const db = getDatabase();
+  const settings = getNumberingSettings(documentType);
+  const periodKey = getPeriodKey(settings.reset_period, getLocalDateTime());
+  const counter = db.prepare(`
+    SELECT last_value FROM document_counters WHERE document_type = ? AND period_key = ?
+  `).get(documentType, periodKey) as { last_value: number } | undefined;
+  return formatNumber(settings, periodKey, (counter?.last_value || 0) + 1);
+}
+
+/**
+ * Take the next number in a sequence. Must be called inside the transaction that
+ * inserts the document, so a rolled-back document gives its number back.
+ * `isTaken` lets the caller skip numbers already used (e.g. after a format change
+ * that reproduces an older number).
+ */
+export function nextDocumentNumber(documentType: string, isTaken?: (documentNumber: string) => boolean): string {
+  const db = getDatabase();
+  const settings = getNumberingSettings(documentType);
+  const periodKey = getPeriodKey(settings.reset_period, getLocalDateTime());
+
+  const incrementStmt = db.prepare(`
+    INSERT INTO document_counters (document_type, period_key, last_value)
+    VALUES (?, ?, 1)
+    ON CONFLICT(document_type, period_key) DO UPDATE SET last_value = last_value + 1
+    RETURNING last_value
+  `);
+
+  let documentNumber: string;
+  do {
+    const { last_value } = incrementStmt.get(documentType, periodKey) as { last_value: number };
+    documentNumber = formatNumber(settings, periodKey, last_value);
+  } while (isTaken && isTaken(documentNumber));
+
+  return documentNumber;
+}
@@ -0,0 +1,93 @@
+import { getDatabase } from './database';
+import { roundMoney } from './utils';
+
+export type PaymentMethod = 'cash' | 'card' | 'mobile' | 'bank_transfer' | 'cheque' | 'credit' | 'store_credit';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'mobile', 'bank_transfer', 'cheque', 'credit', 'store_credit'];
+
+export interface TenderInput {
+  payment_method: PaymentMethod;
+  amount: number; // for cash, the amount handed over
+  reference?: string | null;
+}
+
+/**
+ * Record the tenders for a new invoice. Must be called inside the invoice transaction.
+ * Only cash may exceed what is owed; the excess is returned as change and taken off the
+ * cash tenders so that applied amounts add up to the invoice total. An invoice totalling
+ * zero needs no tender.
+ * Returns the summary payment_method for the invoice header, the change due, the
+ * amount put on the customer's credit account and the store credit spent.
+ */
+export function recordInvoicePayments(
+  invoiceId: number,
+  totalAmount: number,
+  tenders: TenderInput[],
+  createdAt: string
+): { payment_method: string; change_due: number; balance_due: number; store_credit: number } {
+  const db = getDatabase();
+
+  const lines = (tenders || []).filter((tender) => Number(tender.amount) > 0);
+  const total = roundMoney(totalAmount);
+  if (lines.length === 0) {
+    // Nothing is owed on a fully discounted invoice, so there is nothing to tender
+    if (total === 0) {
+      const method = tenders?.[0]?.payment_method;
+      return { payment_method: method && PAYMENT_METHODS.includes(method) ? method : 'cash', change_due: 0, balance_due: 0, store_credit: 0 };
+    }
+    throw new Error('At least one payment is required');
+  }
+  for (const line of lines) {
+    if (!PAYMENT_METHODS.includes(line.payment_method)) {
+      throw new Error(`Unknown payment method: ${line.payment_method}`);
+    }
+  }
+
+  const nonCash = roundMoney(lines.filter((l) => l.payment_method !== 'cash').reduce((sum, l) => sum + Number(l.amount), 0));
+  const cash = roundMoney(lines.filter((l) => l.payment_method === 'cash').reduce((sum, l) => sum + Number(l.amount), 0));
+
+  if (nonCash > total) {
+    throw new Error(`Non-cash payments (Rs. ${nonCash.toFixed(2)}) exceed the invoice total (Rs. ${total.toFixed(2)})`);
+  }
+  const changeDue = roundMoney(nonCash + cash - total);
+  if (changeDue < 0) {
+    throw new Error(`Payments (Rs. ${(nonCash + cash).toFixed(2)}) do not cover the invoice total (Rs. ${total.toFixed(2)})`);
+  }
+
+  const paymentStmt = db.prepare(`
+    INSERT INTO invoice_payments (invoice_id, payment_method, amount, tendered, reference, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  // Change comes out of the last cash tenders first
+  let changeLeft = changeDue;
+  const applied = lines.map((line) => ({ line, amount: Number(line.amount) }));
+  for (let i = applied.length - 1; i >= 0 && changeLeft > 0; i--) {
+    if (applied[i].line.payment_method !== 'cash') continue;
+    const taken = Math.min(applied[i].amount, changeLeft);
+    applied[i].amount = roundMoney(applied[i].amount - taken);
+    changeLeft = roundMoney(changeLeft - taken);
+  }
+
+  for (const { line, amount } of applied) {
+    paymentStmt.run(invoiceId, line.payment_method, amount, Number(line.amount), line.reference || null, createdAt);
+  }
+
+  const methods = Array.from(new Set(lines.map((line) => line.payment_method)));
+  const sumOf = (method: PaymentMethod) =>
+    roundMoney(lines.filter((l) => l.payment_method === method).reduce((sum, l) => sum + Number(l.amount), 0));
+  return {
+    payment_method: methods.length === 1 ? methods[0] : 'split',
+    change_due: changeDue,
+    balance_due: sumOf('credit'),
+    store_credit: sumOf('store_credit'),
+  };
+}
+
+/**
+ * Get the tenders recorded against an invoice
+ */
+export function getInvoicePayments(invoiceId: number): any[] {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM invoice_payments WHERE invoice_id = ? ORDER BY id').all(invoiceId);
+}
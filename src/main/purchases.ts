@@ -0,0 +1,281 @@
+import { getDatabase } from './database';
+import { getLocalDateTime } from './utils';
+import { registerUnits, UnitInput } from './units';
+import { changeLocationStock, resolveLocationId } from './locations';
+import { addCostLayer } from './costing';
+import { nextDocumentNumber } from './numbering';
+
+export interface PurchaseOrderInput {
+  supplier_id: number;
+  expected_date?: string | null;
+  notes?: string | null;
+  items: Array<{
+    product_id: number;
+    quantity: number;
+    unit_cost: number;
+  }>;
+}
+
+export interface GoodsReceiptInput {
+  notes?: string | null;
+  location_id?: number | null; // where the goods are put; the default location when not given
+  items: Array<{
+    purchase_order_item_id: number;
+    quantity: number;
+    unit_cost?: number;
+    units?: UnitInput[]; // one DOT code per tire for products that track them
+  }>;
+}
+
+// Goods are ordered and received in whole units
+function isWholeQuantity(quantity: unknown): boolean {
+  return Number.isInteger(quantity) && (quantity as number) > 0;
+}
+
+/**
+ * Get all purchase orders with supplier name and received progress
+ */
+export function getPurchaseOrders(): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      po.*,
+      s.name as supplier_name,
+      COALESCE(SUM(poi.quantity_ordered), 0) as total_ordered,
+      COALESCE(SUM(poi.quantity_received), 0) as total_received
+    FROM purchase_orders po
+    INNER JOIN suppliers s ON po.supplier_id = s.id
+    LEFT JOIN purchase_order_items poi ON poi.purchase_order_id = po.id
+    GROUP BY po.id
+    ORDER BY po.created_at DESC
+  `).all();
+}
+
+/**
+ * Get a purchase order with its line items and goods-received notes
+ */
+export function getPurchaseOrderById(id: number): any {
+  const db = getDatabase();
+  const order = db.prepare(`
+    SELECT po.*, s.name as supplier_name, s.phone as supplier_phone
+    FROM purchase_orders po
+    INNER JOIN suppliers s ON po.supplier_id = s.id
+    WHERE po.id = ?
+  `).get(id) as any;
+  if (!order) return null;
+
+  const items = db.prepare(`
+    SELECT poi.*, COALESCE(p.track_units, 0) as track_units
+    FROM purchase_order_items poi
+    LEFT JOIN products p ON poi.product_id = p.id
+    WHERE poi.purchase_order_id = ?
+    ORDER BY poi.id
+  `).all(id);
+
+  const receipts = db.prepare(`
+    SELECT g.*, l.name as location_name FROM goods_received_notes g
+    LEFT JOIN stock_locations l ON g.location_id = l.id
+    WHERE g.purchase_order_id = ? ORDER BY g.created_at
+  `).all(id) as any[];
+
+  const receiptItemsStmt = db.prepare('SELECT * FROM grn_items WHERE grn_id = ? ORDER BY id');
+  for (const receipt of receipts) {
+    receipt.items = receiptItemsStmt.all(receipt.id);
+  }
+
+  return { ...order, items, receipts };
+}
+
+/**
+ * Create a purchase order with its line items
+ */
+export function createPurchaseOrder(data: PurchaseOrderInput): { id: number; po_number: string } {
+  const db = getDatabase();
+
+  if (!data.supplier_id) {
+    throw new Error('Supplier is required');
+  }
+  const lines = data.items || [];
+  if (lines.length === 0) {
+    throw new Error('Purchase order must have at least one item');
+  }
+  if (!lines.every((item) => isWholeQuantity(item.quantity))) {
+    throw new Error('Ordered quantities must be whole numbers greater than zero');
+  }
+
+  const transaction = db.transaction(() => {
+    const numberTakenStmt = db.prepare('SELECT 1 FROM purchase_orders WHERE po_number = ?');
+    const poNumber = nextDocumentNumber('purchase_order', (number) => !!numberTakenStmt.get(number));
+    const totalAmount = lines.reduce((sum, item) => sum + item.quantity * (item.unit_cost || 0), 0);
+
+    const orderResult = db.prepare(`
+      INSERT INTO purchase_orders (po_number, supplier_id, status, order_date, expected_date, notes, total_amount, created_at)
+      VALUES (?, ?, 'ordered', ?, ?, ?, ?, ?)
+    `).run(
+      poNumber,
+      data.supplier_id,
+      getLocalDateTime(),
+      data.expected_date || null,
+      data.notes || null,
+      totalAmount,
+      getLocalDateTime()
+    );
+    const orderId = orderResult.lastInsertRowid as number;
+
+    const productStmt = db.prepare('SELECT id, name FROM products WHERE id = ?');
+    const itemStmt = db.prepare(`
+      INSERT INTO purchase_order_items (purchase_order_id, product_id, product_name, quantity_ordered, unit_cost, total_cost)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    for (const item of lines) {
+      const product = productStmt.get(item.product_id) as { id: number; name: string } | undefined;
+      if (!product) {
+        throw new Error(`Product ${item.product_id} not found`);
+      }
+      itemStmt.run(
+        orderId,
+        product.id,
+        product.name,
+        item.quantity,
+        item.unit_cost || 0,
+        item.quantity * (item.unit_cost || 0)
+      );
+    }
+
+    return { id: orderId, po_number: poNumber };
+  });
+
+  return transaction();
+}
+
+/**
+ * Cancel a purchase order that has not received any goods yet
+ */
+export function cancelPurchaseOrder(id: number): { success: boolean } {
+  const db = getDatabase();
+  const order = db.prepare('SELECT status FROM purchase_orders WHERE id = ?').get(id) as { status: string } | undefined;
+  if (!order) {
+    throw new Error('Purchase order not found');
+  }
+  if (order.status !== 'ordered' && order.status !== 'draft') {
+    throw new Error('Only purchase orders with no received goods can be cancelled');
+  }
+  db.prepare(`UPDATE purchase_orders SET status = 'cancelled' WHERE id = ?`).run(id);
+  return { success: true };
+}
+
+/**
+ * Receive goods against a purchase order (partial receipts allowed).
+ * Writes a GRN, 'purchase' stock movements, increases stock at the receiving location
+ * and updates cost_price on both the product and the supplier's price list. Tires with
+ * a DOT registry need a DOT code for every unit received.
+ */
+export function receiveGoods(purchaseOrderId: number, data: GoodsReceiptInput): { id: number; grn_number: string; status: string } {
+  const db = getDatabase();
+
+  const transaction = db.transaction(() => {
+    const order = db.prepare('SELECT * FROM purchase_orders WHERE id = ?').get(purchaseOrderId) as any;
+    if (!order) {
+      throw new Error('Purchase order not found');
+    }
+    if (order.status === 'cancelled' || order.status === 'received') {
+      throw new Error(`Cannot receive goods on a ${order.status} purchase order`);
+    }
+
+    const lines = data.items || [];
+    if (lines.length === 0) {
+      throw new Error('Enter a received quantity for at least one item');
+    }
+    if (!lines.every((item) => isWholeQuantity(item.quantity))) {
+      throw new Error('Received quantities must be whole numbers greater than zero');
+    }
+
+    const numberTakenStmt = db.prepare('SELECT 1 FROM goods_received_notes WHERE grn_number = ?');
+    const grnNumber = nextDocumentNumber('goods_received', (number) => !!numberTakenStmt.get(number));
+    const receivedDate = getLocalDateTime();
+    const locationId = resolveLocationId(data.location_id);
+
+    const grnResult = db.prepare(`
+      INSERT INTO goods_received_notes (grn_number, purchase_order_id, received_date, notes, location_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(grnNumber, purchaseOrderId, receivedDate, data.notes || null, locationId, receivedDate);
+    const grnId = grnResult.lastInsertRowid as number;
+
+    const poItemStmt = db.prepare(`
+      SELECT poi.*, p.track_units FROM purchase_order_items poi
+      LEFT JOIN products p ON poi.product_id = p.id
+      WHERE poi.id = ? AND poi.purchase_order_id = ?
+    `);
+    const grnItemStmt = db.prepare(`
+      INSERT INTO grn_items (grn_id, purchase_order_item_id, product_id, product_name, quantity, unit_cost, total_cost)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const poItemUpdateStmt = db.prepare(`
+      UPDATE purchase_order_items SET quantity_received = quantity_received + ? WHERE id = ?
+    `);
+    const stockUpdateStmt = db.prepare(`
+      UPDATE products SET stock_quantity = stock_quantity + ?, cost_price = ? WHERE id = ?
+    `);
+    const stockMovementStmt = db.prepare(`
+      INSERT INTO stock_movements (product_id, movement_type, quantity, reference_id, notes, location_id, created_at)
+      VALUES (?, 'purchase', ?, ?, ?, ?, ?)
+    `);
+    // Keep the supplier's price list in line with what was actually paid
+    const supplierPriceStmt = db.prepare(`
+      INSERT INTO product_suppliers (product_id, supplier_id, cost_price)
+      VALUES (?, ?, ?)
+      ON CONFLICT(product_id, supplier_id) DO UPDATE SET cost_price = excluded.cost_price
+    `);
+
+    let totalAmount = 0;
+    for (const line of lines) {
+      const poItem = poItemStmt.get(line.purchase_order_item_id, purchaseOrderId) as any;
+      if (!poItem) {
+        throw new Error(`Line ${line.purchase_order_item_id} does not belong to this purchase order`);
+      }
+      const outstanding = poItem.quantity_ordered - poItem.quantity_received;
+      if (line.quantity > outstanding) {
+        throw new Error(`Cannot receive ${line.quantity} of ${poItem.product_name}: only ${outstanding} outstanding`);
+      }
+
+      const unitCost = line.unit_cost ?? poItem.unit_cost;
+      const lineTotal = line.quantity * unitCost;
+      totalAmount += lineTotal;
+
+      grnItemStmt.run(grnId, poItem.id, poItem.product_id, poItem.product_name, line.quantity, unitCost, lineTotal);
+      poItemUpdateStmt.run(line.quantity, poItem.id);
+      stockUpdateStmt.run(line.quantity, unitCost, poItem.product_id);
+      changeLocationStock(poItem.product_id, locationId, line.quantity);
+      addCostLayer(poItem.product_id, line.quantity, unitCost, 'purchase', grnId, receivedDate);
+      supplierPriceStmt.run(poItem.product_id, order.supplier_id, unitCost);
+      stockMovementStmt.run(
+        poItem.product_id,
+        line.quantity,
+        grnId,
+        `${grnNumber} against ${order.po_number}`,
+        locationId,
+        receivedDate
+      );
+      if (poItem.track_units) {
+        if ((line.units || []).length !== line.quantity) {
+          throw new Error(`Enter a DOT code for each of the ${line.quantity} ${poItem.product_name} received`);
+        }
+        registerUnits(poItem.product_id, line.units!, locationId, grnId);
+      }
+    }
+
+    db.prepare('UPDATE goods_received_notes SET total_amount = ? WHERE id = ?').run(totalAmount, grnId);
+
+    const progress = db.prepare(`
+      SELECT SUM(quantity_ordered) as ordered, SUM(quantity_received) as received
+      FROM purchase_order_items WHERE purchase_order_id = ?
+    `).get(purchaseOrderId) as { ordered: number; received: number };
+    const status = progress.received >= progress.ordered ? 'received' : 'partially_received';
+    db.prepare('UPDATE purchase_orders SET status = ? WHERE id = ?').run(status, purchaseOrderId);
+
+    return { id: grnId, grn_number: grnNumber, status };
+  });
+
+  return transaction();
+}
@@ -0,0 +1,182 @@
+import { getDatabase } from './database';
+import { authorizeInvoiceDiscounts, DiscountType, InvoiceLineInput } from './discounts';
+import { nextDocumentNumber } from './numbering';
+import { resolveInvoiceCustomer, resolveInvoiceVehicle } from './customers';
+import { calculateInvoiceTaxes } from './taxes';
+import { getLocalDateTime, roundMoney } from './utils';
+
+export interface QuotationInput {
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  customer_email?: string | null;
+  vehicle_id?: number | null;
+  valid_until: string; // YYYY-MM-DD
+  notes?: string | null;
+  bill_discount_type?: DiscountType | null;
+  bill_discount_value?: number | null;
+  discount_password?: string | null;
+  items: InvoiceLineInput[];
+}
+
+// Open quotations past their validity date show as 'expired'
+const QUOTATION_SELECT_SQL = `
+  SELECT q.*,
+    CASE WHEN q.status = 'open' AND q.valid_until < ? THEN 'expired' ELSE q.status END as status,
+    i.invoice_number,
+    v.registration_number
+  FROM quotations q
+  LEFT JOIN invoices i ON q.invoice_id = i.id
+  LEFT JOIN customer_vehicles v ON q.vehicle_id = v.id
+`;
+
+const today = () => getLocalDateTime().substring(0, 10);
+
+/**
+ * List quotations, newest first
+ */
+export function getQuotations(): any[] {
+  const db = getDatabase();
+  return db.prepare(`${QUOTATION_SELECT_SQL} ORDER BY q.created_at DESC, q.id DESC LIMIT 200`).all(today());
+}
+
+/**
+ * Get a quotation with its items and taxes
+ */
+export function getQuotationById(id: number): any {
+  const db = getDatabase();
+  const quotation = db.prepare(`${QUOTATION_SELECT_SQL} WHERE q.id = ?`).get(today(), id) as any;
+  if (!quotation) return null;
+  quotation.items = db.prepare('SELECT * FROM quotation_items WHERE quotation_id = ? ORDER BY id').all(id);
+  quotation.taxes = db.prepare('SELECT * FROM quotation_taxes WHERE quotation_id = ? ORDER BY id').all(id);
+  return quotation;
+}
+
+/**
+ * Create a quotation. Prices, discounts and taxes are worked out exactly as for an
+ * invoice (large discounts need the admin password) but stock is not touched.
+ */
+export async function createQuotation(data: QuotationInput): Promise<{ id: number; quotation_number: string; total_amount: number }> {
+  const db = getDatabase();
+
+  if (!data.items || data.items.length === 0) {
+    throw new Error('Add at least one item to the quotation');
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(data.valid_until || '')) {
+    throw new Error('Choose the date the quotation is valid until');
+  }
+  if (data.valid_until < today()) {
+    throw new Error('The validity date cannot be in the past');
+  }
+
+  const priced = await authorizeInvoiceDiscounts(data);
+  const taxed = calculateInvoiceTaxes(priced);
+  const totalAmount = roundMoney(priced.subtotal - priced.discount_amount + taxed.tax_amount - taxed.inclusive_tax_amount);
+
+  const transaction = db.transaction(() => {
+    const numberTakenStmt = db.prepare('SELECT 1 FROM quotations WHERE quotation_number = ?');
+    const quotationNumber = nextDocumentNumber('quotation', (number) => !!numberTakenStmt.get(number));
+
+    const customerId = resolveInvoiceCustomer(data);
+    const vehicleId = resolveInvoiceVehicle(data.vehicle_id, customerId);
+
+    const result = db.prepare(`
+      INSERT INTO quotations (quotation_number, customer_id, vehicle_id, customer_name, customer_phone, customer_email,
+                              subtotal, discount_amount, bill_discount_type, bill_discount_value, discount_authorized,
+                              tax_amount, inclusive_tax_amount, total_amount, valid_until, notes, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      quotationNumber,
+      customerId,
+      vehicleId,
+      data.customer_name || null,
+      data.customer_phone || null,
+      data.customer_email || null,
+      priced.subtotal,
+      priced.discount_amount,
+      priced.bill_discount_type,
+      priced.bill_discount_value,
+      priced.discount_authorized ? 1 : 0,
+      taxed.tax_amount,
+      taxed.inclusive_tax_amount,
+      totalAmount,
+      data.valid_until,
+      data.notes?.trim() || null,
+      getLocalDateTime()
+    );
+    const quotationId = result.lastInsertRowid as number;
+
+    const itemStmt = db.prepare(`
+      INSERT INTO quotation_items (quotation_id, product_id, product_name, quantity, unit_price,
+                                   discount_type, discount_value, discount_amount, total_price, tax_amount)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const item of taxed.items) {
+      itemStmt.run(
+        quotationId,
+        item.product_id,
+        item.product_name,
+        item.quantity,
+        item.unit_price,
+        item.discount_type,
+        item.discount_value,
+        item.discount_amount,
+        item.total_price,
+        item.tax_amount
+      );
+    }
+
+    // Taxes added up by rate for the printed quotation
+    const taxes = new Map<string, { tax_name: string; rate: number; is_inclusive: number; taxable_amount: number; tax_amount: number }>();
+    for (const tax of taxed.items.flatMap((item) => item.taxes)) {
+      const key = `${tax.tax_name}|${tax.rate}|${tax.is_inclusive}`;
+      const total = taxes.get(key) || { tax_name: tax.tax_name, rate: tax.rate, is_inclusive: tax.is_inclusive, taxable_amount: 0, tax_amount: 0 };
+      total.taxable_amount = roundMoney(total.taxable_amount + tax.taxable_amount);
+      total.tax_amount = roundMoney(total.tax_amount + tax.tax_amount);
+      taxes.set(key, total);
+    }
+    const taxStmt = db.prepare(`
+      INSERT INTO quotation_taxes (quotation_id, tax_name, rate, is_inclusive, taxable_amount, tax_amount)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const tax of taxes.values()) {
+      taxStmt.run(quotationId, tax.tax_name, tax.rate, tax.is_inclusive, tax.taxable_amount, tax.tax_amount);
+    }
+
+    return { id: quotationId, quotation_number: quotationNumber, total_amount: totalAmount };
+  });
+
+  return transaction();
+}
+
+/**
+ * Cancel an open quotation
+ */
+export function cancelQuotation(id: number): { success: boolean } {
+  const db = getDatabase();
+  const quotation = db.prepare('SELECT status FROM quotations WHERE id = ?').get(id) as { status: string } | undefined;
+  if (!quotation) {
+    throw new Error('Quotation not found');
+  }
+  if (quotation.status !== 'open') {
+    throw new Error(`Quotation is already ${quotation.status}`);
+  }
+  db.prepare("UPDATE quotations SET status = 'cancelled' WHERE id = ?").run(id);
+  return { success: true };
+}
+
+/**
+ * Link a quotation to the invoice created from it. Must be called inside the invoice
+ * transaction so a failed sale leaves the quotation open.
+ */
+export function markQuotationConverted(quotationId: number, invoiceId: number): void {
+  const db = getDatabase();
+  const quotation = db.prepare('SELECT quotation_number, status FROM quotations WHERE id = ?').get(quotationId) as
+    { quotation_number: string; status: string } | undefined;
+  if (!quotation) {
+    throw new Error('Quotation not found');
+  }
+  if (quotation.status !== 'open') {
+    throw new Error(`Quotation ${quotation.quotation_number} is ${quotation.status} and cannot be invoiced`);
+  }
+  db.prepare("UPDATE quotations SET status = 'converted', invoice_id = ? WHERE id = ?").run(invoiceId, quotationId);
+}
@@ -0,0 +1,121 @@
+import { getDatabase } from './database';
+import { getLocalDateTime, roundMoney } from './utils';
+
+// Used when neither the product nor its supplier has a lead time
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+// A suggested order tops stock up to the reorder point plus this many days of sales
+const COVER_DAYS = 30;
+
+/**
+ * A reorder point, reorder quantity or lead time as entered; blank means not set
+ */
+export function normalizeReorderSetting(value: unknown, label: string): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`${label} must be a whole number of zero or more`);
+  }
+  return number;
+}
+
+/**
+ * Reorder suggestions for every stocked product whose stock plus what is already on
+ * order has fallen to its reorder point. Velocity is units sold per day over the last
+ * `days`, net of returns and voids, with warranty replacements counted as demand.
+ *
+ * A product's own reorder point wins; otherwise it is the larger of the low-stock
+ * threshold and the expected sales over the lead time. A set reorder quantity is
+ * ordered in multiples until stock clears the reorder point; otherwise enough is
+ * suggested to cover the reorder point plus a month of sales.
+ */
+export function getReorderSuggestions(days: number = 90): any[] {
+  const db = getDatabase();
+  const period = Math.max(1, Math.floor(Number(days) || 90));
+  const since = getLocalDateTime(new Date(Date.now() - period * 24 * 60 * 60 * 1000));
+
+  const products = db.prepare(`
+    SELECT p.id, p.name, p.sku, p.size_display, p.product_type, p.stock_quantity, p.low_stock_threshold,
+      p.reorder_point, p.reorder_quantity, p.lead_time_days, p.cost_price,
+      COALESCE((
+        SELECT SUM(CASE
+          WHEN sm.movement_type IN ('sale', 'warranty') THEN sm.quantity
+          WHEN sm.movement_type IN ('return', 'void') THEN -sm.quantity
+          ELSE 0 END)
+        FROM stock_movements sm
+        WHERE sm.product_id = p.id AND sm.created_at >= ?
+      ), 0) as units_sold,
+      COALESCE((
+        SELECT SUM(poi.quantity_ordered - poi.quantity_received)
+        FROM purchase_order_items poi
+        INNER JOIN purchase_orders po ON po.id = poi.purchase_order_id
+        WHERE poi.product_id = p.id AND po.status IN ('ordered', 'partially_received')
+      ), 0) as on_order
+    FROM products p
+    WHERE p.product_type IS NOT 'service' AND p.product_type IS NOT 'bundle'
+    ORDER BY p.name
+  `).all(since) as any[];
+
+  // Preferred supplier first, then the cheapest on the price lists
+  const supplierStmt = db.prepare(`
+    SELECT s.id, s.name, s.lead_time_days, ps.cost_price, ps.supplier_sku
+    FROM product_suppliers ps
+    INNER JOIN suppliers s ON s.id = ps.supplier_id
+    WHERE ps.product_id = ?
+    ORDER BY ps.is_preferred DESC, ps.cost_price ASC
+    LIMIT 1
+  `);
+  // Products on no price list are bought from whoever supplied them last
+  const lastSupplierStmt = db.prepare(`
+    SELECT s.id, s.name, s.lead_time_days, poi.unit_cost as cost_price, NULL as supplier_sku
+    FROM purchase_order_items poi
+    INNER JOIN purchase_orders po ON po.id = poi.purchase_order_id
+    INNER JOIN suppliers s ON s.id = po.supplier_id
+    WHERE poi.product_id = ? AND po.status != 'cancelled'
+    ORDER BY po.id DESC
+    LIMIT 1
+  `);
+  // Brand is the longest brand name the product name starts with
+  const brands = (db.prepare('SELECT name FROM brands').all() as { name: string }[])
+    .map((brand) => brand.name)
+    .sort((a, b) => b.length - a.length);
+
+  const suggestions: any[] = [];
+  for (const product of products) {
+    const supplier = (supplierStmt.get(product.id) || lastSupplierStmt.get(product.id)) as any;
+    const leadTime = product.lead_time_days ?? supplier?.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS;
+    const velocity = Math.max(0, product.units_sold) / period;
+    const reorderPoint = product.reorder_point ?? Math.max(product.low_stock_threshold || 0, Math.ceil(velocity * leadTime));
+    const position = product.stock_quantity + product.on_order;
+    if (position > reorderPoint) continue;
+
+    const shortfall = reorderPoint - position + 1;
+    const quantity = product.reorder_quantity
+      ? Math.ceil(shortfall / product.reorder_quantity) * product.reorder_quantity
+      : Math.max(shortfall, reorderPoint + Math.ceil(velocity * COVER_DAYS) - position);
+    const unitCost = supplier?.cost_price ?? product.cost_price ?? 0;
+    const upperName = product.name.toUpperCase();
+
+    suggestions.push({
+      product_id: product.id,
+      product_name: product.name,
+      sku: product.sku,
+      size_display: product.size_display,
+      product_type: product.product_type,
+      brand: brands.find((brand) => upperName.startsWith(brand.toUpperCase())) || null,
+      supplier_id: supplier?.id ?? null,
+      supplier_name: supplier?.name ?? null,
+      supplier_sku: supplier?.supplier_sku ?? null,
+      stock_quantity: product.stock_quantity,
+      on_order: product.on_order,
+      units_sold: product.units_sold,
+      velocity: Math.round(velocity * 100) / 100,
+      lead_time_days: leadTime,
+      reorder_point: reorderPoint,
+      days_left: velocity > 0 ? Math.max(0, Math.floor(product.stock_quantity / velocity)) : null,
+      suggested_quantity: quantity,
+      unit_cost: unitCost,
+      total_cost: roundMoney(quantity * unitCost),
+    });
+  }
+  return suggestions;
+}
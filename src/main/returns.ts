@@ -0,0 +1,217 @@
+import { getDatabase } from './database';
+import { getLocalDateTime, roundMoney } from './utils';
+import { getInvoiceItemStockLines } from './bundles';
+import { releaseUnits } from './units';
+import { getClaimedQuantity, reduceWarranty } from './warranties';
+import { changeLocationStock, getReturnLocationId } from './locations';
+import { addCostLayer, getSoldUnitCost } from './costing';
+import { nextDocumentNumber } from './numbering';
+
+export type RefundMethod = 'refund' | 'store_credit';
+
+export interface SalesReturnInput {
+  refund_method: RefundMethod;
+  reason?: string | null;
+  items: Array<{
+    invoice_item_id: number;
+    quantity: number;
+  }>;
+}
+
+/**
+ * Get the credit notes raised against an invoice, with their items
+ */
+export function getCreditNotesForInvoice(invoiceId: number): any[] {
+  const db = getDatabase();
+  const creditNotes = db.prepare(`
+    SELECT * FROM credit_notes WHERE invoice_id = ? ORDER BY created_at
+  `).all(invoiceId) as any[];
+
+  const itemsStmt = db.prepare('SELECT * FROM credit_note_items WHERE credit_note_id = ? ORDER BY id');
+  for (const creditNote of creditNotes) {
+    creditNote.items = itemsStmt.all(creditNote.id);
+  }
+  return creditNotes;
+}
+
+/**
+ * Return items from an invoice. Creates a credit note, restocks the products with
+ * 'return' stock movements and marks the invoice partially_returned or returned.
+ * Lines are credited at their price after line discount; the bill discount is credited in
+ * the same proportion as on the original invoice. Each line gives back its own taxes pro rata
+ * to the quantity returned (older invoices without per-line taxes credit tax proportionally).
+ * On a credit sale the return first reduces what is still owed on the account; only the
+ * rest is refunded or kept as store credit.
+ */
+export function createSalesReturn(invoiceId: number, data: SalesReturnInput): { id: number; credit_note_number: string; total_amount: number; account_credit: number; status: string } {
+  const db = getDatabase();
+
+  if (data.refund_method !== 'refund' && data.refund_method !== 'store_credit') {
+    throw new Error('Refund method must be refund or store credit');
+  }
+
+  const transaction = db.transaction(() => {
+    const invoice = db.prepare('SELECT * FROM invoices WHERE id = ?').get(invoiceId) as any;
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (invoice.status === 'returned' || invoice.status === 'void') {
+      throw new Error(`Cannot return items on a ${invoice.status} invoice`);
+    }
+    // Store credit is spent by the customer's phone number, so it needs one
+    if (data.refund_method === 'store_credit' && !invoice.customer_id) {
+      throw new Error('Store credit needs a customer on the invoice; refund this return instead');
+    }
+
+    // Lines for the same invoice item are added together so they can't return more than was sold
+    const quantities = new Map<number, number>();
+    for (const item of data.items || []) {
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new Error('Return quantities must be whole numbers greater than zero');
+      }
+      quantities.set(item.invoice_item_id, (quantities.get(item.invoice_item_id) || 0) + item.quantity);
+    }
+    const lines = Array.from(quantities, ([invoice_item_id, quantity]) => ({ invoice_item_id, quantity }));
+    if (lines.length === 0) {
+      throw new Error('Select at least one item to return');
+    }
+
+    const invoiceItemStmt = db.prepare(`
+      SELECT ii.*, COALESCE((SELECT SUM(cni.quantity) FROM credit_note_items cni WHERE cni.invoice_item_id = ii.id), 0) as quantity_returned
+      FROM invoice_items ii
+      WHERE ii.id = ? AND ii.invoice_id = ?
+    `);
+
+    const lineTaxStmt = db.prepare(`
+      SELECT COALESCE(SUM(tax_amount), 0) as tax,
+        COALESCE(SUM(CASE WHEN is_inclusive = 0 THEN tax_amount ELSE 0 END), 0) as exclusive_tax
+      FROM invoice_item_taxes
+      WHERE invoice_item_id = ?
+    `);
+
+    const returnLines = lines.map((line) => {
+      const invoiceItem = invoiceItemStmt.get(line.invoice_item_id, invoiceId) as any;
+      if (!invoiceItem) {
+        throw new Error(`Line ${line.invoice_item_id} does not belong to this invoice`);
+      }
+      // Units under a warranty claim are settled through the claim, not returned
+      const claimed = getClaimedQuantity(invoiceItem);
+      const returnable = invoiceItem.quantity - invoiceItem.quantity_returned - claimed;
+      if (line.quantity > returnable) {
+        throw new Error(
+          `Cannot return ${line.quantity} of ${invoiceItem.product_name}: only ${Math.max(returnable, 0)} returnable` +
+          (claimed > 0 ? ` (${claimed} under warranty claim)` : '')
+        );
+      }
+      const netUnitPrice = invoiceItem.quantity > 0 ? invoiceItem.total_price / invoiceItem.quantity : invoiceItem.unit_price;
+      const share = invoiceItem.quantity > 0 ? line.quantity / invoiceItem.quantity : 0;
+      const lineTaxes = lineTaxStmt.get(invoiceItem.id) as { tax: number; exclusive_tax: number };
+      return {
+        invoiceItem,
+        quantity: line.quantity,
+        total: Math.round(line.quantity * netUnitPrice * 100) / 100,
+        tax: lineTaxes.tax * share,
+        exclusiveTax: lineTaxes.exclusive_tax * share,
+      };
+    });
+
+    const subtotal = returnLines.reduce((sum, line) => sum + line.total, 0);
+    // Lines after their own discounts; the same as invoice.subtotal when there are none
+    const linesTotal = (db.prepare('SELECT COALESCE(SUM(total_price), 0) as total FROM invoice_items WHERE invoice_id = ?')
+      .get(invoiceId) as { total: number }).total;
+    const hasLineTaxes = !!db.prepare('SELECT 1 FROM invoice_item_taxes WHERE invoice_id = ? LIMIT 1').get(invoiceId);
+
+    let taxAmount: number;
+    let totalAmount: number;
+    if (hasLineTaxes) {
+      // Exclusive taxes are added on top of the lines; everything else scales with the bill discount
+      const exclusiveTax = (invoice.tax_amount || 0) - (invoice.inclusive_tax_amount || 0);
+      const priceRatio = linesTotal > 0 ? (invoice.total_amount - exclusiveTax) / linesTotal : 1;
+      taxAmount = Math.round(returnLines.reduce((sum, line) => sum + line.tax, 0) * 100) / 100;
+      totalAmount = Math.round((subtotal * priceRatio + returnLines.reduce((sum, line) => sum + line.exclusiveTax, 0)) * 100) / 100;
+    } else {
+      const taxRatio = linesTotal > 0 ? (invoice.tax_amount || 0) / linesTotal : 0;
+      const totalRatio = linesTotal > 0 ? invoice.total_amount / linesTotal : 1;
+      taxAmount = Math.round(subtotal * taxRatio * 100) / 100;
+      totalAmount = Math.round(subtotal * totalRatio * 100) / 100;
+    }
+
+    const accountCredit = Math.min(totalAmount, invoice.balance_due || 0);
+    const numberTakenStmt = db.prepare('SELECT 1 FROM credit_notes WHERE credit_note_number = ?');
+    const creditNoteNumber = nextDocumentNumber('credit_note', (number) => !!numberTakenStmt.get(number));
+    const localDateTime = getLocalDateTime();
+
+    const creditNoteResult = db.prepare(`
+      INSERT INTO credit_notes (credit_note_number, invoice_id, refund_method, reason, subtotal, tax_amount, total_amount, credit_balance, account_credit, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      creditNoteNumber,
+      invoiceId,
+      data.refund_method,
+      data.reason || null,
+      subtotal,
+      taxAmount,
+      totalAmount,
+      data.refund_method === 'store_credit' ? Math.round((totalAmount - accountCredit) * 100) / 100 : 0,
+      accountCredit,
+      localDateTime
+    );
+    const creditNoteId = creditNoteResult.lastInsertRowid as number;
+
+    const creditNoteItemStmt = db.prepare(`
+      INSERT INTO credit_note_items (credit_note_id, invoice_item_id, product_id, product_name, quantity, unit_price, total_price, cogs)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    // Services carry no stock
+    const stockUpdateStmt = db.prepare(`
+      UPDATE products SET stock_quantity = stock_quantity + ? WHERE id = ? AND product_type IS NOT 'service'
+    `);
+    const stockMovementStmt = db.prepare(`
+      INSERT INTO stock_movements (product_id, movement_type, quantity, reference_id, notes, location_id, created_at)
+      VALUES (?, 'return', ?, ?, ?, ?, ?)
+    `);
+    // Returned goods go back to the location they were sold from
+    const locationId = getReturnLocationId(invoice.location_id);
+
+    for (const line of returnLines) {
+      const item = line.invoiceItem;
+      // The returned share of the line's cost; stock goes back at the cost it was sold at
+      const cogs = item.quantity > 0 ? roundMoney((item.cogs || 0) / item.quantity * line.quantity) : 0;
+      creditNoteItemStmt.run(creditNoteId, item.id, item.product_id, item.product_name, line.quantity, item.unit_price, line.total, cogs);
+      // A returned kit puts back its components; DOT units go back in stock and
+      // come off the warranty
+      for (const stockLine of getInvoiceItemStockLines(item, line.quantity)) {
+        if (stockUpdateStmt.run(stockLine.quantity, stockLine.product_id).changes === 0) continue;
+        stockMovementStmt.run(
+          stockLine.product_id,
+          stockLine.quantity,
+          creditNoteId,
+          `${creditNoteNumber} against ${invoice.invoice_number}`,
+          locationId,
+          localDateTime
+        );
+        changeLocationStock(stockLine.product_id, locationId, stockLine.quantity);
+        addCostLayer(stockLine.product_id, stockLine.quantity, getSoldUnitCost(item.id, stockLine.product_id), 'return', creditNoteId, localDateTime);
+        releaseUnits(item.id, stockLine.product_id, stockLine.quantity, locationId);
+        reduceWarranty(item.id, stockLine.product_id, stockLine.quantity);
+      }
+    }
+
+    const progress = db.prepare(`
+      SELECT
+        SUM(ii.quantity) as sold,
+        COALESCE((SELECT SUM(cni.quantity) FROM credit_note_items cni
+                  INNER JOIN credit_notes cn ON cni.credit_note_id = cn.id
+                  WHERE cn.invoice_id = ?), 0) as returned
+      FROM invoice_items ii
+      WHERE ii.invoice_id = ?
+    `).get(invoiceId, invoiceId) as { sold: number; returned: number };
+    const status = progress.returned >= progress.sold ? 'returned' : 'partially_returned';
+    db.prepare('UPDATE invoices SET status = ?, balance_due = ? WHERE id = ?')
+      .run(status, Math.round(((invoice.balance_due || 0) - accountCredit) * 100) / 100, invoiceId);
+
+    return { id: creditNoteId, credit_note_number: creditNoteNumber, total_amount: totalAmount, account_credit: accountCredit, status };
+  });
+
+  return transaction();
+}
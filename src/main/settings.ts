@@ -0,0 +1,22 @@
+import { getDatabase } from './database';
+import { getLocalDateTime } from './utils';
+
+/**
+ * Read a shop-wide setting; returns the fallback when it has never been saved
+ */
+export function getSetting(key: string, fallback: string): string {
+  const db = getDatabase();
+  const row = db.prepare('SELECT value FROM app_settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row ? row.value : fallback;
+}
+
+/**
+ * Save a shop-wide setting
+ */
+export function setSetting(key: string, value: string): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO app_settings (key, value, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).run(key, value, getLocalDateTime());
+}
@@ -0,0 +1,128 @@
+import { getDatabase } from './database';
+import { getAdminInfo } from './auth';
+import { changeLocationStock, getLocationQuantity, resolveLocationId } from './locations';
+import { addCostLayer, consumeCostLayers, getCurrentUnitCost } from './costing';
+import { writeOffUnits } from './units';
+import { getLocalDateTime } from './utils';
+
+export const STOCK_ADJUSTMENT_REASONS = ['damage', 'theft', 'count_correction', 'sample'];
+
+export interface StockAdjustmentInput {
+  product_id: number;
+  location_id?: number | null;
+  mode: 'add' | 'subtract' | 'set';
+  quantity: number;
+  reason: string;
+  notes?: string | null;
+  unit_ids?: number[]; // DOT units taken out
+}
+
+// Movement types that put stock in; the others take it out, except adjustments whose quantity is signed
+const STOCK_IN_TYPES = ['purchase', 'return', 'void', 'transfer_in'];
+
+/**
+ * Write an 'adjustment' movement for a stock change the caller has already applied,
+ * and cost it: stock put in is a layer at the current unit cost, stock taken out
+ * consumes layers. A negative quantity is stock taken out. Must run in the caller's transaction.
+ */
+export function recordAdjustmentMovement(
+  productId: number,
+  locationId: number,
+  quantity: number,
+  reason: string,
+  notes?: string | null,
+  referenceId?: number | null // the stock take that posted it
+): number {
+  const db = getDatabase();
+  const createdAt = getLocalDateTime();
+  const result = db.prepare(`
+    INSERT INTO stock_movements (product_id, movement_type, quantity, reference_id, notes, location_id, reason, created_by, created_at)
+    VALUES (?, 'adjustment', ?, ?, ?, ?, ?, ?, ?)
+  `).run(productId, quantity, referenceId ?? null, notes?.trim() || null, locationId, reason, getAdminInfo()?.username ?? null, createdAt);
+  const movementId = result.lastInsertRowid as number;
+  if (quantity > 0) {
+    addCostLayer(productId, quantity, getCurrentUnitCost(productId), reason === 'opening' ? 'opening' : 'adjustment', movementId, createdAt);
+  } else {
+    consumeCostLayers(productId, -quantity, 'adjustment', movementId, null, createdAt);
+  }
+  return movementId;
+}
+
+/**
+ * Add to, take from or set a product's stock at a location, with a reason code.
+ * Stock taken out writes off the DOT units picked as gone.
+ */
+export function adjustStock(data: StockAdjustmentInput): { movement_id: number; stock_quantity: number; location_quantity: number } {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const product = db.prepare('SELECT id, name, product_type FROM products WHERE id = ?').get(data.product_id) as any;
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    if (product.product_type === 'service' || product.product_type === 'bundle') {
+      throw new Error(`${product.name} carries no stock`);
+    }
+    if (!STOCK_ADJUSTMENT_REASONS.includes(data.reason)) {
+      throw new Error('Choose a reason for the adjustment');
+    }
+    const quantity = Number(data.quantity);
+    if (!Number.isInteger(quantity) || quantity < 0 || (quantity === 0 && data.mode !== 'set')) {
+      throw new Error('Enter a whole, positive quantity');
+    }
+
+    const locationId = resolveLocationId(data.location_id);
+    const current = getLocationQuantity(product.id, locationId);
+    const change = data.mode === 'add' ? quantity : data.mode === 'subtract' ? -quantity : quantity - current;
+    if (change === 0) {
+      throw new Error(`Stock is already ${current}`);
+    }
+    if (current + change < 0) {
+      throw new Error(`Only ${current} of ${product.name} at this location`);
+    }
+
+    db.prepare('UPDATE products SET stock_quantity = stock_quantity + ? WHERE id = ?').run(change, product.id);
+    changeLocationStock(product.id, locationId, change);
+    const movementId = recordAdjustmentMovement(product.id, locationId, change, data.reason, data.notes);
+    if (change < 0) {
+      writeOffUnits(product.id, locationId, -change, movementId, data.unit_ids);
+    }
+
+    const { stock_quantity } = db.prepare('SELECT stock_quantity FROM products WHERE id = ?').get(product.id) as { stock_quantity: number };
+    return { movement_id: movementId, stock_quantity, location_quantity: current + change };
+  })();
+}
+
+/**
+ * A product's stock movements, newest first, each with its signed change and the
+ * balance after it. Balances are worked back from today's stock, so they are right
+ * for recent history even when older changes were never recorded.
+ */
+export function getStockMovements(productId: number, locationId?: number | null): any[] {
+  const db = getDatabase();
+  const movements = db.prepare(`
+    SELECT sm.*, l.name as location_name,
+      COALESCE(i.invoice_number, g.grn_number, cn.credit_note_number, t.transfer_number, st.stock_take_number) as reference
+    FROM stock_movements sm
+    LEFT JOIN stock_locations l ON l.id = sm.location_id
+    LEFT JOIN invoices i ON sm.movement_type IN ('sale', 'void', 'warranty') AND i.id = sm.reference_id
+    LEFT JOIN goods_received_notes g ON sm.movement_type = 'purchase' AND g.id = sm.reference_id
+    LEFT JOIN credit_notes cn ON sm.movement_type = 'return' AND cn.id = sm.reference_id
+    LEFT JOIN stock_transfers t ON sm.movement_type IN ('transfer_out', 'transfer_in') AND t.id = sm.reference_id
+    LEFT JOIN stock_takes st ON sm.movement_type = 'adjustment' AND st.id = sm.reference_id
+    WHERE sm.product_id = ? AND (? IS NULL OR sm.location_id = ?)
+    ORDER BY sm.id DESC
+    LIMIT 500
+  `).all(productId, locationId ?? null, locationId ?? null) as any[];
+
+  let balance = locationId
+    ? getLocationQuantity(productId, locationId)
+    : ((db.prepare('SELECT stock_quantity FROM products WHERE id = ?').get(productId) as { stock_quantity: number } | undefined)?.stock_quantity ?? 0);
+  for (const movement of movements) {
+    movement.change = movement.movement_type === 'adjustment'
+      ? movement.quantity
+      : STOCK_IN_TYPES.includes(movement.movement_type) ? movement.quantity : -movement.quantity;
+    movement.balance = balance;
+    balance -= movement.change;
+  }
+  return movements;
+}
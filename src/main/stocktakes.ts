@@ -0,0 +1,223 @@
+import { getDatabase } from './database';
+import { getAdminInfo } from './auth';
+import { nextDocumentNumber } from './numbering';
+import { changeLocationStock, getLocationQuantity, resolveLocationId } from './locations';
+import { recordAdjustmentMovement } from './stock';
+import { countLocationUnits } from './units';
+import { getLocalDateTime, roundMoney } from './utils';
+
+export interface StockTakeInput {
+  location_id?: number | null;
+  brand?: string | null;
+  rim_size?: number | null;
+  product_type?: string | null;
+  notes?: string | null;
+}
+
+export interface StockTakeCount {
+  item_id: number;
+  counted_quantity: number | null;
+}
+
+/**
+ * List stock takes, newest first, with how far counting has got and the variance so far
+ */
+export function getStockTakes(): any[] {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT st.*, l.name as location_name,
+      COUNT(i.id) as item_count,
+      COUNT(i.counted_quantity) as counted_count,
+      COALESCE(SUM(i.counted_quantity - i.expected_quantity), 0) as variance_quantity,
+      COALESCE(SUM((i.counted_quantity - i.expected_quantity) * i.unit_cost), 0) as variance_value
+    FROM stock_takes st
+    INNER JOIN stock_locations l ON l.id = st.location_id
+    LEFT JOIN stock_take_items i ON i.stock_take_id = st.id
+    GROUP BY st.id
+    ORDER BY st.id DESC
+    LIMIT 200
+  `).all() as any[];
+  return rows.map((row) => ({ ...row, variance_value: roundMoney(row.variance_value) }));
+}
+
+/**
+ * Get a stock take with its lines. Counted lines carry their variance and its cost.
+ */
+export function getStockTakeById(id: number): any {
+  const db = getDatabase();
+  const stockTake = db.prepare(`
+    SELECT st.*, l.name as location_name
+    FROM stock_takes st
+    INNER JOIN stock_locations l ON l.id = st.location_id
+    WHERE st.id = ?
+  `).get(id) as any;
+  if (!stockTake) return null;
+
+  const items = db.prepare(`
+    SELECT i.*, p.sku, p.product_type, p.size_display, p.tire_diameter, p.wheel_diameter
+    FROM stock_take_items i
+    LEFT JOIN products p ON p.id = i.product_id
+    WHERE i.stock_take_id = ?
+    ORDER BY i.product_name
+  `).all(id) as any[];
+  stockTake.items = items.map((item) => {
+    const variance = item.counted_quantity === null ? null : item.counted_quantity - item.expected_quantity;
+    return {
+      ...item,
+      variance,
+      variance_value: variance === null ? null : roundMoney(variance * item.unit_cost),
+    };
+  });
+  return stockTake;
+}
+
+/**
+ * Open a stock take at a location, freezing the expected quantity and cost of every
+ * stocked product in scope. Scope can be narrowed by brand, rim size and product type.
+ */
+export function createStockTake(data: StockTakeInput): { id: number; stock_take_number: string } {
+  const db = getDatabase();
+
+  const transaction = db.transaction(() => {
+    const locationId = resolveLocationId(data.location_id);
+    const open = db.prepare(`
+      SELECT st.stock_take_number, l.name FROM stock_takes st
+      INNER JOIN stock_locations l ON l.id = st.location_id
+      WHERE st.location_id = ? AND st.status = 'open'
+    `).get(locationId) as { stock_take_number: string; name: string } | undefined;
+    if (open) {
+      throw new Error(`${open.stock_take_number} is still open at ${open.name}; post or cancel it first`);
+    }
+
+    const brand = data.brand?.trim() || null;
+    const rimSize = data.rim_size ? Number(data.rim_size) : null;
+    const productType = data.product_type || null;
+    const products = db.prepare(`
+      SELECT p.id, p.name, p.cost_price, COALESCE(ps.quantity, 0) as quantity
+      FROM products p
+      LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = ?
+      WHERE p.product_type IS NOT 'service' AND p.product_type IS NOT 'bundle'
+        AND (? IS NULL OR UPPER(p.name) LIKE UPPER(?) || '%')
+        AND (? IS NULL OR p.tire_diameter = ? OR p.wheel_diameter = ?)
+        AND (? IS NULL OR p.product_type = ?)
+      ORDER BY p.name
+    `).all(locationId, brand, brand, rimSize, rimSize, rimSize, productType, productType) as
+      { id: number; name: string; cost_price: number | null; quantity: number }[];
+    if (products.length === 0) {
+      throw new Error('No products match this stock take');
+    }
+
+    const numberTakenStmt = db.prepare('SELECT 1 FROM stock_takes WHERE stock_take_number = ?');
+    const stockTakeNumber = nextDocumentNumber('stock_take', (number) => !!numberTakenStmt.get(number));
+    const result = db.prepare(`
+      INSERT INTO stock_takes (stock_take_number, location_id, brand, rim_size, product_type, notes, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      stockTakeNumber,
+      locationId,
+      brand,
+      rimSize,
+      productType,
+      data.notes?.trim() || null,
+      getAdminInfo()?.username ?? null,
+      getLocalDateTime()
+    );
+    const stockTakeId = result.lastInsertRowid as number;
+
+    const itemStmt = db.prepare(`
+      INSERT INTO stock_take_items (stock_take_id, product_id, product_name, expected_quantity, unit_cost)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    for (const product of products) {
+      itemStmt.run(stockTakeId, product.id, product.name, product.quantity, product.cost_price || 0);
+    }
+
+    return { id: stockTakeId, stock_take_number: stockTakeNumber };
+  });
+
+  return transaction();
+}
+
+function getOpenStockTake(id: number): any {
+  const db = getDatabase();
+  const stockTake = db.prepare('SELECT * FROM stock_takes WHERE id = ?').get(id) as any;
+  if (!stockTake) {
+    throw new Error('Stock take not found');
+  }
+  if (stockTake.status !== 'open') {
+    throw new Error(`${stockTake.stock_take_number} is ${stockTake.status}`);
+  }
+  return stockTake;
+}
+
+/**
+ * Save counted quantities; null clears a count
+ */
+export function saveStockTakeCounts(id: number, counts: StockTakeCount[]): { success: boolean } {
+  const db = getDatabase();
+  db.transaction(() => {
+    getOpenStockTake(id);
+    const updateStmt = db.prepare('UPDATE stock_take_items SET counted_quantity = ? WHERE id = ? AND stock_take_id = ?');
+    for (const count of counts || []) {
+      const quantity = count.counted_quantity === null || count.counted_quantity === undefined ? null : Number(count.counted_quantity);
+      if (quantity !== null && (!Number.isInteger(quantity) || quantity < 0)) {
+        throw new Error('Counted quantities must be whole numbers of zero or more');
+      }
+      updateStmt.run(quantity, count.item_id, id);
+    }
+  })();
+  return { success: true };
+}
+
+/**
+ * Post the counted lines' variances as 'adjustment' movements. Stock moves by counted
+ * minus expected rather than being set to the count, so sales made while counting are
+ * kept. Uncounted lines are left alone. A shortfall may not leave more DOT units
+ * registered than stock.
+ */
+export function postStockTake(id: number): { adjusted: number } {
+  const db = getDatabase();
+
+  const transaction = db.transaction(() => {
+    const stockTake = getOpenStockTake(id);
+    const items = db.prepare(`
+      SELECT * FROM stock_take_items WHERE stock_take_id = ? AND counted_quantity IS NOT NULL
+    `).all(id) as any[];
+    if (items.length === 0) {
+      throw new Error('Enter at least one count before posting');
+    }
+
+    const stockUpdateStmt = db.prepare('UPDATE products SET stock_quantity = stock_quantity + ? WHERE id = ?');
+    let adjusted = 0;
+    for (const item of items) {
+      const variance = item.counted_quantity - item.expected_quantity;
+      if (variance === 0) continue;
+      const current = getLocationQuantity(item.product_id, stockTake.location_id);
+      if (current + variance < 0) {
+        throw new Error(`Posting would leave ${item.product_name} below zero; recount it`);
+      }
+      if (variance < 0 && countLocationUnits(item.product_id, stockTake.location_id) > current + variance) {
+        throw new Error(`${item.product_name} is counted short of its DOT-coded tires; remove the missing tires' DOT codes, then post`);
+      }
+      stockUpdateStmt.run(variance, item.product_id);
+      changeLocationStock(item.product_id, stockTake.location_id, variance);
+      recordAdjustmentMovement(item.product_id, stockTake.location_id, variance, 'count_correction', stockTake.stock_take_number, id);
+      adjusted++;
+    }
+
+    db.prepare("UPDATE stock_takes SET status = 'posted', posted_at = ? WHERE id = ?").run(getLocalDateTime(), id);
+    return { adjusted };
+  });
+
+  return transaction();
+}
+
+/**
+ * Abandon an open stock take without changing stock
+ */
+export function cancelStockTake(id: number): { success: boolean } {
+  const db = getDatabase();
+  getOpenStockTake(id);
+  db.prepare("UPDATE stock_takes SET status = 'cancelled' WHERE id = ?").run(id);
+  return { success: true };
+}
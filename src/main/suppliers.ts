@@ -0,0 +1,213 @@
+import { getDatabase } from './database';
+import { getLocalDateTime } from './utils';
+
+export interface ProductSupplierInput {
+  product_id: number;
+  supplier_id: number;
+  cost_price: number;
+  is_preferred?: boolean;
+  supplier_sku?: string | null;
+  notes?: string | null;
+}
+
+export interface SupplierContactInput {
+  supplier_id: number;
+  contact_date?: string | null;
+  contact_type?: string;
+  summary: string;
+}
+
+/**
+ * Get all suppliers with the number of products on their price list
+ */
+export function getSuppliers(): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      s.*,
+      COUNT(ps.id) as product_count,
+      SUM(CASE WHEN ps.is_preferred = 1 THEN 1 ELSE 0 END) as preferred_count
+    FROM suppliers s
+    LEFT JOIN product_suppliers ps ON ps.supplier_id = s.id
+    GROUP BY s.id
+    ORDER BY s.name
+  `).all();
+}
+
+/**
+ * Delete a supplier. Suppliers with purchase orders are kept for the purchasing history.
+ */
+export function deleteSupplier(id: number): { success: boolean } {
+  const db = getDatabase();
+  const orders = db.prepare('SELECT COUNT(*) as count FROM purchase_orders WHERE supplier_id = ?').get(id) as { count: number };
+  if (orders.count > 0) {
+    throw new Error(`Cannot delete supplier: ${orders.count} purchase order(s) reference it`);
+  }
+  // product_suppliers and supplier_contacts cascade
+  const result = db.prepare('DELETE FROM suppliers WHERE id = ?').run(id);
+  if (result.changes === 0) {
+    throw new Error('Supplier not found');
+  }
+  return { success: true };
+}
+
+/**
+ * Get the price list of a supplier
+ */
+export function getSupplierPriceList(supplierId: number): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      ps.*,
+      p.name as product_name,
+      p.sku,
+      p.size_display,
+      p.product_type,
+      p.stock_quantity
+    FROM product_suppliers ps
+    INNER JOIN products p ON ps.product_id = p.id
+    WHERE ps.supplier_id = ?
+    ORDER BY p.name
+  `).all(supplierId);
+}
+
+/**
+ * Get the suppliers of a product, preferred first then cheapest
+ */
+export function getProductSuppliers(productId: number): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      ps.*,
+      s.name as supplier_name,
+      s.phone as supplier_phone
+    FROM product_suppliers ps
+    INNER JOIN suppliers s ON ps.supplier_id = s.id
+    WHERE ps.product_id = ?
+    ORDER BY ps.is_preferred DESC, ps.cost_price ASC
+  `).all(productId);
+}
+
+/**
+ * Add or update a product on a supplier's price list.
+ * A product has at most one preferred supplier; marking one preferred demotes the others to alternates.
+ */
+export function setProductSupplier(data: ProductSupplierInput): { success: boolean } {
+  const db = getDatabase();
+
+  if (!data.product_id || !data.supplier_id) {
+    throw new Error('Product and supplier are required');
+  }
+  if (data.cost_price === undefined || data.cost_price === null || data.cost_price < 0) {
+    throw new Error('A valid cost price is required');
+  }
+
+  const transaction = db.transaction(() => {
+    if (data.is_preferred) {
+      db.prepare('UPDATE product_suppliers SET is_preferred = 0 WHERE product_id = ? AND supplier_id != ?')
+        .run(data.product_id, data.supplier_id);
+    }
+
+    db.prepare(`
+      INSERT INTO product_suppliers (product_id, supplier_id, cost_price, is_preferred, supplier_sku, notes)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(product_id, supplier_id) DO UPDATE SET
+        cost_price = excluded.cost_price,
+        is_preferred = excluded.is_preferred,
+        supplier_sku = excluded.supplier_sku,
+        notes = excluded.notes
+    `).run(
+      data.product_id,
+      data.supplier_id,
+      data.cost_price,
+      data.is_preferred ? 1 : 0,
+      data.supplier_sku || null,
+      data.notes || null
+    );
+  });
+
+  transaction();
+  return { success: true };
+}
+
+/**
+ * Remove a product from a supplier's price list
+ */
+export function removeProductSupplier(id: number): { success: boolean } {
+  const db = getDatabase();
+  db.prepare('DELETE FROM product_suppliers WHERE id = ?').run(id);
+  return { success: true };
+}
+
+/**
+ * Compare supplier cost prices per size_display.
+ * Rows are ordered by size then cost, so the first row of each size is the cheapest offer.
+ */
+export function compareSupplierPrices(sizeDisplay?: string): any[] {
+  const db = getDatabase();
+  const search = sizeDisplay?.trim();
+
+  let query = `
+    SELECT
+      p.size_display,
+      p.id as product_id,
+      p.name as product_name,
+      p.product_type,
+      s.id as supplier_id,
+      s.name as supplier_name,
+      ps.cost_price,
+      ps.is_preferred
+    FROM product_suppliers ps
+    INNER JOIN products p ON ps.product_id = p.id
+    INNER JOIN suppliers s ON ps.supplier_id = s.id
+    WHERE p.size_display IS NOT NULL AND p.size_display != ''
+  `;
+  const params: any[] = [];
+  if (search) {
+    query += ' AND p.size_display LIKE ?';
+    params.push(`%${search}%`);
+  }
+  query += ' ORDER BY p.size_display, ps.cost_price ASC, s.name';
+
+  return db.prepare(query).all(...params);
+}
+
+/**
+ * Get the contact history of a supplier, newest first
+ */
+export function getSupplierContacts(supplierId: number): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM supplier_contacts WHERE supplier_id = ? ORDER BY contact_date DESC, id DESC
+  `).all(supplierId);
+}
+
+/**
+ * Log a contact (call, visit, price list received, ...) with a supplier
+ */
+export function addSupplierContact(data: SupplierContactInput): { id: number } {
+  const db = getDatabase();
+  if (!data.summary || !data.summary.trim()) {
+    throw new Error('Contact summary is required');
+  }
+  const result = db.prepare(`
+    INSERT INTO supplier_contacts (supplier_id, contact_date, contact_type, summary, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(
+    data.supplier_id,
+    data.contact_date || getLocalDateTime(),
+    data.contact_type || 'call',
+    data.summary.trim(),
+    getLocalDateTime()
+  );
+  return { id: result.lastInsertRowid as number };
+}
+
+/**
+ * Delete a contact history entry
+ */
+export function deleteSupplierContact(id: number): { success: boolean } {
+  const db = getDatabase();
+  db.prepare('DELETE FROM supplier_contacts WHERE id = ?').run(id);
+  return { success: true };
+}
@@ -0,0 +1,343 @@
+import { getDatabase } from './database';
+import { PricedInvoice, PricedLine } from './discounts';
+import { getLocalDateTime, roundMoney } from './utils';
+
+export interface TaxAssignment {
+  product_type?: string | null;
+  category?: string | null;
+}
+
+export interface TaxRateInput {
+  name: string;
+  rate: number;
+  is_inclusive: boolean;
+  is_active: boolean;
+  assignments: TaxAssignment[];
+}
+
+export interface LineTax {
+  tax_rate_id: number;
+  tax_name: string;
+  rate: number;
+  is_inclusive: number;
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface TaxedLine extends PricedLine {
+  taxes: LineTax[];
+  tax_amount: number;
+}
+
+interface TaxRateRow {
+  id: number;
+  name: string;
+  rate: number;
+  is_inclusive: number;
+  is_active: number;
+  assignments: TaxAssignment[];
+}
+
+const PRODUCT_TYPES = ['tire', 'alloy_wheel', 'general', 'service', 'bundle'];
+
+/**
+ * Get all tax rates with the product types and categories they apply to
+ */
+export function getTaxRates(): TaxRateRow[] {
+  const db = getDatabase();
+  const rates = db.prepare('SELECT * FROM tax_rates ORDER BY is_active DESC, name').all() as TaxRateRow[];
+  const assignmentsStmt = db.prepare(`
+    SELECT product_type, category FROM tax_rate_assignments WHERE tax_rate_id = ? ORDER BY id
+  `);
+  for (const rate of rates) {
+    rate.assignments = assignmentsStmt.all(rate.id) as TaxAssignment[];
+  }
+  return rates;
+}
+
+function validateTaxRate(data: TaxRateInput): { name: string; rate: number; assignments: TaxAssignment[] } {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error('Tax name is required');
+  }
+  const rate = Number(data.rate);
+  if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+    throw new Error('Tax rate must be between 0 and 100%');
+  }
+
+  const seen = new Set<string>();
+  const assignments: TaxAssignment[] = [];
+  for (const assignment of data.assignments || []) {
+    const productType = assignment.product_type || null;
+    const category = assignment.category?.trim() || null;
+    if (productType && !PRODUCT_TYPES.includes(productType)) {
+      throw new Error(`Unknown product type: ${productType}`);
+    }
+    const key = `${productType}|${category?.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    assignments.push({ product_type: productType, category });
+  }
+  if (assignments.length === 0) {
+    throw new Error('Choose which products the tax applies to');
+  }
+  return { name, rate, assignments };
+}
+
+function saveAssignments(taxRateId: number, assignments: TaxAssignment[]): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM tax_rate_assignments WHERE tax_rate_id = ?').run(taxRateId);
+  const insertStmt = db.prepare(`
+    INSERT INTO tax_rate_assignments (tax_rate_id, product_type, category) VALUES (?, ?, ?)
+  `);
+  for (const assignment of assignments) {
+    insertStmt.run(taxRateId, assignment.product_type, assignment.category);
+  }
+}
+
+/**
+ * Create a tax rate and its assignments
+ */
+export function createTaxRate(data: TaxRateInput): { id: number } {
+  const db = getDatabase();
+  const { name, rate, assignments } = validateTaxRate(data);
+  try {
+    const transaction = db.transaction(() => {
+      const result = db.prepare(`
+        INSERT INTO tax_rates (name, rate, is_inclusive, is_active, created_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(name, rate, data.is_inclusive ? 1 : 0, data.is_active === false ? 0 : 1, getLocalDateTime());
+      const id = result.lastInsertRowid as number;
+      saveAssignments(id, assignments);
+      return { id };
+    });
+    return transaction();
+  } catch (e: any) {
+    if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw new Error('A tax with this name already exists');
+    }
+    throw e;
+  }
+}
+
+/**
+ * Update a tax rate. Invoices already issued keep the rate they were charged.
+ */
+export function updateTaxRate(id: number, data: TaxRateInput): { id: number } {
+  const db = getDatabase();
+  const { name, rate, assignments } = validateTaxRate(data);
+  try {
+    const transaction = db.transaction(() => {
+      const result = db.prepare(`
+        UPDATE tax_rates SET name = ?, rate = ?, is_inclusive = ?, is_active = ? WHERE id = ?
+      `).run(name, rate, data.is_inclusive ? 1 : 0, data.is_active === false ? 0 : 1, id);
+      if (result.changes === 0) {
+        throw new Error('Tax rate not found');
+      }
+      saveAssignments(id, assignments);
+      return { id };
+    });
+    return transaction();
+  } catch (e: any) {
+    if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw new Error('A tax with this name already exists');
+    }
+    throw e;
+  }
+}
+
+/**
+ * Delete a tax rate that has never been charged; used rates should be deactivated instead
+ */
+export function deleteTaxRate(id: number): { success: boolean } {
+  const db = getDatabase();
+  const used = db.prepare('SELECT COUNT(*) as count FROM invoice_item_taxes WHERE tax_rate_id = ?').get(id) as { count: number };
+  if (used.count > 0) {
+    throw new Error('This tax has been charged on invoices; deactivate it instead');
+  }
+  const result = db.prepare('DELETE FROM tax_rates WHERE id = ?').run(id);
+  if (result.changes === 0) {
+    throw new Error('Tax rate not found');
+  }
+  return { success: true };
+}
+
+/**
+ * The active rates that apply to a product: a rate applies when any of its assignments
+ * matches the product's type and category (blank fields match anything)
+ */
+export function getApplicableTaxRates(
+  product: { product_type?: string | null; category?: string | null },
+  rates: TaxRateRow[]
+): TaxRateRow[] {
+  const productType = product.product_type || 'general';
+  const category = product.category?.trim().toLowerCase() || null;
+
+  return rates.filter((rate) => rate.is_active && rate.assignments.some((assignment) =>
+    (!assignment.product_type || assignment.product_type === productType) &&
+    (!assignment.category || assignment.category.toLowerCase() === category)
+  ));
+}
+
+/**
+ * Tax on one line. `amount` is what the customer pays for the line before exclusive taxes
+ * (after discounts). Inclusive taxes are backed out of it; every tax is charged on the
+ * amount net of inclusive taxes.
+ */
+export function calculateLineTaxes(amount: number, rates: TaxRateRow[]): LineTax[] {
+  const inclusiveRate = rates.filter((rate) => rate.is_inclusive).reduce((sum, rate) => sum + rate.rate, 0);
+  const taxable = roundMoney(amount / (1 + inclusiveRate / 100));
+  const taxes = rates.map((rate) => ({
+    tax_rate_id: rate.id,
+    tax_name: rate.name,
+    rate: rate.rate,
+    is_inclusive: rate.is_inclusive ? 1 : 0,
+    taxable_amount: taxable,
+    tax_amount: roundMoney(taxable * rate.rate / 100),
+  }));
+
+  // Inclusive taxes must add up to exactly what was backed out of the price
+  const inclusive = taxes.filter((tax) => tax.is_inclusive);
+  if (inclusive.length > 0) {
+    const others = inclusive.slice(0, -1).reduce((sum, tax) => sum + tax.tax_amount, 0);
+    inclusive[inclusive.length - 1].tax_amount = roundMoney(amount - taxable - others);
+  }
+  return taxes;
+}
+
+/**
+ * Work out the taxes on each line of a priced invoice. The bill discount is shared
+ * across lines in proportion to their totals before tax is charged.
+ */
+export function calculateInvoiceTaxes(
+  priced: PricedInvoice
+): { items: TaxedLine[]; tax_amount: number; inclusive_tax_amount: number } {
+  const db = getDatabase();
+  const rates = getTaxRates();
+  const productStmt = db.prepare('SELECT product_type, category FROM products WHERE id = ?');
+
+  const items = priced.items;
+  const linesTotal = roundMoney(items.reduce((sum, item) => sum + item.total_price, 0));
+  const billDiscount = roundMoney(priced.subtotal - priced.discount_amount - linesTotal);
+  let discountLeft = billDiscount;
+
+  const taxedItems = items.map((item, index) => {
+    const share = index === items.length - 1
+      ? discountLeft
+      : linesTotal > 0 ? roundMoney(billDiscount * item.total_price / linesTotal) : 0;
+    discountLeft = roundMoney(discountLeft - share);
+
+    const product = (productStmt.get(item.product_id) || {}) as { product_type?: string; category?: string };
+    const taxes = calculateLineTaxes(item.total_price - share, getApplicableTaxRates(product, rates));
+    return { ...item, taxes, tax_amount: roundMoney(taxes.reduce((sum, tax) => sum + tax.tax_amount, 0)) };
+  });
+
+  const allTaxes = taxedItems.flatMap((item) => item.taxes);
+  return {
+    items: taxedItems,
+    tax_amount: roundMoney(allTaxes.reduce((sum, tax) => sum + tax.tax_amount, 0)),
+    inclusive_tax_amount: roundMoney(allTaxes.filter((tax) => tax.is_inclusive).reduce((sum, tax) => sum + tax.tax_amount, 0)),
+  };
+}
+
+/**
+ * Record the taxes charged on an invoice line. Must be called inside the invoice transaction.
+ */
+export function recordLineTaxes(invoiceId: number, invoiceItemId: number, taxes: LineTax[]): void {
+  const db = getDatabase();
+  const taxStmt = db.prepare(`
+    INSERT INTO invoice_item_taxes (invoice_item_id, invoice_id, tax_rate_id, tax_name, rate, is_inclusive, taxable_amount, tax_amount)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const tax of taxes) {
+    taxStmt.run(invoiceItemId, invoiceId, tax.tax_rate_id, tax.tax_name, tax.rate, tax.is_inclusive, tax.taxable_amount, tax.tax_amount);
+  }
+}
+
+/**
+ * Taxes on an invoice added up by rate (for receipts and the invoice view)
+ */
+export function getInvoiceTaxes(invoiceId: number): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT tax_name, rate, is_inclusive, ROUND(SUM(taxable_amount), 2) as taxable_amount, ROUND(SUM(tax_amount), 2) as tax_amount
+    FROM invoice_item_taxes
+    WHERE invoice_id = ?
+    GROUP BY tax_name, rate, is_inclusive
+    ORDER BY MIN(id)
+  `).all(invoiceId);
+}
+
+/**
+ * Tax collected by rate and period ('day' or 'month'), net of returns. Returns give back
+ * each line's taxes in proportion to the quantity returned, in the period of the credit note.
+ * Invoices from before tax rates were set up show as 'Manual rate'.
+ */
+export function getTaxSummary(startDate: string, endDate: string, groupBy: 'day' | 'month' = 'month'): any {
+  const db = getDatabase();
+  const periodLength = groupBy === 'day' ? 10 : 7;
+
+  const rows = db.prepare(`
+    SELECT period, tax_name, rate, is_inclusive,
+      SUM(invoice_count) as invoice_count,
+      ROUND(SUM(taxable_amount), 2) as taxable_amount,
+      ROUND(SUM(tax_amount), 2) as tax_amount,
+      SUM(returned_tax) as returned_tax,
+      ROUND(SUM(tax_amount) - SUM(returned_tax), 2) as net_tax
+    FROM (
+      SELECT SUBSTR(i.created_at, 1, ${periodLength}) as period, t.tax_name, t.rate, t.is_inclusive,
+        COUNT(DISTINCT t.invoice_id) as invoice_count, SUM(t.taxable_amount) as taxable_amount,
+        SUM(t.tax_amount) as tax_amount, 0 as returned_tax
+      FROM invoice_item_taxes t
+      INNER JOIN invoices i ON t.invoice_id = i.id
+      WHERE SUBSTR(i.created_at, 1, 10) BETWEEN ? AND ? AND i.status != 'void'
+      GROUP BY period, t.tax_name, t.rate, t.is_inclusive
+
+      UNION ALL
+
+      SELECT SUBSTR(i.created_at, 1, ${periodLength}), 'Manual rate', NULL, 0,
+        COUNT(*), SUM(i.subtotal - i.discount_amount), SUM(i.tax_amount), 0
+      FROM invoices i
+      WHERE SUBSTR(i.created_at, 1, 10) BETWEEN ? AND ? AND i.status != 'void' AND i.tax_amount > 0
+        AND NOT EXISTS (SELECT 1 FROM invoice_item_taxes t WHERE t.invoice_id = i.id)
+      GROUP BY SUBSTR(i.created_at, 1, ${periodLength})
+
+      UNION ALL
+
+      SELECT SUBSTR(cn.created_at, 1, ${periodLength}), t.tax_name, t.rate, t.is_inclusive,
+        0, 0, 0, ROUND(SUM(t.tax_amount * cni.quantity / ii.quantity), 2)
+      FROM credit_note_items cni
+      INNER JOIN credit_notes cn ON cni.credit_note_id = cn.id
+      INNER JOIN invoice_items ii ON cni.invoice_item_id = ii.id
+      INNER JOIN invoice_item_taxes t ON t.invoice_item_id = ii.id
+      WHERE SUBSTR(cn.created_at, 1, 10) BETWEEN ? AND ?
+      GROUP BY SUBSTR(cn.created_at, 1, ${periodLength}), t.tax_name, t.rate, t.is_inclusive
+    )
+    GROUP BY period, tax_name, rate, is_inclusive
+    ORDER BY period, tax_name
+  `).all(startDate, endDate, startDate, endDate, startDate, endDate) as any[];
+
+  // Totals by rate across the whole range
+  const totals = new Map<string, any>();
+  for (const row of rows) {
+    const key = `${row.tax_name}|${row.rate}|${row.is_inclusive}`;
+    const total = totals.get(key) || {
+      tax_name: row.tax_name,
+      rate: row.rate,
+      is_inclusive: row.is_inclusive,
+      invoice_count: 0,
+      taxable_amount: 0,
+      tax_amount: 0,
+      returned_tax: 0,
+      net_tax: 0,
+    };
+    total.invoice_count += row.invoice_count;
+    total.taxable_amount = roundMoney(total.taxable_amount + row.taxable_amount);
+    total.tax_amount = roundMoney(total.tax_amount + row.tax_amount);
+    total.returned_tax = roundMoney(total.returned_tax + row.returned_tax);
+    total.net_tax = roundMoney(total.net_tax + row.net_tax);
+    totals.set(key, total);
+  }
+
+  return { periods: rows, byRate: Array.from(totals.values()) };
+}
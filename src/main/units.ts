@@ -0,0 +1,246 @@
+import { getDatabase } from './database';
+import { getLocationQuantity, resolveLocationId } from './locations';
+import { getLocalDateTime } from './utils';
+
+export interface UnitInput {
+  dot_code: string;
+  serial_number?: string | null;
+}
+
+/**
+ * Read the DOT date code of a tire: the last four digits of the DOT number,
+ * week then year (e.g. "2324" is week 23 of 2024). The full DOT number is accepted.
+ */
+export function parseDotCode(code: string): { dot_code: string; dot_week: number; dot_year: number; manufactured_on: string } {
+  const match = (code || '').replace(/\s/g, '').match(/(\d{2})(\d{2})$/);
+  if (!match) {
+    throw new Error(`"${code}" is not a DOT date code; enter the week and year, e.g. 2324`);
+  }
+  const week = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  if (week < 1 || week > 53) {
+    throw new Error(`DOT code ${match[0]} has no week ${match[1]}`);
+  }
+
+  const start = new Date(year, 0, 1 + (week - 1) * 7);
+  const manufacturedOn = getLocalDateTime(start).substring(0, 10);
+  if (manufacturedOn > getLocalDateTime().substring(0, 10)) {
+    throw new Error(`DOT code ${match[0]} is in the future`);
+  }
+  return { dot_code: match[0], dot_week: week, dot_year: year, manufactured_on: manufacturedOn };
+}
+
+/**
+ * Units of a product in stock, at one location when given, oldest first (the order
+ * Billing sells them in)
+ */
+export function getProductUnits(productId: number, locationId?: number | null): any[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT pu.*, l.name as location_name
+    FROM product_units pu
+    LEFT JOIN stock_locations l ON l.id = pu.location_id
+    WHERE pu.product_id = ? AND pu.status = 'in_stock' AND (? IS NULL OR pu.location_id = ?)
+    ORDER BY pu.manufactured_on, pu.id
+  `).all(productId, locationId ?? null, locationId ?? null);
+}
+
+/**
+ * Number of a product's units in stock at a location
+ */
+export function countLocationUnits(productId: number, locationId: number): number {
+  const db = getDatabase();
+  return (db.prepare(`
+    SELECT COUNT(*) as count FROM product_units WHERE product_id = ? AND location_id = ? AND status = 'in_stock'
+  `).get(productId, locationId) as { count: number }).count;
+}
+
+/**
+ * Register DOT codes for units in stock at a location, either as goods are received
+ * (grnId) or for stock that was already on the shelf. A location can hold no more
+ * units than stock.
+ */
+export function registerUnits(
+  productId: number,
+  units: UnitInput[],
+  locationId?: number | null,
+  grnId: number | null = null
+): { registered: number } {
+  const db = getDatabase();
+
+  const transaction = db.transaction(() => {
+    const product = db.prepare('SELECT name, track_units FROM products WHERE id = ?').get(productId) as
+      { name: string; track_units: number } | undefined;
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    if (!product.track_units) {
+      throw new Error(`${product.name} does not track DOT codes`);
+    }
+    if (!units || units.length === 0) {
+      throw new Error('Enter at least one DOT code');
+    }
+
+    const unitLocationId = resolveLocationId(locationId);
+    const unregistered = Math.max(getLocationQuantity(productId, unitLocationId) - countLocationUnits(productId, unitLocationId), 0);
+    if (units.length > unregistered) {
+      throw new Error(`Only ${unregistered} of ${product.name} in stock here have no DOT code`);
+    }
+
+    const serialTakenStmt = db.prepare('SELECT 1 FROM product_units WHERE product_id = ? AND serial_number = ?');
+    const insertStmt = db.prepare(`
+      INSERT INTO product_units (product_id, dot_code, dot_week, dot_year, manufactured_on, serial_number, location_id, grn_id, received_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const receivedAt = getLocalDateTime();
+    for (const unit of units) {
+      const dot = parseDotCode(unit.dot_code);
+      const serial = unit.serial_number?.trim() || null;
+      if (serial && serialTakenStmt.get(productId, serial)) {
+        throw new Error(`Serial ${serial} is already registered for ${product.name}`);
+      }
+      insertStmt.run(productId, dot.dot_code, dot.dot_week, dot.dot_year, dot.manufactured_on, serial, unitLocationId, grnId, receivedAt);
+    }
+    return { registered: units.length };
+  });
+
+  return transaction();
+}
+
+/**
+ * Remove a unit registered by mistake. Sold units stay on their invoice.
+ */
+export function deleteUnit(unitId: number): { success: boolean } {
+  const db = getDatabase();
+  const unit = db.prepare('SELECT status FROM product_units WHERE id = ?').get(unitId) as { status: string } | undefined;
+  if (!unit) {
+    throw new Error('Unit not found');
+  }
+  if (unit.status !== 'in_stock') {
+    throw new Error('Only units in stock can be removed');
+  }
+  db.prepare('DELETE FROM product_units WHERE id = ?').run(unitId);
+  return { success: true };
+}
+
+/**
+ * Mark units sold on an invoice line and return their DOT codes. Picked units go
+ * first, the rest are the oldest in stock at the location sold from; stock from
+ * before tracking has no units. Must run in the invoice transaction.
+ */
+export function allocateUnits(
+  invoiceItemId: number,
+  line: { product_id: number; product_name: string; quantity: number },
+  locationId: number,
+  unitIds: number[] = []
+): string[] {
+  const db = getDatabase();
+  unitIds = [...new Set(unitIds)];
+  if (unitIds.length > line.quantity) {
+    throw new Error(`More DOT units picked than the ${line.quantity} ${line.product_name} sold`);
+  }
+
+  const pickedStmt = db.prepare(`
+    SELECT id, dot_code FROM product_units WHERE id = ? AND product_id = ? AND location_id = ? AND status = 'in_stock'
+  `);
+  const picked = unitIds.map((unitId) => {
+    const unit = pickedStmt.get(unitId, line.product_id, locationId) as { id: number; dot_code: string } | undefined;
+    if (!unit) {
+      throw new Error(`A picked DOT unit of ${line.product_name} is no longer in stock at this location`);
+    }
+    return unit;
+  });
+  const oldest = (db.prepare(`
+    SELECT id, dot_code FROM product_units
+    WHERE product_id = ? AND location_id = ? AND status = 'in_stock'
+    ORDER BY manufactured_on, id
+  `).all(line.product_id, locationId) as { id: number; dot_code: string }[])
+    .filter((unit) => !unitIds.includes(unit.id))
+    .slice(0, line.quantity - picked.length);
+
+  const sellStmt = db.prepare(`
+    UPDATE product_units SET status = 'sold', invoice_item_id = ?, sold_at = ? WHERE id = ?
+  `);
+  const soldAt = getLocalDateTime();
+  const units = [...picked, ...oldest];
+  for (const unit of units) {
+    sellStmt.run(invoiceItemId, soldAt, unit.id);
+  }
+  return units.map((unit) => unit.dot_code);
+}
+
+/**
+ * Put units sold on an invoice line back in stock at the location the stock returns
+ * to (voids and returns)
+ */
+export function releaseUnits(invoiceItemId: number, productId: number, quantity: number, locationId: number): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE product_units SET status = 'in_stock', invoice_item_id = NULL, sold_at = NULL, location_id = ?
+    WHERE id IN (
+      SELECT id FROM product_units
+      WHERE invoice_item_id = ? AND product_id = ? AND status = 'sold'
+      ORDER BY id DESC
+      LIMIT ?
+    )
+  `).run(locationId, invoiceItemId, productId, quantity);
+}
+
+/**
+ * Write off the units picked as gone when stock at a location is taken down by an
+ * adjustment. A location may not be left with more units than stock, so the user
+ * has to pick at least that many. Must run in the caller's transaction, after the
+ * stock change.
+ */
+export function writeOffUnits(
+  productId: number,
+  locationId: number,
+  removed: number,
+  movementId: number,
+  unitIds: number[] = []
+): void {
+  const db = getDatabase();
+  const { name } = db.prepare('SELECT name FROM products WHERE id = ?').get(productId) as { name: string };
+  unitIds = [...new Set(unitIds)];
+  if (unitIds.length > removed) {
+    throw new Error(`More DOT units picked than the ${removed} ${name} taken out`);
+  }
+
+  const writeOffStmt = db.prepare(`
+    UPDATE product_units SET status = 'written_off', stock_movement_id = ?, written_off_at = ?
+    WHERE id = ? AND product_id = ? AND location_id = ? AND status = 'in_stock'
+  `);
+  const writtenOffAt = getLocalDateTime();
+  for (const unitId of unitIds) {
+    if (writeOffStmt.run(movementId, writtenOffAt, unitId, productId, locationId).changes === 0) {
+      throw new Error(`A picked DOT unit of ${name} is no longer in stock at this location`);
+    }
+  }
+
+  const excess = countLocationUnits(productId, locationId) - Math.max(getLocationQuantity(productId, locationId), 0);
+  if (excess > 0) {
+    throw new Error(`Pick ${excess} more DOT unit${excess === 1 ? '' : 's'} of ${name} that ${excess === 1 ? 'is' : 'are'} gone`);
+  }
+}
+
+/**
+ * Units in stock made more than `years` years ago, oldest first
+ */
+export function getAgedUnits(years: number): any[] {
+  const db = getDatabase();
+  if (!(years > 0)) {
+    throw new Error('Enter an age in years');
+  }
+  const now = new Date();
+  const cutoff = getLocalDateTime(new Date(now.getFullYear() - years, now.getMonth(), now.getDate())).substring(0, 10);
+  return db.prepare(`
+    SELECT pu.id, pu.product_id, pu.dot_code, pu.serial_number, pu.manufactured_on, pu.received_at,
+      p.name as product_name, p.size_display, p.cost_price, l.name as location_name,
+      (julianday(?) - julianday(pu.manufactured_on)) / 365.25 as age_years
+    FROM product_units pu
+    INNER JOIN products p ON pu.product_id = p.id
+    LEFT JOIN stock_locations l ON l.id = pu.location_id
+    WHERE pu.status = 'in_stock' AND pu.manufactured_on <= ?
+    ORDER BY pu.manufactured_on, p.name
+  `).all(getLocalDateTime().substring(0, 10), cutoff);
+}
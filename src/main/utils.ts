@@ -0,0 +1,31 @@
+/**
+ * Get current local date/time as "YYYY-MM-DD HH:MM:SS" (without timezone conversion).
+ * Reports compare SUBSTR(created_at, 1, 10) against local dates, so stored timestamps must be local.
+ */
+export function getLocalDateTime(now: Date = new Date()): string {
+  return now.getFullYear() + '-' +
+    String(now.getMonth() + 1).padStart(2, '0') + '-' +
+    String(now.getDate()).padStart(2, '0') + ' ' +
+    String(now.getHours()).padStart(2, '0') + ':' +
+    String(now.getMinutes()).padStart(2, '0') + ':' +
+    String(now.getSeconds()).padStart(2, '0');
+}
+
+/**
+ * Normalize a phone number for matching customers: keep digits and a leading '+'.
+ * Returns null when nothing usable is left.
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+/**
+ * Round a money amount to cents
+ */
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,408 @@
+import { getDatabase } from './database';
+import { nextDocumentNumber } from './numbering';
+import { getInvoiceItemStockLines, StockLine } from './bundles';
+import { allocateUnits } from './units';
+import { changeLocationStock, getLocationQuantity, resolveLocationId } from './locations';
+import { consumeCostLayers } from './costing';
+import { getLocalDateTime } from './utils';
+
+export type ClaimStatus = 'open' | 'sent_to_supplier' | 'approved' | 'rejected' | 'replaced' | 'closed';
+
+export interface WarrantyClaimInput {
+  warranty_id: number;
+  quantity: number;
+  dot_code?: string | null;
+  issue: string;
+  supplier_id?: number | null;
+}
+
+export interface ClaimStatusInput {
+  status: ClaimStatus;
+  notes?: string | null;
+  supplier_id?: number | null;
+  supplier_reference?: string | null;
+}
+
+// 'replaced' is only set by issuing a replacement; closed claims are final
+const NEXT_STATUSES: Record<ClaimStatus, ClaimStatus[]> = {
+  open: ['sent_to_supplier', 'approved', 'rejected', 'closed'],
+  sent_to_supplier: ['approved', 'rejected', 'closed'],
+  approved: ['closed'],
+  rejected: ['open', 'closed'],
+  replaced: ['closed'],
+  closed: [],
+};
+
+const WARRANTY_SELECT_SQL = `
+  SELECT w.*, i.invoice_number, v.registration_number,
+    COALESCE(c.name, i.customer_name) as customer_name,
+    COALESCE(c.phone, i.customer_phone) as customer_phone,
+    COALESCE((SELECT SUM(wc.quantity) FROM warranty_claims wc
+              WHERE wc.warranty_id = w.id AND wc.status != 'rejected'), 0) as quantity_claimed
+  FROM warranties w
+  INNER JOIN invoices i ON w.invoice_id = i.id
+  LEFT JOIN customers c ON w.customer_id = c.id
+  LEFT JOIN customer_vehicles v ON w.vehicle_id = v.id
+`;
+
+const CLAIM_SELECT_SQL = `
+  SELECT wc.*, w.product_id, w.product_name, w.expires_on, w.invoice_id,
+    i.invoice_number, ri.invoice_number as replacement_invoice_number,
+    COALESCE(c.name, i.customer_name) as customer_name,
+    COALESCE(c.phone, i.customer_phone) as customer_phone,
+    s.name as supplier_name
+  FROM warranty_claims wc
+  INNER JOIN warranties w ON wc.warranty_id = w.id
+  INNER JOIN invoices i ON w.invoice_id = i.id
+  LEFT JOIN invoices ri ON wc.replacement_invoice_id = ri.id
+  LEFT JOIN customers c ON w.customer_id = c.id
+  LEFT JOIN suppliers s ON wc.supplier_id = s.id
+`;
+
+const today = () => getLocalDateTime().substring(0, 10);
+
+/**
+ * Date `months` months after a YYYY-MM-DD date
+ */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return getLocalDateTime(new Date(year, month - 1 + months, day)).substring(0, 10);
+}
+
+/**
+ * Warranty months as entered on a product or brand; blank means not set
+ */
+export function normalizeWarrantyMonths(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const months = Number(value);
+  if (!Number.isInteger(months) || months < 0) {
+    throw new Error('Warranty must be a whole number of months');
+  }
+  return months;
+}
+
+/**
+ * Warranty period of a product in months: its own, or else that of the brand its name
+ * starts with. 0 means no warranty.
+ */
+export function getWarrantyMonths(productId: number): number {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT p.warranty_months,
+      (SELECT b.warranty_months FROM brands b
+       WHERE UPPER(p.name) LIKE UPPER(b.name) || '%'
+       ORDER BY LENGTH(b.name) DESC LIMIT 1) as brand_months
+    FROM products p WHERE p.id = ?
+  `).get(productId) as { warranty_months: number | null; brand_months: number | null } | undefined;
+  if (!row) return 0;
+  return row.warranty_months ?? row.brand_months ?? 0;
+}
+
+/**
+ * Write the warranty for a line that left stock on a sale. Must run in the invoice transaction.
+ */
+export function recordWarranty(
+  invoiceId: number,
+  invoiceItemId: number,
+  line: StockLine,
+  dotCodes: string[],
+  customer: { customer_id: number | null; vehicle_id: number | null },
+  soldAt: string
+): void {
+  const months = getWarrantyMonths(line.product_id);
+  if (months <= 0) return;
+
+  const db = getDatabase();
+  const startsOn = soldAt.substring(0, 10);
+  db.prepare(`
+    INSERT INTO warranties (invoice_id, invoice_item_id, customer_id, vehicle_id, product_id, product_name,
+                            quantity, dot_codes, months, starts_on, expires_on, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    invoiceId,
+    invoiceItemId,
+    customer.customer_id,
+    customer.vehicle_id,
+    line.product_id,
+    line.product_name,
+    line.quantity,
+    dotCodes.length > 0 ? dotCodes.join(', ') : null,
+    months,
+    startsOn,
+    addMonths(startsOn, months),
+    soldAt
+  );
+}
+
+/**
+ * Take returned units off the warranty of an invoice line; a warranty with nothing
+ * left is voided. Must run in the return transaction.
+ */
+export function reduceWarranty(invoiceItemId: number, productId: number, quantity: number): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE warranties
+    SET quantity = MAX(quantity - ?, 0),
+        status = CASE WHEN quantity - ? <= 0 THEN 'void' ELSE status END
+    WHERE invoice_item_id = ? AND product_id = ? AND status = 'active'
+  `).run(quantity, quantity, invoiceItemId, productId);
+}
+
+/**
+ * Units of an invoice line held by warranty claims that were not rejected: they are
+ * with the claim or already replaced, so they cannot also be returned. A kit counts
+ * as claimed when any of its components is.
+ */
+export function getClaimedQuantity(item: { id: number; product_id: number; product_name: string; quantity: number }): number {
+  const db = getDatabase();
+  const claimedStmt = db.prepare(`
+    SELECT COALESCE(SUM(wc.quantity), 0) as quantity
+    FROM warranty_claims wc INNER JOIN warranties w ON wc.warranty_id = w.id
+    WHERE w.invoice_item_id = ? AND w.product_id = ? AND wc.status != 'rejected'
+  `);
+  let claimed = 0;
+  for (const line of getInvoiceItemStockLines(item, 1)) {
+    const { quantity } = claimedStmt.get(item.id, line.product_id) as { quantity: number };
+    claimed = Math.max(claimed, Math.ceil(quantity / line.quantity));
+  }
+  return Math.min(claimed, item.quantity);
+}
+
+/**
+ * Void the warranties of a voided invoice. Must run in the void transaction.
+ */
+export function voidWarranties(invoiceId: number): void {
+  const db = getDatabase();
+  const claimed = db.prepare(`
+    SELECT 1 FROM warranty_claims wc INNER JOIN warranties w ON wc.warranty_id = w.id
+    WHERE w.invoice_id = ? LIMIT 1
+  `).get(invoiceId);
+  if (claimed) {
+    throw new Error('Invoices with warranty claims cannot be voided');
+  }
+  db.prepare("UPDATE warranties SET status = 'void' WHERE invoice_id = ?").run(invoiceId);
+}
+
+/**
+ * Find active warranties by invoice number, customer name or phone, vehicle or DOT code
+ */
+export function searchWarranties(search: string): any[] {
+  const db = getDatabase();
+  const term = `%${(search || '').trim()}%`;
+  return db.prepare(`
+    ${WARRANTY_SELECT_SQL}
+    WHERE w.status = 'active'
+      AND (i.invoice_number LIKE ? OR COALESCE(c.name, i.customer_name) LIKE ?
+           OR COALESCE(c.phone, i.customer_phone) LIKE ? OR v.registration_number LIKE ?
+           OR w.dot_codes LIKE ? OR w.product_name LIKE ?)
+    ORDER BY w.created_at DESC, w.id DESC
+    LIMIT 50
+  `).all(term, term, term, term, term, term);
+}
+
+/**
+ * Warranties written for an invoice
+ */
+export function getInvoiceWarranties(invoiceId: number): any[] {
+  const db = getDatabase();
+  return db.prepare(`${WARRANTY_SELECT_SQL} WHERE w.invoice_id = ? ORDER BY w.id`).all(invoiceId);
+}
+
+/**
+ * List warranty claims, newest first
+ */
+export function getWarrantyClaims(): any[] {
+  const db = getDatabase();
+  return db.prepare(`${CLAIM_SELECT_SQL} ORDER BY wc.created_at DESC, wc.id DESC LIMIT 200`).all();
+}
+
+/**
+ * Get a claim with its status history
+ */
+export function getWarrantyClaimById(id: number): any {
+  const db = getDatabase();
+  const claim = db.prepare(`${CLAIM_SELECT_SQL} WHERE wc.id = ?`).get(id) as any;
+  if (!claim) return null;
+  claim.events = db.prepare('SELECT * FROM warranty_claim_events WHERE claim_id = ? ORDER BY created_at, id').all(id);
+  return claim;
+}
+
+/**
+ * Log a claim against a warranty that is still running
+ */
+export function createWarrantyClaim(data: WarrantyClaimInput): { id: number; claim_number: string } {
+  const db = getDatabase();
+
+  const issue = data.issue?.trim();
+  if (!issue) {
+    throw new Error('Describe the problem with the tire or wheel');
+  }
+  const quantity = Number(data.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error('Claim quantity must be a whole number above zero');
+  }
+
+  const transaction = db.transaction(() => {
+    const warranty = db.prepare(`${WARRANTY_SELECT_SQL} WHERE w.id = ?`).get(data.warranty_id) as any;
+    if (!warranty) {
+      throw new Error('Warranty not found');
+    }
+    if (warranty.status !== 'active') {
+      throw new Error('This warranty is void');
+    }
+    if (warranty.expires_on < today()) {
+      throw new Error(`This warranty expired on ${warranty.expires_on}`);
+    }
+    const claimable = warranty.quantity - warranty.quantity_claimed;
+    if (quantity > claimable) {
+      throw new Error(`Only ${claimable} of ${warranty.product_name} on this warranty can be claimed`);
+    }
+    const dotCode = data.dot_code?.trim() || null;
+    if (dotCode && warranty.dot_codes && !warranty.dot_codes.split(', ').includes(dotCode)) {
+      throw new Error(`DOT ${dotCode} was not sold on ${warranty.invoice_number}`);
+    }
+
+    const numberTakenStmt = db.prepare('SELECT 1 FROM warranty_claims WHERE claim_number = ?');
+    const claimNumber = nextDocumentNumber('warranty_claim', (number) => !!numberTakenStmt.get(number));
+    const createdAt = getLocalDateTime();
+
+    const result = db.prepare(`
+      INSERT INTO warranty_claims (claim_number, warranty_id, quantity, dot_code, issue, supplier_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(claimNumber, warranty.id, quantity, dotCode, issue, data.supplier_id || null, createdAt);
+    const claimId = result.lastInsertRowid as number;
+
+    db.prepare(`
+      INSERT INTO warranty_claim_events (claim_id, status, notes, created_at) VALUES (?, 'open', ?, ?)
+    `).run(claimId, issue, createdAt);
+
+    return { id: claimId, claim_number: claimNumber };
+  });
+
+  return transaction();
+}
+
+/**
+ * Move a claim on (e.g. sent to the supplier, approved, rejected) and log the change
+ */
+export function updateWarrantyClaimStatus(id: number, data: ClaimStatusInput): { success: boolean } {
+  const db = getDatabase();
+
+  const transaction = db.transaction(() => {
+    const claim = db.prepare('SELECT * FROM warranty_claims WHERE id = ?').get(id) as any;
+    if (!claim) {
+      throw new Error('Warranty claim not found');
+    }
+    const allowed = NEXT_STATUSES[claim.status as ClaimStatus] || [];
+    if (data.status !== claim.status && !allowed.includes(data.status)) {
+      throw new Error(`A ${claim.status.replace(/_/g, ' ')} claim cannot be marked ${data.status.replace(/_/g, ' ')}`);
+    }
+    if (data.status === 'sent_to_supplier' && !(data.supplier_id ?? claim.supplier_id)) {
+      throw new Error('Choose the supplier the claim is sent to');
+    }
+
+    db.prepare(`
+      UPDATE warranty_claims SET status = ?, supplier_id = ?, supplier_reference = ? WHERE id = ?
+    `).run(
+      data.status,
+      data.supplier_id !== undefined ? data.supplier_id || null : claim.supplier_id,
+      data.supplier_reference !== undefined ? data.supplier_reference?.trim() || null : claim.supplier_reference,
+      id
+    );
+    db.prepare(`
+      INSERT INTO warranty_claim_events (claim_id, status, notes, created_at) VALUES (?, ?, ?, ?)
+    `).run(id, data.status, data.notes?.trim() || null, getLocalDateTime());
+
+    return { success: true };
+  });
+
+  return transaction();
+}
+
+/**
+ * Give the customer a replacement: a zero-value invoice for the claimed quantity of the
+ * same product (or another one) that takes it out of stock with a 'warranty' movement.
+ */
+export function issueWarrantyReplacement(
+  claimId: number,
+  data: { product_id?: number | null; location_id?: number | null; notes?: string | null } = {}
+): { invoice_id: number; invoice_number: string } {
+  const db = getDatabase();
+
+  const transaction = db.transaction(() => {
+    const claim = db.prepare(`${CLAIM_SELECT_SQL} WHERE wc.id = ?`).get(claimId) as any;
+    if (!claim) {
+      throw new Error('Warranty claim not found');
+    }
+    if (!['open', 'sent_to_supplier', 'approved'].includes(claim.status)) {
+      throw new Error(`Cannot replace against a ${claim.status.replace(/_/g, ' ')} claim`);
+    }
+
+    const productId = data.product_id || claim.product_id;
+    const product = db.prepare('SELECT id, name, stock_quantity, product_type FROM products WHERE id = ?').get(productId) as
+      { id: number; name: string; stock_quantity: number; product_type: string } | undefined;
+    if (!product) {
+      throw new Error('The replacement product no longer exists');
+    }
+    if (product.product_type === 'service' || product.product_type === 'bundle') {
+      throw new Error('Choose a stocked tire or wheel as the replacement');
+    }
+    const locationId = resolveLocationId(data.location_id);
+    const available = getLocationQuantity(product.id, locationId);
+    if (available < claim.quantity) {
+      throw new Error(`Only ${available} of ${product.name} in stock at this location`);
+    }
+
+    const original = db.prepare('SELECT * FROM invoices WHERE id = ?').get(claim.invoice_id) as any;
+    const warranty = db.prepare('SELECT customer_id, vehicle_id FROM warranties WHERE id = ?').get(claim.warranty_id) as
+      { customer_id: number | null; vehicle_id: number | null };
+    const invoiceNumberTakenStmt = db.prepare('SELECT 1 FROM invoices WHERE invoice_number = ?');
+    const invoiceNumber = nextDocumentNumber('invoice', (number) => !!invoiceNumberTakenStmt.get(number));
+    const localDateTime = getLocalDateTime();
+
+    const invoiceResult = db.prepare(`
+      INSERT INTO invoices (invoice_number, customer_id, vehicle_id, customer_name, customer_phone, customer_email,
+                            subtotal, tax_amount, discount_amount, total_amount, payment_method, balance_due, location_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, 0, 0, 0, 0, 'warranty', 0, ?, ?)
+    `).run(
+      invoiceNumber,
+      warranty.customer_id,
+      warranty.vehicle_id,
+      original?.customer_name || null,
+      original?.customer_phone || null,
+      original?.customer_email || null,
+      locationId,
+      localDateTime
+    );
+    const invoiceId = invoiceResult.lastInsertRowid as number;
+
+    const line = { product_id: product.id, product_name: product.name, quantity: claim.quantity };
+    const itemResult = db.prepare(`
+      INSERT INTO invoice_items (invoice_id, product_id, product_name, quantity, unit_price, discount_value, discount_amount, total_price, tax_amount)
+      VALUES (?, ?, ?, ?, 0, 0, 0, 0, 0)
+    `).run(invoiceId, line.product_id, line.product_name, line.quantity);
+    const invoiceItemId = itemResult.lastInsertRowid as number;
+
+    db.prepare('UPDATE products SET stock_quantity = stock_quantity - ? WHERE id = ?').run(line.quantity, line.product_id);
+    db.prepare(`
+      INSERT INTO stock_movements (product_id, movement_type, quantity, reference_id, notes, location_id, created_at)
+      VALUES (?, 'warranty', ?, ?, ?, ?, ?)
+    `).run(line.product_id, line.quantity, invoiceId, `Warranty replacement ${claim.claim_number}`, locationId, localDateTime);
+    changeLocationStock(line.product_id, locationId, -line.quantity);
+    const cogs = consumeCostLayers(line.product_id, line.quantity, 'warranty', invoiceId, invoiceItemId, localDateTime);
+    db.prepare('UPDATE invoice_items SET cogs = ? WHERE id = ?').run(cogs, invoiceItemId);
+    const dotCodes = allocateUnits(invoiceItemId, line, locationId);
+    if (dotCodes.length > 0) {
+      db.prepare('UPDATE invoice_items SET dot_codes = ? WHERE id = ?').run(dotCodes.join(', '), invoiceItemId);
+    }
+
+    db.prepare("UPDATE warranty_claims SET status = 'replaced', replacement_invoice_id = ? WHERE id = ?").run(invoiceId, claimId);
+    db.prepare(`
+      INSERT INTO warranty_claim_events (claim_id, status, notes, created_at) VALUES (?, 'replaced', ?, ?)
+    `).run(claimId, [`Replaced on ${invoiceNumber}`, data.notes?.trim()].filter(Boolean).join(': '), localDateTime);
+
+    return { invoice_id: invoiceId, invoice_number: invoiceNumber };
+  });
+
+  return transaction();
+}
@@ -7,14 +7,15 @@ import { contextBridge, ipcRenderer } from 'electron';
 contextBridge.exposeInMainWorld('electronAPI', {
   // Product APIs
   products: {
-    getAll: () => ipcRenderer.invoke('products:getAll'),
+    getAll: (locationId?: number) => ipcRenderer.invoke('products:getAll', locationId),
     getById: (id: number) => ipcRenderer.invoke('products:getById', id),
     create: (product: any) => ipcRenderer.invoke('products:create', product),
     update: (id: number, product: any) => ipcRenderer.invoke('products:update', id, product),
     delete: (id: number) => ipcRenderer.invoke('products:delete', id),
     deleteAll: () => ipcRenderer.invoke('products:deleteAll'),
     deleteByName: (name: string) => ipcRenderer.invoke('products:deleteByName', name),
-    getLowStock: () => ipcRenderer.invoke('products:getLowStock'),
+    getLowStock: (locationId?: number) => ipcRenderer.invoke('products:getLowStock', locationId),
+    getStock: (id: number) => ipcRenderer.invoke('products:getStock', id),
     getByType: (type: string) => ipcRenderer.invoke('products:getByType', type),
     getBySize: (size: string) => ipcRenderer.invoke('products:getBySize', size),
   },
@@ -23,9 +24,47 @@ contextBridge.exposeInMainWorld('electronAPI', {
   brands: {
     getAll: () => ipcRenderer.invoke('brands:getAll'),
     create: (name: string) => ipcRenderer.invoke('brands:create', name),
+    setWarranty: (id: number, months: number | null) => ipcRenderer.invoke('brands:setWarranty', id, months),
     delete: (id: number) => ipcRenderer.invoke('brands:delete', id),
   },
 
+  // Stock location APIs
+  locations: {
+    getAll: () => ipcRenderer.invoke('locations:getAll'),
+    create: (data: any) => ipcRenderer.invoke('locations:create', data),
+    update: (id: number, data: any) => ipcRenderer.invoke('locations:update', id, data),
+    setDefault: (id: number) => ipcRenderer.invoke('locations:setDefault', id),
+    delete: (id: number) => ipcRenderer.invoke('locations:delete', id),
+  },
+
+  // Stock transfer APIs
+  transfers: {
+    getAll: () => ipcRenderer.invoke('transfers:getAll'),
+    getById: (id: number) => ipcRenderer.invoke('transfers:getById', id),
+    create: (data: any) => ipcRenderer.invoke('transfers:create', data),
+  },
+
+  // Stock adjustment APIs
+  stock: {
+    adjust: (data: any) => ipcRenderer.invoke('stock:adjust', data),
+    getMovements: (productId: number, locationId?: number) => ipcRenderer.invoke('stock:getMovements', productId, locationId),
+  },
+
+  // Stock take APIs
+  stockTakes: {
+    getAll: () => ipcRenderer.invoke('stockTakes:getAll'),
+    getById: (id: number) => ipcRenderer.invoke('stockTakes:getById', id),
+    create: (data: any) => ipcRenderer.invoke('stockTakes:create', data),
+    saveCounts: (id: number, counts: any[]) => ipcRenderer.invoke('stockTakes:saveCounts', id, counts),
+    post: (id: number) => ipcRenderer.invoke('stockTakes:post', id),
+    cancel: (id: number) => ipcRenderer.invoke('stockTakes:cancel', id),
+  },
+
+  // Reorder suggestion APIs
+  reorders: {
+    getSuggestions: (days?: number) => ipcRenderer.invoke('reorders:getSuggestions', days),
+  },
+
   // Tire Sizes APIs
   tireSizes: {
     getAll: () => ipcRenderer.invoke('tireSizes:getAll'),
@@ -40,21 +79,146 @@ contextBridge.exposeInMainWorld('electronAPI', {
     delete: (id: number) => ipcRenderer.invoke('wheelSizes:delete', id),
   },
 
+  // Supplier APIs
+  customers: {
+    getAll: (search?: string) => ipcRenderer.invoke('customers:getAll', search),
+    searchByPhone: (phone: string) => ipcRenderer.invoke('customers:searchByPhone', phone),
+    getById: (id: number) => ipcRenderer.invoke('customers:getById', id),
+    create: (customer: any) => ipcRenderer.invoke('customers:create', customer),
+    update: (id: number, customer: any) => ipcRenderer.invoke('customers:update', id, customer),
+    delete: (id: number) => ipcRenderer.invoke('customers:delete', id),
+  },
+
+  vehicles: {
+    getByCustomer: (customerId: number) => ipcRenderer.invoke('vehicles:getByCustomer', customerId),
+    create: (vehicle: any) => ipcRenderer.invoke('vehicles:create', vehicle),
+    update: (id: number, vehicle: any) => ipcRenderer.invoke('vehicles:update', id, vehicle),
+    delete: (id: number) => ipcRenderer.invoke('vehicles:delete', id),
+  },
+
+  suppliers: {
+    getAll: () => ipcRenderer.invoke('suppliers:getAll'),
+    create: (supplier: any) => ipcRenderer.invoke('suppliers:create', supplier),
+    update: (id: number, supplier: any) => ipcRenderer.invoke('suppliers:update', id, supplier),
+    delete: (id: number) => ipcRenderer.invoke('suppliers:delete', id),
+    getPriceList: (supplierId: number) => ipcRenderer.invoke('suppliers:getPriceList', supplierId),
+    getForProduct: (productId: number) => ipcRenderer.invoke('suppliers:getForProduct', productId),
+    setProductPrice: (data: any) => ipcRenderer.invoke('suppliers:setProductPrice', data),
+    removeProductPrice: (id: number) => ipcRenderer.invoke('suppliers:removeProductPrice', id),
+    comparePrices: (sizeDisplay?: string) => ipcRenderer.invoke('suppliers:comparePrices', sizeDisplay),
+    getContacts: (supplierId: number) => ipcRenderer.invoke('suppliers:getContacts', supplierId),
+    addContact: (contact: any) => ipcRenderer.invoke('suppliers:addContact', contact),
+    deleteContact: (id: number) => ipcRenderer.invoke('suppliers:deleteContact', id),
+  },
+
+  // Purchase APIs
+  purchases: {
+    getAll: () => ipcRenderer.invoke('purchases:getAll'),
+    getById: (id: number) => ipcRenderer.invoke('purchases:getById', id),
+    create: (orderData: any) => ipcRenderer.invoke('purchases:create', orderData),
+    cancel: (id: number) => ipcRenderer.invoke('purchases:cancel', id),
+    receive: (id: number, receiptData: any) => ipcRenderer.invoke('purchases:receive', id, receiptData),
+  },
+
+  // Quotation APIs
+  quotations: {
+    getAll: () => ipcRenderer.invoke('quotations:getAll'),
+    getById: (id: number) => ipcRenderer.invoke('quotations:getById', id),
+    create: (data: any) => ipcRenderer.invoke('quotations:create', data),
+    cancel: (id: number) => ipcRenderer.invoke('quotations:cancel', id),
+  },
+
+  // Parked cart APIs
+  carts: {
+    getParked: () => ipcRenderer.invoke('carts:getParked'),
+    park: (data: any) => ipcRenderer.invoke('carts:park', data),
+    resume: (id: number) => ipcRenderer.invoke('carts:resume', id),
+    delete: (id: number) => ipcRenderer.invoke('carts:delete', id),
+  },
+
   // Invoice APIs
   invoices: {
     create: (invoiceData: any) => ipcRenderer.invoke('invoices:create', invoiceData),
     getAll: () => ipcRenderer.invoke('invoices:getAll'),
     getById: (id: number) => ipcRenderer.invoke('invoices:getById', id),
+    void: (id: number, reason: string, adminPassword: string) =>
+      ipcRenderer.invoke('invoices:void', id, reason, adminPassword),
     getByDateRange: (startDate: string, endDate: string) =>
       ipcRenderer.invoke('invoices:getByDateRange', startDate, endDate),
   },
 
+  // Product unit (DOT) APIs
+  units: {
+    getByProduct: (productId: number, locationId?: number | null) => ipcRenderer.invoke('units:getByProduct', productId, locationId),
+    register: (productId: number, units: any[], locationId?: number | null) => ipcRenderer.invoke('units:register', productId, units, locationId),
+    delete: (id: number) => ipcRenderer.invoke('units:delete', id),
+  },
+
+  // Warranty APIs
+  warranties: {
+    search: (search: string) => ipcRenderer.invoke('warranties:search', search),
+    getClaims: () => ipcRenderer.invoke('warranties:getClaims'),
+    getClaimById: (id: number) => ipcRenderer.invoke('warranties:getClaimById', id),
+    createClaim: (claimData: any) => ipcRenderer.invoke('warranties:createClaim', claimData),
+    updateClaimStatus: (id: number, statusData: any) => ipcRenderer.invoke('warranties:updateClaimStatus', id, statusData),
+    issueReplacement: (id: number, replacementData: any) =>
+      ipcRenderer.invoke('warranties:issueReplacement', id, replacementData),
+  },
+
+  // Return APIs
+  returns: {
+    create: (invoiceId: number, returnData: any) => ipcRenderer.invoke('returns:create', invoiceId, returnData),
+    getByInvoice: (invoiceId: number) => ipcRenderer.invoke('returns:getByInvoice', invoiceId),
+  },
+
+  // Credit account APIs
+  credit: {
+    getOpenInvoices: (customerId: number) => ipcRenderer.invoke('credit:getOpenInvoices', customerId),
+    recordSettlement: (customerId: number, settlement: any) =>
+      ipcRenderer.invoke('credit:recordSettlement', customerId, settlement),
+    getStatement: (customerId: number, startDate?: string, endDate?: string) =>
+      ipcRenderer.invoke('credit:getStatement', customerId, startDate, endDate),
+  },
+
   // Reports APIs
   reports: {
     dailySales: (date: string) => ipcRenderer.invoke('reports:dailySales', date),
     dateRangeSales: (startDate: string, endDate: string) => ipcRenderer.invoke('reports:dateRangeSales', startDate, endDate),
     productPerformance: () => ipcRenderer.invoke('reports:productPerformance'),
     customerReport: () => ipcRenderer.invoke('reports:customerReport'),
+    receivables: () => ipcRenderer.invoke('reports:receivables'),
+    taxSummary: (startDate: string, endDate: string, groupBy: 'day' | 'month') =>
+      ipcRenderer.invoke('reports:taxSummary', startDate, endDate, groupBy),
+    agedStock: (years: number) => ipcRenderer.invoke('reports:agedStock', years),
+    inventoryValuation: (asOfDate: string) => ipcRenderer.invoke('reports:inventoryValuation', asOfDate),
+    grossMargins: (startDate: string, endDate: string, groupBy: 'invoice' | 'product' | 'brand' | 'product_type') =>
+      ipcRenderer.invoke('reports:grossMargins', startDate, endDate, groupBy),
+  },
+
+  // Discount APIs
+  discounts: {
+    getSettings: () => ipcRenderer.invoke('discounts:getSettings'),
+    updateSettings: (data: any) => ipcRenderer.invoke('discounts:updateSettings', data),
+  },
+
+  // Costing APIs
+  costing: {
+    getSettings: () => ipcRenderer.invoke('costing:getSettings'),
+    updateSettings: (data: any) => ipcRenderer.invoke('costing:updateSettings', data),
+  },
+
+  // Tax APIs
+  taxes: {
+    getAll: () => ipcRenderer.invoke('taxes:getAll'),
+    create: (data: any) => ipcRenderer.invoke('taxes:create', data),
+    update: (id: number, data: any) => ipcRenderer.invoke('taxes:update', id, data),
+    delete: (id: number) => ipcRenderer.invoke('taxes:delete', id),
+  },
+
+  // Numbering APIs
+  numbering: {
+    getSettings: (documentType: string) => ipcRenderer.invoke('numbering:getSettings', documentType),
+    updateSettings: (documentType: string, data: any) => ipcRenderer.invoke('numbering:updateSettings', documentType, data),
   },
 
   // Backup APIs
@@ -90,24 +254,145 @@ declare global {
   interface Window {
     electronAPI: {
       products: {
-        getAll: () => Promise<any[]>;
+        getAll: (locationId?: number) => Promise<any[]>;
         getById: (id: number) => Promise<any>;
         create: (product: any) => Promise<any>;
         update: (id: number, product: any) => Promise<any>;
         delete: (id: number) => Promise<any>;
-        getLowStock: () => Promise<any[]>;
+        getLowStock: (locationId?: number) => Promise<any[]>;
+        getStock: (id: number) => Promise<any[]>;
+      };
+      locations: {
+        getAll: () => Promise<any[]>;
+        create: (data: any) => Promise<{ id: number }>;
+        update: (id: number, data: any) => Promise<{ success: boolean }>;
+        setDefault: (id: number) => Promise<{ success: boolean }>;
+        delete: (id: number) => Promise<{ success: boolean }>;
+      };
+      transfers: {
+        getAll: () => Promise<any[]>;
+        getById: (id: number) => Promise<any>;
+        create: (data: any) => Promise<{ id: number; transfer_number: string }>;
+      };
+      stock: {
+        adjust: (data: any) => Promise<{ movement_id: number; stock_quantity: number; location_quantity: number }>;
+        getMovements: (productId: number, locationId?: number) => Promise<any[]>;
+      };
+      stockTakes: {
+        getAll: () => Promise<any[]>;
+        getById: (id: number) => Promise<any>;
+        create: (data: any) => Promise<{ id: number; stock_take_number: string }>;
+        saveCounts: (id: number, counts: any[]) => Promise<{ success: boolean }>;
+        post: (id: number) => Promise<{ adjusted: number }>;
+        cancel: (id: number) => Promise<{ success: boolean }>;
+      };
+      reorders: {
+        getSuggestions: (days?: number) => Promise<any[]>;
+      };
+      customers: {
+        getAll: (search?: string) => Promise<any[]>;
+        searchByPhone: (phone: string) => Promise<any[]>;
+        getById: (id: number) => Promise<any>;
+        create: (customer: any) => Promise<any>;
+        update: (id: number, customer: any) => Promise<any>;
+        delete: (id: number) => Promise<{ success: boolean }>;
+      };
+      vehicles: {
+        getByCustomer: (customerId: number) => Promise<any[]>;
+        create: (vehicle: any) => Promise<any>;
+        update: (id: number, vehicle: any) => Promise<any>;
+        delete: (id: number) => Promise<{ success: boolean }>;
+      };
+      suppliers: {
+        getAll: () => Promise<any[]>;
+        create: (supplier: any) => Promise<any>;
+        update: (id: number, supplier: any) => Promise<any>;
+        delete: (id: number) => Promise<{ success: boolean }>;
+        getPriceList: (supplierId: number) => Promise<any[]>;
+        getForProduct: (productId: number) => Promise<any[]>;
+        setProductPrice: (data: any) => Promise<{ success: boolean }>;
+        removeProductPrice: (id: number) => Promise<{ success: boolean }>;
+        comparePrices: (sizeDisplay?: string) => Promise<any[]>;
+        getContacts: (supplierId: number) => Promise<any[]>;
+        addContact: (contact: any) => Promise<{ id: number }>;
+        deleteContact: (id: number) => Promise<{ success: boolean }>;
+      };
+      purchases: {
+        getAll: () => Promise<any[]>;
+        getById: (id: number) => Promise<any>;
+        create: (orderData: any) => Promise<{ id: number; po_number: string }>;
+        cancel: (id: number) => Promise<{ success: boolean }>;
+        receive: (id: number, receiptData: any) => Promise<{ id: number; grn_number: string; status: string }>;
+      };
+      quotations: {
+        getAll: () => Promise<any[]>;
+        getById: (id: number) => Promise<any>;
+        create: (data: any) => Promise<any>;
+        cancel: (id: number) => Promise<any>;
+      };
+      carts: {
+        getParked: () => Promise<any[]>;
+        park: (data: any) => Promise<any>;
+        resume: (id: number) => Promise<any>;
+        delete: (id: number) => Promise<any>;
       };
       invoices: {
         create: (invoiceData: any) => Promise<any>;
         getAll: () => Promise<any[]>;
         getById: (id: number) => Promise<any>;
+        void: (id: number, reason: string, adminPassword: string) => Promise<{ success: boolean }>;
         getByDateRange: (startDate: string, endDate: string) => Promise<any[]>;
       };
+      units: {
+        getByProduct: (productId: number, locationId?: number | null) => Promise<any[]>;
+        register: (productId: number, units: any[], locationId?: number | null) => Promise<{ registered: number }>;
+        delete: (id: number) => Promise<{ success: boolean }>;
+      };
+      warranties: {
+        search: (search: string) => Promise<any[]>;
+        getClaims: () => Promise<any[]>;
+        getClaimById: (id: number) => Promise<any>;
+        createClaim: (claimData: any) => Promise<{ id: number; claim_number: string }>;
+        updateClaimStatus: (id: number, statusData: any) => Promise<{ success: boolean }>;
+        issueReplacement: (id: number, replacementData: any) => Promise<{ invoice_id: number; invoice_number: string }>;
+      };
+      returns: {
+        create: (invoiceId: number, returnData: any) => Promise<{ id: number; credit_note_number: string; total_amount: number; account_credit: number; status: string }>;
+        getByInvoice: (invoiceId: number) => Promise<any[]>;
+      };
+      credit: {
+        getOpenInvoices: (customerId: number) => Promise<any[]>;
+        recordSettlement: (customerId: number, settlement: any) => Promise<any>;
+        getStatement: (customerId: number, startDate?: string, endDate?: string) => Promise<any>;
+      };
       reports: {
         dailySales: (date: string) => Promise<any>;
         dateRangeSales: (startDate: string, endDate: string) => Promise<any>;
         productPerformance: () => Promise<any>;
         customerReport: () => Promise<any>;
+        receivables: () => Promise<any>;
+        taxSummary: (startDate: string, endDate: string, groupBy: 'day' | 'month') => Promise<any>;
+        agedStock: (years: number) => Promise<any[]>;
+        inventoryValuation: (asOfDate: string) => Promise<any>;
+        grossMargins: (startDate: string, endDate: string, groupBy: 'invoice' | 'product' | 'brand' | 'product_type') => Promise<any>;
+      };
+      discounts: {
+        getSettings: () => Promise<any>;
+        updateSettings: (data: any) => Promise<any>;
+      };
+      costing: {
+        getSettings: () => Promise<any>;
+        updateSettings: (data: any) => Promise<any>;
+      };
+      taxes: {
+        getAll: () => Promise<any[]>;
+        create: (data: any) => Promise<any>;
+        update: (id: number, data: any) => Promise<any>;
+        delete: (id: number) => Promise<any>;
+      };
+      numbering: {
+        getSettings: (documentType: string) => Promise<any>;
+        updateSettings: (documentType: string, data: any) => Promise<any>;
       };
       backup: {
         getSettings: () => Promise<any>;
@@ -7,8 +7,15 @@ import Setup from './pages/Setup';
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import Products from './pages/Products';
+import Purchases from './pages/Purchases';
+import Suppliers from './pages/Suppliers';
 import Billing from './pages/Billing';
+import Customers from './pages/Customers';
 import Invoices from './pages/Invoices';
+import Quotations from './pages/Quotations';
+import Warranties from './pages/Warranties';
+import StockTakes from './pages/StockTakes';
+import Reorders from './pages/Reorders';
 import Reports from './pages/Reports';
 import Integration from './pages/Integration';
 
@@ -94,8 +101,15 @@ function App() {
                       <Route path="/" element={<Navigate to="/dashboard" replace />} />
                       <Route path="/dashboard" element={<Dashboard />} />
                       <Route path="/products" element={<Products />} />
+                      <Route path="/purchases" element={<Purchases />} />
+                      <Route path="/stock-takes" element={<StockTakes />} />
+                      <Route path="/reorders" element={<Reorders />} />
+                      <Route path="/suppliers" element={<Suppliers />} />
                       <Route path="/billing" element={<Billing />} />
+                      <Route path="/customers" element={<Customers />} />
                       <Route path="/invoices" element={<Invoices />} />
+                      <Route path="/quotations" element={<Quotations />} />
+                      <Route path="/warranties" element={<Warranties />} />
                       <Route path="/reports" element={<Reports />} />
                       <Route path="/integration" element={<Integration />} />
                     </Routes>
@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react';
 interface Brand {
   id: number;
   name: string;
+  warranty_months?: number | null;
 }
 
 interface TireSize {
@@ -109,6 +110,17 @@ const BrandSizeManager = ({ onClose }: BrandSizeManagerProps) => {
     }
   };
 
+  const handleBrandWarranty = async (brand: Brand, value: string) => {
+    const months = value.trim() === '' ? null : parseInt(value);
+    if (months === (brand.warranty_months ?? null)) return;
+    try {
+      await window.electronAPI.brands.setWarranty(brand.id, months);
+      loadAll();
+    } catch (error: any) {
+      alert(error.message || 'Failed to save warranty');
+    }
+  };
+
   const handleAddTireSize = async () => {
     if (!newTireSize.width || !newTireSize.aspect_ratio || !newTireSize.diameter) {
       alert('Please fill in width, aspect ratio, and diameter');
@@ -256,6 +268,15 @@ const BrandSizeManager = ({ onClose }: BrandSizeManagerProps) => {
                       className="flex items-center justify-between p-2 bg-gray-50 rounded border"
                     >
                       <span className="text-sm">{brand.name}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        defaultValue={brand.warranty_months ?? ''}
+                        onBlur={(e) => handleBrandWarranty(brand, e.target.value)}
+                        placeholder="Warranty"
+                        title="Warranty in months for this brand's products"
+                        className="w-20 ml-auto mr-1 px-1 py-0.5 border border-gray-300 rounded text-xs"
+                      />
                       <button
                         onClick={() => handleDeleteBrand(brand.id)}
                         className="text-red-600 hover:text-red-800 text-sm"
@@ -265,6 +286,9 @@ const BrandSizeManager = ({ onClose }: BrandSizeManagerProps) => {
                     </div>
                   ))}
                 </div>
+                <p className="text-xs text-gray-500">
+                  Warranty (months) covers products whose name starts with the brand, unless the product sets its own.
+                </p>
               </div>
             )}
 
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { CostingMethod, CostingSettings as CostingSettingsData } from '../types';
+import { ToastType } from './Toast';
+
+interface CostingSettingsProps {
+  showToast: (message: string, type?: ToastType) => void;
+}
+
+const METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: 'FIFO (first in, first out)',
+  average: 'Weighted average',
+};
+
+const CostingSettings = ({ showToast }: CostingSettingsProps) => {
+  const [settings, setSettings] = useState<CostingSettingsData | null>(null);
+  const [method, setMethod] = useState<CostingMethod>('fifo');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const applySettings = (data: CostingSettingsData) => {
+    setSettings(data);
+    setMethod(data.method);
+  };
+
+  const loadSettings = async () => {
+    try {
+      const data: CostingSettingsData = await window.electronAPI.costing.getSettings();
+      applySettings(data);
+    } catch (error) {
+      console.error('Error loading costing settings:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const data: CostingSettingsData = await window.electronAPI.costing.updateSettings({ method });
+      applySettings(data);
+      showToast(`Stock is now costed by ${METHOD_LABELS[data.method]}`, 'success');
+    } catch (error: any) {
+      console.error('Error saving costing settings:', error);
+      showToast(error?.message || 'Failed to save costing settings', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isDirty = settings !== null && method !== settings.method;
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-teal-50 to-white rounded-lg border border-teal-200">
+      <div className="flex items-center space-x-2 mb-3">
+        <svg className="w-5 h-5 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+        </svg>
+        <h3 className="font-bold text-gray-900 text-sm">Inventory Costing</h3>
+      </div>
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-xs text-gray-600 mb-1">Cost of goods sold by</label>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as CostingMethod)}
+            className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          >
+            {(Object.keys(METHOD_LABELS) as CostingMethod[]).map((option) => (
+              <option key={option} value={option}>{METHOD_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || saving}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors text-xs font-medium"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Applies to stock sold or written off from now on; costs already recorded are kept.</p>
+    </div>
+  );
+};
+
+export default CostingSettings;
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { DiscountSettings as DiscountSettingsData } from '../types';
+import { ToastType } from './Toast';
+
+interface DiscountSettingsProps {
+  showToast: (message: string, type?: ToastType) => void;
+}
+
+const DiscountSettings = ({ showToast }: DiscountSettingsProps) => {
+  const [settings, setSettings] = useState<DiscountSettingsData | null>(null);
+  const [limit, setLimit] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const applySettings = (data: DiscountSettingsData) => {
+    setSettings(data);
+    setLimit(data.approval_limit_percent.toString());
+  };
+
+  const loadSettings = async () => {
+    try {
+      const data = await window.electronAPI.discounts.getSettings();
+      applySettings(data);
+    } catch (error) {
+      console.error('Error loading discount settings:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const data = await window.electronAPI.discounts.updateSettings({ approval_limit_percent: parseFloat(limit) });
+      applySettings(data);
+      showToast(`Discounts over ${data.approval_limit_percent}% now need the admin password`, 'success');
+    } catch (error: any) {
+      console.error('Error saving discount settings:', error);
+      showToast(error?.message || 'Failed to save discount settings', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isDirty = settings !== null && limit !== settings.approval_limit_percent.toString();
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-orange-50 to-white rounded-lg border border-orange-200">
+      <div className="flex items-center space-x-2 mb-3">
+        <svg className="w-5 h-5 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+        </svg>
+        <h3 className="font-bold text-gray-900 text-sm">Discount Approval</h3>
+      </div>
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-xs text-gray-600 mb-1">Admin password needed above (%)</label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.5"
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+          />
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || saving}
+          className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors text-xs font-medium"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Applies to each line discount and to the bill discount on its own.</p>
+    </div>
+  );
+};
+
+export default DiscountSettings;
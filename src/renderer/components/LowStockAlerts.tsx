@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
+import { StockLocation } from '../types';
 
 interface LowStockProduct {
   id: number;
@@ -7,22 +8,32 @@ interface LowStockProduct {
   stock_quantity: number;
   low_stock_threshold: number;
   price: number;
+  location_quantity?: number; // when filtered to one location
+  location_name?: string;
 }
 
 const LowStockAlerts = () => {
   const [lowStockProducts, setLowStockProducts] = useState<LowStockProduct[]>([]);
   const [loading, setLoading] = useState(true);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [locationId, setLocationId] = useState<number | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.locations.getAll()
+      .then((data: StockLocation[]) => setLocations(data.filter((l) => l.is_active)))
+      .catch((error: any) => console.error('Error loading locations:', error));
+  }, []);
 
   useEffect(() => {
     loadLowStockProducts();
     // Refresh every 30 seconds
     const interval = setInterval(loadLowStockProducts, 30000);
     return () => clearInterval(interval);
-  }, []);
+  }, [locationId]);
 
   const loadLowStockProducts = async () => {
     try {
-      const products = await window.electronAPI.products.getLowStock();
+      const products = await window.electronAPI.products.getLowStock(locationId ?? undefined);
       setLowStockProducts(products);
     } catch (error) {
       console.error('Error loading low stock products:', error);
@@ -31,6 +42,19 @@ const LowStockAlerts = () => {
     }
   };
 
+  const locationSelect = locations.length > 1 && (
+    <select
+      value={locationId ?? ''}
+      onChange={(e) => setLocationId(e.target.value ? parseInt(e.target.value) : null)}
+      className="ml-auto mr-3 px-2 py-1 border border-gray-300 rounded text-sm"
+    >
+      <option value="">All locations</option>
+      {locations.map((l) => (
+        <option key={l.id} value={l.id}>{l.name}</option>
+      ))}
+    </select>
+  );
+
   if (loading) {
     return (
       <div className="bg-white rounded-lg shadow p-6">
@@ -44,6 +68,7 @@ const LowStockAlerts = () => {
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold text-gray-900">Low Stock Alerts</h3>
+          {locationSelect}
           <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-medium">
             All Good
           </span>
@@ -57,6 +82,7 @@ const LowStockAlerts = () => {
     <div className="bg-white rounded-lg shadow p-6">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-semibold text-gray-900">Low Stock Alerts</h3>
+        {locationSelect}
         <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm font-medium">
           {lowStockProducts.length} {lowStockProducts.length === 1 ? 'Item' : 'Items'}
         </span>
@@ -64,8 +90,9 @@ const LowStockAlerts = () => {
 
       <div className="space-y-3">
         {lowStockProducts.slice(0, 5).map((product) => {
-          const stockPercentage = (product.stock_quantity / product.low_stock_threshold) * 100;
-          const isCritical = product.stock_quantity === 0;
+          const quantity = product.location_quantity ?? product.stock_quantity;
+          const stockPercentage = (quantity / product.low_stock_threshold) * 100;
+          const isCritical = quantity <= 0;
 
           return (
             <div
@@ -88,7 +115,8 @@ const LowStockAlerts = () => {
                   </div>
                   <div className="mt-1 flex items-center space-x-4 text-sm text-gray-600">
                     <span>
-                      Stock: <span className="font-semibold">{product.stock_quantity}</span>
+                      Stock: <span className="font-semibold">{quantity}</span>
+                      {product.location_name && ` at ${product.location_name}`}
                     </span>
                     <span>
                       Threshold: <span className="font-semibold">{product.low_stock_threshold}</span>
@@ -116,24 +144,30 @@ const LowStockAlerts = () => {
       </div>
 
       {lowStockProducts.length > 5 && (
-        <div className="mt-4 text-center">
+        <div className="mt-4 flex justify-center gap-6">
           <Link
             to="/products"
             className="text-primary-600 hover:text-primary-800 text-sm font-medium"
           >
             View all {lowStockProducts.length} low stock items →
           </Link>
+          <Link to="/reorders" className="text-primary-600 hover:text-primary-800 text-sm font-medium">
+            Suggested reorders →
+          </Link>
         </div>
       )}
 
       {lowStockProducts.length <= 5 && (
-        <div className="mt-4 text-center">
+        <div className="mt-4 flex justify-center gap-6">
           <Link
             to="/products"
             className="text-primary-600 hover:text-primary-800 text-sm font-medium"
           >
             Manage Products →
           </Link>
+          <Link to="/reorders" className="text-primary-600 hover:text-primary-800 text-sm font-medium">
+            Suggested reorders →
+          </Link>
         </div>
       )}
     </div>
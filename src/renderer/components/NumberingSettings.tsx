@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { NumberingSettings as NumberingSettingsData, ResetPeriod } from '../types';
+import { ToastType } from './Toast';
+
+interface NumberingSettingsProps {
+  documentType: string;
+  title: string;
+  showToast: (message: string, type?: ToastType) => void;
+}
+
+const NumberingSettings = ({ documentType, title, showToast }: NumberingSettingsProps) => {
+  const [settings, setSettings] = useState<NumberingSettingsData | null>(null);
+  const [prefix, setPrefix] = useState('');
+  const [resetPeriod, setResetPeriod] = useState<ResetPeriod>('yearly');
+  const [padding, setPadding] = useState('5');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, [documentType]);
+
+  const applySettings = (data: NumberingSettingsData) => {
+    setSettings(data);
+    setPrefix(data.prefix);
+    setResetPeriod(data.reset_period);
+    setPadding(data.padding.toString());
+  };
+
+  const loadSettings = async () => {
+    try {
+      const data = await window.electronAPI.numbering.getSettings(documentType);
+      applySettings(data);
+    } catch (error) {
+      console.error('Error loading numbering settings:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const data = await window.electronAPI.numbering.updateSettings(documentType, {
+        prefix,
+        reset_period: resetPeriod,
+        padding: parseInt(padding),
+      });
+      applySettings(data);
+      showToast(`${title} saved. Next number: ${data.next_number}`, 'success');
+    } catch (error: any) {
+      console.error('Error saving numbering settings:', error);
+      showToast(error?.message || 'Failed to save numbering settings', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Local preview of the format being edited; the counter itself only moves when a document is saved
+  const now = new Date();
+  const periodKey = resetPeriod === 'yearly'
+    ? `${now.getFullYear()}`
+    : resetPeriod === 'monthly'
+      ? `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+      : '';
+  const sampleCounter = '1'.padStart(Math.min(Math.max(parseInt(padding) || 1, 1), 10), '0');
+  const sample = periodKey ? `${prefix.trim()}${periodKey}-${sampleCounter}` : `${prefix.trim()}${sampleCounter}`;
+
+  const isDirty = settings !== null && (
+    prefix !== settings.prefix ||
+    resetPeriod !== settings.reset_period ||
+    padding !== settings.padding.toString()
+  );
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-indigo-50 to-white rounded-lg border border-indigo-200">
+      <div className="flex items-center space-x-2 mb-3">
+        <svg className="w-5 h-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14" />
+        </svg>
+        <h3 className="font-bold text-gray-900 text-sm">{title}</h3>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Prefix</label>
+          <input
+            type="text"
+            value={prefix}
+            maxLength={10}
+            onChange={(e) => setPrefix(e.target.value)}
+            className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Reset</label>
+          <select
+            value={resetPeriod}
+            onChange={(e) => setResetPeriod(e.target.value as ResetPeriod)}
+            className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="never">Never</option>
+            <option value="yearly">Yearly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Digits</label>
+          <input
+            type="number"
+            min="1"
+            max="10"
+            value={padding}
+            onChange={(e) => setPadding(e.target.value)}
+            className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+      </div>
+      <div className="mt-3 flex items-center justify-between">
+        <div className="text-xs text-gray-600">
+          {isDirty ? (
+            <>Format: <span className="font-mono font-semibold text-gray-900">{sample}</span></>
+          ) : (
+            <>Next number: <span className="font-mono font-semibold text-gray-900">{settings?.next_number || '-'}</span></>
+          )}
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || saving}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors text-xs font-medium"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Existing documents keep their numbers. Numbers are only used up when a document is saved.</p>
+    </div>
+  );
+};
+
+export default NumberingSettings;
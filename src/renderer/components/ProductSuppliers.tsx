@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { Product, ProductSupplier, Supplier } from '../types';
+
+interface ProductSuppliersProps {
+  product: Product;
+  onClose: () => void;
+}
+
+const ProductSuppliers = ({ product, onClose }: ProductSuppliersProps) => {
+  const [entries, setEntries] = useState<ProductSupplier[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [costPrice, setCostPrice] = useState((product.cost_price || 0).toString());
+  const [isPreferred, setIsPreferred] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, [product.id]);
+
+  const loadData = async () => {
+    try {
+      const [entriesData, suppliersData] = await Promise.all([
+        window.electronAPI.suppliers.getForProduct(product.id),
+        window.electronAPI.suppliers.getAll(),
+      ]);
+      setEntries(entriesData);
+      setSuppliers(suppliersData);
+    } catch (error) {
+      console.error('Error loading product suppliers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const save = async (targetSupplierId: number, cost: number, preferred: boolean) => {
+    try {
+      await window.electronAPI.suppliers.setProductPrice({
+        product_id: product.id,
+        supplier_id: targetSupplierId,
+        cost_price: cost,
+        is_preferred: preferred,
+      });
+      loadData();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to save supplier price');
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!supplierId) {
+      alert('Please select a supplier');
+      return;
+    }
+    const cost = parseFloat(costPrice);
+    if (isNaN(cost) || cost < 0) {
+      alert('Please enter a valid cost price');
+      return;
+    }
+    await save(parseInt(supplierId), cost, isPreferred || entries.length === 0);
+    setSupplierId('');
+    setIsPreferred(false);
+  };
+
+  const handleRemove = async (entry: ProductSupplier) => {
+    if (!confirm(`Remove ${entry.supplier_name} as a supplier of this product?`)) return;
+    try {
+      await window.electronAPI.suppliers.removeProductPrice(entry.id);
+      loadData();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to remove supplier');
+    }
+  };
+
+  const linkedIds = new Set(entries.map((entry) => entry.supplier_id));
+  const availableSuppliers = suppliers.filter((s) => !linkedIds.has(s.id));
+  const cheapest = entries.length > 0 ? Math.min(...entries.map((entry) => entry.cost_price)) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl">
+        <h2 className="text-xl font-bold mb-1">Suppliers</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {product.name}
+          {product.size_display && <span className="text-blue-600 ml-2">{product.size_display}</span>}
+        </p>
+
+        {loading ? (
+          <p className="text-gray-500 text-center py-6">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center py-6">No suppliers linked to this product yet</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden mb-4">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost Price</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Role</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {entry.supplier_name}
+                      {entry.supplier_phone && <span className="text-xs text-gray-500 ml-2">{entry.supplier_phone}</span>}
+                    </td>
+                    <td className={`px-4 py-2 text-sm font-semibold text-right ${entry.cost_price === cheapest ? 'text-green-600' : 'text-gray-900'}`}>
+                      Rs. {entry.cost_price.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      {entry.is_preferred === 1 ? (
+                        <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          Preferred
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => save(entry.supplier_id, entry.cost_price, true)}
+                          className="px-2 py-1 text-xs text-gray-600 hover:text-green-700 hover:bg-green-50 rounded"
+                          title="Make preferred"
+                        >
+                          Alternate
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleRemove(entry)}
+                        className="text-red-600 hover:text-red-800 text-xs"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {availableSuppliers.length > 0 && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex flex-col md:flex-row gap-2 md:items-center">
+            <select
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+            >
+              <option value="">Select Supplier</option>
+              {availableSuppliers.map((supplier) => (
+                <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={costPrice}
+              onChange={(e) => setCostPrice(e.target.value)}
+              className="md:w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input type="checkbox" checked={isPreferred} onChange={(e) => setIsPreferred(e.target.checked)} />
+              Preferred
+            </label>
+            <button
+              onClick={handleAdd}
+              className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+            >
+              Add
+            </button>
+          </div>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductSuppliers;
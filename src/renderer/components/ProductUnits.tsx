@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { Product, ProductLocationStock, ProductUnit } from '../types';
+import { formatTireAge, parseUnitLines } from '../utils/dot';
+
+interface ProductUnitsProps {
+  product: Product;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const ProductUnits = ({ product, onClose, onChange }: ProductUnitsProps) => {
+  const [units, setUnits] = useState<ProductUnit[]>([]);
+  const [locationStock, setLocationStock] = useState<ProductLocationStock[]>([]);
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [entry, setEntry] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadUnits();
+    window.electronAPI.products.getStock(product.id)
+      .then((data: ProductLocationStock[]) => {
+        setLocationStock(data);
+        setLocationId(data.find((l) => l.is_default)?.location_id ?? data[0]?.location_id ?? null);
+      })
+      .catch((error: any) => console.error('Error loading stock by location:', error));
+  }, [product.id]);
+
+  const loadUnits = async () => {
+    try {
+      setUnits(await window.electronAPI.units.getByProduct(product.id));
+    } catch (error) {
+      console.error('Error loading DOT units:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegister = async () => {
+    const entries = parseUnitLines(entry);
+    if (entries.length === 0) {
+      alert('Enter a DOT code for each tire, one per line');
+      return;
+    }
+    setSaving(true);
+    try {
+      await window.electronAPI.units.register(product.id, entries, locationId);
+      setEntry('');
+      loadUnits();
+      onChange();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to register DOT codes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (unit: ProductUnit) => {
+    if (!confirm(`Remove the tire with DOT ${unit.dot_code}${unit.serial_number ? ` (${unit.serial_number})` : ''}?`)) return;
+    try {
+      await window.electronAPI.units.delete(unit.id);
+      loadUnits();
+      onChange();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to remove DOT unit');
+    }
+  };
+
+  // Units are registered against the stock at one location; the total is used until locations have loaded
+  const locationQuantity = locationStock.find((l) => l.location_id === locationId)?.quantity ?? product.stock_quantity;
+  const locationUnits = locationStock.length > 0 ? units.filter((unit) => unit.location_id === locationId).length : units.length;
+  const unregistered = Math.max(locationQuantity - locationUnits, 0);
+  const showLocations = locationStock.length > 1;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-1">DOT Codes</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {product.name}
+          {product.size_display && <span className="text-blue-600 ml-2">{product.size_display}</span>}
+          <span className="ml-2 text-gray-500">
+            {units.length} of {product.stock_quantity} in stock registered
+          </span>
+        </p>
+
+        {loading ? (
+          <p className="text-gray-500 text-center py-6">Loading...</p>
+        ) : units.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center py-6">No tires of this product have a DOT code yet</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden mb-4">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">DOT</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Serial</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Made</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Received</th>
+                  {showLocations && (
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+                  )}
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {units.map((unit) => (
+                  <tr key={unit.id}>
+                    <td className="px-4 py-2 text-sm font-mono font-semibold text-gray-900">{unit.dot_code}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{unit.serial_number || '-'}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">
+                      Week {unit.dot_week}, {unit.dot_year}
+                      <span className="text-xs text-gray-500 ml-2">{formatTireAge(unit.manufactured_on)} old</span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{unit.received_at.split(' ')[0]}</td>
+                    {showLocations && <td className="px-4 py-2 text-sm text-gray-600">{unit.location_name || '-'}</td>}
+                    <td className="px-4 py-2 text-right">
+                      <button onClick={() => handleRemove(unit)} className="text-red-600 hover:text-red-800 text-xs">
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {showLocations && (
+          <div className="mb-3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Register at</label>
+            <select
+              value={locationId ?? ''}
+              onChange={(e) => setLocationId(parseInt(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {locationStock.map((l) => (
+                <option key={l.location_id} value={l.location_id}>
+                  {l.location_name} ({l.quantity})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {unregistered > 0 && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 space-y-2">
+            <p className="text-sm text-gray-700">
+              {unregistered} in stock without a DOT code. Enter one tire per line: <span className="font-mono">2324</span>,{' '}
+              <span className="font-mono">2324 SERIAL</span> or <span className="font-mono">2324 x4</span>.
+            </p>
+            <textarea
+              value={entry}
+              onChange={(e) => setEntry(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleRegister}
+                disabled={saving}
+                className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : 'Register'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductUnits;
@@ -1,4 +1,12 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { ProductLocationStock, ProductUnit, StockAdjustmentReason } from '../types';
+
+const REASONS: { value: StockAdjustmentReason; label: string }[] = [
+  { value: 'count_correction', label: 'Count Correction' },
+  { value: 'damage', label: 'Damage' },
+  { value: 'theft', label: 'Theft / Loss' },
+  { value: 'sample', label: 'Sample / Display' },
+];
 
 interface Product {
   id: number;
@@ -15,62 +23,99 @@ interface StockAdjustmentProps {
 const StockAdjustment = ({ product, onClose, onSuccess }: StockAdjustmentProps) => {
   const [adjustmentType, setAdjustmentType] = useState<'add' | 'subtract' | 'set'>('add');
   const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState<StockAdjustmentReason>('count_correction');
   const [notes, setNotes] = useState('');
+  const [locationStock, setLocationStock] = useState<ProductLocationStock[]>([]);
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [units, setUnits] = useState<ProductUnit[]>([]);
+  const [pickedUnitIds, setPickedUnitIds] = useState<number[]>([]);
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    window.electronAPI.products.getStock(product.id)
+      .then((data: ProductLocationStock[]) => {
+        setLocationStock(data);
+        setLocationId(data.find((l) => l.is_default)?.location_id ?? data[0]?.location_id ?? null);
+      })
+      .catch((error: any) => console.error('Error loading stock by location:', error));
+  }, [product.id]);
+
+  // DOT units at the location, for picking the tires that are gone
+  useEffect(() => {
+    setPickedUnitIds([]);
+    if (!locationId) return;
+    window.electronAPI.units.getByProduct(product.id, locationId)
+      .then((data: ProductUnit[]) => setUnits(data))
+      .catch((error: any) => console.error('Error loading DOT units:', error));
+  }, [product.id, locationId]);
+
+  // Adjustments apply at one location; the total is shown until locations have loaded
+  const currentStock = locationStock.find((l) => l.location_id === locationId)?.quantity ?? product.stock_quantity;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!quantity || parseFloat(quantity) <= 0) {
+    const qty = parseInt(quantity);
+    if (isNaN(qty) || qty < 0 || (qty === 0 && adjustmentType !== 'set')) {
       alert('Please enter a valid quantity');
       return;
     }
+    if (adjustmentType === 'subtract' && qty > currentStock) {
+      alert(`Only ${currentStock} in stock`);
+      return;
+    }
+    const unitsToPick = units.length - Math.max(getNewStockPreview(), 0);
+    if (pickedUnitIds.length < unitsToPick) {
+      alert(`Pick the ${unitsToPick} DOT-coded tire${unitsToPick === 1 ? '' : 's'} that are gone`);
+      return;
+    }
 
     setLoading(true);
     try {
-      const currentStock = product.stock_quantity;
-      let newStock = currentStock;
-
-      if (adjustmentType === 'add') {
-        newStock = currentStock + parseFloat(quantity);
-      } else if (adjustmentType === 'subtract') {
-        newStock = Math.max(0, currentStock - parseFloat(quantity));
-      } else {
-        newStock = parseFloat(quantity);
-      }
-
-      await window.electronAPI.products.update(product.id, {
-        ...product,
-        stock_quantity: newStock,
+      await window.electronAPI.stock.adjust({
+        product_id: product.id,
+        location_id: locationId,
+        mode: adjustmentType,
+        quantity: qty,
+        reason,
+        notes: notes.trim() || null,
+        unit_ids: removed > 0 ? pickedUnitIds : [],
       });
 
-      // Create stock movement record (if IPC handler exists)
-      // This would be handled in the backend, but for now we'll just update stock
-
       alert('Stock adjusted successfully!');
       onSuccess();
       onClose();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error adjusting stock:', error);
-      alert('Failed to adjust stock');
+      alert(error.message || 'Failed to adjust stock');
     } finally {
       setLoading(false);
     }
   };
 
   const getNewStockPreview = () => {
-    if (!quantity || parseFloat(quantity) <= 0) return product.stock_quantity;
+    if (!quantity || parseInt(quantity) < 0) return currentStock;
     
-    const qty = parseFloat(quantity);
+    const qty = parseInt(quantity);
     if (adjustmentType === 'add') {
-      return product.stock_quantity + qty;
+      return currentStock + qty;
     } else if (adjustmentType === 'subtract') {
-      return Math.max(0, product.stock_quantity - qty);
+      return currentStock - qty;
     } else {
       return qty;
     }
   };
 
+  const removed = currentStock - getNewStockPreview();
+
+  const toggleUnit = (unitId: number) => {
+    if (pickedUnitIds.includes(unitId)) {
+      setPickedUnitIds(pickedUnitIds.filter((id) => id !== unitId));
+    } else if (pickedUnitIds.length < removed) {
+      setPickedUnitIds([...pickedUnitIds, unitId]);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg p-6 w-full max-w-md">
@@ -80,11 +125,30 @@ const StockAdjustment = ({ product, onClose, onSuccess }: StockAdjustmentProps)
           <p className="text-sm text-gray-600">Product:</p>
           <p className="font-medium">{product.name}</p>
           <p className="text-sm text-gray-500 mt-1">
-            Current Stock: <span className="font-semibold">{product.stock_quantity}</span>
+            Current Stock: <span className="font-semibold">{currentStock}</span>
           </p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {locationStock.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Location
+              </label>
+              <select
+                value={locationId ?? ''}
+                onChange={(e) => setLocationId(parseInt(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {locationStock.map((l) => (
+                  <option key={l.location_id} value={l.location_id}>
+                    {l.location_name} ({l.quantity})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Adjustment Type
@@ -142,7 +206,22 @@ const StockAdjustment = ({ product, onClose, onSuccess }: StockAdjustmentProps)
             />
           </div>
 
-          {quantity && parseFloat(quantity) > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as StockAdjustmentReason)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {REASONS.map((r) => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {quantity !== '' && parseInt(quantity) >= 0 && (
             <div className="bg-blue-50 p-3 rounded-lg">
               <p className="text-sm text-gray-600">
                 New Stock: <span className="font-semibold text-blue-900">{getNewStockPreview()}</span>
@@ -150,6 +229,28 @@ const StockAdjustment = ({ product, onClose, onSuccess }: StockAdjustmentProps)
             </div>
           )}
 
+          {removed > 0 && units.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                DOT-coded tires taken out ({pickedUnitIds.length} of up to {removed})
+              </label>
+              <div className="border border-gray-200 rounded-md max-h-40 overflow-y-auto divide-y divide-gray-100">
+                {units.map((unit) => (
+                  <label key={unit.id} className="flex items-center px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={pickedUnitIds.includes(unit.id)}
+                      onChange={() => toggleUnit(unit.id)}
+                      className="mr-2"
+                    />
+                    <span className="font-mono font-semibold">{unit.dot_code}</span>
+                    {unit.serial_number && <span className="text-gray-500 ml-2">{unit.serial_number}</span>}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Notes (Optional)
@@ -159,7 +260,7 @@ const StockAdjustment = ({ product, onClose, onSuccess }: StockAdjustmentProps)
               onChange={(e) => setNotes(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md"
               rows={3}
-              placeholder="Reason for adjustment..."
+              placeholder="What happened..."
             />
           </div>
 
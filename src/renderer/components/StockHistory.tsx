@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { ProductLocationStock, StockMovement } from '../types';
+
+const MOVEMENT_LABELS: Record<StockMovement['movement_type'], string> = {
+  sale: 'Sale',
+  purchase: 'Received',
+  adjustment: 'Adjustment',
+  return: 'Return',
+  void: 'Void',
+  warranty: 'Warranty',
+  transfer_out: 'Transfer Out',
+  transfer_in: 'Transfer In',
+};
+
+const REASON_LABELS: Record<string, string> = {
+  damage: 'Damage',
+  theft: 'Theft / Loss',
+  count_correction: 'Count Correction',
+  sample: 'Sample / Display',
+  opening: 'Opening Stock',
+  backorder: 'Backorder',
+};
+
+const formatDateTime = (dateStr: string) => {
+  const [datePart, timePart = ''] = dateStr.split(' ');
+  const [year, month, day] = datePart.split('-');
+  const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+  return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} ${timePart.slice(0, 5)}`;
+};
+
+interface StockHistoryProps {
+  product: { id: number; name: string; stock_quantity: number };
+  onClose: () => void;
+}
+
+const StockHistory = ({ product, onClose }: StockHistoryProps) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [locationStock, setLocationStock] = useState<ProductLocationStock[]>([]);
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    window.electronAPI.products.getStock(product.id)
+      .then(setLocationStock)
+      .catch((error: any) => console.error('Error loading stock by location:', error));
+  }, [product.id]);
+
+  useEffect(() => {
+    loadMovements();
+  }, [product.id, locationId]);
+
+  const loadMovements = async () => {
+    setLoading(true);
+    try {
+      setMovements(await window.electronAPI.stock.getMovements(product.id, locationId ?? undefined));
+    } catch (error) {
+      console.error('Error loading stock movements:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div className="bg-white w-full max-w-2xl h-full flex flex-col shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 p-4 text-white flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-bold">Stock History</h2>
+            <p className="text-blue-100 text-sm">{product.name}</p>
+          </div>
+          <button onClick={onClose} className="text-white hover:text-blue-100 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 border-b flex items-center justify-between gap-4">
+          <div className="text-sm text-gray-600">
+            {locationStock.map((l) => (
+              <span key={l.location_id} className="mr-4">
+                {l.location_name}: <span className="font-semibold text-gray-900">{l.quantity}</span>
+              </span>
+            ))}
+          </div>
+          {locationStock.length > 1 && (
+            <select
+              value={locationId ?? ''}
+              onChange={(e) => setLocationId(e.target.value ? parseInt(e.target.value) : null)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">All locations</option>
+              {locationStock.map((l) => (
+                <option key={l.location_id} value={l.location_id}>{l.location_name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : movements.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No stock movements recorded</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Movement</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Change</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {movements.map((movement) => (
+                  <tr key={movement.id} className="align-top">
+                    <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">{formatDateTime(movement.created_at)}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <div className="font-medium text-gray-900">
+                        {MOVEMENT_LABELS[movement.movement_type] || movement.movement_type}
+                        {movement.reason && ` · ${REASON_LABELS[movement.reason] || movement.reason}`}
+                        {movement.reference && <span className="text-gray-500 font-normal"> {movement.reference}</span>}
+                      </div>
+                      {movement.notes && <div className="text-xs text-gray-500">{movement.notes}</div>}
+                      <div className="text-xs text-gray-400">
+                        {[!locationId && movement.location_name, movement.created_by].filter(Boolean).join(' · ')}
+                      </div>
+                    </td>
+                    <td className={`px-4 py-2 text-sm text-right font-semibold ${(movement.change || 0) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {(movement.change || 0) > 0 ? '+' : ''}{movement.change}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{movement.balance}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockHistory;
@@ -0,0 +1,480 @@
+import { Fragment, useState, useEffect } from 'react';
+import { Product, StockLocation, StockTransfer } from '../types';
+
+interface StockLocationsProps {
+  onClose: () => void;
+  onChange?: () => void;
+}
+
+interface TransferLine {
+  product_id: number;
+  product_name: string;
+  available: number;
+  quantity: string;
+}
+
+const StockLocations = ({ onClose, onChange }: StockLocationsProps) => {
+  const [activeTab, setActiveTab] = useState<'locations' | 'transfers'>('locations');
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newLocation, setNewLocation] = useState('');
+  const [expandedTransfer, setExpandedTransfer] = useState<StockTransfer | null>(null);
+
+  // New transfer form
+  const [showTransferForm, setShowTransferForm] = useState(false);
+  const [fromLocationId, setFromLocationId] = useState<number | null>(null);
+  const [toLocationId, setToLocationId] = useState<number | null>(null);
+  const [sourceProducts, setSourceProducts] = useState<Product[]>([]);
+  const [productSearch, setProductSearch] = useState('');
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  const [transferNotes, setTransferNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  useEffect(() => {
+    setLines([]);
+    if (!fromLocationId) {
+      setSourceProducts([]);
+      return;
+    }
+    window.electronAPI.products.getAll(fromLocationId)
+      .then((data: Product[]) => setSourceProducts(data.filter((p) => (p.location_quantity || 0) > 0)))
+      .catch((error: any) => console.error('Error loading products:', error));
+  }, [fromLocationId]);
+
+  const loadAll = async () => {
+    setLoading(true);
+    try {
+      const [locationsData, transfersData] = await Promise.all([
+        window.electronAPI.locations.getAll(),
+        window.electronAPI.transfers.getAll(),
+      ]);
+      setLocations(locationsData);
+      setTransfers(transfersData);
+    } catch (error) {
+      console.error('Error loading locations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddLocation = async () => {
+    if (!newLocation.trim()) {
+      alert('Please enter a location name');
+      return;
+    }
+    try {
+      await window.electronAPI.locations.create({ name: newLocation.trim() });
+      setNewLocation('');
+      loadAll();
+    } catch (error: any) {
+      alert(error.message || 'Failed to add location');
+    }
+  };
+
+  const handleRename = async (location: StockLocation) => {
+    const name = prompt('Location name', location.name);
+    if (!name || name.trim() === location.name) return;
+    try {
+      await window.electronAPI.locations.update(location.id, { name: name.trim() });
+      loadAll();
+    } catch (error: any) {
+      alert(error.message || 'Failed to rename location');
+    }
+  };
+
+  const handleToggleActive = async (location: StockLocation) => {
+    try {
+      await window.electronAPI.locations.update(location.id, { name: location.name, is_active: !location.is_active });
+      loadAll();
+    } catch (error: any) {
+      alert(error.message || 'Failed to update location');
+    }
+  };
+
+  const handleSetDefault = async (location: StockLocation) => {
+    try {
+      await window.electronAPI.locations.setDefault(location.id);
+      loadAll();
+    } catch (error: any) {
+      alert(error.message || 'Failed to set default location');
+    }
+  };
+
+  const handleDelete = async (location: StockLocation) => {
+    if (!confirm(`Delete location "${location.name}"?`)) return;
+    try {
+      await window.electronAPI.locations.delete(location.id);
+      loadAll();
+    } catch (error: any) {
+      alert(error.message || 'Failed to delete location');
+    }
+  };
+
+  const handleExpandTransfer = async (transfer: StockTransfer) => {
+    if (expandedTransfer?.id === transfer.id) {
+      setExpandedTransfer(null);
+      return;
+    }
+    try {
+      setExpandedTransfer(await window.electronAPI.transfers.getById(transfer.id));
+    } catch (error) {
+      console.error('Error loading transfer:', error);
+    }
+  };
+
+  const addLine = (product: Product) => {
+    if (lines.some((l) => l.product_id === product.id)) return;
+    setLines([...lines, {
+      product_id: product.id,
+      product_name: product.name,
+      available: product.location_quantity || 0,
+      quantity: '1',
+    }]);
+    setProductSearch('');
+  };
+
+  const resetTransferForm = () => {
+    setShowTransferForm(false);
+    setFromLocationId(null);
+    setToLocationId(null);
+    setLines([]);
+    setTransferNotes('');
+  };
+
+  const handleCreateTransfer = async () => {
+    if (!fromLocationId || !toLocationId) {
+      alert('Choose where the stock moves from and to');
+      return;
+    }
+    if (lines.length === 0) {
+      alert('Add at least one product');
+      return;
+    }
+    for (const line of lines) {
+      const quantity = parseInt(line.quantity);
+      if (!quantity || quantity <= 0) {
+        alert(`Enter a quantity for ${line.product_name}`);
+        return;
+      }
+      if (quantity > line.available) {
+        alert(`Only ${line.available} of ${line.product_name} at the source location`);
+        return;
+      }
+    }
+    setSaving(true);
+    try {
+      const result = await window.electronAPI.transfers.create({
+        from_location_id: fromLocationId,
+        to_location_id: toLocationId,
+        notes: transferNotes.trim() || null,
+        items: lines.map((l) => ({ product_id: l.product_id, quantity: parseInt(l.quantity) })),
+      });
+      alert(`Transfer ${result.transfer_number} recorded`);
+      resetTransferForm();
+      loadAll();
+      onChange?.();
+    } catch (error: any) {
+      alert(error.message || 'Failed to record transfer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activeLocations = locations.filter((l) => l.is_active);
+  const searchMatches = productSearch.trim()
+    ? sourceProducts
+        .filter((p) => `${p.name} ${p.sku || ''}`.toLowerCase().includes(productSearch.toLowerCase()))
+        .slice(0, 8)
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto relative" onClick={(e) => e.stopPropagation()} style={{ pointerEvents: 'auto' }}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Stock Locations</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex space-x-2 mb-6 border-b">
+          <button
+            onClick={() => setActiveTab('locations')}
+            className={`px-4 py-2 font-medium ${
+              activeTab === 'locations'
+                ? 'border-b-2 border-primary-600 text-primary-600'
+                : 'text-gray-500'
+            }`}
+          >
+            Locations
+          </button>
+          <button
+            onClick={() => setActiveTab('transfers')}
+            className={`px-4 py-2 font-medium ${
+              activeTab === 'transfers'
+                ? 'border-b-2 border-primary-600 text-primary-600'
+                : 'text-gray-500'
+            }`}
+          >
+            Transfers
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : (
+          <>
+            {/* Locations Tab */}
+            {activeTab === 'locations' && (
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Enter location name, e.g. Store Room..."
+                    value={newLocation}
+                    onChange={(e) => setNewLocation(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleAddLocation()}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg"
+                  />
+                  <button
+                    onClick={handleAddLocation}
+                    className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+                  >
+                    Add Location
+                  </button>
+                </div>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Products</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Units</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {locations.map((location) => (
+                      <tr key={location.id} className={location.is_active ? '' : 'text-gray-400'}>
+                        <td className="px-4 py-2 text-sm">
+                          {location.name}
+                          {location.is_default ? (
+                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">Default</span>
+                          ) : null}
+                          {!location.is_active && (
+                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Closed</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">{location.product_count}</td>
+                        <td className="px-4 py-2 text-sm text-right">{location.total_quantity}</td>
+                        <td className="px-4 py-2 text-sm text-right space-x-3 whitespace-nowrap">
+                          <button onClick={() => handleRename(location)} className="text-blue-600 hover:text-blue-800">
+                            Rename
+                          </button>
+                          {!location.is_default && location.is_active ? (
+                            <button onClick={() => handleSetDefault(location)} className="text-blue-600 hover:text-blue-800">
+                              Make Default
+                            </button>
+                          ) : null}
+                          {!location.is_default && (
+                            <button onClick={() => handleToggleActive(location)} className="text-gray-600 hover:text-gray-800">
+                              {location.is_active ? 'Close' : 'Reopen'}
+                            </button>
+                          )}
+                          {!location.is_default && (
+                            <button onClick={() => handleDelete(location)} className="text-red-600 hover:text-red-800">
+                              Delete
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500">
+                  Sales, receipts and new products use the default location unless another is chosen. A location can only be closed once its stock has been transferred out.
+                </p>
+              </div>
+            )}
+
+            {/* Transfers Tab */}
+            {activeTab === 'transfers' && (
+              <div className="space-y-4">
+                {!showTransferForm ? (
+                  <button
+                    onClick={() => setShowTransferForm(true)}
+                    disabled={activeLocations.length < 2}
+                    title={activeLocations.length < 2 ? 'Add a second location first' : undefined}
+                    className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    New Transfer
+                  </button>
+                ) : (
+                  <div className="border rounded-lg p-4 space-y-3 bg-gray-50">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                        <select
+                          value={fromLocationId ?? ''}
+                          onChange={(e) => setFromLocationId(e.target.value ? parseInt(e.target.value) : null)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        >
+                          <option value="">Select location...</option>
+                          {activeLocations.map((l) => (
+                            <option key={l.id} value={l.id}>{l.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                        <select
+                          value={toLocationId ?? ''}
+                          onChange={(e) => setToLocationId(e.target.value ? parseInt(e.target.value) : null)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        >
+                          <option value="">Select location...</option>
+                          {activeLocations.filter((l) => l.id !== fromLocationId).map((l) => (
+                            <option key={l.id} value={l.id}>{l.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    {fromLocationId && (
+                      <div className="relative">
+                        <input
+                          type="text"
+                          placeholder="Search products in stock at this location..."
+                          value={productSearch}
+                          onChange={(e) => setProductSearch(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        />
+                        {searchMatches.length > 0 && (
+                          <div className="absolute z-10 w-full bg-white border rounded-lg shadow-lg mt-1">
+                            {searchMatches.map((p) => (
+                              <button
+                                key={p.id}
+                                onClick={() => addLine(p)}
+                                className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50 flex justify-between"
+                              >
+                                <span>{p.name}</span>
+                                <span className="text-gray-500">{p.location_quantity} here</span>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {lines.length > 0 && (
+                      <div className="space-y-2">
+                        {lines.map((line) => (
+                          <div key={line.product_id} className="flex items-center gap-3 bg-white p-2 rounded border">
+                            <span className="flex-1 text-sm">{line.product_name}</span>
+                            <span className="text-xs text-gray-500">{line.available} available</span>
+                            <input
+                              type="number"
+                              min="1"
+                              max={line.available}
+                              value={line.quantity}
+                              onChange={(e) => setLines(lines.map((l) => l.product_id === line.product_id ? { ...l, quantity: e.target.value } : l))}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                            />
+                            <button
+                              onClick={() => setLines(lines.filter((l) => l.product_id !== line.product_id))}
+                              className="text-red-600 hover:text-red-800 text-sm"
+                            >
+                              ×
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <input
+                      type="text"
+                      placeholder="Notes (optional)"
+                      value={transferNotes}
+                      onChange={(e) => setTransferNotes(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={resetTransferForm}
+                        className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleCreateTransfer}
+                        disabled={saving}
+                        className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                      >
+                        {saving ? 'Saving...' : 'Record Transfer'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {transfers.length === 0 ? (
+                  <p className="text-center text-gray-500 py-6">No transfers yet</p>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Transfer</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">From → To</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Units</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {transfers.map((transfer) => (
+                        <Fragment key={transfer.id}>
+                          <tr
+                            onClick={() => handleExpandTransfer(transfer)}
+                            className="cursor-pointer hover:bg-gray-50"
+                          >
+                            <td className="px-4 py-2 text-sm font-medium">{transfer.transfer_number}</td>
+                            <td className="px-4 py-2 text-sm">{new Date(transfer.created_at).toLocaleDateString()}</td>
+                            <td className="px-4 py-2 text-sm">{transfer.from_location_name} → {transfer.to_location_name}</td>
+                            <td className="px-4 py-2 text-sm text-right">{transfer.total_quantity}</td>
+                          </tr>
+                          {expandedTransfer?.id === transfer.id && (
+                            <tr>
+                              <td colSpan={4} className="px-4 py-2 bg-gray-50 text-sm">
+                                {expandedTransfer.items?.map((item) => (
+                                  <div key={item.id} className="flex justify-between">
+                                    <span>{item.product_name}</span>
+                                    <span>{item.quantity}</span>
+                                  </div>
+                                ))}
+                                {expandedTransfer.notes && (
+                                  <p className="text-xs text-gray-500 mt-1">{expandedTransfer.notes}</p>
+                                )}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockLocations;
@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { ProductType, TaxAssignment, TaxRate } from '../types';
+import { formatTaxLabel } from '../utils/tax';
+import { ToastType } from './Toast';
+
+interface TaxSettingsProps {
+  showToast: (message: string, type?: ToastType) => void;
+}
+
+const PRODUCT_TYPE_LABELS: Record<ProductType, string> = {
+  tire: 'Tires',
+  alloy_wheel: 'Alloy Wheels',
+  general: 'General',
+  service: 'Services',
+  bundle: 'Kits',
+};
+
+const describeAssignment = (assignment: TaxAssignment) => {
+  const parts = [
+    assignment.product_type ? PRODUCT_TYPE_LABELS[assignment.product_type] : null,
+    assignment.category ? `"${assignment.category}"` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' in ') : 'All products';
+};
+
+const TaxSettings = ({ showToast }: TaxSettingsProps) => {
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  const [editing, setEditing] = useState<TaxRate | null>(null);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const loadRates = async () => {
+    try {
+      setRates(await window.electronAPI.taxes.getAll());
+    } catch (error) {
+      console.error('Error loading tax rates:', error);
+    }
+  };
+
+  const openModal = (rate: TaxRate | null) => {
+    setEditing(rate);
+    setShowModal(true);
+  };
+
+  const handleDelete = async (rate: TaxRate) => {
+    if (!confirm(`Delete ${rate.name}?`)) return;
+    try {
+      await window.electronAPI.taxes.delete(rate.id);
+      showToast(`${rate.name} deleted`, 'success');
+      loadRates();
+    } catch (error: any) {
+      console.error('Error deleting tax rate:', error);
+      showToast(error?.message || 'Failed to delete tax rate', 'error');
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-emerald-50 to-white rounded-lg border border-emerald-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <svg className="w-5 h-5 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+          </svg>
+          <h3 className="font-bold text-gray-900 text-sm">Tax Rates</h3>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="px-3 py-1 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-xs font-medium"
+        >
+          Add Tax
+        </button>
+      </div>
+
+      {rates.length === 0 ? (
+        <p className="text-xs text-gray-500">No taxes set up. Invoices are issued without tax.</p>
+      ) : (
+        <div className="space-y-2">
+          {rates.map((rate) => (
+            <div key={rate.id} className={`flex items-start justify-between p-2 bg-white rounded border border-gray-200 ${rate.is_active ? '' : 'opacity-60'}`}>
+              <div>
+                <p className="text-xs font-semibold text-gray-900">
+                  {formatTaxLabel({ ...rate, tax_name: rate.name })}
+                  {!rate.is_active && <span className="ml-2 text-gray-500 font-normal">Inactive</span>}
+                </p>
+                <p className="text-xs text-gray-500">{rate.assignments.map(describeAssignment).join(', ')}</p>
+              </div>
+              <div className="flex gap-2 text-xs">
+                <button onClick={() => openModal(rate)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                <button onClick={() => handleDelete(rate)} className="text-red-600 hover:text-red-800">Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-2">Each invoice line is charged every active tax that matches its product.</p>
+
+      {showModal && (
+        <TaxRateModal
+          rate={editing}
+          onClose={() => setShowModal(false)}
+          onSave={(name) => {
+            setShowModal(false);
+            showToast(`${name} saved`, 'success');
+            loadRates();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface TaxRateModalProps {
+  rate: TaxRate | null;
+  onClose: () => void;
+  onSave: (name: string) => void;
+}
+
+const TaxRateModal = ({ rate, onClose, onSave }: TaxRateModalProps) => {
+  const [name, setName] = useState(rate?.name || '');
+  const [percent, setPercent] = useState(rate ? rate.rate.toString() : '');
+  const [isInclusive, setIsInclusive] = useState(!!rate?.is_inclusive);
+  const [isActive, setIsActive] = useState(rate ? !!rate.is_active : true);
+  const [assignments, setAssignments] = useState<TaxAssignment[]>(
+    rate?.assignments.length ? rate.assignments : [{ product_type: null, category: '' }]
+  );
+  const [saving, setSaving] = useState(false);
+
+  const updateAssignment = (index: number, changes: Partial<TaxAssignment>) => {
+    setAssignments(assignments.map((assignment, i) => (i === index ? { ...assignment, ...changes } : assignment)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = {
+        name,
+        rate: parseFloat(percent),
+        is_inclusive: isInclusive,
+        is_active: isActive,
+        assignments,
+      };
+      if (rate) {
+        await window.electronAPI.taxes.update(rate.id, data);
+      } else {
+        await window.electronAPI.taxes.create(data);
+      }
+      onSave(name.trim());
+    } catch (error: any) {
+      console.error('Error saving tax rate:', error);
+      alert(error?.message || 'Failed to save tax rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+        <h2 className="text-xl font-bold mb-4">{rate ? 'Edit Tax' : 'Add Tax'}</h2>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. VAT"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rate (%) *</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-6 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={isInclusive} onChange={(e) => setIsInclusive(e.target.checked)} />
+              Prices include this tax
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+              Active
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+            <div className="space-y-2">
+              {assignments.map((assignment, index) => (
+                <div key={index} className="flex gap-2">
+                  <select
+                    value={assignment.product_type || ''}
+                    onChange={(e) => updateAssignment(index, { product_type: (e.target.value || null) as ProductType | null })}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Any type</option>
+                    {Object.entries(PRODUCT_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={assignment.category || ''}
+                    onChange={(e) => updateAssignment(index, { category: e.target.value })}
+                    placeholder="Any category"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setAssignments(assignments.filter((_, i) => i !== index))}
+                    className="px-2 text-red-600 hover:text-red-800"
+                    disabled={assignments.length === 1}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setAssignments([...assignments, { product_type: null, category: '' }])}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add another
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TaxSettings;
@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { Vehicle } from '../types';
+
+interface VehicleModalProps {
+  customerId: number;
+  vehicle: Vehicle | null;
+  onClose: () => void;
+  onSave: (id: number) => void;
+}
+
+const VehicleModal = ({ customerId, vehicle, onClose, onSave }: VehicleModalProps) => {
+  const [formData, setFormData] = useState({
+    registration_number: vehicle?.registration_number || '',
+    make: vehicle?.make || '',
+    model: vehicle?.model || '',
+    year: vehicle?.year?.toString() || '',
+    tire_size: vehicle?.tire_size || '',
+    wheel_pcd: vehicle?.wheel_pcd || '',
+    wheel_stud_count: vehicle?.wheel_stud_count?.toString() || '',
+    notes: vehicle?.notes || '',
+  });
+  const [tireSizes, setTireSizes] = useState<Array<{ id: number; size_display: string }>>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.tireSizes.getAll()
+      .then(setTireSizes)
+      .catch((error: any) => console.error('Error loading tire sizes:', error));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.registration_number.trim()) {
+      alert('Registration number is required');
+      return;
+    }
+    setSaving(true);
+    try {
+      const data = {
+        ...formData,
+        customer_id: customerId,
+        year: formData.year ? parseInt(formData.year) : null,
+        wheel_stud_count: formData.wheel_stud_count ? parseInt(formData.wheel_stud_count) : null,
+      };
+      if (vehicle) {
+        await window.electronAPI.vehicles.update(vehicle.id, data);
+        onSave(vehicle.id);
+      } else {
+        const created = await window.electronAPI.vehicles.create(data);
+        onSave(Number(created.id));
+      }
+    } catch (error: any) {
+      console.error('Error saving vehicle:', error);
+      alert(error?.message || 'Failed to save vehicle');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+        <h2 className="text-xl font-bold mb-4">{vehicle ? 'Edit Vehicle' : 'Add Vehicle'}</h2>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Registration Number *</label>
+            <input
+              type="text"
+              value={formData.registration_number}
+              onChange={(e) => setFormData({ ...formData, registration_number: e.target.value.toUpperCase() })}
+              placeholder="e.g. WP CAB-1234"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Make</label>
+              <input
+                type="text"
+                value={formData.make}
+                onChange={(e) => setFormData({ ...formData, make: e.target.value })}
+                placeholder="Toyota"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+              <input
+                type="text"
+                value={formData.model}
+                onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                placeholder="Axio"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Year</label>
+              <input
+                type="number"
+                min="1950"
+                value={formData.year}
+                onChange={(e) => setFormData({ ...formData, year: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 space-y-3">
+            <p className="text-xs font-semibold text-blue-800 uppercase">OEM Fitment</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tire Size</label>
+              <input
+                type="text"
+                list="vehicle-tire-sizes"
+                value={formData.tire_size}
+                onChange={(e) => setFormData({ ...formData, tire_size: e.target.value })}
+                placeholder="e.g. 185/65R15"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+              />
+              <datalist id="vehicle-tire-sizes">
+                {tireSizes.map((size) => (
+                  <option key={size.id} value={size.size_display} />
+                ))}
+              </datalist>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Wheel PCD</label>
+                <input
+                  type="text"
+                  value={formData.wheel_pcd}
+                  onChange={(e) => setFormData({ ...formData, wheel_pcd: e.target.value })}
+                  placeholder="e.g. 5x114.3"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Stud Count</label>
+                <select
+                  value={formData.wheel_stud_count}
+                  onChange={(e) => setFormData({ ...formData, wheel_stud_count: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="">-</option>
+                  {[4, 5, 6, 8].map((count) => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VehicleModal;
@@ -1,37 +1,205 @@
 import { useEffect, useState } from 'react';
-import { generateReceiptPDF, printReceipt } from '../utils/receipt';
-import { Product, ProductType } from '../types';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { generateQuotationPDF, generateReceiptPDF, printReceipt } from '../utils/receipt';
+import { Customer, DiscountType, ParkedCart, ParkedCartItem, PaymentMethod, Product, ProductType, ProductUnit, Quotation, SaleProblem, StockLocation, TaxRate, Vehicle } from '../types';
+import { getFitmentMatch } from '../utils/fitment';
+import { calculateLineTaxes, formatTaxLabel, getApplicableTaxRates, groupTaxes } from '../utils/tax';
+import { getAvailableStock, getSaleProblems, getSellableQuantity } from '../utils/stock';
+import { formatTireAge } from '../utils/dot';
+import VehicleModal from '../components/VehicleModal';
+
+interface TenderLine {
+  payment_method: PaymentMethod;
+  amount: string;
+  reference: string;
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  mobile: 'Mobile Payment',
+  bank_transfer: 'Bank Transfer',
+  cheque: 'Cheque',
+  credit: 'Credit Account',
+  store_credit: 'Store Credit',
+};
+
+const emptyTender = (): TenderLine => ({ payment_method: 'cash', amount: '', reference: '' });
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Quotations are valid for two weeks unless changed
+const defaultValidUntil = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 14);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const formatAge = (minutes: number) => {
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ${minutes % 60} min ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
+
+// Same rules as the main process: percent of the amount, or a fixed amount, never more than the amount
+const calculateDiscount = (amount: number, type: DiscountType, value: string) => {
+  const discountValue = parseFloat(value) || 0;
+  if (discountValue <= 0) return 0;
+  return type === 'percent'
+    ? roundMoney(amount * Math.min(discountValue, 100) / 100)
+    : roundMoney(Math.min(discountValue, amount));
+};
 
 interface CartItem {
   product_id: number;
   product_name: string;
   quantity: number;
   unit_price: number;
-  total_price: number;
+  total_price: number; // before the line discount
+  discount_type: DiscountType;
+  discount_value: string;
+  picked_units?: ProductUnit[]; // DOT units chosen by hand; the oldest are sold otherwise
 }
 
+const newCartItem = (product: Product, quantity: number): CartItem => ({
+  product_id: product.id,
+  product_name: product.name,
+  quantity,
+  unit_price: product.price,
+  total_price: product.price * quantity,
+  discount_type: 'percent',
+  discount_value: '',
+});
+
 const Billing = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
   const [products, setProducts] = useState<Product[]>([]);
   const [cart, setCart] = useState<CartItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [customerName, setCustomerName] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
-  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [customerSuggestions, setCustomerSuggestions] = useState<Customer[]>([]);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [customerVehicles, setCustomerVehicles] = useState<Vehicle[]>([]);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<number | null>(null);
+  const [showVehicleModal, setShowVehicleModal] = useState(false);
+  const [tenders, setTenders] = useState<TenderLine[]>([emptyTender()]);
   const [loading, setLoading] = useState(true);
   const [filterType, setFilterType] = useState<ProductType | 'all'>('all');
   const [viewMode, setViewMode] = useState<'tile' | 'list'>('list');
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(20);
   const [quantityInputs, setQuantityInputs] = useState<{ [key: number]: string }>({});
-  const [taxRate, setTaxRate] = useState<number>(0);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [billDiscountType, setBillDiscountType] = useState<DiscountType>('percent');
+  const [billDiscountValue, setBillDiscountValue] = useState('');
+  const [discountLimit, setDiscountLimit] = useState(10);
+  const [showDiscountApproval, setShowDiscountApproval] = useState(false);
+  const [discountPassword, setDiscountPassword] = useState('');
+  const [parkedCarts, setParkedCarts] = useState<ParkedCart[]>([]);
+  const [showParkModal, setShowParkModal] = useState(false);
+  const [parkLabel, setParkLabel] = useState('');
+  const [showParkedCarts, setShowParkedCarts] = useState(false);
+  const [approvalFor, setApprovalFor] = useState<'checkout' | 'quote'>('checkout');
+  const [showQuoteModal, setShowQuoteModal] = useState(false);
+  const [quoteValidUntil, setQuoteValidUntil] = useState(defaultValidUntil());
+  const [quoteNotes, setQuoteNotes] = useState('');
+  const [quotation, setQuotation] = useState<Quotation | null>(null);
+  const [declinedServices, setDeclinedServices] = useState<number[]>([]);
+  const [unitPicker, setUnitPicker] = useState<{ item: CartItem; units: ProductUnit[]; selected: number[] } | null>(null);
+  const [stockLocations, setStockLocations] = useState<StockLocation[]>([]);
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [saleProblems, setSaleProblems] = useState<SaleProblem[]>([]);
 
   useEffect(() => {
-    loadProducts();
+    loadLocations();
+    loadParkedCarts();
+    window.electronAPI.discounts.getSettings()
+      .then((settings: { approval_limit_percent: number }) => setDiscountLimit(settings.approval_limit_percent))
+      .catch((error: any) => console.error('Error loading discount settings:', error));
+    window.electronAPI.taxes.getAll()
+      .then(setTaxRates)
+      .catch((error: any) => console.error('Error loading tax rates:', error));
   }, []);
 
+  useEffect(() => {
+    if (locationId) loadProducts();
+  }, [locationId]);
+
+  // "Convert to Invoice" on the Quotations page opens Billing with the quotation to load
+  const quotationToLoad: number | undefined = (location.state as { quotationId?: number } | null)?.quotationId;
+  useEffect(() => {
+    if (!quotationToLoad || loading) return;
+    navigate(location.pathname, { replace: true, state: null });
+    loadQuotation(quotationToLoad);
+  }, [quotationToLoad, loading]);
+
+  // Look up existing customers as the phone number is typed
+  useEffect(() => {
+    const digits = customerPhone.replace(/\D/g, '');
+    if (selectedCustomer || digits.length < 3) {
+      setCustomerSuggestions([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      window.electronAPI.customers.searchByPhone(customerPhone)
+        .then(setCustomerSuggestions)
+        .catch((error: any) => console.error('Error searching customers:', error));
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [customerPhone, selectedCustomer]);
+
+  const selectCustomer = (customer: Customer) => {
+    setSelectedCustomer(customer);
+    setCustomerPhone(customer.phone);
+    setCustomerName(customer.name || '');
+    setCustomerSuggestions([]);
+    loadVehicles(customer.id);
+  };
+
+  const loadVehicles = async (customerId: number, selectId?: number) => {
+    try {
+      const vehicles: Vehicle[] = await window.electronAPI.vehicles.getByCustomer(customerId);
+      setCustomerVehicles(vehicles);
+      // Preselect when there is only one car to choose from
+      setSelectedVehicleId(selectId ?? (vehicles.length === 1 ? vehicles[0].id : null));
+    } catch (error) {
+      console.error('Error loading vehicles:', error);
+    }
+  };
+
+  const clearCustomer = () => {
+    setSelectedCustomer(null);
+    setCustomerVehicles([]);
+    setSelectedVehicleId(null);
+  };
+
+  // The till remembers which location it sells from; falls back to the default location
+  const loadLocations = async () => {
+    try {
+      const data: StockLocation[] = (await window.electronAPI.locations.getAll()).filter((l: StockLocation) => l.is_active);
+      const saved = Number(localStorage.getItem('billingLocationId'));
+      setStockLocations(data);
+      setLocationId((data.find((l) => l.id === saved) || data.find((l) => l.is_default) || data[0])?.id ?? null);
+    } catch (error) {
+      console.error('Error loading locations:', error);
+      loadProducts();
+    }
+  };
+
+  const changeLocation = (id: number) => {
+    localStorage.setItem('billingLocationId', String(id));
+    setLocationId(id);
+    // Picked DOT units are held at the old location
+    setCart((current) => current.map((item) => (item.picked_units?.length ? { ...item, picked_units: undefined } : item)));
+  };
+
   const loadProducts = async () => {
     try {
-      const data = await window.electronAPI.products.getAll();
+      const data = await window.electronAPI.products.getAll(locationId ?? undefined);
       setProducts(data);
     } catch (error) {
       console.error('Error loading products:', error);
@@ -40,30 +208,61 @@ const Billing = () => {
     }
   };
 
+  const loadParkedCarts = async () => {
+    try {
+      setParkedCarts(await window.electronAPI.carts.getParked());
+    } catch (error) {
+      console.error('Error loading parked carts:', error);
+    }
+  };
+
+  // Services set to come with a product type (e.g. fitting with tires) follow the number of
+  // those products in the cart, unless they have been taken off this sale
+  const withAutoServices = (items: CartItem[], changed: Product) => {
+    let result = items;
+    const services = products.filter(
+      (p) => p.product_type === 'service' && p.auto_add_with === changed.product_type && !declinedServices.includes(p.id)
+    );
+    for (const service of services) {
+      const quantity = items
+        .filter((item) => products.find((p) => p.id === item.product_id)?.product_type === changed.product_type)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      const existing = result.find((item) => item.product_id === service.id);
+      if (!existing) {
+        if (quantity > 0) result = [...result, newCartItem(service, quantity)];
+      } else if (quantity === 0) {
+        result = result.filter((item) => item.product_id !== service.id);
+      } else {
+        result = result.map((item) =>
+          item.product_id === service.id ? { ...item, quantity, total_price: item.unit_price * quantity } : item
+        );
+      }
+    }
+    return result;
+  };
+
+  const setCartItems = (items: CartItem[], changed?: Product) => {
+    const next = changed && changed.product_type !== 'service' ? withAutoServices(items, changed) : items;
+    setCart(next);
+    setSaleProblems([]);
+    setQuantityInputs(Object.fromEntries(next.map((item) => [item.product_id, item.quantity.toString()])));
+  };
+
   const addToCart = (product: Product) => {
-    if (product.stock_quantity <= 0) {
-      alert('Product out of stock');
+    if (getSellableQuantity(product) <= 0) {
+      alert(product.stock_quantity > 0 ? 'All remaining stock is on hold in parked carts' : 'Product out of stock');
       return;
     }
 
     const existingItem = cart.find((item) => item.product_id === product.id);
     if (existingItem) {
-      if (existingItem.quantity >= product.stock_quantity) {
+      if (existingItem.quantity >= getSellableQuantity(product)) {
         alert('Not enough stock available');
         return;
       }
       updateCartItem(product.id, existingItem.quantity + 1);
     } else {
-      const newItem: CartItem = {
-        product_id: product.id,
-        product_name: product.name,
-        quantity: 1,
-        unit_price: product.price,
-        total_price: product.price,
-      };
-      setCart([...cart, newItem]);
-      // Initialize quantity input value
-      setQuantityInputs({ ...quantityInputs, [product.id]: '1' });
+      setCartItems([...cart, newCartItem(product, 1)], product);
     }
   };
 
@@ -74,67 +273,415 @@ const Billing = () => {
     }
 
     const product = products.find((p) => p.id === productId);
-    if (product && quantity > product.stock_quantity) {
+    if (product && quantity > getSellableQuantity(product)) {
       alert('Not enough stock available');
       return;
     }
 
-    setCart(
+    setCartItems(
       cart.map((item) =>
         item.product_id === productId
           ? {
               ...item,
               quantity,
               total_price: item.unit_price * quantity,
+              picked_units: item.picked_units?.slice(0, quantity),
             }
           : item
-      )
+      ),
+      product
     );
-    // Update quantity input value
-    setQuantityInputs({ ...quantityInputs, [productId]: quantity.toString() });
   };
 
   const removeFromCart = (productId: number) => {
-    setCart(cart.filter((item) => item.product_id !== productId));
-    // Remove quantity input value
-    const newInputs = { ...quantityInputs };
-    delete newInputs[productId];
-    setQuantityInputs(newInputs);
+    const product = products.find((p) => p.id === productId);
+    // A service taken off by hand is not added back for the rest of this sale
+    if (product?.product_type === 'service' && product.auto_add_with) {
+      setDeclinedServices([...declinedServices, productId]);
+    }
+    setCartItems(cart.filter((item) => item.product_id !== productId), product);
   };
 
   const clearCart = () => {
     if (cart.length === 0) return;
     if (confirm('Are you sure you want to clear all items from the cart?')) {
       setCart([]);
+      setSaleProblems([]);
       setQuantityInputs({});
+      setQuotation(null);
+      setDeclinedServices([]);
     }
   };
 
+  const updateLineDiscount = (productId: number, changes: Partial<Pick<CartItem, 'discount_type' | 'discount_value'>>) => {
+    setCart(cart.map((item) => (item.product_id === productId ? { ...item, ...changes } : item)));
+  };
+
+  const getLineDiscount = (item: CartItem) => calculateDiscount(item.total_price, item.discount_type, item.discount_value);
+
+  // Line discounts come off each line; the bill discount comes off what is left, before tax.
+  // Each line is taxed at the rates for its product, with its share of the bill discount.
   const calculateTotals = () => {
-    const subtotal = cart.reduce((sum, item) => sum + item.total_price, 0);
-    const tax = subtotal * (taxRate / 100);
-    const total = subtotal + tax;
-    return { subtotal, tax, total };
+    const subtotal = roundMoney(cart.reduce((sum, item) => sum + item.total_price, 0));
+    const lineDiscount = roundMoney(cart.reduce((sum, item) => sum + getLineDiscount(item), 0));
+    const afterLines = roundMoney(subtotal - lineDiscount);
+    const billDiscount = calculateDiscount(afterLines, billDiscountType, billDiscountValue);
+    const discount = roundMoney(lineDiscount + billDiscount);
+
+    let discountLeft = billDiscount;
+    const lineTaxes = cart.flatMap((item, index) => {
+      const lineTotal = roundMoney(item.total_price - getLineDiscount(item));
+      const share = index === cart.length - 1
+        ? discountLeft
+        : afterLines > 0 ? roundMoney(billDiscount * lineTotal / afterLines) : 0;
+      discountLeft = roundMoney(discountLeft - share);
+      const product = products.find((p) => p.id === item.product_id);
+      return calculateLineTaxes(lineTotal - share, getApplicableTaxRates(product, taxRates));
+    });
+    const taxes = groupTaxes(lineTaxes).filter((tax) => tax.tax_amount > 0);
+    const tax = roundMoney(taxes.filter((t) => !t.is_inclusive).reduce((sum, t) => sum + t.tax_amount, 0));
+    const total = roundMoney(subtotal - discount + tax);
+
+    // Largest single discount or the whole bill's discount as a percentage, checked against the approval limit
+    const linePercents = cart.map((item) => (item.total_price > 0 ? getLineDiscount(item) / item.total_price * 100 : 0));
+    const billPercent = subtotal - lineDiscount > 0 ? billDiscount / (subtotal - lineDiscount) * 100 : 0;
+    const totalPercent = subtotal > 0 ? discount / subtotal * 100 : 0;
+    const maxDiscountPercent = roundMoney(Math.max(0, billPercent, totalPercent, ...linePercents));
+
+    return { subtotal, lineDiscount, billDiscount, discount, taxes, tax, total, maxDiscountPercent };
+  };
+
+  // A single tender left blank pays the exact total
+  const getTenderAmounts = (total: number) =>
+    tenders.map((tender) => ({
+      ...tender,
+      value: tenders.length === 1 && tender.amount.trim() === '' ? total : parseFloat(tender.amount) || 0,
+    }));
+
+  const calculatePayment = (total: number) => {
+    const amounts = getTenderAmounts(total);
+    const paid = amounts.reduce((sum, t) => sum + t.value, 0);
+    const cash = amounts.filter((t) => t.payment_method === 'cash').reduce((sum, t) => sum + t.value, 0);
+    const nonCash = paid - cash;
+    const balance = Math.round((total - paid) * 100) / 100;
+    return { paid, cash, nonCash, balance, change: balance < 0 ? -balance : 0 };
+  };
+
+  const updateTender = (index: number, changes: Partial<TenderLine>) => {
+    setTenders(tenders.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)));
+  };
+
+  // New tender lines are prefilled with whatever the entered amounts leave unpaid
+  const addTender = () => {
+    const entered = tenders.reduce((sum, tender) => sum + (parseFloat(tender.amount) || 0), 0);
+    const remaining = Math.round((calculateTotals().total - entered) * 100) / 100;
+    setTenders([
+      ...tenders,
+      { payment_method: 'card', amount: remaining > 0 ? remaining.toFixed(2) : '', reference: '' },
+    ]);
+  };
+
+  const removeTender = (index: number) => {
+    const remaining = tenders.filter((_, i) => i !== index);
+    setTenders(remaining.length > 0 ? remaining : [emptyTender()]);
+  };
+
+  const resetSale = () => {
+    setCart([]);
+    setSaleProblems([]);
+    setCustomerName('');
+    setCustomerPhone('');
+    clearCustomer();
+    setTenders([emptyTender()]);
+    setBillDiscountValue('');
+    setShowDiscountApproval(false);
+    setDiscountPassword('');
+    setQuantityInputs({});
+    setQuotation(null);
+    setDeclinedServices([]);
+  };
+
+  const openParkModal = () => {
+    const vehicle = customerVehicles.find((v) => v.id === selectedVehicleId);
+    setParkLabel(vehicle?.registration_number || customerName || customerPhone || '');
+    setShowParkModal(true);
+  };
+
+  // Park the cart so another customer can be served; its quantities go on hold
+  const handlePark = async () => {
+    try {
+      await window.electronAPI.carts.park({
+        label: parkLabel,
+        customer_id: selectedCustomer?.id || null,
+        vehicle_id: selectedVehicleId,
+        customer_name: customerName || null,
+        customer_phone: customerPhone || null,
+        bill_discount_type: billDiscountType,
+        bill_discount_value: parseFloat(billDiscountValue) || 0,
+        location_id: locationId,
+        items: getSaleItems(),
+      });
+      setShowParkModal(false);
+      resetSale();
+      loadParkedCarts();
+      loadProducts(); // Refresh on-hold quantities
+    } catch (error: any) {
+      console.error('Error parking cart:', error);
+      alert(error?.message || 'Failed to park cart');
+    }
   };
 
-  const handleCheckout = async () => {
+  const handleResume = async (parked: ParkedCart) => {
+    if (cart.length > 0) {
+      alert('Park or clear the current cart before resuming another');
+      return;
+    }
+    try {
+      const resumed: ParkedCart = await window.electronAPI.carts.resume(parked.id);
+      // Sell from the location the cart's stock was held at
+      if (resumed.location_id && resumed.location_id !== locationId && stockLocations.some((l) => l.id === resumed.location_id)) {
+        changeLocation(resumed.location_id);
+      }
+      const items = (resumed.items || []).map((item: ParkedCartItem): CartItem => ({
+        product_id: item.product_id,
+        product_name: item.product_name,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        total_price: item.unit_price * item.quantity,
+        discount_type: item.discount_type || 'percent',
+        discount_value: item.discount_value > 0 ? item.discount_value.toString() : '',
+      }));
+      setCart(items);
+      setSaleProblems([]);
+      setQuantityInputs(Object.fromEntries(items.map((item) => [item.product_id, item.quantity.toString()])));
+      setCustomerName(resumed.customer_name || '');
+      setCustomerPhone(resumed.customer_phone || '');
+      setBillDiscountType(resumed.bill_discount_type || 'percent');
+      setBillDiscountValue(resumed.bill_discount_value > 0 ? resumed.bill_discount_value.toString() : '');
+      clearCustomer();
+      if (resumed.customer_id) {
+        const customer = await window.electronAPI.customers.getById(resumed.customer_id);
+        if (customer) {
+          setSelectedCustomer(customer);
+          loadVehicles(customer.id, resumed.vehicle_id ?? undefined);
+        }
+      }
+      setShowParkedCarts(false);
+      loadParkedCarts();
+      loadProducts();
+    } catch (error: any) {
+      console.error('Error resuming cart:', error);
+      alert(error?.message || 'Failed to resume cart');
+    }
+  };
+
+  const handleDiscardParked = async (parked: ParkedCart) => {
+    if (!confirm(`Discard the parked cart "${parked.label}"? Its items go back into stock.`)) return;
+    try {
+      await window.electronAPI.carts.delete(parked.id);
+      loadParkedCarts();
+      loadProducts();
+    } catch (error: any) {
+      console.error('Error discarding parked cart:', error);
+      alert(error?.message || 'Failed to discard parked cart');
+    }
+  };
+
+  // Load a quotation into the cart for invoicing. Stock is checked again, and once the
+  // quotation has expired its prices give way to the current product prices.
+  const loadQuotation = async (quotationId: number) => {
+    if (cart.length > 0) {
+      alert('Park or clear the current cart before converting a quotation');
+      return;
+    }
+    try {
+      const quote: Quotation | null = await window.electronAPI.quotations.getById(quotationId);
+      if (!quote) {
+        alert('Quotation not found');
+        return;
+      }
+      if (quote.status !== 'open' && quote.status !== 'expired') {
+        alert(`Quotation ${quote.quotation_number} is ${quote.status} and cannot be invoiced`);
+        return;
+      }
+
+      const changes: string[] = [];
+      const items: CartItem[] = [];
+      for (const item of quote.items || []) {
+        const product = products.find((p) => p.id === item.product_id);
+        if (!product) {
+          changes.push(`${item.product_name} is no longer sold and was left out`);
+          continue;
+        }
+        const quantity = Math.min(item.quantity, getSellableQuantity(product));
+        if (quantity <= 0) {
+          changes.push(`${item.product_name} is out of stock and was left out`);
+          continue;
+        }
+        if (quantity < item.quantity) {
+          changes.push(`${item.product_name}: only ${quantity} of ${item.quantity} in stock`);
+        }
+        let unitPrice = item.unit_price;
+        if (quote.status === 'expired' && product.price !== item.unit_price) {
+          changes.push(`${item.product_name}: price now Rs. ${product.price.toFixed(2)} (quoted Rs. ${item.unit_price.toFixed(2)})`);
+          unitPrice = product.price;
+        }
+        items.push({
+          product_id: item.product_id,
+          product_name: item.product_name,
+          quantity,
+          unit_price: unitPrice,
+          total_price: unitPrice * quantity,
+          discount_type: item.discount_type || 'percent',
+          discount_value: item.discount_value > 0 ? item.discount_value.toString() : '',
+        });
+      }
+      if (items.length === 0) {
+        alert(`None of the items on ${quote.quotation_number} can be sold:\n\n${changes.join('\n')}`);
+        return;
+      }
+
+      setCart(items);
+      setSaleProblems([]);
+      setQuantityInputs(Object.fromEntries(items.map((item) => [item.product_id, item.quantity.toString()])));
+      setCustomerName(quote.customer_name || '');
+      setCustomerPhone(quote.customer_phone || '');
+      setBillDiscountType(quote.bill_discount_type || 'percent');
+      setBillDiscountValue(quote.bill_discount_value > 0 ? quote.bill_discount_value.toString() : '');
+      clearCustomer();
+      if (quote.customer_id) {
+        const customer = await window.electronAPI.customers.getById(quote.customer_id);
+        if (customer) {
+          setSelectedCustomer(customer);
+          loadVehicles(customer.id, quote.vehicle_id ?? undefined);
+        }
+      }
+      setQuotation(quote);
+      if (changes.length > 0) {
+        alert(`${quote.quotation_number} has changed since it was quoted:\n\n${changes.join('\n')}`);
+      }
+    } catch (error: any) {
+      console.error('Error loading quotation:', error);
+      alert(error?.message || 'Failed to load quotation');
+    }
+  };
+
+  const getSaleItems = () =>
+    cart.map((item) => ({
+      product_id: item.product_id,
+      product_name: item.product_name,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      discount_type: item.discount_type,
+      discount_value: parseFloat(item.discount_value) || 0,
+      unit_ids: item.picked_units?.map((unit) => unit.id),
+    }));
+
+  const openUnitPicker = async (item: CartItem) => {
+    try {
+      const units: ProductUnit[] = await window.electronAPI.units.getByProduct(item.product_id, locationId);
+      setUnitPicker({ item, units, selected: (item.picked_units || []).map((unit) => unit.id) });
+    } catch (error: any) {
+      console.error('Error loading DOT units:', error);
+      alert(error?.message || 'Failed to load DOT codes');
+    }
+  };
+
+  const toggleUnit = (unitId: number) => {
+    if (!unitPicker) return;
+    const { item, selected } = unitPicker;
+    if (selected.includes(unitId)) {
+      setUnitPicker({ ...unitPicker, selected: selected.filter((id) => id !== unitId) });
+    } else if (selected.length < item.quantity) {
+      setUnitPicker({ ...unitPicker, selected: [...selected, unitId] });
+    }
+  };
+
+  const savePickedUnits = () => {
+    if (!unitPicker) return;
+    const picked = unitPicker.units.filter((unit) => unitPicker.selected.includes(unit.id));
+    setCart(cart.map((item) => (item.product_id === unitPicker.item.product_id ? { ...item, picked_units: picked } : item)));
+    setUnitPicker(null);
+  };
+
+  const openQuoteModal = () => {
+    setQuoteValidUntil(defaultValidUntil());
+    setQuoteNotes('');
+    setShowQuoteModal(true);
+  };
+
+  // Save the cart as a quotation; nothing is taken from stock
+  const handleSaveQuote = async (approvalPassword?: string) => {
+    if (calculateTotals().maxDiscountPercent > discountLimit && !approvalPassword) {
+      setApprovalFor('quote');
+      setShowDiscountApproval(true);
+      return;
+    }
+
+    try {
+      const created = await window.electronAPI.quotations.create({
+        customer_name: customerName || null,
+        customer_phone: customerPhone || null,
+        vehicle_id: selectedVehicleId,
+        valid_until: quoteValidUntil,
+        notes: quoteNotes || null,
+        bill_discount_type: billDiscountType,
+        bill_discount_value: parseFloat(billDiscountValue) || 0,
+        discount_password: approvalPassword || null,
+        items: getSaleItems(),
+      });
+      setShowQuoteModal(false);
+      if (confirm(`Quotation ${created.quotation_number} saved.\n\nWould you like to download it as a PDF?`)) {
+        const fullQuotation = await window.electronAPI.quotations.getById(created.id);
+        generateQuotationPDF(fullQuotation);
+      }
+      resetSale();
+    } catch (error: any) {
+      console.error('Error saving quotation:', error);
+      alert(error?.message || 'Failed to save quotation');
+    }
+  };
+
+  const handleCheckout = async (approvalPassword?: string) => {
     if (cart.length === 0) {
       alert('Cart is empty');
       return;
     }
 
-    const { subtotal, tax, total } = calculateTotals();
+    const { total, maxDiscountPercent } = calculateTotals();
+    const payment = calculatePayment(total);
+    if (payment.balance > 0) {
+      alert(`Payments do not cover the total. Balance due: Rs. ${payment.balance.toFixed(2)}`);
+      return;
+    }
+    if (payment.nonCash > total + 0.005) {
+      alert('Only cash payments can exceed the total (to give change)');
+      return;
+    }
+    if (maxDiscountPercent > discountLimit && !approvalPassword) {
+      setApprovalFor('checkout');
+      setShowDiscountApproval(true);
+      return;
+    }
 
     try {
       const invoiceData = {
         customer_name: customerName || null,
         customer_phone: customerPhone || null,
-        subtotal,
-        tax_amount: tax,
-        discount_amount: 0,
-        total_amount: total,
-        payment_method: paymentMethod,
-        items: cart,
+        bill_discount_type: billDiscountType,
+        bill_discount_value: parseFloat(billDiscountValue) || 0,
+        discount_password: approvalPassword || null,
+        payments: getTenderAmounts(total)
+          .filter((tender) => tender.value > 0)
+          .map((tender) => ({
+            payment_method: tender.payment_method,
+            amount: tender.value,
+            reference: tender.reference.trim() || null,
+          })),
+        vehicle_id: selectedVehicleId,
+        quotation_id: quotation?.id || null,
+        location_id: locationId,
+        items: getSaleItems(),
       };
 
       const createdInvoice = await window.electronAPI.invoices.create(invoiceData);
@@ -143,8 +690,10 @@ const Billing = () => {
       const fullInvoice = await window.electronAPI.invoices.getById(createdInvoice.id);
       
       // Ask user if they want to print/download receipt
+      const changeLine = createdInvoice.change_due > 0 ? `\n\nChange due: Rs. ${createdInvoice.change_due.toFixed(2)}` : '';
+      const accountLine = createdInvoice.balance_due > 0 ? `\n\nCharged to account: Rs. ${createdInvoice.balance_due.toFixed(2)}` : '';
       const shouldPrint = confirm(
-        'Invoice created successfully!\n\nWould you like to print the receipt?\n\nClick OK to print, Cancel to download PDF.'
+        `Invoice created successfully!${changeLine}${accountLine}\n\nWould you like to print the receipt?\n\nClick OK to print, Cancel to download PDF.`
       );
       
       if (shouldPrint) {
@@ -159,17 +708,18 @@ const Billing = () => {
         }, 500);
       }
       
-      // Reset form
-      setCart([]);
-      setCustomerName('');
-      setCustomerPhone('');
-      setPaymentMethod('cash');
-      setTaxRate(0);
-      setQuantityInputs({});
+      resetSale();
       loadProducts(); // Refresh stock
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creating invoice:', error);
-      alert('Failed to create invoice');
+      const problems = getSaleProblems(error);
+      if (problems) {
+        setSaleProblems(problems);
+        loadProducts(); // show the stock and prices the sale was checked against
+        alert(['This sale cannot be completed:', ...problems.map((problem) => `- ${problem.message}`)].join('\n'));
+        return;
+      }
+      alert(error?.message || 'Failed to create invoice');
     }
   };
 
@@ -181,9 +731,17 @@ const Billing = () => {
     
     const matchesType = filterType === 'all' || p.product_type === filterType;
     
-    return matchesSearch && matchesType && p.stock_quantity > 0;
+    return matchesSearch && matchesType && getSellableQuantity(p) > 0;
   });
 
+  // Products that fit the selected vehicle rise to the top (sort is stable, so the rest keep their order)
+  const selectedVehicle = customerVehicles.find((v) => v.id === selectedVehicleId) || null;
+  const fitments = new Map(filteredProducts.map((p) => [p.id, getFitmentMatch(p, selectedVehicle)]));
+  if (selectedVehicle) {
+    filteredProducts.sort((a, b) => fitments.get(b.id)!.score - fitments.get(a.id)!.score);
+  }
+  const fittingCount = filteredProducts.filter((p) => fitments.get(p.id)!.score > 0).length;
+
   // Pagination logic
   const totalPages = Math.ceil(filteredProducts.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
@@ -193,9 +751,10 @@ const Billing = () => {
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, filterType]);
+  }, [searchTerm, filterType, selectedVehicleId]);
 
-  const { subtotal, tax, total } = calculateTotals();
+  const { subtotal, lineDiscount, billDiscount, taxes, total, maxDiscountPercent } = calculateTotals();
+  const payment = calculatePayment(total);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -203,8 +762,28 @@ const Billing = () => {
       <div className="lg:col-span-2 space-y-4">
         {/* Header */}
         <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg shadow-lg p-4 text-white">
-          <h2 className="text-xl font-bold mb-1">Product Selection</h2>
-          <p className="text-blue-100 text-sm">Select products to add to cart</p>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-bold mb-1">Product Selection</h2>
+              <p className="text-blue-100 text-sm">Select products to add to cart</p>
+            </div>
+            {stockLocations.length > 1 && (
+              <div className="text-right">
+                <label className="block text-xs text-blue-100 mb-1">Selling from</label>
+                <select
+                  value={locationId ?? ''}
+                  onChange={(e) => changeLocation(parseInt(e.target.value))}
+                  disabled={cart.length > 0}
+                  title={cart.length > 0 ? 'Empty the cart to change location' : undefined}
+                  className="px-3 py-1.5 rounded-lg text-sm text-gray-900 disabled:opacity-75"
+                >
+                  {stockLocations.map((l) => (
+                    <option key={l.id} value={l.id}>{l.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Filters */}
@@ -227,11 +806,19 @@ const Billing = () => {
                 <option value="tire">Tires Only</option>
                 <option value="alloy_wheel">Wheels Only</option>
                 <option value="general">General</option>
+                <option value="service">Services</option>
+                <option value="bundle">Kits</option>
               </select>
             </div>
             <div className="flex items-center justify-between pt-2 border-t border-gray-200">
               <span className="text-sm text-gray-600">
                 {filteredProducts.length} product{filteredProducts.length !== 1 ? 's' : ''} available
+                {selectedVehicle && (
+                  <span className="ml-2 text-green-700 font-medium">
+                    • {fittingCount} fit {selectedVehicle.registration_number}
+                    {selectedVehicle.tire_size && ` (${selectedVehicle.tire_size})`}
+                  </span>
+                )}
               </span>
               <div className="flex items-center gap-2">
                 <span className="text-sm text-gray-600">View:</span>
@@ -293,21 +880,37 @@ const Billing = () => {
                         {product.size_display}
                       </div>
                     )}
+                    {fitments.get(product.id)!.score > 0 && (
+                      <div className="inline-flex mt-1 px-2 py-0.5 rounded text-xs font-semibold bg-green-100 text-green-800">
+                        ✓ Fits • {fitments.get(product.id)!.label}
+                      </div>
+                    )}
                     {product.product_type === 'alloy_wheel' && product.wheel_stud_count && product.wheel_stud_type && (
                       <div className="text-xs font-semibold text-purple-700 mt-1">
                         🔩 {product.wheel_stud_count} Stud • {product.wheel_stud_type}
                       </div>
                     )}
+                    {product.components && (
+                      <div className="text-xs text-gray-500 mt-1 truncate">
+                        {product.components.map((c) => `${c.quantity} × ${c.product_name}`).join(', ')}
+                      </div>
+                    )}
                   </div>
                   <span className={`px-2 py-1 rounded text-xs font-medium ml-2 flex-shrink-0 ${
                     product.product_type === 'tire' 
                       ? 'bg-blue-100 text-blue-800' 
                       : product.product_type === 'alloy_wheel'
                       ? 'bg-purple-100 text-purple-800'
+                      : product.product_type === 'service'
+                      ? 'bg-teal-100 text-teal-800'
+                      : product.product_type === 'bundle'
+                      ? 'bg-orange-100 text-orange-800'
                       : 'bg-gray-100 text-gray-800'
                   }`}>
                     {product.product_type === 'tire' ? 'Tire' : 
-                     product.product_type === 'alloy_wheel' ? 'Wheel' : ''}
+                     product.product_type === 'alloy_wheel' ? 'Wheel' :
+                     product.product_type === 'service' ? 'Service' :
+                     product.product_type === 'bundle' ? 'Kit' : ''}
                   </span>
                 </div>
                 <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
@@ -315,9 +918,12 @@ const Billing = () => {
                     <div className="text-sm font-semibold text-blue-600">
                       Rs. {product.price.toFixed(2)}
                     </div>
-                    <div className="text-xs text-gray-500 mt-1">
-                      Stock: <span className="font-medium">{product.stock_quantity}</span>
-                    </div>
+                    {product.product_type !== 'service' && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Stock: <span className="font-medium">{getAvailableStock(product)}</span>
+                        {(product.held_quantity || 0) > 0 && <span className="text-amber-600"> ({product.held_quantity} on hold)</span>}
+                      </div>
+                    )}
                   </div>
                   <div className="text-blue-600 group-hover:scale-110 transition-transform">
                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -367,10 +973,16 @@ const Billing = () => {
                                 ? 'bg-blue-100 text-blue-800' 
                                 : product.product_type === 'alloy_wheel'
                                 ? 'bg-purple-100 text-purple-800'
+                                : product.product_type === 'service'
+                                ? 'bg-teal-100 text-teal-800'
+                                : product.product_type === 'bundle'
+                                ? 'bg-orange-100 text-orange-800'
                                 : 'bg-gray-100 text-gray-800'
                             }`}>
                               {product.product_type === 'tire' ? 'Tire' : 
-                               product.product_type === 'alloy_wheel' ? 'Wheel' : 'General'}
+                               product.product_type === 'alloy_wheel' ? 'Wheel' :
+                               product.product_type === 'service' ? 'Service' :
+                               product.product_type === 'bundle' ? 'Kit' : 'General'}
                             </span>
                           </div>
                         </div>
@@ -380,11 +992,21 @@ const Billing = () => {
                           {product.size_display && (
                             <div className="text-blue-600 font-medium">{product.size_display}</div>
                           )}
+                          {fitments.get(product.id)!.score > 0 && (
+                            <span className="inline-flex mt-1 px-2 py-0.5 rounded text-xs font-semibold bg-green-100 text-green-800">
+                              ✓ Fits • {fitments.get(product.id)!.label}
+                            </span>
+                          )}
                           {product.product_type === 'alloy_wheel' && product.wheel_stud_count && product.wheel_stud_type && (
                             <div className="text-xs text-purple-700 mt-1">
                               🔩 {product.wheel_stud_count} Stud • {product.wheel_stud_type}
                             </div>
                           )}
+                          {product.components && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              {product.components.map((c) => `${c.quantity} × ${c.product_name}`).join(', ')}
+                            </div>
+                          )}
                         </div>
                       </td>
                       <td className="px-4 py-2.5 whitespace-nowrap text-right">
@@ -394,7 +1016,10 @@ const Billing = () => {
                       </td>
                       <td className="px-4 py-2.5 whitespace-nowrap text-right">
                         <div className="text-sm text-gray-900">
-                          <span className="font-medium">{product.stock_quantity}</span>
+                          <span className="font-medium">{product.product_type === 'service' ? '—' : getAvailableStock(product)}</span>
+                          {(product.held_quantity || 0) > 0 && (
+                            <span className="block text-xs text-amber-600">{product.held_quantity} on hold</span>
+                          )}
                         </div>
                       </td>
                       <td className="px-4 py-2.5 whitespace-nowrap text-center">
@@ -508,6 +1133,25 @@ const Billing = () => {
               <h3 className="text-xl font-bold mb-1">Shopping Cart</h3>
               <p className="text-green-100 text-sm">{cart.length} item{cart.length !== 1 ? 's' : ''}</p>
             </div>
+            <div className="flex items-center gap-2">
+            {parkedCarts.length > 0 && (
+              <button
+                onClick={() => setShowParkedCarts(true)}
+                className="px-3 py-1.5 bg-white bg-opacity-20 hover:bg-opacity-30 rounded-lg text-sm font-medium transition-all"
+                title="Carts parked for other customers"
+              >
+                Parked ({parkedCarts.length})
+              </button>
+            )}
+            {cart.length > 0 && (
+              <button
+                onClick={openParkModal}
+                className="px-3 py-1.5 bg-white bg-opacity-20 hover:bg-opacity-30 rounded-lg text-sm font-medium transition-all"
+                title="Put this cart on hold and serve another customer"
+              >
+                Park
+              </button>
+            )}
             {cart.length > 0 && (
               <button
                 onClick={clearCart}
@@ -520,8 +1164,20 @@ const Billing = () => {
                 Clear All
               </button>
             )}
+            </div>
           </div>
         </div>
+        {quotation && (
+          <div className="flex items-center justify-between px-4 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+            <span>
+              Invoicing quotation <span className="font-semibold">{quotation.quotation_number}</span>
+              {quotation.status === 'expired' && ' (expired, current prices apply)'}
+            </span>
+            <button onClick={() => setQuotation(null)} className="text-blue-600 hover:text-blue-800 font-medium">
+              Unlink
+            </button>
+          </div>
+        )}
         <div className="bg-white rounded-lg shadow p-6 flex flex-col" style={{ maxHeight: 'calc(100vh - 200px)' }}>
           {cart.length === 0 ? (
             <div className="text-center py-12">
@@ -534,15 +1190,59 @@ const Billing = () => {
           ) : (
             <>
               <div className="space-y-2 mb-4 overflow-y-auto pr-2 flex-1 min-h-0 scrollbar-thin" style={{ maxHeight: '200px' }}>
-                {cart.map((item) => (
+                {cart.map((item, index) => (
                   <div
                     key={item.product_id}
-                    className="flex items-center justify-between p-2 bg-gradient-to-r from-gray-50 to-white rounded border border-gray-200 hover:border-green-300 transition-all"
+                    className={`flex items-center justify-between p-2 bg-gradient-to-r from-gray-50 to-white rounded border transition-all ${
+                      saleProblems.some((problem) => problem.line === index) ? 'border-red-400' : 'border-gray-200 hover:border-green-300'
+                    }`}
                   >
                     <div className="flex-1 min-w-0 pr-2">
                       <div className="font-medium text-xs text-gray-900 truncate">{item.product_name}</div>
+                      {products.find((p) => p.id === item.product_id)?.components?.map((component) => (
+                        <div key={component.component_id} className="text-xs text-gray-500 pl-2 truncate">
+                          {component.quantity * item.quantity} × {component.product_name}
+                        </div>
+                      ))}
+                      {(products.find((p) => p.id === item.product_id)?.unit_count || 0) > 0 && (
+                        <button
+                          onClick={() => openUnitPicker(item)}
+                          className="block text-xs text-teal-700 hover:text-teal-900 truncate max-w-full"
+                          title="Choose the tires by DOT code"
+                        >
+                          DOT: {item.picked_units?.length ? item.picked_units.map((unit) => unit.dot_code).join(', ') : 'oldest first'}
+                        </button>
+                      )}
                       <div className="text-xs text-gray-600">
                         Rs.{item.unit_price.toFixed(2)} × {item.quantity} = Rs.{item.total_price.toFixed(2)}
+                        {getLineDiscount(item) > 0 && (
+                          <span className="text-orange-600"> − {getLineDiscount(item).toFixed(2)}</span>
+                        )}
+                      </div>
+                      {saleProblems.filter((problem) => problem.line === index).map((problem) => (
+                        <div key={`${problem.code}-${problem.product_id}`} className="text-xs text-red-600">
+                          {problem.message}
+                        </div>
+                      ))}
+                      <div className="flex items-center gap-1 mt-0.5">
+                        <span className="text-xs text-gray-500">Disc.</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.discount_value}
+                          onChange={(e) => updateLineDiscount(item.product_id, { discount_value: e.target.value })}
+                          placeholder="0"
+                          className="w-14 text-xs border border-gray-300 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        <select
+                          value={item.discount_type}
+                          onChange={(e) => updateLineDiscount(item.product_id, { discount_type: e.target.value as DiscountType })}
+                          className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+                        >
+                          <option value="percent">%</option>
+                          <option value="amount">Rs.</option>
+                        </select>
                       </div>
                     </div>
                     <div className="flex items-center space-x-1 flex-shrink-0">
@@ -567,9 +1267,9 @@ const Billing = () => {
                           if (product) {
                             if (newQuantity < 1) {
                               updateCartItem(item.product_id, 1);
-                            } else if (newQuantity > product.stock_quantity) {
-                              alert(`Only ${product.stock_quantity} items available in stock`);
-                              updateCartItem(item.product_id, product.stock_quantity);
+                            } else if (newQuantity > getSellableQuantity(product)) {
+                              alert(`Only ${getSellableQuantity(product)} items available in stock`);
+                              updateCartItem(item.product_id, getSellableQuantity(product));
                             } else {
                               updateCartItem(item.product_id, newQuantity);
                             }
@@ -607,24 +1307,44 @@ const Billing = () => {
                   <span className="font-medium">Subtotal:</span>
                   <span className="font-semibold">Rs. {subtotal.toFixed(2)}</span>
                 </div>
+                {lineDiscount > 0 && (
+                  <div className="flex justify-between text-xs text-orange-600">
+                    <span className="font-medium">Item Discounts:</span>
+                    <span className="font-semibold">− Rs. {lineDiscount.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between text-xs text-gray-700">
                   <div className="flex items-center gap-2">
-                    <span className="font-medium">Tax:</span>
+                    <span className="font-medium">Bill Discount:</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={billDiscountValue}
+                      onChange={(e) => setBillDiscountValue(e.target.value)}
+                      placeholder="0"
+                      className="w-16 px-2 py-0.5 border border-gray-300 rounded text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                    />
                     <select
-                      value={taxRate}
-                      onChange={(e) => setTaxRate(Number(e.target.value))}
+                      value={billDiscountType}
+                      onChange={(e) => setBillDiscountType(e.target.value as DiscountType)}
                       className="px-2 py-0.5 border border-gray-300 rounded text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
                     >
-                      <option value={0}>0%</option>
-                      <option value={5}>5%</option>
-                      <option value={10}>10%</option>
-                      <option value={15}>15%</option>
-                      <option value={18}>18%</option>
-                      <option value={20}>20%</option>
+                      <option value="percent">%</option>
+                      <option value="amount">Rs.</option>
                     </select>
                   </div>
-                  <span className="font-semibold">Rs. {tax.toFixed(2)}</span>
+                  <span className="font-semibold text-orange-600">{billDiscount > 0 ? `− Rs. ${billDiscount.toFixed(2)}` : '-'}</span>
                 </div>
+                {maxDiscountPercent > discountLimit && (
+                  <p className="text-xs text-red-600">Discount over {discountLimit}% — admin approval needed at checkout</p>
+                )}
+                {taxes.map((tax) => (
+                  <div key={`${tax.tax_name}-${tax.rate}-${tax.is_inclusive}`} className="flex justify-between text-xs text-gray-700">
+                    <span className="font-medium">{formatTaxLabel(tax)}:</span>
+                    <span className={tax.is_inclusive ? 'text-gray-500' : 'font-semibold'}>Rs. {tax.tax_amount.toFixed(2)}</span>
+                  </div>
+                ))}
                 <div className="border-t border-gray-300 pt-1.5 mt-1.5">
                   <div className="flex justify-between">
                     <span className="text-base font-bold text-gray-900">Total:</span>
@@ -636,54 +1356,445 @@ const Billing = () => {
           )}
 
           <div className="mt-auto space-y-4 flex-shrink-0">
-            <div>
+            <div className="relative">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Customer Name
+                Customer Phone
               </label>
               <input
                 type="text"
-                value={customerName}
-                onChange={(e) => setCustomerName(e.target.value)}
+                value={customerPhone}
+                onChange={(e) => {
+                  setCustomerPhone(e.target.value);
+                  clearCustomer();
+                }}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Optional"
+                placeholder="Optional - finds returning customers"
               />
+              {customerSuggestions.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                  {customerSuggestions.map((customer) => (
+                    <button
+                      type="button"
+                      key={customer.id}
+                      onClick={() => selectCustomer(customer)}
+                      className="w-full text-left px-3 py-2 hover:bg-blue-50 text-sm"
+                    >
+                      <span className="font-medium text-gray-900">{customer.phone}</span>
+                      <span className="text-gray-600 ml-2">{customer.name || 'No name'}</span>
+                      <span className="block text-xs text-gray-500">
+                        {customer.visit_count || 0} visit{customer.visit_count !== 1 ? 's' : ''} • Rs. {(customer.total_spent || 0).toFixed(2)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {selectedCustomer && (
+                <p className="mt-1 text-xs text-green-700">
+                  Returning customer • {selectedCustomer.visit_count || 0} visit{selectedCustomer.visit_count !== 1 ? 's' : ''}
+                </p>
+              )}
+              {selectedCustomer && selectedCustomer.credit_limit != null && (
+                <p className="mt-1 text-xs text-orange-700">
+                  Credit account • Rs. {(selectedCustomer.balance_due || 0).toFixed(2)} owed • Rs. {Math.max(0, selectedCustomer.credit_limit - (selectedCustomer.balance_due || 0)).toFixed(2)} available
+                </p>
+              )}
+              {selectedCustomer && (selectedCustomer.store_credit || 0) > 0 && (
+                <p className="mt-1 text-xs text-blue-700">
+                  Store credit • Rs. {(selectedCustomer.store_credit || 0).toFixed(2)} to spend
+                </p>
+              )}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Customer Phone
+                Customer Name
               </label>
               <input
                 type="text"
-                value={customerPhone}
-                onChange={(e) => setCustomerPhone(e.target.value)}
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 placeholder="Optional"
               />
             </div>
+            {selectedCustomer && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Vehicle
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setShowVehicleModal(true)}
+                    className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    + Add Vehicle
+                  </button>
+                </div>
+                <select
+                  value={selectedVehicleId ?? ''}
+                  onChange={(e) => setSelectedVehicleId(e.target.value ? Number(e.target.value) : null)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">{customerVehicles.length === 0 ? 'No vehicles registered' : 'No vehicle'}</option>
+                  {customerVehicles.map((vehicle) => (
+                    <option key={vehicle.id} value={vehicle.id}>
+                      {vehicle.registration_number}
+                      {vehicle.make || vehicle.model ? ` - ${[vehicle.make, vehicle.model].filter(Boolean).join(' ')}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Payment Method
-              </label>
-              <select
-                value={paymentMethod}
-                onChange={(e) => setPaymentMethod(e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value="cash">Cash</option>
-                <option value="card">Card</option>
-                <option value="mobile">Mobile Payment</option>
-              </select>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Payment
+                </label>
+                <button
+                  type="button"
+                  onClick={addTender}
+                  className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  + Split Payment
+                </button>
+              </div>
+              <div className="space-y-2">
+                {tenders.map((tender, index) => (
+                  <div key={index} className="flex gap-2 items-center">
+                    <select
+                      value={tender.payment_method}
+                      onChange={(e) => updateTender(index, { payment_method: e.target.value as PaymentMethod })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => (
+                        <option
+                          key={method}
+                          value={method}
+                          disabled={
+                            (method === 'credit' && selectedCustomer?.credit_limit == null) ||
+                            (method === 'store_credit' && !((selectedCustomer?.store_credit || 0) > 0))
+                          }
+                        >
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={tender.amount}
+                      onChange={(e) => updateTender(index, { amount: e.target.value })}
+                      placeholder={tenders.length === 1 ? total.toFixed(2) : '0.00'}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    {tender.payment_method !== 'cash' && (
+                      <input
+                        type="text"
+                        value={tender.reference}
+                        onChange={(e) => updateTender(index, { reference: e.target.value })}
+                        placeholder="Ref."
+                        className="w-20 px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    )}
+                    {tenders.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => removeTender(index)}
+                        className="px-1.5 text-red-600 hover:text-red-800"
+                        title="Remove"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {cart.length > 0 && (
+                <div className="mt-2 text-sm">
+                  {payment.balance > 0 ? (
+                    <div className="flex justify-between text-red-600 font-semibold">
+                      <span>Balance Due:</span>
+                      <span>Rs. {payment.balance.toFixed(2)}</span>
+                    </div>
+                  ) : payment.change > 0 ? (
+                    <div className="flex justify-between text-green-700 font-semibold">
+                      <span>Change Due:</span>
+                      <span>Rs. {payment.change.toFixed(2)}</span>
+                    </div>
+                  ) : null}
+                </div>
+              )}
             </div>
             <button
-              onClick={handleCheckout}
+              onClick={() => handleCheckout()}
               disabled={cart.length === 0}
               className="w-full px-4 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed font-semibold shadow-lg hover:shadow-xl transition-all"
             >
-              Checkout
+              {quotation ? `Invoice ${quotation.quotation_number}` : 'Checkout'}
             </button>
+            {!quotation && (
+              <button
+                onClick={openQuoteModal}
+                disabled={cart.length === 0}
+                className="w-full mt-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+              >
+                Save as Quote
+              </button>
+            )}
           </div>
         </div>
       </div>
+
+      {unitPicker && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold mb-2">Choose Tires</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Pick up to {unitPicker.item.quantity} {unitPicker.item.product_name} by DOT code. Any not picked are the oldest in stock.
+            </p>
+            <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-200 mb-4">
+              {unitPicker.units.map((unit) => (
+                <label key={unit.id} className="flex items-center gap-3 px-3 py-2 text-sm hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={unitPicker.selected.includes(unit.id)}
+                    onChange={() => toggleUnit(unit.id)}
+                    disabled={!unitPicker.selected.includes(unit.id) && unitPicker.selected.length >= unitPicker.item.quantity}
+                  />
+                  <span className="font-mono font-semibold text-gray-900">{unit.dot_code}</span>
+                  <span className="text-gray-500">{formatTireAge(unit.manufactured_on)} old</span>
+                  {unit.serial_number && <span className="ml-auto text-xs text-gray-500">{unit.serial_number}</span>}
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setUnitPicker(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => setUnitPicker({ ...unitPicker, selected: [] })}
+                className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Oldest First
+              </button>
+              <button
+                type="button"
+                onClick={savePickedUnits}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showQuoteModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm">
+            <h2 className="text-xl font-bold mb-2">Save as Quote</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Quote Rs. {total.toFixed(2)} for this cart. Stock is not reserved.
+            </p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSaveQuote();
+              }}
+              className="space-y-3"
+            >
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Valid until *</label>
+                <input
+                  type="date"
+                  value={quoteValidUntil}
+                  onChange={(e) => setQuoteValidUntil(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={quoteNotes}
+                  onChange={(e) => setQuoteNotes(e.target.value)}
+                  rows={3}
+                  placeholder="Printed on the quotation"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-1">
+                <button
+                  type="button"
+                  onClick={() => setShowQuoteModal(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!quoteValidUntil}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  Save Quote
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showParkModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm">
+            <h2 className="text-xl font-bold mb-2">Park Cart</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              The {cart.length} item{cart.length !== 1 ? 's' : ''} in this cart will be held until it is resumed.
+            </p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handlePark();
+              }}
+            >
+              <input
+                type="text"
+                value={parkLabel}
+                onChange={(e) => setParkLabel(e.target.value)}
+                placeholder="Customer name or vehicle plate"
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowParkModal(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!parkLabel.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  Park
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showParkedCarts && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold">Parked Carts</h2>
+              <button onClick={() => setShowParkedCarts(false)} className="text-gray-400 hover:text-gray-600">✕</button>
+            </div>
+            {parkedCarts.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">No carts parked</p>
+            ) : (
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {parkedCarts.map((parked) => (
+                  <div key={parked.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900">{parked.label}</p>
+                      <p className="text-xs text-gray-500">
+                        {parked.total_quantity} item{parked.total_quantity !== 1 ? 's' : ''} • Rs. {(parked.gross_total || 0).toFixed(2)} •{' '}
+                        <span className={(parked.age_minutes || 0) >= 60 ? 'text-amber-600' : ''}>{formatAge(parked.age_minutes || 0)}</span>
+                        {stockLocations.length > 1 && parked.location_id && (
+                          <> • {stockLocations.find((l) => l.id === parked.location_id)?.name}</>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleResume(parked)}
+                        className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+                      >
+                        Resume
+                      </button>
+                      <button
+                        onClick={() => handleDiscardParked(parked)}
+                        className="px-3 py-1 text-red-600 hover:bg-red-50 rounded-md text-sm"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showDiscountApproval && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm">
+            <h2 className="text-xl font-bold mb-2">Approve Discount</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              This bill has a {maxDiscountPercent.toFixed(1)}% discount, over the {discountLimit}% limit. Enter the admin password to approve it.
+            </p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (!discountPassword) return;
+                setShowDiscountApproval(false);
+                const approve = approvalFor === 'quote' ? handleSaveQuote : handleCheckout;
+                approve(discountPassword).finally(() => setDiscountPassword(''));
+              }}
+            >
+              <input
+                type="password"
+                value={discountPassword}
+                onChange={(e) => setDiscountPassword(e.target.value)}
+                placeholder="Admin password"
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowDiscountApproval(false);
+                    setDiscountPassword('');
+                  }}
+                  className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!discountPassword}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  Approve
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showVehicleModal && selectedCustomer && (
+        <VehicleModal
+          customerId={selectedCustomer.id}
+          vehicle={null}
+          onClose={() => setShowVehicleModal(false)}
+          onSave={(id) => {
+            setShowVehicleModal(false);
+            loadVehicles(selectedCustomer.id, id);
+          }}
+        />
+      )}
     </div>
   );
 };
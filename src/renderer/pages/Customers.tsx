@@ -0,0 +1,866 @@
+import { useEffect, useState } from 'react';
+import { Customer, CustomerDetail as CustomerDetailData, CustomerInvoice, PaymentMethod, ProductType, Vehicle } from '../types';
+import VehicleModal from '../components/VehicleModal';
+import { generateStatementPDF } from '../utils/statement';
+
+const formatDate = (dateStr?: string) => {
+  if (!dateStr) return '-';
+  const datePart = dateStr.toString().split(' ')[0];
+  const [year, month, day] = datePart.split('-');
+  const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+const PRODUCT_TYPE_LABELS: Record<ProductType, string> = {
+  tire: 'Tire',
+  alloy_wheel: 'Alloy Wheel',
+  general: 'General',
+  service: 'Service',
+  bundle: 'Kit',
+};
+
+const SETTLEMENT_METHOD_LABELS: Record<Exclude<PaymentMethod, 'credit' | 'store_credit'>, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  mobile: 'Mobile Payment',
+  bank_transfer: 'Bank Transfer',
+  cheque: 'Cheque',
+};
+
+const Customers = () => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [stats, setStats] = useState({ totalCustomers: 0, repeatCustomers: 0, avgPurchase: 0 });
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedCustomerId, setSelectedCustomerId] = useState<number | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [detailVersion, setDetailVersion] = useState(0);
+
+  useEffect(() => {
+    loadCustomers();
+  }, []);
+
+  const loadCustomers = async () => {
+    try {
+      const [customersData, reportData] = await Promise.all([
+        window.electronAPI.customers.getAll(),
+        window.electronAPI.reports.customerReport(),
+      ]);
+      setCustomers(customersData);
+      setStats(reportData);
+    } catch (error) {
+      console.error('Error loading customers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    if (!confirm(`Delete customer "${customer.name || customer.phone}"?`)) {
+      return;
+    }
+    try {
+      await window.electronAPI.customers.delete(customer.id);
+      setSelectedCustomerId(null);
+      loadCustomers();
+    } catch (error: any) {
+      console.error('Error deleting customer:', error);
+      alert(error?.message || 'Failed to delete customer');
+    }
+  };
+
+  const searchDigits = searchTerm.replace(/\D/g, '');
+  const filteredCustomers = customers.filter((c) =>
+    !searchTerm.trim() ||
+    c.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (searchDigits !== '' && c.phone.includes(searchDigits))
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <p className="ml-3 text-gray-600">Loading customers...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg shadow-lg p-6 text-white">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold mb-2">Customers</h2>
+            <p className="text-blue-100 text-sm">Customer records, visit history and purchases</p>
+          </div>
+          <div className="flex gap-3">
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Customers</p>
+              <p className="text-2xl font-bold text-blue-600">{stats.totalCustomers}</p>
+            </div>
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Repeat Customers</p>
+              <p className="text-2xl font-bold text-purple-600">{stats.repeatCustomers}</p>
+            </div>
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Avg. Bill</p>
+              <p className="text-2xl font-bold text-green-600">Rs. {stats.avgPurchase.toFixed(0)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Customer List */}
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Search name or phone..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={() => {
+                  setEditingCustomer(null);
+                  setShowModal(true);
+                }}
+                className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+              >
+                + Add
+              </button>
+            </div>
+            {filteredCustomers.length === 0 ? (
+              <p className="text-gray-500 text-sm text-center py-8">No customers found</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-[32rem] overflow-y-auto">
+                {filteredCustomers.map((customer) => (
+                  <button
+                    key={customer.id}
+                    onClick={() => setSelectedCustomerId(customer.id)}
+                    className={`w-full text-left px-4 py-3 transition-colors ${
+                      selectedCustomerId === customer.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <p className="text-sm font-semibold text-gray-900">{customer.name || 'No name'}</p>
+                        <p className="text-xs text-gray-500">
+                          {customer.phone} • {customer.visit_count || 0} visit{customer.visit_count !== 1 ? 's' : ''}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-semibold text-green-600">Rs. {(customer.total_spent || 0).toFixed(2)}</p>
+                        {(customer.balance_due || 0) > 0 && (
+                          <p className="text-xs font-medium text-orange-600">Rs. {(customer.balance_due || 0).toFixed(2)} owed</p>
+                        )}
+                        {(customer.store_credit || 0) > 0 && (
+                          <p className="text-xs font-medium text-blue-600">Rs. {(customer.store_credit || 0).toFixed(2)} store credit</p>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Customer Detail */}
+          <div className="lg:col-span-2">
+            {selectedCustomerId ? (
+              <CustomerDetail
+                key={detailVersion}
+                customerId={selectedCustomerId}
+                onEdit={(customer) => {
+                  setEditingCustomer(customer);
+                  setShowModal(true);
+                }}
+                onDelete={handleDelete}
+                onAccountChange={loadCustomers}
+              />
+            ) : (
+              <div className="border-2 border-dashed border-gray-200 rounded-lg p-12 text-center">
+                <p className="text-gray-500">Select a customer to view their visits and purchases</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showModal && (
+        <CustomerModal
+          customer={editingCustomer}
+          onClose={() => {
+            setShowModal(false);
+            setEditingCustomer(null);
+          }}
+          onSave={(id) => {
+            setShowModal(false);
+            setEditingCustomer(null);
+            setSelectedCustomerId(id);
+            setDetailVersion((v) => v + 1);
+            loadCustomers();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface CustomerDetailProps {
+  customerId: number;
+  onEdit: (customer: Customer) => void;
+  onDelete: (customer: Customer) => void;
+  onAccountChange: () => void;
+}
+
+const CustomerDetail = ({ customerId, onEdit, onDelete, onAccountChange }: CustomerDetailProps) => {
+  const [customer, setCustomer] = useState<CustomerDetailData | null>(null);
+  const [itemFilter, setItemFilter] = useState<ProductType | 'all'>('all');
+  const [showVehicleModal, setShowVehicleModal] = useState(false);
+  const [editingVehicle, setEditingVehicle] = useState<Vehicle | null>(null);
+  const [showSettlementModal, setShowSettlementModal] = useState(false);
+
+  useEffect(() => {
+    loadDetail();
+  }, [customerId]);
+
+  const loadDetail = async () => {
+    try {
+      const data = await window.electronAPI.customers.getById(customerId);
+      setCustomer(data);
+    } catch (error) {
+      console.error('Error loading customer details:', error);
+    }
+  };
+
+  const handleDeleteVehicle = async (vehicle: Vehicle) => {
+    if (!confirm(`Remove vehicle ${vehicle.registration_number}?`)) return;
+    try {
+      await window.electronAPI.vehicles.delete(vehicle.id);
+      loadDetail();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to delete vehicle');
+    }
+  };
+
+  const handleStatement = async () => {
+    try {
+      const statement = await window.electronAPI.credit.getStatement(customerId);
+      generateStatementPDF(statement);
+    } catch (error: any) {
+      console.error('Error generating statement:', error);
+      alert(error?.message || 'Failed to generate statement');
+    }
+  };
+
+  if (!customer) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const filteredItems = customer.items.filter((item) => itemFilter === 'all' || item.product_type === itemFilter);
+  const openInvoices = customer.invoices
+    .filter((invoice) => invoice.balance_due > 0 && invoice.status !== 'void')
+    .reverse();
+  const balanceDue = customer.balance_due || 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Customer Info */}
+      <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">{customer.name || 'No name'}</h3>
+            <div className="mt-2 grid grid-cols-2 gap-x-8 gap-y-1 text-sm text-gray-600">
+              <p><span className="text-gray-500">Phone:</span> {customer.phone}</p>
+              <p><span className="text-gray-500">Email:</span> {customer.email || '-'}</p>
+              <p><span className="text-gray-500">Address:</span> {customer.address || '-'}</p>
+              <p><span className="text-gray-500">Since:</span> {formatDate(customer.created_at)}</p>
+            </div>
+            {customer.notes && <p className="mt-2 text-sm text-gray-500 italic">{customer.notes}</p>}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onEdit(customer)}
+              className="px-3 py-1 text-xs font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => onDelete(customer)}
+              className="px-3 py-1 text-xs font-medium text-red-600 hover:text-red-800 hover:bg-red-50 rounded transition-colors"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Lifetime Summary */}
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+          <p className="text-xs text-gray-600 mb-1">Lifetime Spend</p>
+          <p className="text-xl font-bold text-blue-600">Rs. {(customer.total_spent || 0).toFixed(2)}</p>
+        </div>
+        <div className="bg-purple-50 rounded-lg p-4 border border-purple-200">
+          <p className="text-xs text-gray-600 mb-1">Visits</p>
+          <p className="text-xl font-bold text-purple-600">{customer.visit_count || 0}</p>
+        </div>
+        <div className="bg-green-50 rounded-lg p-4 border border-green-200">
+          <p className="text-xs text-gray-600 mb-1">Last Visit</p>
+          <p className="text-xl font-bold text-green-600">{formatDate(customer.last_visit)}</p>
+        </div>
+      </div>
+
+      {(customer.store_credit || 0) > 0 && (
+        <div className="border border-blue-200 rounded-lg px-4 py-3 bg-blue-50 flex justify-between items-center">
+          <p className="text-sm text-gray-700">Store credit from returns, spendable in Billing</p>
+          <p className="text-lg font-bold text-blue-600">Rs. {(customer.store_credit || 0).toFixed(2)}</p>
+        </div>
+      )}
+
+      {/* Credit Account */}
+      {(customer.credit_limit != null || balanceDue > 0) && (
+        <div className="border border-orange-200 rounded-lg p-4 bg-orange-50">
+          <div className="flex justify-between items-center mb-3">
+            <h4 className="text-lg font-semibold text-gray-900">Credit Account</h4>
+            <div className="flex gap-2">
+              <button
+                onClick={handleStatement}
+                className="px-3 py-1 border border-gray-300 bg-white text-gray-700 rounded-md hover:bg-gray-50 text-sm"
+              >
+                Statement PDF
+              </button>
+              <button
+                onClick={() => setShowSettlementModal(true)}
+                disabled={balanceDue <= 0}
+                className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm disabled:bg-gray-400"
+              >
+                Receive Payment
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-xs text-gray-600">Balance Owed</p>
+              <p className="text-lg font-bold text-orange-600">Rs. {balanceDue.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-600">Credit Limit</p>
+              <p className="text-lg font-bold text-gray-900">
+                {customer.credit_limit != null ? `Rs. ${customer.credit_limit.toFixed(2)}` : 'Closed'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-600">Available</p>
+              <p className="text-lg font-bold text-green-600">
+                Rs. {Math.max(0, (customer.credit_limit || 0) - balanceDue).toFixed(2)}
+              </p>
+            </div>
+          </div>
+          {openInvoices.length > 0 && (
+            <div className="mt-3 border border-orange-200 rounded-lg overflow-hidden bg-white">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Invoice</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {openInvoices.map((invoice) => (
+                    <tr key={invoice.id}>
+                      <td className="px-4 py-2 text-sm">{formatDate(invoice.created_at)}</td>
+                      <td className="px-4 py-2 text-sm font-medium">{invoice.invoice_number}</td>
+                      <td className="px-4 py-2 text-sm text-right">Rs. {invoice.total_amount.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-sm font-semibold text-orange-600 text-right">Rs. {invoice.balance_due.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Vehicles */}
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h4 className="text-lg font-semibold text-gray-900">Vehicles</h4>
+          <button
+            onClick={() => {
+              setEditingVehicle(null);
+              setShowVehicleModal(true);
+            }}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+          >
+            + Add Vehicle
+          </button>
+        </div>
+        {customer.vehicles.length === 0 ? (
+          <p className="text-gray-500 text-sm">No vehicles registered</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {customer.vehicles.map((vehicle) => (
+              <div key={vehicle.id} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-semibold text-gray-900">{vehicle.registration_number}</p>
+                    <p className="text-sm text-gray-600">
+                      {[vehicle.make, vehicle.model, vehicle.year].filter(Boolean).join(' ') || 'Unknown vehicle'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => {
+                        setEditingVehicle(vehicle);
+                        setShowVehicleModal(true);
+                      }}
+                      className="px-2 py-1 text-xs text-gray-700 hover:bg-gray-100 rounded"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDeleteVehicle(vehicle)}
+                      className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                  {vehicle.tire_size && (
+                    <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-800 font-medium">{vehicle.tire_size}</span>
+                  )}
+                  {vehicle.wheel_pcd && (
+                    <span className="px-2 py-0.5 rounded bg-purple-100 text-purple-800 font-medium">PCD {vehicle.wheel_pcd}</span>
+                  )}
+                  {vehicle.wheel_stud_count && (
+                    <span className="px-2 py-0.5 rounded bg-purple-100 text-purple-800 font-medium">{vehicle.wheel_stud_count} Stud</span>
+                  )}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  {vehicle.visit_count || 0} visit{vehicle.visit_count !== 1 ? 's' : ''} • Last: {formatDate(vehicle.last_visit)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Visit History */}
+      <div>
+        <h4 className="text-lg font-semibold text-gray-900 mb-3">Visit History</h4>
+        {customer.invoices.length === 0 ? (
+          <p className="text-gray-500 text-sm">No invoices yet</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Invoice</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Vehicle</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Items</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {customer.invoices.map((invoice) => (
+                  <tr key={invoice.id} className={invoice.status === 'void' ? 'text-gray-400' : ''}>
+                    <td className="px-4 py-2 text-sm">{formatDate(invoice.created_at)}</td>
+                    <td className="px-4 py-2 text-sm font-medium">
+                      {invoice.invoice_number}
+                      {invoice.status === 'void' && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">Void</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{invoice.registration_number || '-'}</td>
+                    <td className="px-4 py-2 text-sm text-right">{invoice.item_count}</td>
+                    <td className={`px-4 py-2 text-sm font-semibold text-right ${invoice.status === 'void' ? 'line-through' : 'text-gray-900'}`}>
+                      Rs. {invoice.total_amount.toFixed(2)}
+                      {invoice.returned_amount > 0 && (
+                        <span className="block text-xs font-normal text-orange-600">
+                          - Rs. {invoice.returned_amount.toFixed(2)} returned
+                        </span>
+                      )}
+                      {invoice.balance_due > 0 && invoice.status !== 'void' && (
+                        <span className="block text-xs font-normal text-orange-600">
+                          Rs. {invoice.balance_due.toFixed(2)} on account
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Items Bought */}
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h4 className="text-lg font-semibold text-gray-900">Items Bought</h4>
+          <select
+            value={itemFilter}
+            onChange={(e) => setItemFilter(e.target.value as ProductType | 'all')}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            <option value="all">All Items</option>
+            <option value="tire">Tires</option>
+            <option value="alloy_wheel">Alloy Wheels</option>
+            <option value="general">General</option>
+            <option value="service">Services</option>
+            <option value="bundle">Kits</option>
+          </select>
+        </div>
+        {filteredItems.length === 0 ? (
+          <p className="text-gray-500 text-sm">No items bought</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredItems.map((item) => (
+                  <tr key={item.id}>
+                    <td className="px-4 py-2 text-sm text-gray-600">
+                      {formatDate(item.created_at)}
+                      <span className="block text-xs text-gray-400">{item.invoice_number}</span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {item.product_name}
+                      {item.size_display && <span className="text-blue-600 ml-2">{item.size_display}</span>}
+                      {item.product_type && (
+                        <span className="block text-xs text-gray-500">{PRODUCT_TYPE_LABELS[item.product_type]}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {item.quantity}
+                      {item.quantity_returned > 0 && (
+                        <span className="block text-xs text-orange-600">{item.quantity_returned} returned</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm font-semibold text-gray-900 text-right">Rs. {item.total_price.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showVehicleModal && (
+        <VehicleModal
+          customerId={customer.id}
+          vehicle={editingVehicle}
+          onClose={() => {
+            setShowVehicleModal(false);
+            setEditingVehicle(null);
+          }}
+          onSave={() => {
+            setShowVehicleModal(false);
+            setEditingVehicle(null);
+            loadDetail();
+          }}
+        />
+      )}
+
+      {showSettlementModal && (
+        <SettlementModal
+          customerId={customer.id}
+          openInvoices={openInvoices}
+          onClose={() => setShowSettlementModal(false)}
+          onSave={() => {
+            setShowSettlementModal(false);
+            loadDetail();
+            onAccountChange();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface SettlementModalProps {
+  customerId: number;
+  openInvoices: CustomerInvoice[];
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const SettlementModal = ({ customerId, openInvoices, onClose, onSave }: SettlementModalProps) => {
+  const totalOwed = openInvoices.reduce((sum, invoice) => sum + invoice.balance_due, 0);
+  const [formData, setFormData] = useState({
+    invoice_id: '',
+    amount: totalOwed.toFixed(2),
+    payment_method: 'cash' as Exclude<PaymentMethod, 'credit' | 'store_credit'>,
+    reference: '',
+    notes: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const owed = formData.invoice_id
+    ? openInvoices.find((invoice) => invoice.id === Number(formData.invoice_id))?.balance_due || 0
+    : totalOwed;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(formData.amount);
+    if (!amount || amount <= 0) {
+      alert('Enter the amount received');
+      return;
+    }
+    if (amount > owed + 0.005) {
+      alert(`Amount is more than the balance owed (Rs. ${owed.toFixed(2)})`);
+      return;
+    }
+    setSaving(true);
+    try {
+      const result = await window.electronAPI.credit.recordSettlement(customerId, {
+        amount,
+        payment_method: formData.payment_method,
+        reference: formData.reference.trim() || null,
+        notes: formData.notes.trim() || null,
+        invoice_id: formData.invoice_id ? Number(formData.invoice_id) : null,
+      });
+      alert(
+        `Payment ${result.settlement_number} of Rs. ${result.amount.toFixed(2)} recorded against ${result.allocations
+          .map((allocation: { invoice_number: string }) => allocation.invoice_number)
+          .join(', ')}`
+      );
+      onSave();
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      alert(error?.message || 'Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold mb-4">Receive Payment</h2>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Apply To</label>
+            <select
+              value={formData.invoice_id}
+              onChange={(e) => {
+                const invoice = openInvoices.find((open) => open.id === Number(e.target.value));
+                setFormData({
+                  ...formData,
+                  invoice_id: e.target.value,
+                  amount: (invoice ? invoice.balance_due : totalOwed).toFixed(2),
+                });
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">Oldest invoices first (Rs. {totalOwed.toFixed(2)} owed)</option>
+              {openInvoices.map((invoice) => (
+                <option key={invoice.id} value={invoice.id}>
+                  {invoice.invoice_number} - Rs. {invoice.balance_due.toFixed(2)} ({formatDate(invoice.created_at)})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount *</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+              <select
+                value={formData.payment_method}
+                onChange={(e) => setFormData({ ...formData, payment_method: e.target.value as Exclude<PaymentMethod, 'credit' | 'store_credit'> })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {(Object.keys(SETTLEMENT_METHOD_LABELS) as Array<Exclude<PaymentMethod, 'credit' | 'store_credit'>>).map((method) => (
+                  <option key={method} value={method}>{SETTLEMENT_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {formData.payment_method !== 'cash' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+              <input
+                type="text"
+                value={formData.reference}
+                onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                placeholder="Cheque number, transfer reference..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : 'Record Payment'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+interface CustomerModalProps {
+  customer: Customer | null;
+  onClose: () => void;
+  onSave: (id: number) => void;
+}
+
+const CustomerModal = ({ customer, onClose, onSave }: CustomerModalProps) => {
+  const [formData, setFormData] = useState({
+    name: customer?.name || '',
+    phone: customer?.phone || '',
+    email: customer?.email || '',
+    address: customer?.address || '',
+    notes: customer?.notes || '',
+    credit_limit: customer?.credit_limit != null ? customer.credit_limit.toString() : '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.phone.trim()) {
+      alert('Phone number is required');
+      return;
+    }
+    setSaving(true);
+    try {
+      const data = {
+        ...formData,
+        name: formData.name.trim(),
+        credit_limit: formData.credit_limit.trim() === '' ? null : parseFloat(formData.credit_limit),
+      };
+      if (customer) {
+        await window.electronAPI.customers.update(customer.id, data);
+        onSave(customer.id);
+      } else {
+        const created = await window.electronAPI.customers.create(data);
+        onSave(Number(created.id));
+      }
+    } catch (error: any) {
+      console.error('Error saving customer:', error);
+      alert(error?.message || 'Failed to save customer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fields: Array<{ key: Exclude<keyof typeof formData, 'credit_limit'>; label: string; type?: string }> = [
+    { key: 'name', label: 'Name' },
+    { key: 'phone', label: 'Phone *', type: 'tel' },
+    { key: 'email', label: 'Email', type: 'email' },
+    { key: 'address', label: 'Address' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold mb-4">{customer ? 'Edit Customer' : 'Add Customer'}</h2>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {fields.map((field) => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+              <input
+                type={field.type || 'text'}
+                value={formData[field.key]}
+                onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Credit Limit (Rs.)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.credit_limit}
+              onChange={(e) => setFormData({ ...formData, credit_limit: e.target.value })}
+              placeholder="Blank = no credit account"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default Customers;
@@ -38,7 +38,20 @@ interface ProductCategoryData {
   value: number;
 }
 
+interface ProfitData {
+  date: string;
+  sales: number; // before tax, net of returns
+  profit: number;
+}
+
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'];
+const PROFIT_TREND_DAYS = 30;
+
+// Local YYYY-MM-DD, the same form invoices are dated in
+const toLocalDateStr = (date: Date) =>
+  date.getFullYear() + '-' +
+  String(date.getMonth() + 1).padStart(2, '0') + '-' +
+  String(date.getDate()).padStart(2, '0');
 
 const Dashboard = () => {
   const [stats, setStats] = useState<DashboardStats>({
@@ -53,6 +66,8 @@ const Dashboard = () => {
   });
   const [salesData, setSalesData] = useState<SalesData[]>([]);
   const [productTypeData, setProductTypeData] = useState<ProductCategoryData[]>([]);
+  const [profitData, setProfitData] = useState<ProfitData[]>([]);
+  const [monthProfit, setMonthProfit] = useState<{ profit: number; margin: number | null }>({ profit: 0, margin: null });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -61,12 +76,18 @@ const Dashboard = () => {
 
   const loadDashboardData = async () => {
     try {
-      const [products, lowStock, invoices] = await Promise.all([
+      const trendStart = new Date();
+      trendStart.setDate(trendStart.getDate() - (PROFIT_TREND_DAYS - 1));
+      const [products, lowStock, allInvoices, profitReport] = await Promise.all([
         window.electronAPI.products.getAll(),
         window.electronAPI.products.getLowStock(),
         window.electronAPI.invoices.getAll(),
+        window.electronAPI.reports.dateRangeSales(toLocalDateStr(trendStart), toLocalDateStr(new Date())),
       ]);
 
+      // Voided invoices stay listed in Invoices but never count as sales
+      const invoices = allInvoices.filter((inv: any) => inv.status !== 'void');
+
       // Get today's date in local timezone (format: YYYY-MM-DD)
       const today = new Date();
       const todayDateStr = 
@@ -223,7 +244,7 @@ const Dashboard = () => {
 
       const productTypeChartData: ProductCategoryData[] = Object.entries(typeCounts)
         .map(([name, value]) => ({
-          name: name === 'tire' ? 'Tires' : name === 'alloy_wheel' ? 'Alloy Wheels' : 'General',
+          name: name === 'tire' ? 'Tires' : name === 'alloy_wheel' ? 'Alloy Wheels' : name === 'service' ? 'Services' : name === 'bundle' ? 'Kits' : 'General',
           value: Number(value),
         }))
         .filter(item => item.value > 0);
@@ -245,6 +266,27 @@ const Dashboard = () => {
         invoices: 0,
       })));
       setProductTypeData(productTypeChartData.length > 0 ? productTypeChartData : []);
+
+      // Profit trend from the cost captured on each sale; days without sales show as zero
+      const profitByDate = new Map<string, any>(
+        (profitReport?.dailyBreakdown || []).map((day: any) => [day.date, day])
+      );
+      const profitChartData: ProfitData[] = [];
+      for (let i = PROFIT_TREND_DAYS - 1; i >= 0; i--) {
+        const date = new Date();
+        date.setDate(date.getDate() - i);
+        const day = profitByDate.get(toLocalDateStr(date));
+        profitChartData.push({
+          date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+          sales: day?.net_sales || 0,
+          profit: day?.gross_profit || 0,
+        });
+      }
+      setProfitData(profitChartData);
+      setMonthProfit({
+        profit: profitReport?.summary?.gross_profit || 0,
+        margin: profitReport?.summary?.margin_percent ?? null,
+      });
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -452,6 +494,69 @@ const Dashboard = () => {
         </ResponsiveContainer>
       </div>
 
+      {/* Profit Trend */}
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-800 flex items-center">
+            <span className="mr-2">💹</span> Profit Trend ({PROFIT_TREND_DAYS} Days)
+          </h3>
+          <p className="text-xs text-gray-600">
+            Gross profit <span className="font-semibold text-gray-900">Rs. {monthProfit.profit.toFixed(0)}</span>
+            {monthProfit.margin !== null && (
+              <> · margin <span className="font-semibold text-gray-900">{monthProfit.margin.toFixed(1)}%</span></>
+            )}
+          </p>
+        </div>
+        <ResponsiveContainer width="100%" height={200}>
+          <LineChart data={profitData} margin={{ top: 5, right: 10, left: 5, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis 
+              dataKey="date" 
+              tick={{ fontSize: 11 }}
+              stroke="#6b7280"
+              interval="preserveStartEnd"
+            />
+            <YAxis 
+              tick={{ fontSize: 11 }}
+              stroke="#6b7280"
+              tickFormatter={(value) => {
+                if (Math.abs(value) >= 1000) return `Rs.${(value / 1000).toFixed(0)}K`;
+                return `Rs.${value}`;
+              }}
+            />
+            <Tooltip
+              formatter={(value: number, name: string) => [`Rs. ${value.toFixed(2)}`, name]}
+              labelFormatter={(label) => `Date: ${label}`}
+              contentStyle={{ 
+                backgroundColor: '#fff', 
+                border: '1px solid #e5e7eb',
+                borderRadius: '6px',
+                fontSize: '12px',
+                padding: '8px'
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <Line
+              type="monotone"
+              dataKey="sales"
+              name="Sales (ex. tax)"
+              stroke="#3B82F6"
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="profit"
+              name="Gross Profit"
+              stroke="#10B981"
+              strokeWidth={2}
+              dot={false}
+              activeDot={{ r: 5 }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
       {/* Low Stock Details & Quick Actions - Side by Side */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
         <LowStockAlerts />
@@ -1,5 +1,9 @@
 import { useEffect, useState } from 'react';
 import { useToast } from '../hooks/useToast';
+import NumberingSettings from '../components/NumberingSettings';
+import DiscountSettings from '../components/DiscountSettings';
+import CostingSettings from '../components/CostingSettings';
+import TaxSettings from '../components/TaxSettings';
 
 interface BackupSettings {
   backupPath: string | null;
@@ -437,6 +441,21 @@ const Integration = () => {
                 </div>
               </div>
             </div>
+
+            {/* Invoice Numbering */}
+            <NumberingSettings documentType="invoice" title="Invoice Numbering" showToast={showToast} />
+
+            {/* Quotation Numbering */}
+            <NumberingSettings documentType="quotation" title="Quotation Numbering" showToast={showToast} />
+
+            {/* Discount Approval */}
+            <DiscountSettings showToast={showToast} />
+
+            {/* Inventory Costing */}
+            <CostingSettings showToast={showToast} />
+
+            {/* Tax Rates */}
+            <TaxSettings showToast={showToast} />
           </div>
         </div>
 
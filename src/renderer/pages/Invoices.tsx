@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
 import { generateReceiptPDF, printReceipt } from '../utils/receipt';
+import { CreditNote, InvoiceItem, InvoiceItemComponent, InvoicePayment, InvoiceTax, RefundMethod, Warranty } from '../types';
+import { formatTaxLabel } from '../utils/tax';
 
 interface Invoice {
   id: number;
@@ -8,8 +10,25 @@ interface Invoice {
   total_amount: number;
   created_at: string;
   payment_method: string;
+  status?: string;
 }
 
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  partially_returned: { label: 'Partially Returned', className: 'bg-yellow-100 text-yellow-800' },
+  returned: { label: 'Returned', className: 'bg-red-100 text-red-800' },
+  void: { label: 'Void', className: 'bg-gray-200 text-gray-700' },
+};
+
+const StatusBadge = ({ status }: { status?: string }) => {
+  const badge = status ? STATUS_BADGES[status] : undefined;
+  if (!badge) return null;
+  return (
+    <span className={`ml-2 px-2 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full ${badge.className}`}>
+      {badge.label}
+    </span>
+  );
+};
+
 const Invoices = () => {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [loading, setLoading] = useState(true);
@@ -270,7 +289,10 @@ const Invoices = () => {
                   <div className="p-5">
                     <div className="flex justify-between items-start mb-4">
                       <div>
-                        <h3 className="text-lg font-bold text-gray-900">{invoice.invoice_number}</h3>
+                        <h3 className="text-lg font-bold text-gray-900">
+                          {invoice.invoice_number}
+                          <StatusBadge status={invoice.status} />
+                        </h3>
                         <p className="text-sm text-gray-500 mt-1">{formatDate(invoice.created_at)}</p>
                       </div>
                       <span className={`px-3 py-1 rounded-full text-xs font-medium ${
@@ -280,7 +302,7 @@ const Invoices = () => {
                           ? 'bg-blue-100 text-blue-800'
                           : 'bg-purple-100 text-purple-800'
                       }`}>
-                        {invoice.payment_method}
+                        {invoice.payment_method.replace(/_/g, ' ')}
                       </span>
                     </div>
                     
@@ -293,7 +315,7 @@ const Invoices = () => {
                       </div>
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-gray-600">Total Amount</span>
-                        <span className="text-xl font-bold text-blue-600">
+                        <span className={`text-xl font-bold ${invoice.status === 'void' ? 'text-gray-400 line-through' : 'text-blue-600'}`}>
                           Rs. {invoice.total_amount.toFixed(2)}
                         </span>
                       </div>
@@ -347,7 +369,10 @@ const Invoices = () => {
                       onClick={() => handleViewInvoice(invoice.id)}
                     >
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-gray-900">{invoice.invoice_number}</div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {invoice.invoice_number}
+                          <StatusBadge status={invoice.status} />
+                        </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm text-gray-500">{formatDate(invoice.created_at)}</div>
@@ -363,11 +388,11 @@ const Invoices = () => {
                             ? 'bg-blue-100 text-blue-800'
                             : 'bg-purple-100 text-purple-800'
                         }`}>
-                          {invoice.payment_method}
+                          {invoice.payment_method.replace(/_/g, ' ')}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right">
-                        <div className="text-sm font-semibold text-blue-600">
+                        <div className={`text-sm font-semibold ${invoice.status === 'void' ? 'text-gray-400 line-through' : 'text-blue-600'}`}>
                           Rs. {invoice.total_amount.toFixed(2)}
                         </div>
                       </td>
@@ -475,6 +500,7 @@ const Invoices = () => {
         <InvoiceDetailModal
           invoice={selectedInvoice}
           onClose={() => setSelectedInvoice(null)}
+          onChange={loadInvoices}
         />
       )}
     </div>
@@ -484,11 +510,14 @@ const Invoices = () => {
 interface InvoiceDetailModalProps {
   invoice: Invoice;
   onClose: () => void;
+  onChange: () => void;
 }
 
-const InvoiceDetailModal = ({ invoice, onClose }: InvoiceDetailModalProps) => {
+const InvoiceDetailModal = ({ invoice, onClose, onChange }: InvoiceDetailModalProps) => {
   const [invoiceDetail, setInvoiceDetail] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [showVoidModal, setShowVoidModal] = useState(false);
 
   useEffect(() => {
     loadInvoiceDetail();
@@ -529,21 +558,38 @@ const InvoiceDetailModal = ({ invoice, onClose }: InvoiceDetailModalProps) => {
     return null;
   }
 
+  const hasReturns = invoiceDetail.items?.some((item: InvoiceItem) => (item.quantity_returned || 0) > 0);
+  const isVoid = invoiceDetail.status === 'void';
+  const canReturn = invoiceDetail.status !== 'returned' && !isVoid;
+  const canVoid = !isVoid && !invoiceDetail.credit_notes?.length;
+
   return (
     <div 
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
       onClick={onClose}
     >
       <div 
-        className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        className="relative bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
+        {/* Void Watermark */}
+        {isVoid && (
+          <div className="pointer-events-none absolute inset-0 flex items-center justify-center z-10">
+            <span className="text-9xl font-extrabold text-red-500 opacity-20 select-none" style={{ transform: 'rotate(-30deg)' }}>
+              VOID
+            </span>
+          </div>
+        )}
+
         {/* Header */}
         <div className="bg-gradient-to-r from-blue-600 to-purple-600 p-6 text-white">
           <div className="flex justify-between items-center">
             <div>
               <h2 className="text-2xl font-bold">Invoice Details</h2>
-              <p className="text-blue-100 text-sm mt-1">{invoiceDetail.invoice_number}</p>
+              <p className="text-blue-100 text-sm mt-1">
+                {invoiceDetail.invoice_number}
+                <StatusBadge status={invoiceDetail.status} />
+              </p>
             </div>
             <button
               onClick={onClose}
@@ -557,6 +603,13 @@ const InvoiceDetailModal = ({ invoice, onClose }: InvoiceDetailModalProps) => {
         <div className="p-6">
 
           <div className="space-y-6">
+            {isVoid && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+                <p className="font-semibold">This invoice was voided{invoiceDetail.voided_at ? ` on ${invoiceDetail.voided_at}` : ''}.</p>
+                {invoiceDetail.void_reason && <p className="mt-1">Reason: {invoiceDetail.void_reason}</p>}
+              </div>
+            )}
+
             {/* Invoice Info Cards */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
@@ -580,7 +633,25 @@ const InvoiceDetailModal = ({ invoice, onClose }: InvoiceDetailModalProps) => {
               )}
               <div className="bg-purple-50 rounded-lg p-4 border border-purple-200">
                 <p className="text-xs text-purple-600 font-medium mb-1">Payment Method</p>
-                <p className="text-sm font-semibold text-gray-900 capitalize">{invoiceDetail.payment_method}</p>
+                <p className="text-sm font-semibold text-gray-900 capitalize">{invoiceDetail.payment_method.replace(/_/g, ' ')}</p>
+                {invoiceDetail.payments && (invoiceDetail.payments.length > 1 || invoiceDetail.change_due > 0) && (
+                  <div className="mt-1 space-y-0.5">
+                    {invoiceDetail.payments.map((payment: InvoicePayment) => (
+                      <p key={payment.id} className="text-xs text-gray-600 capitalize">
+                        {payment.payment_method.replace(/_/g, ' ')}: Rs. {payment.tendered.toFixed(2)}
+                        {payment.reference && <span className="normal-case text-gray-400"> ({payment.reference})</span>}
+                      </p>
+                    ))}
+                    {invoiceDetail.change_due > 0 && (
+                      <p className="text-xs text-green-700">Change: Rs. {invoiceDetail.change_due.toFixed(2)}</p>
+                    )}
+                  </div>
+                )}
+                {invoiceDetail.balance_due > 0 && invoiceDetail.status !== 'void' && (
+                  <p className="mt-1 text-xs font-semibold text-orange-600">
+                    Outstanding on account: Rs. {invoiceDetail.balance_due.toFixed(2)}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -593,6 +664,9 @@ const InvoiceDetailModal = ({ invoice, onClose }: InvoiceDetailModalProps) => {
                     <tr>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">Product</th>
                       <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Qty</th>
+                      {hasReturns && (
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Returned</th>
+                      )}
                       <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Price</th>
                       <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Total</th>
                     </tr>
@@ -600,10 +674,35 @@ const InvoiceDetailModal = ({ invoice, onClose }: InvoiceDetailModalProps) => {
                   <tbody className="divide-y divide-gray-200">
                     {invoiceDetail.items?.map((item: any, idx: number) => (
                       <tr key={idx} className="hover:bg-gray-50">
-                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{item.product_name}</td>
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {item.product_name}
+                          {item.components?.map((component: InvoiceItemComponent) => (
+                            <span key={component.product_id} className="block text-xs font-normal text-gray-500 pl-3">
+                              {component.quantity} × {component.product_name}
+                            </span>
+                          ))}
+                          {item.dot_codes && (
+                            <span className="block text-xs font-normal text-gray-500">DOT {item.dot_codes}</span>
+                          )}
+                          {invoiceDetail.warranties
+                            ?.filter((warranty: Warranty) => warranty.invoice_item_id === item.id && warranty.status === 'active')
+                            .map((warranty: Warranty) => (
+                              <span key={warranty.id} className="block text-xs font-normal text-green-700">
+                                Warranty{item.components ? ` (${warranty.product_name})` : ''} until {warranty.expires_on}
+                              </span>
+                            ))}
+                        </td>
                         <td className="px-4 py-3 text-sm text-gray-600 text-right">{item.quantity}</td>
+                        {hasReturns && (
+                          <td className="px-4 py-3 text-sm text-red-600 text-right">{item.quantity_returned || '-'}</td>
+                        )}
                         <td className="px-4 py-3 text-sm text-gray-600 text-right">
                           Rs. {item.unit_price.toFixed(2)}
+                          {item.discount_amount > 0 && (
+                            <span className="block text-xs text-red-600">
+                              {item.discount_type === 'percent' ? `${item.discount_value}% off` : 'Discount'}: - Rs. {item.discount_amount.toFixed(2)}
+                            </span>
+                          )}
                         </td>
                         <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">
                           Rs. {item.total_price.toFixed(2)}
@@ -622,13 +721,28 @@ const InvoiceDetailModal = ({ invoice, onClose }: InvoiceDetailModalProps) => {
                   <span className="font-medium">Subtotal:</span>
                   <span className="font-semibold">Rs. {invoiceDetail.subtotal?.toFixed(2)}</span>
                 </div>
-                <div className="flex justify-between text-gray-700">
-                  <span className="font-medium">Tax:</span>
-                  <span className="font-semibold">Rs. {invoiceDetail.tax_amount?.toFixed(2)}</span>
-                </div>
+                {invoiceDetail.taxes?.length > 0 ? (
+                  invoiceDetail.taxes.map((tax: InvoiceTax) => (
+                    <div key={`${tax.tax_name}-${tax.rate}-${tax.is_inclusive}`} className="flex justify-between text-gray-700">
+                      <span className="font-medium">
+                        {formatTaxLabel(tax)}:
+                        <span className="ml-2 text-xs text-gray-500">on Rs. {tax.taxable_amount.toFixed(2)}</span>
+                      </span>
+                      <span className={tax.is_inclusive ? 'text-gray-500' : 'font-semibold'}>Rs. {tax.tax_amount.toFixed(2)}</span>
+                    </div>
+                  ))
+                ) : (
+                  <div className="flex justify-between text-gray-700">
+                    <span className="font-medium">Tax:</span>
+                    <span className="font-semibold">Rs. {invoiceDetail.tax_amount?.toFixed(2)}</span>
+                  </div>
+                )}
                 {invoiceDetail.discount_amount > 0 && (
                   <div className="flex justify-between text-red-600">
-                    <span className="font-medium">Discount:</span>
+                    <span className="font-medium">
+                      Discount{invoiceDetail.bill_discount_type === 'percent' ? ` (incl. ${invoiceDetail.bill_discount_value}% off bill)` : ''}:
+                      {invoiceDetail.discount_authorized ? <span className="ml-2 text-xs text-gray-500">Admin approved</span> : null}
+                    </span>
                     <span className="font-semibold">- Rs. {invoiceDetail.discount_amount?.toFixed(2)}</span>
                   </div>
                 )}
@@ -643,8 +757,54 @@ const InvoiceDetailModal = ({ invoice, onClose }: InvoiceDetailModalProps) => {
               </div>
             </div>
 
+            {/* Credit Notes */}
+            {invoiceDetail.credit_notes && invoiceDetail.credit_notes.length > 0 && (
+              <div className="bg-red-50 rounded-lg p-4 border border-red-200">
+                <h3 className="text-lg font-semibold mb-3 text-gray-900">Returns</h3>
+                <div className="space-y-2">
+                  {invoiceDetail.credit_notes.map((creditNote: CreditNote) => (
+                    <div key={creditNote.id} className="bg-white rounded-lg border border-red-100 p-3">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-semibold text-gray-900">{creditNote.credit_note_number}</span>
+                        <span className="font-semibold text-red-600">- Rs. {creditNote.total_amount.toFixed(2)}</span>
+                      </div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        {creditNote.items?.map((item) => `${item.product_name} × ${item.quantity}`).join(', ')}
+                      </div>
+                      <div className="mt-1 flex justify-between text-xs text-gray-500">
+                        <span>{creditNote.reason || 'No reason given'}</span>
+                        <span>
+                          {creditNote.account_credit >= creditNote.total_amount
+                            ? 'Credited to account'
+                            : creditNote.refund_method === 'store_credit' ? 'Store credit' : 'Refunded'} • {creditNote.created_at}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex flex-wrap justify-end gap-3 pt-4">
+              {canVoid && (
+                <button
+                  onClick={() => setShowVoidModal(true)}
+                  className="px-6 py-2.5 border-2 border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-all flex items-center gap-2"
+                >
+                  <span>🚫</span>
+                  Void
+                </button>
+              )}
+              {canReturn && (
+                <button
+                  onClick={() => setShowReturnModal(true)}
+                  className="px-6 py-2.5 border-2 border-red-300 text-red-600 rounded-lg hover:bg-red-50 font-medium transition-all flex items-center gap-2"
+                >
+                  <span>↩️</span>
+                  Return Items
+                </button>
+              )}
               <button
                 onClick={handleDownloadPDF}
                 className="px-6 py-2.5 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium shadow-md hover:shadow-lg transition-all flex items-center gap-2"
@@ -669,6 +829,287 @@ const InvoiceDetailModal = ({ invoice, onClose }: InvoiceDetailModalProps) => {
           </div>
         </div>
       </div>
+
+      {showVoidModal && (
+        <VoidModal
+          invoice={invoiceDetail}
+          onClose={() => setShowVoidModal(false)}
+          onSave={() => {
+            setShowVoidModal(false);
+            loadInvoiceDetail();
+            onChange();
+          }}
+        />
+      )}
+
+      {showReturnModal && (
+        <ReturnModal
+          invoice={invoiceDetail}
+          onClose={() => setShowReturnModal(false)}
+          onSave={() => {
+            setShowReturnModal(false);
+            loadInvoiceDetail();
+            onChange();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface ReturnModalProps {
+  invoice: any;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const ReturnModal = ({ invoice, onClose, onSave }: ReturnModalProps) => {
+  const [quantities, setQuantities] = useState<{ [itemId: number]: string }>({});
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('refund');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const items: InvoiceItem[] = invoice.items || [];
+  const getReturnable = (item: InvoiceItem) => item.quantity - (item.quantity_returned || 0) - (item.quantity_claimed || 0);
+  const returnableItems = items.filter((item) => getReturnable(item) > 0);
+
+  // Credit carries the invoice's tax and discount in proportion, same as the backend
+  const totalRatio = invoice.subtotal > 0 ? invoice.total_amount / invoice.subtotal : 1;
+  const returnSubtotal = returnableItems.reduce(
+    (sum, item) => sum + (parseInt(quantities[item.id]) || 0) * item.unit_price,
+    0
+  );
+  const returnTotal = returnSubtotal * totalRatio;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const lines = returnableItems
+      .map((item) => ({ invoice_item_id: item.id, quantity: parseInt(quantities[item.id]) || 0 }))
+      .filter((line) => line.quantity > 0);
+
+    if (lines.length === 0) {
+      alert('Enter a return quantity for at least one item');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await window.electronAPI.returns.create(invoice.id, {
+        refund_method: refundMethod,
+        reason: reason.trim() || null,
+        items: lines,
+      });
+      const payable = result.total_amount - result.account_credit;
+      alert(
+        `Credit note ${result.credit_note_number} created for Rs. ${result.total_amount.toFixed(2)}.` +
+        (result.account_credit > 0 ? ` Rs. ${result.account_credit.toFixed(2)} taken off the customer's account.` : '') +
+        (payable > 0.005
+          ? refundMethod === 'store_credit'
+            ? ` Rs. ${payable.toFixed(2)} kept as store credit.`
+            : ` Refund the customer Rs. ${payable.toFixed(2)}.`
+          : '')
+      );
+      onSave();
+    } catch (error: any) {
+      console.error('Error processing return:', error);
+      alert(`Failed to process return: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-1">Return Items</h2>
+        <p className="text-sm text-gray-600 mb-4">{invoice.invoice_number}</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Returnable</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Return Qty</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {returnableItems.map((item) => {
+                  const returnable = getReturnable(item);
+                  return (
+                    <tr key={item.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{item.product_name}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600 text-right">{returnable}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600 text-right">Rs. {item.unit_price.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          max={returnable}
+                          value={quantities[item.id] || ''}
+                          onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                          placeholder="0"
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-right text-sm"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Settlement</label>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setRefundMethod('refund')}
+                className={`px-4 py-2 rounded-lg border-2 text-sm font-medium ${
+                  refundMethod === 'refund' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600'
+                }`}
+              >
+                Refund
+              </button>
+              <button
+                type="button"
+                onClick={() => setRefundMethod('store_credit')}
+                disabled={!invoice.customer_id}
+                title={invoice.customer_id ? undefined : 'Store credit is kept against a customer; this sale has none'}
+                className={`px-4 py-2 rounded-lg border-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
+                  refundMethod === 'store_credit' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600'
+                }`}
+              >
+                Store Credit
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Wrong size, manufacturing defect"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          <div className="flex justify-between items-center bg-gray-50 rounded-lg p-3">
+            <span className="font-medium text-gray-700">Credit Amount</span>
+            <span className="text-xl font-bold text-red-600">Rs. {returnTotal.toFixed(2)}</span>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400"
+              disabled={saving}
+            >
+              {saving ? 'Processing...' : 'Create Credit Note'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+interface VoidModalProps {
+  invoice: any;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const VoidModal = ({ invoice, onClose, onSave }: VoidModalProps) => {
+  const [reason, setReason] = useState('');
+  const [adminPassword, setAdminPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      alert('Please enter a reason for voiding this invoice');
+      return;
+    }
+    if (!adminPassword) {
+      alert('Admin password is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await window.electronAPI.invoices.void(invoice.id, reason.trim(), adminPassword);
+      alert(`Invoice ${invoice.invoice_number} has been voided and stock restored.`);
+      onSave();
+    } catch (error: any) {
+      console.error('Error voiding invoice:', error);
+      alert(`Failed to void invoice: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-1">Void Invoice</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {invoice.invoice_number} • Rs. {invoice.total_amount?.toFixed(2)}
+        </p>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm text-yellow-800">
+          All items will be returned to stock and the invoice will be excluded from reports. The invoice number is kept.
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Wrong items billed"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Admin Password *</label>
+            <input
+              type="password"
+              value={adminPassword}
+              onChange={(e) => setAdminPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400"
+              disabled={saving}
+            >
+              {saving ? 'Voiding...' : 'Void Invoice'}
+            </button>
+          </div>
+        </form>
+      </div>
     </div>
   );
 };
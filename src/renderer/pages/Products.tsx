@@ -1,7 +1,12 @@
 import { useEffect, useState } from 'react';
 import StockAdjustment from '../components/StockAdjustment';
+import StockHistory from '../components/StockHistory';
 import BrandSizeManager from '../components/BrandSizeManager';
+import StockLocations from '../components/StockLocations';
+import ProductSuppliers from '../components/ProductSuppliers';
+import ProductUnits from '../components/ProductUnits';
 import { Product, ProductType } from '../types';
+import { getAvailableStock } from '../utils/stock';
 
 const Products = () => {
   const [products, setProducts] = useState<Product[]>([]);
@@ -10,8 +15,12 @@ const Products = () => {
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [supplierProduct, setSupplierProduct] = useState<Product | null>(null);
+  const [unitsProduct, setUnitsProduct] = useState<Product | null>(null);
   const [filterType, setFilterType] = useState<ProductType | 'all'>('all');
   const [showBrandSizeManager, setShowBrandSizeManager] = useState(false);
+  const [showStockLocations, setShowStockLocations] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(10);
 
@@ -68,7 +77,9 @@ const Products = () => {
   const totalProducts = products.length;
   const tireCount = products.filter(p => p.product_type === 'tire').length;
   const wheelCount = products.filter(p => p.product_type === 'alloy_wheel').length;
-  const lowStockCount = products.filter(p => p.stock_quantity <= p.low_stock_threshold).length;
+  const lowStockCount = products.filter(p =>
+    p.product_type !== 'service' && p.product_type !== 'bundle' && p.stock_quantity <= p.low_stock_threshold
+  ).length;
 
   if (loading) {
     return (
@@ -131,6 +142,8 @@ const Products = () => {
               <option value="tire">Tires</option>
               <option value="alloy_wheel">Alloy Wheels</option>
               <option value="general">General</option>
+              <option value="service">Services</option>
+              <option value="bundle">Kits</option>
             </select>
           </div>
           <button
@@ -142,6 +155,15 @@ const Products = () => {
             </svg>
             Manage Brands & Sizes
           </button>
+          <button
+            onClick={() => setShowStockLocations(true)}
+            className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 font-medium transition-colors flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+            </svg>
+            Locations & Transfers
+          </button>
           <button
             onClick={() => {
               setEditingProduct(null);
@@ -214,11 +236,27 @@ const Products = () => {
                             ? 'bg-blue-100 text-blue-800' 
                             : product.product_type === 'alloy_wheel'
                             ? 'bg-purple-100 text-purple-800'
+                            : product.product_type === 'service'
+                            ? 'bg-teal-100 text-teal-800'
+                            : product.product_type === 'bundle'
+                            ? 'bg-orange-100 text-orange-800'
                             : 'bg-gray-100 text-gray-800'
                         }`}>
                           {product.product_type === 'tire' ? 'Tire' : 
-                           product.product_type === 'alloy_wheel' ? 'Wheel' : 'General'}
+                           product.product_type === 'alloy_wheel' ? 'Wheel' :
+                           product.product_type === 'service' ? 'Service' :
+                           product.product_type === 'bundle' ? 'Kit' : 'General'}
                         </span>
+                        {product.components && (
+                          <div className="text-xs text-gray-600 mt-0.5 max-w-xs truncate">
+                            {product.components.map((c) => `${c.quantity} × ${c.product_name}`).join(', ')}
+                          </div>
+                        )}
+                        {product.product_type === 'service' && product.auto_add_with && (
+                          <div className="text-xs text-gray-600 mt-0.5">
+                            Added with each {product.auto_add_with === 'alloy_wheel' ? 'wheel' : 'tire'}
+                          </div>
+                        )}
                         {product.size_display && (
                           <div className="text-xs text-gray-600 mt-0.5">
                             {product.size_display}
@@ -240,26 +278,67 @@ const Products = () => {
                       </div>
                     </td>
                     <td className="px-6 py-2.5 whitespace-nowrap text-right">
-                      <span
-                        className={`text-sm font-medium ${
-                          product.stock_quantity <= product.low_stock_threshold
-                            ? 'text-red-600'
-                            : 'text-gray-900'
-                        }`}
-                      >
-                        {product.stock_quantity}
-                      </span>
+                      {product.product_type === 'service' ? (
+                        <span className="text-sm text-gray-400">No stock</span>
+                      ) : product.product_type === 'bundle' ? (
+                        <span className="text-sm font-medium text-gray-900" title="Kits that can be made from component stock">
+                          {getAvailableStock(product) === Infinity ? '—' : `${getAvailableStock(product)} kits`}
+                        </span>
+                      ) : (
+                        <span
+                          className={`text-sm font-medium ${
+                            product.stock_quantity <= product.low_stock_threshold
+                              ? 'text-red-600'
+                              : 'text-gray-900'
+                          }`}
+                        >
+                          {product.stock_quantity}
+                        </span>
+                      )}
+                      {(product.held_quantity || 0) > 0 && (
+                        <span className="block text-xs text-amber-600">{product.held_quantity} on hold</span>
+                      )}
+                      {!!product.track_units && (
+                        <span className="block text-xs text-gray-500">{product.unit_count || 0} with DOT</span>
+                      )}
                     </td>
                     <td className="px-6 py-2.5 whitespace-nowrap text-center">
                       <div className="flex items-center justify-center gap-2">
+                        {product.product_type !== 'service' && product.product_type !== 'bundle' && (
+                          <button
+                            onClick={() => {
+                              setAdjustingProduct(product);
+                            }}
+                            className="px-3 py-1 text-xs font-medium text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded transition-colors"
+                            title="Adjust Stock"
+                          >
+                            Stock
+                          </button>
+                        )}
+                        {product.product_type !== 'service' && product.product_type !== 'bundle' && (
+                          <button
+                            onClick={() => setHistoryProduct(product)}
+                            className="px-3 py-1 text-xs font-medium text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded transition-colors"
+                            title="Stock Movement History"
+                          >
+                            History
+                          </button>
+                        )}
+                        {!!product.track_units && (
+                          <button
+                            onClick={() => setUnitsProduct(product)}
+                            className="px-3 py-1 text-xs font-medium text-teal-600 hover:text-teal-800 hover:bg-teal-50 rounded transition-colors"
+                            title="DOT Codes & Serials"
+                          >
+                            DOT
+                          </button>
+                        )}
                         <button
-                          onClick={() => {
-                            setAdjustingProduct(product);
-                          }}
-                          className="px-3 py-1 text-xs font-medium text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded transition-colors"
-                          title="Adjust Stock"
+                          onClick={() => setSupplierProduct(product)}
+                          className="px-3 py-1 text-xs font-medium text-purple-600 hover:text-purple-800 hover:bg-purple-50 rounded transition-colors"
+                          title="Suppliers & Cost Prices"
                         >
-                          Stock
+                          Suppliers
                         </button>
                         <button
                           onClick={() => {
@@ -378,6 +457,7 @@ const Products = () => {
       {showModal && (
         <ProductModal
           product={editingProduct}
+          products={products}
           onClose={() => {
             setShowModal(false);
             setEditingProduct(null);
@@ -401,27 +481,55 @@ const Products = () => {
         />
       )}
 
+      {historyProduct && (
+        <StockHistory
+          product={historyProduct}
+          onClose={() => setHistoryProduct(null)}
+        />
+      )}
+
+      {supplierProduct && (
+        <ProductSuppliers
+          product={supplierProduct}
+          onClose={() => setSupplierProduct(null)}
+        />
+      )}
+
+      {unitsProduct && (
+        <ProductUnits
+          product={unitsProduct}
+          onClose={() => setUnitsProduct(null)}
+          onChange={loadProducts}
+        />
+      )}
+
       {showBrandSizeManager && (
         <BrandSizeManager onClose={() => setShowBrandSizeManager(false)} />
       )}
+
+      {showStockLocations && (
+        <StockLocations onClose={() => setShowStockLocations(false)} onChange={loadProducts} />
+      )}
     </div>
   );
 };
 
 interface ProductModalProps {
   product: Product | null;
+  products: Product[];
   onClose: () => void;
   onSave: () => void;
 }
 
-const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
-  const [brands, setBrands] = useState<Array<{ id: number; name: string }>>([]);
+const ProductModal = ({ product, products, onClose, onSave }: ProductModalProps) => {
+  const [brands, setBrands] = useState<Array<{ id: number; name: string; warranty_months?: number | null }>>([]);
   const [tireSizes, setTireSizes] = useState<Array<{ id: number; size_display: string; width: number; aspect_ratio: number; diameter: number; load_index?: string; speed_rating?: string }>>([]);
   const [wheelSizes, setWheelSizes] = useState<Array<{ id: number; size_display: string; diameter: number; width: number }>>([]);
   const [showAddBrand, setShowAddBrand] = useState(false);
   const [newBrandName, setNewBrandName] = useState('');
   const [showAddTireSize, setShowAddTireSize] = useState(false);
   const [showAddWheelSize, setShowAddWheelSize] = useState(false);
+  const [components, setComponents] = useState<Array<{ component_id: string; quantity: string }>>([]);
 
   const [formData, setFormData] = useState({
     name: '',
@@ -434,6 +542,13 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
     low_stock_threshold: '10',
     category: '',
     product_type: 'general' as ProductType,
+    auto_add_with: '',
+    track_units: false,
+    allow_backorder: false,
+    warranty_months: '',
+    reorder_point: '',
+    reorder_quantity: '',
+    lead_time_days: '',
     // Tire fields
     tire_size_id: '',
     tire_width: '',
@@ -473,6 +588,13 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
         low_stock_threshold: product.low_stock_threshold.toString(),
         category: product.category || '',
         product_type: product.product_type || 'general',
+        auto_add_with: product.auto_add_with || '',
+        track_units: !!product.track_units,
+        allow_backorder: !!product.allow_backorder,
+        warranty_months: product.warranty_months?.toString() ?? '',
+        reorder_point: product.reorder_point?.toString() ?? '',
+        reorder_quantity: product.reorder_quantity?.toString() ?? '',
+        lead_time_days: product.lead_time_days?.toString() ?? '',
         tire_size_id: '',
         tire_width: product.tire_width?.toString() || '',
         tire_aspect_ratio: product.tire_aspect_ratio?.toString() || '',
@@ -489,6 +611,7 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
         wheel_stud_type: product.wheel_stud_type || '',
         size_display: product.size_display || '',
       });
+      setComponents((product.components || []).map((c) => ({ component_id: c.component_id.toString(), quantity: c.quantity.toString() })));
     } else {
       // Reset form
       setFormData({
@@ -502,6 +625,13 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
         low_stock_threshold: '10',
         category: '',
         product_type: 'general',
+        auto_add_with: '',
+        track_units: false,
+        allow_backorder: false,
+        warranty_months: '',
+        reorder_point: '',
+        reorder_quantity: '',
+        lead_time_days: '',
         tire_size_id: '',
         tire_width: '',
         tire_aspect_ratio: '',
@@ -518,6 +648,7 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
         wheel_stud_type: '',
         size_display: '',
       });
+      setComponents([]);
     }
   }, [product, brands]);
 
@@ -675,6 +806,11 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
     formData.wheel_width,
   ]);
 
+  // The warranty a product without its own gets, from the longest brand its name starts with
+  const brandWarranty = brands
+    .filter((b) => formData.name.toUpperCase().startsWith(b.name.toUpperCase()))
+    .sort((a, b) => b.name.length - a.name.length)[0]?.warranty_months;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -687,7 +823,9 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
         alert('Selling price is required and must be greater than 0');
         return;
       }
-      if (!formData.stock_quantity || parseInt(formData.stock_quantity) < 0) {
+      const isService = formData.product_type === 'service';
+      const isBundle = formData.product_type === 'bundle';
+      if (!isService && !isBundle && (!formData.stock_quantity || parseInt(formData.stock_quantity) < 0)) {
         alert('Stock quantity is required');
         return;
       }
@@ -703,8 +841,21 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
         category: formData.category?.trim() || null,
         product_type: formData.product_type,
         size_display: formData.size_display?.trim() || null,
+        auto_add_with: isService ? formData.auto_add_with || null : null,
+        track_units: formData.product_type === 'tire' && formData.track_units,
+        allow_backorder: !isService && !isBundle && formData.allow_backorder,
+        warranty_months: formData.warranty_months === '' ? null : parseInt(formData.warranty_months),
+        reorder_point: formData.reorder_point === '' ? null : parseInt(formData.reorder_point),
+        reorder_quantity: formData.reorder_quantity === '' ? null : parseInt(formData.reorder_quantity),
+        lead_time_days: formData.lead_time_days === '' ? null : parseInt(formData.lead_time_days),
       };
 
+      if (isBundle) {
+        productData.components = components
+          .filter((c) => c.component_id)
+          .map((c) => ({ component_id: parseInt(c.component_id), quantity: parseInt(c.quantity) || 0 }));
+      }
+
       // Add tire-specific fields
       if (formData.product_type === 'tire') {
         productData.tire_width = formData.tire_width ? parseInt(formData.tire_width) : null;
@@ -772,6 +923,8 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
               <option value="general">General Product</option>
               <option value="tire">Tire</option>
               <option value="alloy_wheel">Alloy Wheel</option>
+              <option value="service">Service (no stock)</option>
+              <option value="bundle">Kit / Bundle</option>
             </select>
           </div>
 
@@ -1405,38 +1558,214 @@ const ProductModal = ({ product, onClose, onSave }: ProductModalProps) => {
               />
             </div>
           </div>
-          <div className="grid grid-cols-2 gap-4">
+          {formData.product_type === 'bundle' ? (
+            <div className="border-t-2 border-orange-300 pt-4 bg-orange-50 p-4 rounded-lg">
+              <h3 className="text-sm font-bold text-gray-800 mb-1">Kit Components</h3>
+              <p className="text-xs text-gray-600 mb-3">
+                What goes into one kit. The kit sells as one line at its own price and takes these from stock.
+              </p>
+              <div className="space-y-2">
+                {components.map((component, index) => (
+                  <div key={index} className="flex gap-2">
+                    <select
+                      value={component.component_id}
+                      onChange={(e) =>
+                        setComponents(components.map((c, i) => (i === index ? { ...c, component_id: e.target.value } : c)))
+                      }
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-white text-sm"
+                    >
+                      <option value="">-- Select Product --</option>
+                      {products
+                        .filter((p) => p.product_type !== 'bundle' && p.id !== product?.id)
+                        .map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.name}{p.size_display ? ` (${p.size_display})` : ''}
+                          </option>
+                        ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="1"
+                      value={component.quantity}
+                      onChange={(e) =>
+                        setComponents(components.map((c, i) => (i === index ? { ...c, quantity: e.target.value } : c)))
+                      }
+                      className="w-20 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      placeholder="Qty"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setComponents(components.filter((_, i) => i !== index))}
+                      className="px-2 text-red-600 hover:text-red-800"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setComponents([...components, { component_id: '', quantity: '1' }])}
+                className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                + Add component
+              </button>
+              {components.some((c) => c.component_id) && (
+                <p className="mt-2 text-xs text-gray-600">
+                  Bought separately: Rs.{' '}
+                  {components
+                    .reduce((sum, c) => {
+                      const part = products.find((p) => p.id.toString() === c.component_id);
+                      return sum + (part ? part.price * (parseInt(c.quantity) || 0) : 0);
+                    }, 0)
+                    .toFixed(2)}
+                </p>
+              )}
+            </div>
+          ) : formData.product_type === 'service' ? (
             <div>
               <label className="block text-sm font-medium text-gray-700">
-                Stock Quantity *
+                Add Automatically
               </label>
-              <input
-                type="number"
-                required
-                value={formData.stock_quantity}
+              <select
+                value={formData.auto_add_with}
                 onChange={(e) =>
-                  setFormData({ ...formData, stock_quantity: e.target.value })
+                  setFormData({ ...formData, auto_add_with: e.target.value })
                 }
-                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
-              />
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+              >
+                <option value="">No, add by hand in Billing</option>
+                <option value="tire">With every tire sold (one per tire)</option>
+                <option value="alloy_wheel">With every alloy wheel sold (one per wheel)</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Services have no stock and can always be billed.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Stock Quantity *
+                </label>
+                <input
+                  type="number"
+                  required
+                  value={formData.stock_quantity}
+                  onChange={(e) =>
+                    setFormData({ ...formData, stock_quantity: e.target.value })
+                  }
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Low Stock Threshold
+                </label>
+                <input
+                  type="number"
+                  value={formData.low_stock_threshold}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      low_stock_threshold: e.target.value,
+                    })
+                  }
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
             </div>
+          )}
+          {formData.product_type !== 'service' && formData.product_type !== 'bundle' && (
             <div>
               <label className="block text-sm font-medium text-gray-700">
-                Low Stock Threshold
+                Warranty (months)
               </label>
               <input
                 type="number"
-                value={formData.low_stock_threshold}
-                onChange={(e) =>
-                  setFormData({
-                    ...formData,
-                    low_stock_threshold: e.target.value,
-                  })
-                }
+                min="0"
+                value={formData.warranty_months}
+                onChange={(e) => setFormData({ ...formData, warranty_months: e.target.value })}
+                placeholder={brandWarranty != null ? `Brand default: ${brandWarranty}` : 'No warranty'}
                 className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
               />
+              <p className="mt-1 text-xs text-gray-500">
+                Leave blank to use the brand's warranty; 0 means no warranty.
+              </p>
             </div>
-          </div>
+          )}
+          {formData.product_type !== 'service' && formData.product_type !== 'bundle' && (
+            <div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Reorder Point</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.reorder_point}
+                    onChange={(e) => setFormData({ ...formData, reorder_point: e.target.value })}
+                    placeholder="From sales"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Reorder Quantity</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.reorder_quantity}
+                    onChange={(e) => setFormData({ ...formData, reorder_quantity: e.target.value })}
+                    placeholder="From sales"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.lead_time_days}
+                    onChange={(e) => setFormData({ ...formData, lead_time_days: e.target.value })}
+                    placeholder="Supplier's"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Leave blank to work them out from recent sales and the supplier's lead time. A reorder quantity is ordered in whole lots.
+              </p>
+            </div>
+          )}
+          {formData.product_type === 'tire' && (
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.track_units}
+                onChange={(e) => setFormData({ ...formData, track_units: e.target.checked })}
+                className="mt-1"
+              />
+              <span>
+                Track DOT code / serial of each tire
+                <span className="block text-xs text-gray-500">
+                  DOT codes are entered when goods are received; Billing sells the oldest first.
+                </span>
+              </span>
+            </label>
+          )}
+          {formData.product_type !== 'service' && formData.product_type !== 'bundle' && (
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.allow_backorder}
+                onChange={(e) => setFormData({ ...formData, allow_backorder: e.target.checked })}
+                className="mt-1"
+              />
+              <span>
+                Allow backorder
+                <span className="block text-xs text-gray-500">
+                  Can be sold when out of stock; stock goes below zero until the order arrives.
+                </span>
+              </span>
+            </label>
+          )}
           <div className="flex justify-end space-x-3 pt-4">
             <button
               type="button"
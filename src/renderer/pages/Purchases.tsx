@@ -0,0 +1,893 @@
+import { useEffect, useState } from 'react';
+import { Product, ProductSupplier, PurchaseOrder, PurchaseOrderStatus, StockLocation, Supplier } from '../types';
+import { parseUnitLines } from '../utils/dot';
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const formatDate = (dateStr?: string) => {
+  if (!dateStr) return '-';
+  const datePart = dateStr.toString().split(' ')[0];
+  const [year, month, day] = datePart.split('-');
+  const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+const Purchases = () => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState<PurchaseOrderStatus | 'all'>('all');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadOrders();
+  }, []);
+
+  const loadOrders = async () => {
+    try {
+      const data = await window.electronAPI.purchases.getAll();
+      setOrders(data);
+    } catch (error) {
+      console.error('Error loading purchase orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredOrders = orders.filter((order) => {
+    const matchesSearch =
+      order.po_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (order.supplier_name || '').toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesStatus = filterStatus === 'all' || order.status === filterStatus;
+    return matchesSearch && matchesStatus;
+  });
+
+  const openCount = orders.filter((o) => o.status === 'ordered' || o.status === 'partially_received').length;
+  const partialCount = orders.filter((o) => o.status === 'partially_received').length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <p className="ml-3 text-gray-600">Loading purchase orders...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg shadow-lg p-6 text-white">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold mb-2">Purchases</h2>
+            <p className="text-blue-100 text-sm">Order stock from suppliers and receive goods</p>
+          </div>
+          <div className="flex gap-3">
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Total Orders</p>
+              <p className="text-2xl font-bold text-blue-600">{orders.length}</p>
+            </div>
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Open</p>
+              <p className="text-2xl font-bold text-purple-600">{openCount}</p>
+            </div>
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Partially Received</p>
+              <p className="text-2xl font-bold text-yellow-600">{partialCount}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters and Actions */}
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-col md:flex-row gap-4 items-center">
+          <div className="flex-1">
+            <input
+              type="text"
+              placeholder="Search by PO number or supplier..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="md:w-56">
+            <select
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value as PurchaseOrderStatus | 'all')}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">All Statuses</option>
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium shadow-md"
+          >
+            + New Purchase Order
+          </button>
+        </div>
+      </div>
+
+      {/* Orders Table */}
+      {filteredOrders.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-12 text-center">
+          <p className="text-gray-500 text-lg">No purchase orders found</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">PO #</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredOrders.map((order) => (
+                <tr
+                  key={order.id}
+                  className="hover:bg-gray-50 cursor-pointer transition-colors"
+                  onClick={() => setSelectedOrderId(order.id)}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{order.po_number}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(order.order_date)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{order.supplier_name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_CLASSES[order.status]}`}>
+                      {STATUS_LABELS[order.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-right">
+                    {order.total_received || 0} / {order.total_ordered || 0}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-blue-600 text-right">
+                    Rs. {order.total_amount.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showCreateModal && (
+        <PurchaseOrderModal
+          onClose={() => setShowCreateModal(false)}
+          onSave={() => {
+            setShowCreateModal(false);
+            loadOrders();
+          }}
+        />
+      )}
+
+      {selectedOrderId !== null && (
+        <PurchaseOrderDetailModal
+          orderId={selectedOrderId}
+          onClose={() => setSelectedOrderId(null)}
+          onChange={loadOrders}
+        />
+      )}
+    </div>
+  );
+};
+
+interface OrderLine {
+  product_id: number;
+  product_name: string;
+  quantity: string;
+  unit_cost: string;
+}
+
+interface PurchaseOrderModalProps {
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const PurchaseOrderModal = ({ onClose, onSave }: PurchaseOrderModalProps) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [productSearch, setProductSearch] = useState('');
+  const [showAddSupplier, setShowAddSupplier] = useState(false);
+  const [newSupplierName, setNewSupplierName] = useState('');
+  const [newSupplierPhone, setNewSupplierPhone] = useState('');
+  const [supplierPrices, setSupplierPrices] = useState<Record<number, number>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (!supplierId) {
+      setSupplierPrices({});
+      return;
+    }
+    window.electronAPI.suppliers.getPriceList(parseInt(supplierId))
+      .then((priceList: ProductSupplier[]) => {
+        const prices: Record<number, number> = {};
+        priceList.forEach((entry) => {
+          prices[entry.product_id] = entry.cost_price;
+        });
+        setSupplierPrices(prices);
+      })
+      .catch((error: any) => console.error('Error loading supplier price list:', error));
+  }, [supplierId]);
+
+  const loadData = async () => {
+    try {
+      const [suppliersData, productsData] = await Promise.all([
+        window.electronAPI.suppliers.getAll(),
+        window.electronAPI.products.getAll(),
+      ]);
+      setSuppliers(suppliersData);
+      setProducts(productsData);
+    } catch (error) {
+      console.error('Error loading suppliers and products:', error);
+    }
+  };
+
+  const handleAddSupplier = async () => {
+    if (!newSupplierName.trim()) {
+      alert('Please enter a supplier name');
+      return;
+    }
+    try {
+      const created = await window.electronAPI.suppliers.create({
+        name: newSupplierName.trim(),
+        phone: newSupplierPhone.trim() || null,
+      });
+      const suppliersData = await window.electronAPI.suppliers.getAll();
+      setSuppliers(suppliersData);
+      setSupplierId(String(created.id));
+      setShowAddSupplier(false);
+      setNewSupplierName('');
+      setNewSupplierPhone('');
+    } catch (error: any) {
+      alert(error?.message || 'Failed to add supplier');
+    }
+  };
+
+  const addLine = (product: Product) => {
+    if (lines.some((line) => line.product_id === product.id)) {
+      return;
+    }
+    setLines([
+      ...lines,
+      {
+        product_id: product.id,
+        product_name: product.name,
+        quantity: '1',
+        unit_cost: (supplierPrices[product.id] ?? product.cost_price ?? 0).toString(),
+      },
+    ]);
+    setProductSearch('');
+  };
+
+  const updateLine = (productId: number, field: 'quantity' | 'unit_cost', value: string) => {
+    setLines(lines.map((line) => (line.product_id === productId ? { ...line, [field]: value } : line)));
+  };
+
+  const removeLine = (productId: number) => {
+    setLines(lines.filter((line) => line.product_id !== productId));
+  };
+
+  // Services and kits carry no stock, so they are never ordered
+  const matchingProducts = productSearch.trim()
+    ? products
+        .filter((p) => p.product_type !== 'service' && p.product_type !== 'bundle')
+        .filter((p) =>
+          p.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+          p.size_display?.toLowerCase().includes(productSearch.toLowerCase()) ||
+          p.sku?.toLowerCase().includes(productSearch.toLowerCase())
+        )
+        .slice(0, 8)
+    : [];
+
+  const total = lines.reduce(
+    (sum, line) => sum + (parseInt(line.quantity) || 0) * (parseFloat(line.unit_cost) || 0),
+    0
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supplierId) {
+      alert('Please select a supplier');
+      return;
+    }
+    if (lines.length === 0) {
+      alert('Please add at least one product');
+      return;
+    }
+    if (lines.some((line) => !(parseInt(line.quantity) > 0))) {
+      alert('Every line needs a quantity greater than 0');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await window.electronAPI.purchases.create({
+        supplier_id: parseInt(supplierId),
+        expected_date: expectedDate || null,
+        notes: notes.trim() || null,
+        items: lines.map((line) => ({
+          product_id: line.product_id,
+          quantity: parseInt(line.quantity),
+          unit_cost: parseFloat(line.unit_cost) || 0,
+        })),
+      });
+      onSave();
+    } catch (error: any) {
+      console.error('Error creating purchase order:', error);
+      alert(`Failed to create purchase order: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-4">New Purchase Order</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Supplier *</label>
+              <div className="flex gap-2">
+                <select
+                  value={supplierId}
+                  onChange={(e) => setSupplierId(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="">Select Supplier</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setShowAddSupplier(!showAddSupplier)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  + New
+                </button>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expected Delivery</label>
+              <input
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+
+          {showAddSupplier && (
+            <div className="bg-blue-50 p-3 rounded-lg border border-blue-200 grid grid-cols-3 gap-2">
+              <input
+                type="text"
+                value={newSupplierName}
+                onChange={(e) => setNewSupplierName(e.target.value)}
+                placeholder="Supplier name"
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <input
+                type="text"
+                value={newSupplierPhone}
+                onChange={(e) => setNewSupplierPhone(e.target.value)}
+                placeholder="Phone (optional)"
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <button
+                type="button"
+                onClick={handleAddSupplier}
+                className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+              >
+                Add Supplier
+              </button>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Add Products</label>
+            <input
+              type="text"
+              value={productSearch}
+              onChange={(e) => setProductSearch(e.target.value)}
+              placeholder="Search products by name, SKU, or size..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+            {matchingProducts.length > 0 && (
+              <div className="mt-1 border border-gray-200 rounded-md divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                {matchingProducts.map((product) => (
+                  <button
+                    type="button"
+                    key={product.id}
+                    onClick={() => addLine(product)}
+                    className="w-full text-left px-3 py-2 hover:bg-blue-50 text-sm flex justify-between"
+                  >
+                    <span>
+                      {product.name}
+                      {product.size_display && <span className="text-blue-600 ml-2">{product.size_display}</span>}
+                    </span>
+                    <span className="text-gray-500">Stock: {product.stock_quantity}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {lines.length > 0 && (
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {lines.map((line) => (
+                    <tr key={line.product_id}>
+                      <td className="px-3 py-2 text-sm text-gray-900">{line.product_name}</td>
+                      <td className="px-3 py-2 text-right">
+                        <input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.product_id, 'quantity', e.target.value)}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-right text-sm"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unit_cost}
+                          onChange={(e) => updateLine(line.product_id, 'unit_cost', e.target.value)}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded text-right text-sm"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-sm font-semibold text-gray-900 text-right">
+                        Rs. {((parseInt(line.quantity) || 0) * (parseFloat(line.unit_cost) || 0)).toFixed(2)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => removeLine(line.product_id)}
+                          className="text-red-600 hover:text-red-800 text-sm"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="bg-gray-50 px-3 py-2 flex justify-between font-bold text-gray-900">
+                <span>Total</span>
+                <span className="text-blue-600">Rs. {total.toFixed(2)}</span>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : 'Create Purchase Order'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+interface PurchaseOrderDetailModalProps {
+  orderId: number;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const PurchaseOrderDetailModal = ({ orderId, onClose, onChange }: PurchaseOrderDetailModalProps) => {
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [receiving, setReceiving] = useState(false);
+  const [receiptLines, setReceiptLines] = useState<{ [itemId: number]: { quantity: string; unit_cost: string; units: string } }>({});
+  const [receiptNotes, setReceiptNotes] = useState('');
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [receiptLocationId, setReceiptLocationId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadOrder();
+  }, [orderId]);
+
+  useEffect(() => {
+    window.electronAPI.locations.getAll()
+      .then((data: StockLocation[]) => {
+        const active = data.filter((l) => l.is_active);
+        setLocations(active);
+        setReceiptLocationId(active.find((l) => l.is_default)?.id ?? null);
+      })
+      .catch((error: any) => console.error('Error loading locations:', error));
+  }, []);
+
+  const loadOrder = async () => {
+    try {
+      const data = await window.electronAPI.purchases.getById(orderId);
+      setOrder(data);
+    } catch (error) {
+      console.error('Error loading purchase order:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startReceiving = () => {
+    if (!order?.items) return;
+    const initial: { [itemId: number]: { quantity: string; unit_cost: string; units: string } } = {};
+    order.items.forEach((item) => {
+      const outstanding = item.quantity_ordered - item.quantity_received;
+      if (outstanding > 0) {
+        initial[item.id] = { quantity: outstanding.toString(), unit_cost: item.unit_cost.toString(), units: '' };
+      }
+    });
+    setReceiptLines(initial);
+    setReceiptNotes('');
+    setReceiving(true);
+  };
+
+  const handleReceive = async () => {
+    if (!order) return;
+    const items = Object.entries(receiptLines)
+      .map(([itemId, line]) => ({
+        purchase_order_item_id: parseInt(itemId),
+        quantity: parseInt(line.quantity) || 0,
+        unit_cost: parseFloat(line.unit_cost) || 0,
+        units: parseUnitLines(line.units),
+      }))
+      .filter((line) => line.quantity > 0);
+
+    if (items.length === 0) {
+      alert('Enter a received quantity for at least one item');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await window.electronAPI.purchases.receive(order.id, {
+        notes: receiptNotes.trim() || null,
+        location_id: receiptLocationId,
+        items,
+      });
+      alert(`Goods received: ${result.grn_number}`);
+      setReceiving(false);
+      await loadOrder();
+      onChange();
+    } catch (error: any) {
+      console.error('Error receiving goods:', error);
+      alert(`Failed to receive goods: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelOrder = async () => {
+    if (!order) return;
+    if (!confirm(`Cancel purchase order ${order.po_number}?`)) return;
+    try {
+      await window.electronAPI.purchases.cancel(order.id);
+      await loadOrder();
+      onChange();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to cancel purchase order');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white rounded-lg p-6">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return null;
+  }
+
+  const canReceive = order.status === 'ordered' || order.status === 'partially_received';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 p-6 text-white">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold">Purchase Order</h2>
+              <p className="text-blue-100 text-sm mt-1">{order.po_number} • {order.supplier_name}</p>
+            </div>
+            <button onClick={onClose} className="text-white hover:text-gray-200 text-3xl font-light leading-none">
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+              <p className="text-xs text-blue-600 font-medium mb-1">Order Date</p>
+              <p className="text-sm font-semibold text-gray-900">{formatDate(order.order_date)}</p>
+            </div>
+            <div className="bg-green-50 rounded-lg p-4 border border-green-200">
+              <p className="text-xs text-green-600 font-medium mb-1">Expected Delivery</p>
+              <p className="text-sm font-semibold text-gray-900">{formatDate(order.expected_date)}</p>
+            </div>
+            <div className="bg-purple-50 rounded-lg p-4 border border-purple-200">
+              <p className="text-xs text-purple-600 font-medium mb-1">Status</p>
+              <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_CLASSES[order.status]}`}>
+                {STATUS_LABELS[order.status]}
+              </span>
+            </div>
+          </div>
+
+          {/* Items */}
+          <div className="bg-gray-50 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-4 text-gray-900">{receiving ? 'Receive Goods' : 'Items'}</h3>
+            <div className="bg-white rounded-lg overflow-hidden border border-gray-200">
+              <table className="w-full">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">Product</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Ordered</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Received</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Outstanding</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">
+                      {receiving ? 'Receive Now' : 'Unit Cost'}
+                    </th>
+                    {receiving && (
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Unit Cost</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {order.items?.map((item) => {
+                    const outstanding = item.quantity_ordered - item.quantity_received;
+                    const line = receiptLines[item.id];
+                    return (
+                      <tr key={item.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {item.product_name}
+                          {receiving && line && !!item.track_units && (
+                            <div className="mt-2">
+                              <textarea
+                                value={line.units}
+                                onChange={(e) =>
+                                  setReceiptLines({ ...receiptLines, [item.id]: { ...line, units: e.target.value } })
+                                }
+                                rows={2}
+                                placeholder="DOT codes, one tire per line (2324, 2324 SERIAL or 2324 x4)"
+                                className="w-full px-2 py-1 border border-gray-300 rounded text-xs font-mono font-normal"
+                              />
+                              <span className="text-xs font-normal text-gray-500">
+                                {parseUnitLines(line.units).length} of {parseInt(line.quantity) || 0} DOT codes entered
+                              </span>
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600 text-right">{item.quantity_ordered}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600 text-right">{item.quantity_received}</td>
+                        <td className={`px-4 py-3 text-sm text-right font-semibold ${outstanding > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                          {outstanding}
+                        </td>
+                        {receiving ? (
+                          <>
+                            <td className="px-4 py-3 text-right">
+                              {line ? (
+                                <input
+                                  type="number"
+                                  min="0"
+                                  max={outstanding}
+                                  value={line.quantity}
+                                  onChange={(e) =>
+                                    setReceiptLines({ ...receiptLines, [item.id]: { ...line, quantity: e.target.value } })
+                                  }
+                                  className="w-20 px-2 py-1 border border-gray-300 rounded text-right text-sm"
+                                />
+                              ) : (
+                                <span className="text-sm text-gray-400">-</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {line ? (
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={line.unit_cost}
+                                  onChange={(e) =>
+                                    setReceiptLines({ ...receiptLines, [item.id]: { ...line, unit_cost: e.target.value } })
+                                  }
+                                  className="w-28 px-2 py-1 border border-gray-300 rounded text-right text-sm"
+                                />
+                              ) : (
+                                <span className="text-sm text-gray-400">-</span>
+                              )}
+                            </td>
+                          </>
+                        ) : (
+                          <td className="px-4 py-3 text-sm text-gray-600 text-right">Rs. {item.unit_cost.toFixed(2)}</td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {receiving && (
+              <div className="mt-4 flex gap-4">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">GRN Notes</label>
+                  <input
+                    type="text"
+                    value={receiptNotes}
+                    onChange={(e) => setReceiptNotes(e.target.value)}
+                    placeholder="Supplier delivery note number, condition, etc."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                {locations.length > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Receive Into</label>
+                    <select
+                      value={receiptLocationId ?? ''}
+                      onChange={(e) => setReceiptLocationId(parseInt(e.target.value))}
+                      className="px-3 py-2 border border-gray-300 rounded-md"
+                    >
+                      {locations.map((l) => (
+                        <option key={l.id} value={l.id}>{l.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Goods Received Notes */}
+          {order.receipts && order.receipts.length > 0 && (
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-4 text-gray-900">Goods Received Notes</h3>
+              <div className="space-y-3">
+                {order.receipts.map((receipt) => (
+                  <div key={receipt.id} className="bg-white rounded-lg border border-gray-200 p-3">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-semibold text-gray-900">{receipt.grn_number}</span>
+                      <span className="text-gray-500">
+                        {receipt.location_name && `${receipt.location_name} · `}
+                        {formatDate(receipt.received_date)}
+                      </span>
+                    </div>
+                    <div className="mt-1 text-xs text-gray-600">
+                      {receipt.items?.map((item) => `${item.product_name} × ${item.quantity}`).join(', ')}
+                    </div>
+                    <div className="mt-1 flex justify-between text-xs">
+                      <span className="text-gray-500">{receipt.notes}</span>
+                      <span className="font-semibold text-gray-900">Rs. {receipt.total_amount.toFixed(2)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center pt-4 border-t border-gray-200">
+            <div className="text-lg font-bold text-gray-900">
+              Order Total: <span className="text-blue-600">Rs. {order.total_amount.toFixed(2)}</span>
+            </div>
+            <div className="flex gap-3">
+              {order.status === 'ordered' && !receiving && (
+                <button
+                  onClick={handleCancelOrder}
+                  className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 font-medium"
+                >
+                  Cancel Order
+                </button>
+              )}
+              {canReceive && !receiving && (
+                <button
+                  onClick={startReceiving}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium shadow-md"
+                >
+                  Receive Goods
+                </button>
+              )}
+              {receiving && (
+                <>
+                  <button
+                    onClick={() => setReceiving(false)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    disabled={saving}
+                  >
+                    Back
+                  </button>
+                  <button
+                    onClick={handleReceive}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium shadow-md disabled:bg-gray-400"
+                    disabled={saving}
+                  >
+                    {saving ? 'Saving...' : 'Post GRN'}
+                  </button>
+                </>
+              )}
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border-2 border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Purchases;
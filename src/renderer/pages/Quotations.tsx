@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { generateQuotationPDF } from '../utils/receipt';
+import { Quotation, QuotationStatus } from '../types';
+
+const STATUS_BADGES: Record<QuotationStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-green-100 text-green-800' },
+  expired: { label: 'Expired', className: 'bg-yellow-100 text-yellow-800' },
+  converted: { label: 'Invoiced', className: 'bg-blue-100 text-blue-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-200 text-gray-700' },
+};
+
+const Quotations = () => {
+  const navigate = useNavigate();
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState<QuotationStatus | 'all'>('all');
+
+  useEffect(() => {
+    loadQuotations();
+  }, []);
+
+  const loadQuotations = async () => {
+    try {
+      setQuotations(await window.electronAPI.quotations.getAll());
+    } catch (error) {
+      console.error('Error loading quotations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = async (quotation: Quotation) => {
+    try {
+      const full = await window.electronAPI.quotations.getById(quotation.id);
+      generateQuotationPDF(full);
+    } catch (error: any) {
+      console.error('Error generating quotation PDF:', error);
+      alert(error?.message || 'Failed to generate quotation PDF');
+    }
+  };
+
+  const handleCancel = async (quotation: Quotation) => {
+    if (!confirm(`Cancel quotation ${quotation.quotation_number}?`)) return;
+    try {
+      await window.electronAPI.quotations.cancel(quotation.id);
+      loadQuotations();
+    } catch (error: any) {
+      console.error('Error cancelling quotation:', error);
+      alert(error?.message || 'Failed to cancel quotation');
+    }
+  };
+
+  // Billing loads the quotation into the cart and re-checks stock and prices before the sale
+  const handleConvert = (quotation: Quotation) => {
+    navigate('/billing', { state: { quotationId: quotation.id } });
+  };
+
+  const filteredQuotations = quotations.filter((quotation) => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      quotation.quotation_number.toLowerCase().includes(term) ||
+      (quotation.customer_name || '').toLowerCase().includes(term) ||
+      (quotation.customer_phone || '').includes(term) ||
+      (quotation.registration_number || '').toLowerCase().includes(term);
+    return matchesSearch && (filterStatus === 'all' || quotation.status === filterStatus);
+  });
+
+  const openCount = quotations.filter((quotation) => quotation.status === 'open').length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <p className="ml-3 text-gray-600">Loading quotations...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg shadow-lg p-6 text-white">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold mb-2">Quotations</h2>
+            <p className="text-blue-100 text-sm">Written prices for customers; create them from the Billing cart</p>
+          </div>
+          <div className="flex gap-3">
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Open Quotations</p>
+              <p className="text-2xl font-bold text-blue-600">{openCount}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-col md:flex-row gap-4 items-center">
+          <div className="flex-1 w-full">
+            <input
+              type="text"
+              placeholder="Search by number, customer, phone or vehicle..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="md:w-48">
+            <select
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value as QuotationStatus | 'all')}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">All Statuses</option>
+              {Object.entries(STATUS_BADGES).map(([status, badge]) => (
+                <option key={status} value={status}>{badge.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {filteredQuotations.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            {quotations.length === 0 ? 'No quotations yet. Use "Save as Quote" on the Billing page.' : 'No quotations match your filters'}
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quotation</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid Until</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredQuotations.map((quotation) => (
+                <tr key={quotation.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{quotation.quotation_number}</div>
+                    <div className="text-xs text-gray-500">{quotation.created_at.split(' ')[0]}</div>
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="text-sm text-gray-900">{quotation.customer_name || 'Walk-in Customer'}</div>
+                    <div className="text-xs text-gray-500">
+                      {[quotation.customer_phone, quotation.registration_number].filter(Boolean).join(' • ')}
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">{quotation.valid_until}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm font-semibold text-gray-900 text-right">
+                    Rs. {quotation.total_amount.toFixed(2)}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGES[quotation.status].className}`}>
+                      {STATUS_BADGES[quotation.status].label}
+                    </span>
+                    {quotation.invoice_number && (
+                      <span className="block text-xs text-gray-500 mt-0.5">{quotation.invoice_number}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-right text-sm space-x-3">
+                    <button onClick={() => handleDownload(quotation)} className="text-blue-600 hover:text-blue-800 font-medium">
+                      PDF
+                    </button>
+                    {(quotation.status === 'open' || quotation.status === 'expired') && (
+                      <>
+                        <button onClick={() => handleConvert(quotation)} className="text-green-600 hover:text-green-800 font-medium">
+                          Convert to Invoice
+                        </button>
+                        <button onClick={() => handleCancel(quotation)} className="text-red-600 hover:text-red-800 font-medium">
+                          Cancel
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Quotations;
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { ReorderSuggestion } from '../types';
+import {
+  ReorderGrouping,
+  ReorderLine,
+  exportReorderCSV,
+  generateReorderPDF,
+  groupReorderLines,
+} from '../utils/reorders';
+
+const PERIODS = [30, 60, 90, 180];
+
+const Reorders = () => {
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [grouping, setGrouping] = useState<ReorderGrouping>('supplier');
+  const [days, setDays] = useState(90);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [days]);
+
+  const loadSuggestions = async () => {
+    setLoading(true);
+    try {
+      const data: ReorderSuggestion[] = await window.electronAPI.reorders.getSuggestions(days);
+      setSuggestions(data);
+      setQuantities(Object.fromEntries(data.map((s) => [s.product_id, s.suggested_quantity.toString()])));
+    } catch (error) {
+      console.error('Error loading reorder suggestions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const lines: ReorderLine[] = suggestions.map((s) => ({
+    ...s,
+    order_quantity: Math.max(0, parseInt(quantities[s.product_id]) || 0),
+  }));
+  const groups = groupReorderLines(lines, grouping);
+  // Lines set to 0 stay on screen but are left off the exported list
+  const orderGroups = groupReorderLines(lines.filter((line) => line.order_quantity > 0), grouping);
+  const totalCost = orderGroups.reduce((sum, group) => sum + group.total_cost, 0);
+  const itemCount = orderGroups.reduce((sum, group) => sum + group.lines.length, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg shadow-lg p-6 text-white">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold mb-2">Suggested Reorders</h2>
+            <p className="text-blue-100 text-sm">Products at their reorder point, sized from recent sales and supplier lead times</p>
+          </div>
+          <div className="flex gap-3 items-center">
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">To Order</p>
+              <p className="text-2xl font-bold text-blue-600">{itemCount}</p>
+            </div>
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Estimated Cost</p>
+              <p className="text-2xl font-bold text-purple-600">Rs. {totalCost.toFixed(2)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center gap-4">
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+          {(['supplier', 'brand'] as ReorderGrouping[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setGrouping(option)}
+              className={`px-4 py-2 ${grouping === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              By {option === 'supplier' ? 'Supplier' : 'Brand'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Sales over
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {PERIODS.map((period) => (
+              <option key={period} value={period}>last {period} days</option>
+            ))}
+          </select>
+        </label>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => exportReorderCSV(orderGroups, grouping)}
+            disabled={orderGroups.length === 0}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => generateReorderPDF(orderGroups, grouping)}
+            disabled={orderGroups.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            Export PDF
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <p className="ml-3 text-gray-600">Working out reorders...</p>
+        </div>
+      ) : suggestions.length === 0 ? (
+        <div className="bg-white rounded-lg shadow text-center py-12 text-gray-500">
+          Nothing needs reordering. Stock and open purchase orders cover every reorder point.
+        </div>
+      ) : (
+        groups.map((group) => (
+          <div key={group.name} className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-3 bg-gray-50 border-b flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-gray-900">{group.name}</h3>
+              <span className="text-sm text-gray-600">
+                {group.total_quantity} units · <span className="font-semibold text-gray-900">Rs. {group.total_cost.toFixed(2)}</span>
+              </span>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">In Stock</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">On Order</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sold / Day</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reorder At</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Order</th>
+                  <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {group.lines.map((line) => (
+                  <tr key={line.product_id} className={line.order_quantity > 0 ? '' : 'opacity-50'}>
+                    <td className="px-6 py-2">
+                      <div className="text-sm font-medium text-gray-900">{line.product_name}</div>
+                      <div className="text-xs text-gray-500">
+                        {[line.size_display, line.sku, grouping === 'brand' ? line.supplier_name : line.brand].filter(Boolean).join(' · ')}
+                      </div>
+                    </td>
+                    <td className={`px-4 py-2 text-sm text-right ${line.stock_quantity <= 0 ? 'text-red-600 font-semibold' : 'text-gray-900'}`}>
+                      {line.stock_quantity}
+                      {line.days_left !== null && (
+                        <div className="text-xs text-gray-500 font-normal">{line.days_left} days left</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-700">{line.on_order || '-'}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-700">{line.velocity}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-700">
+                      {line.reorder_point}
+                      <div className="text-xs text-gray-500">{line.lead_time_days}-day lead</div>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        value={quantities[line.product_id] ?? ''}
+                        onChange={(e) => setQuantities({ ...quantities, [line.product_id]: e.target.value })}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-right"
+                      />
+                    </td>
+                    <td className="px-6 py-2 text-sm text-right text-gray-900">
+                      {(line.order_quantity * line.unit_cost).toFixed(2)}
+                      <div className="text-xs text-gray-500">@ {line.unit_cost.toFixed(2)}</div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default Reorders;
@@ -16,6 +16,19 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
+import {
+  AgedUnit,
+  AgingBuckets,
+  GrossMarginReport,
+  InventoryValuation,
+  MarginFigures,
+  MarginGrouping,
+  ReceivableCustomer,
+  TaxSummary,
+} from '../types';
+import { generateStatementPDF } from '../utils/statement';
+import { formatTaxLabel } from '../utils/tax';
+import { formatTireAge } from '../utils/dot';
 
 interface DailySalesReport {
   summary: {
@@ -24,32 +37,46 @@ interface DailySalesReport {
     total_subtotal: number;
     total_tax: number;
     total_discount: number;
+    total_line_discount: number;
+    total_bill_discount: number;
   };
   topProducts: Array<{
     product_name: string;
     total_quantity: number;
     total_revenue: number;
+    total_discount: number;
   }>;
 }
 
+// Profit figures are on revenue before tax, at the cost captured on each sold line
+type ProfitFigures = Omit<MarginFigures, 'revenue'>;
+
 interface DateRangeReport {
-  summary: {
+  summary: Omit<ProfitFigures, 'cogs'> & {
+    net_sales: number;
+    total_cogs: number;
     total_invoices: number;
+    gross_revenue: number;
+    total_returns: number;
+    total_returns_count: number;
     total_revenue: number;
     total_subtotal: number;
     total_tax: number;
     total_discount: number;
     avg_invoice_value: number;
   };
-  dailyBreakdown: Array<{
+  dailyBreakdown: Array<ProfitFigures & {
     date: string;
     invoices: number;
     revenue: number;
+    returns: number;
+    net_sales: number;
   }>;
-  topProducts: Array<{
+  topProducts: Array<ProfitFigures & {
     product_name: string;
     total_quantity: number;
     total_revenue: number;
+    net_revenue: number;
   }>;
   paymentMethods: Array<{
     payment_method: string;
@@ -59,11 +86,12 @@ interface DateRangeReport {
 }
 
 interface ProductPerformanceReport {
-  bestSellers: Array<{
+  bestSellers: Array<ProfitFigures & {
     product_name: string;
     total_sold: number;
     total_revenue: number;
     avg_price: number;
+    net_revenue: number;
   }>;
   slowMovers: Array<{
     product_name: string;
@@ -72,10 +100,24 @@ interface ProductPerformanceReport {
   }>;
 }
 
+interface ReceivablesReport {
+  customers: ReceivableCustomer[];
+  totals: AgingBuckets;
+}
+
+const AGING_BUCKETS: Array<{ key: keyof Omit<AgingBuckets, 'balance'>; label: string; color: string }> = [
+  { key: 'days_0_30', label: '0-30 days', color: '#10B981' },
+  { key: 'days_31_60', label: '31-60 days', color: '#F59E0B' },
+  { key: 'days_61_90', label: '61-90 days', color: '#F97316' },
+  { key: 'days_over_90', label: '90+ days', color: '#EF4444' },
+];
+
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'];
 
+const formatPercent = (value: number | null) => (value !== null ? `${value.toFixed(1)}%` : '-');
+
 const Reports = () => {
-  const [activeTab, setActiveTab] = useState<'daily' | 'range' | 'products' | 'customers'>('daily');
+  const [activeTab, setActiveTab] = useState<'daily' | 'range' | 'products' | 'customers' | 'receivables' | 'tax' | 'tireAge' | 'valuation' | 'margins'>('daily');
   
   // Daily Report State
   const [selectedDate, setSelectedDate] = useState(
@@ -95,7 +137,24 @@ const Reports = () => {
   // Product Performance State
   const [productReport, setProductReport] = useState<ProductPerformanceReport | null>(null);
   
-  // Customer Report State
+  // Receivables State
+  const [receivablesReport, setReceivablesReport] = useState<ReceivablesReport | null>(null);
+  
+  // Tax Summary State (uses the date range above)
+  const [taxGroupBy, setTaxGroupBy] = useState<'day' | 'month'>('month');
+  const [taxSummary, setTaxSummary] = useState<TaxSummary | null>(null);
+  
+  // Tire Age State (tires with a DOT code only)
+  const [agedYears, setAgedYears] = useState(5);
+  const [agedUnits, setAgedUnits] = useState<AgedUnit[] | null>(null);
+  
+  // Stock Value State
+  const [valuationDate, setValuationDate] = useState(new Date().toISOString().split('T')[0]);
+  const [valuation, setValuation] = useState<InventoryValuation | null>(null);
+  
+  // Margins State (uses the date range above)
+  const [marginGroupBy, setMarginGroupBy] = useState<MarginGrouping>('product');
+  const [marginReport, setMarginReport] = useState<GrossMarginReport | null>(null);
   
   const [loading, setLoading] = useState(false);
 
@@ -106,8 +165,18 @@ const Reports = () => {
       loadRangeReport();
     } else if (activeTab === 'products') {
       loadProductReport();
+    } else if (activeTab === 'receivables') {
+      loadReceivablesReport();
+    } else if (activeTab === 'tax') {
+      loadTaxSummary();
+    } else if (activeTab === 'tireAge') {
+      loadAgedUnits();
+    } else if (activeTab === 'valuation') {
+      loadValuation();
+    } else if (activeTab === 'margins') {
+      loadMarginReport();
     }
-  }, [activeTab, selectedDate, startDate, endDate]);
+  }, [activeTab, selectedDate, startDate, endDate, taxGroupBy, agedYears, valuationDate, marginGroupBy]);
 
   const loadDailyReport = async () => {
     setLoading(true);
@@ -165,11 +234,87 @@ const Reports = () => {
     }
   };
 
+  const loadReceivablesReport = async () => {
+    setLoading(true);
+    try {
+      const data = await window.electronAPI.reports.receivables();
+      setReceivablesReport(data);
+    } catch (error) {
+      console.error('Error loading receivables report:', error);
+      setReceivablesReport(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadTaxSummary = async () => {
+    setLoading(true);
+    try {
+      const data = await window.electronAPI.reports.taxSummary(startDate, endDate, taxGroupBy);
+      setTaxSummary(data);
+    } catch (error) {
+      console.error('Error loading tax summary:', error);
+      setTaxSummary(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAgedUnits = async () => {
+    setLoading(true);
+    try {
+      setAgedUnits(await window.electronAPI.reports.agedStock(agedYears));
+    } catch (error) {
+      console.error('Error loading tire age report:', error);
+      setAgedUnits(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadValuation = async () => {
+    setLoading(true);
+    try {
+      setValuation(await window.electronAPI.reports.inventoryValuation(valuationDate));
+    } catch (error) {
+      console.error('Error loading stock valuation:', error);
+      setValuation(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMarginReport = async () => {
+    setLoading(true);
+    try {
+      setMarginReport(await window.electronAPI.reports.grossMargins(startDate, endDate, marginGroupBy));
+    } catch (error) {
+      console.error('Error loading margin report:', error);
+      setMarginReport(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatement = async (customerId: number) => {
+    try {
+      const statement = await window.electronAPI.credit.getStatement(customerId);
+      generateStatementPDF(statement);
+    } catch (error: any) {
+      console.error('Error generating statement:', error);
+      alert(error?.message || 'Failed to generate statement');
+    }
+  };
 
   const tabs = [
     { id: 'daily', name: 'Daily Report', icon: '📅' },
     { id: 'range', name: 'Date Range', icon: '📊' },
     { id: 'products', name: 'Products', icon: '📦' },
+    { id: 'receivables', name: 'Receivables', icon: '💳' },
+    { id: 'tax', name: 'Tax', icon: '🧾' },
+    { id: 'tireAge', name: 'Tire Age', icon: '🛞' },
+    { id: 'valuation', name: 'Stock Value', icon: '🏷️' },
+    { id: 'margins', name: 'Margins', icon: '💹' },
   ];
 
   return (
@@ -232,6 +377,13 @@ const Reports = () => {
                         <StatCard title="Discount" value={`Rs. ${(dailyReport.summary.total_discount || 0).toFixed(2)}`} color="red" />
                       </div>
 
+                      {(dailyReport.summary.total_discount || 0) > 0 && (
+                        <p className="text-sm text-gray-600">
+                          Discounts: Rs. {(dailyReport.summary.total_line_discount || 0).toFixed(2)} on items,
+                          Rs. {(dailyReport.summary.total_bill_discount || 0).toFixed(2)} off bills
+                        </p>
+                      )}
+
                       {dailyReport.topProducts && dailyReport.topProducts.length > 0 && (
                         <div>
                           <h4 className="text-md font-semibold mb-3">Top Products</h4>
@@ -241,6 +393,7 @@ const Reports = () => {
                                 <tr>
                                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
                                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Discount</th>
                                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Revenue</th>
                                 </tr>
                               </thead>
@@ -249,6 +402,9 @@ const Reports = () => {
                                   <tr key={idx} className="hover:bg-gray-50">
                                     <td className="px-4 py-3 text-sm font-medium text-gray-900">{product.product_name}</td>
                                     <td className="px-4 py-3 text-sm text-gray-500 text-right">{product.total_quantity}</td>
+                                    <td className="px-4 py-3 text-sm text-red-600 text-right">
+                                      {product.total_discount > 0 ? `Rs. ${product.total_discount.toFixed(2)}` : '-'}
+                                    </td>
                                     <td className="px-4 py-3 text-sm text-gray-900 text-right font-medium">Rs. {product.total_revenue.toFixed(2)}</td>
                                   </tr>
                                 ))}
@@ -329,13 +485,29 @@ const Reports = () => {
                     <>
                       <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
                         <StatCard title="Invoices" value={rangeReport.summary.total_invoices || 0} color="blue" />
-                        <StatCard title="Revenue" value={`Rs. ${(rangeReport.summary.total_revenue || 0).toFixed(2)}`} color="green" />
+                        <StatCard title="Net Revenue" value={`Rs. ${(rangeReport.summary.total_revenue || 0).toFixed(2)}`} color="green" />
                         <StatCard title="Subtotal" value={`Rs. ${(rangeReport.summary.total_subtotal || 0).toFixed(2)}`} color="purple" />
                         <StatCard title="Tax" value={`Rs. ${(rangeReport.summary.total_tax || 0).toFixed(2)}`} color="orange" />
                         <StatCard title="Discount" value={`Rs. ${(rangeReport.summary.total_discount || 0).toFixed(2)}`} color="red" />
                         <StatCard title="Avg Invoice" value={`Rs. ${(rangeReport.summary.avg_invoice_value || 0).toFixed(2)}`} color="indigo" />
                       </div>
 
+                      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        <StatCard title="Sales (ex. tax)" value={`Rs. ${rangeReport.summary.net_sales.toFixed(2)}`} color="blue" />
+                        <StatCard title="Cost of Goods Sold" value={`Rs. ${rangeReport.summary.total_cogs.toFixed(2)}`} color="orange" />
+                        <StatCard title="Gross Profit" value={`Rs. ${rangeReport.summary.gross_profit.toFixed(2)}`} color="green" />
+                        <StatCard title="Margin" value={formatPercent(rangeReport.summary.margin_percent)} color="purple" />
+                        <StatCard title="Markup" value={formatPercent(rangeReport.summary.markup_percent)} color="indigo" />
+                      </div>
+
+                      {(rangeReport.summary.total_returns_count || 0) > 0 && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                          Gross sales Rs. {(rangeReport.summary.gross_revenue || 0).toFixed(2)} less{' '}
+                          {rangeReport.summary.total_returns_count} return{rangeReport.summary.total_returns_count !== 1 ? 's' : ''} of{' '}
+                          Rs. {(rangeReport.summary.total_returns || 0).toFixed(2)}
+                        </div>
+                      )}
+
                       {rangeReport.dailyBreakdown && rangeReport.dailyBreakdown.length > 0 && (
                         <div className="bg-white p-4 rounded-lg border border-gray-200">
                           <h4 className="text-md font-semibold mb-4">Daily Breakdown</h4>
@@ -349,6 +521,10 @@ const Reports = () => {
                                   <stop offset="5%" stopColor="#3B82F6" stopOpacity={0.8}/>
                                   <stop offset="95%" stopColor="#3B82F6" stopOpacity={0.1}/>
                                 </linearGradient>
+                                <linearGradient id="colorProfit" x1="0" y1="0" x2="0" y2="1">
+                                  <stop offset="5%" stopColor="#10B981" stopOpacity={0.8}/>
+                                  <stop offset="95%" stopColor="#10B981" stopOpacity={0.1}/>
+                                </linearGradient>
                               </defs>
                               <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
                               <XAxis 
@@ -370,22 +546,65 @@ const Reports = () => {
                                   borderRadius: '8px',
                                   boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
                                 }}
-                                formatter={(value: number) => [`Rs. ${value.toFixed(2)}`, 'Revenue']}
+                                formatter={(value: number, name: string) => [`Rs. ${value.toFixed(2)}`, name]}
                                 labelFormatter={(label) => `Date: ${label}`}
                               />
+                              <Legend />
                               <Area 
                                 type="monotone" 
                                 dataKey="revenue" 
+                                name="Revenue"
                                 stroke="#3B82F6" 
                                 strokeWidth={2}
                                 fillOpacity={1} 
                                 fill="url(#colorRevenue)" 
                               />
+                              <Area 
+                                type="monotone" 
+                                dataKey="gross_profit" 
+                                name="Gross Profit"
+                                stroke="#10B981" 
+                                strokeWidth={2}
+                                fillOpacity={1} 
+                                fill="url(#colorProfit)" 
+                              />
                             </AreaChart>
                           </ResponsiveContainer>
                         </div>
                       )}
 
+                      {rangeReport.dailyBreakdown && rangeReport.dailyBreakdown.length > 0 && (
+                        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+                          <h4 className="text-md font-semibold p-4 pb-2">Daily Profit</h4>
+                          <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                              <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Date</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Sales (ex. tax)</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">COGS</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Gross Profit</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Margin</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Markup</th>
+                              </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                              {rangeReport.dailyBreakdown.map((day) => (
+                                <tr key={day.date} className="hover:bg-gray-50">
+                                  <td className="px-4 py-2 text-sm text-gray-900">{day.date}</td>
+                                  <td className="px-4 py-2 text-sm text-gray-500 text-right">Rs. {day.net_sales.toFixed(2)}</td>
+                                  <td className="px-4 py-2 text-sm text-gray-500 text-right">Rs. {day.cogs.toFixed(2)}</td>
+                                  <td className={`px-4 py-2 text-sm text-right font-medium ${day.gross_profit < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                    Rs. {day.gross_profit.toFixed(2)}
+                                  </td>
+                                  <td className="px-4 py-2 text-sm text-gray-500 text-right">{formatPercent(day.margin_percent)}</td>
+                                  <td className="px-4 py-2 text-sm text-gray-500 text-right">{formatPercent(day.markup_percent)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         {rangeReport.topProducts && rangeReport.topProducts.length > 0 && (
                           <div>
@@ -397,6 +616,7 @@ const Reports = () => {
                                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Product</th>
                                     <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Qty</th>
                                     <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Revenue</th>
+                                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Profit</th>
                                   </tr>
                                 </thead>
                                 <tbody className="bg-white divide-y divide-gray-200">
@@ -405,6 +625,10 @@ const Reports = () => {
                                       <td className="px-4 py-2 text-sm text-gray-900">{product.product_name}</td>
                                       <td className="px-4 py-2 text-sm text-gray-500 text-right">{product.total_quantity}</td>
                                       <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">Rs. {product.total_revenue.toFixed(2)}</td>
+                                      <td className={`px-4 py-2 text-sm text-right ${product.gross_profit < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                        Rs. {product.gross_profit.toFixed(2)}
+                                        <span className="block text-xs text-gray-500">{formatPercent(product.margin_percent)} margin</span>
+                                      </td>
                                     </tr>
                                   ))}
                                 </tbody>
@@ -466,6 +690,8 @@ const Reports = () => {
                                   <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Product</th>
                                   <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Sold</th>
                                   <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Revenue</th>
+                                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Profit</th>
+                                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Margin</th>
                                 </tr>
                               </thead>
                               <tbody className="bg-white divide-y divide-gray-200">
@@ -474,6 +700,10 @@ const Reports = () => {
                                     <td className="px-4 py-2 text-sm text-gray-900">{product.product_name}</td>
                                     <td className="px-4 py-2 text-sm text-gray-500 text-right">{product.total_sold}</td>
                                     <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">Rs. {product.total_revenue.toFixed(2)}</td>
+                                    <td className={`px-4 py-2 text-sm text-right ${product.gross_profit < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                      Rs. {product.gross_profit.toFixed(2)}
+                                    </td>
+                                    <td className="px-4 py-2 text-sm text-gray-500 text-right">{formatPercent(product.margin_percent)}</td>
                                   </tr>
                                 ))}
                               </tbody>
@@ -526,6 +756,450 @@ const Reports = () => {
                 </div>
               )}
 
+              {/* Receivables */}
+              {activeTab === 'receivables' && (
+                <div className="space-y-6">
+                  <h3 className="text-lg font-semibold">Receivables & Aging</h3>
+
+                  {receivablesReport ? (
+                    <>
+                      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        <StatCard title="Total Outstanding" value={`Rs. ${receivablesReport.totals.balance.toFixed(2)}`} color="blue" />
+                        <StatCard title="0-30 Days" value={`Rs. ${receivablesReport.totals.days_0_30.toFixed(2)}`} color="green" />
+                        <StatCard title="31-60 Days" value={`Rs. ${receivablesReport.totals.days_31_60.toFixed(2)}`} color="orange" />
+                        <StatCard title="61-90 Days" value={`Rs. ${receivablesReport.totals.days_61_90.toFixed(2)}`} color="purple" />
+                        <StatCard title="90+ Days" value={`Rs. ${receivablesReport.totals.days_over_90.toFixed(2)}`} color="red" />
+                      </div>
+
+                      {receivablesReport.customers.length > 0 ? (
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                          <div className="lg:col-span-2 bg-white border border-gray-200 rounded-lg overflow-hidden">
+                            <table className="min-w-full divide-y divide-gray-200">
+                              <thead className="bg-gray-50">
+                                <tr>
+                                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Customer</th>
+                                  {AGING_BUCKETS.map((bucket) => (
+                                    <th key={bucket.key} className="px-4 py-2 text-right text-xs font-medium text-gray-500">{bucket.label}</th>
+                                  ))}
+                                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Balance</th>
+                                  <th className="px-4 py-2"></th>
+                                </tr>
+                              </thead>
+                              <tbody className="bg-white divide-y divide-gray-200">
+                                {receivablesReport.customers.map((customer) => (
+                                  <tr key={customer.customer_id} className="hover:bg-gray-50">
+                                    <td className="px-4 py-2 text-sm text-gray-900">
+                                      {customer.name || 'No name'}
+                                      <span className="block text-xs text-gray-500">
+                                        {customer.phone} • {customer.open_invoices} open invoice{customer.open_invoices !== 1 ? 's' : ''}
+                                      </span>
+                                    </td>
+                                    {AGING_BUCKETS.map((bucket) => (
+                                      <td key={bucket.key} className="px-4 py-2 text-sm text-gray-500 text-right">
+                                        {customer[bucket.key] > 0 ? customer[bucket.key].toFixed(2) : '-'}
+                                      </td>
+                                    ))}
+                                    <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">Rs. {customer.balance.toFixed(2)}</td>
+                                    <td className="px-4 py-2 text-right">
+                                      <button
+                                        onClick={() => handleStatement(customer.customer_id)}
+                                        className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                                      >
+                                        Statement
+                                      </button>
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+
+                          <div className="bg-white border border-gray-200 rounded-lg p-4">
+                            <h4 className="text-md font-semibold mb-3">Aging</h4>
+                            <ResponsiveContainer width="100%" height={250}>
+                              <BarChart data={AGING_BUCKETS.map((bucket) => ({ name: bucket.label, amount: receivablesReport.totals[bucket.key] }))}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                                <YAxis tick={{ fontSize: 11 }} />
+                                <Tooltip formatter={(value: number) => `Rs. ${value.toFixed(2)}`} />
+                                <Bar dataKey="amount">
+                                  {AGING_BUCKETS.map((bucket) => (
+                                    <Cell key={bucket.key} fill={bucket.color} />
+                                  ))}
+                                </Bar>
+                              </BarChart>
+                            </ResponsiveContainer>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="text-center py-12 text-gray-500">No outstanding customer balances</div>
+                      )}
+                    </>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">No data available</div>
+                  )}
+                </div>
+              )}
+
+              {activeTab === 'tax' && (
+                <div className="space-y-6">
+                  <div className="flex items-center space-x-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+                      <input
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                        max={endDate}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+                      <input
+                        type="date"
+                        value={endDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        min={startDate}
+                        max={new Date().toISOString().split('T')[0]}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Group By</label>
+                      <select
+                        value={taxGroupBy}
+                        onChange={(e) => setTaxGroupBy(e.target.value as 'day' | 'month')}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="day">Day</option>
+                        <option value="month">Month</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  {taxSummary && taxSummary.byRate.length > 0 ? (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <StatCard
+                          title="Tax Charged"
+                          value={`Rs. ${taxSummary.byRate.reduce((sum, row) => sum + row.tax_amount, 0).toFixed(2)}`}
+                          color="blue"
+                        />
+                        <StatCard
+                          title="Tax on Returns"
+                          value={`Rs. ${taxSummary.byRate.reduce((sum, row) => sum + row.returned_tax, 0).toFixed(2)}`}
+                          color="red"
+                        />
+                        <StatCard
+                          title="Net Tax Payable"
+                          value={`Rs. ${taxSummary.byRate.reduce((sum, row) => sum + row.net_tax, 0).toFixed(2)}`}
+                          color="green"
+                        />
+                      </div>
+
+                      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+                        <h4 className="text-md font-semibold p-4 pb-2">By Tax Rate</h4>
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Tax</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Invoices</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Taxable</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Tax</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Returns</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Net</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {taxSummary.byRate.map((row) => (
+                              <tr key={`${row.tax_name}-${row.rate}-${row.is_inclusive}`} className="hover:bg-gray-50">
+                                <td className="px-4 py-2 text-sm text-gray-900">{formatTaxLabel(row)}</td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">{row.invoice_count}</td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">Rs. {row.taxable_amount.toFixed(2)}</td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">Rs. {row.tax_amount.toFixed(2)}</td>
+                                <td className="px-4 py-2 text-sm text-red-600 text-right">{row.returned_tax > 0 ? `- Rs. ${row.returned_tax.toFixed(2)}` : '-'}</td>
+                                <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">Rs. {row.net_tax.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+                        <h4 className="text-md font-semibold p-4 pb-2">By {taxGroupBy === 'day' ? 'Day' : 'Month'}</h4>
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Period</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Tax</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Taxable</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Tax</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Returns</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Net</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {taxSummary.periods.map((row) => (
+                              <tr key={`${row.period}-${row.tax_name}-${row.rate}-${row.is_inclusive}`} className="hover:bg-gray-50">
+                                <td className="px-4 py-2 text-sm text-gray-900">{row.period}</td>
+                                <td className="px-4 py-2 text-sm text-gray-500">{formatTaxLabel(row)}</td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">Rs. {row.taxable_amount.toFixed(2)}</td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">Rs. {row.tax_amount.toFixed(2)}</td>
+                                <td className="px-4 py-2 text-sm text-red-600 text-right">{row.returned_tax > 0 ? `- Rs. ${row.returned_tax.toFixed(2)}` : '-'}</td>
+                                <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">Rs. {row.net_tax.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">No tax charged in this period</div>
+                  )}
+                </div>
+              )}
+
+              {activeTab === 'tireAge' && (
+                <div className="space-y-6">
+                  <div className="flex items-end justify-between">
+                    <div>
+                      <h3 className="text-lg font-semibold">Old Tire Stock</h3>
+                      <p className="text-sm text-gray-500">Tires in stock by DOT date; tires without a DOT code are not listed</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Made more than</label>
+                      <select
+                        value={agedYears}
+                        onChange={(e) => setAgedYears(parseInt(e.target.value))}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      >
+                        {[1, 2, 3, 4, 5, 6, 7, 8, 10].map((years) => (
+                          <option key={years} value={years}>{years} year{years !== 1 ? 's' : ''} ago</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {agedUnits && agedUnits.length > 0 ? (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <StatCard title="Tires" value={agedUnits.length} color="orange" />
+                        <StatCard title="Products" value={new Set(agedUnits.map((unit) => unit.product_id)).size} color="blue" />
+                        <StatCard
+                          title="Cost Value"
+                          value={`Rs. ${agedUnits.reduce((sum, unit) => sum + unit.cost_price, 0).toFixed(2)}`}
+                          color="red"
+                        />
+                      </div>
+
+                      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Product</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">DOT</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Serial</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Age</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Received</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {agedUnits.map((unit) => (
+                              <tr key={unit.id} className="hover:bg-gray-50">
+                                <td className="px-4 py-2 text-sm text-gray-900">
+                                  {unit.product_name}
+                                  {unit.size_display && <span className="block text-xs text-gray-500">{unit.size_display}</span>}
+                                </td>
+                                <td className="px-4 py-2 text-sm font-mono font-semibold text-gray-900">{unit.dot_code}</td>
+                                <td className="px-4 py-2 text-sm text-gray-500">{unit.serial_number || '-'}</td>
+                                <td className={`px-4 py-2 text-sm font-medium ${unit.age_years >= 6 ? 'text-red-600' : 'text-orange-600'}`}>
+                                  {formatTireAge(unit.manufactured_on)}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-500">{unit.received_at.split(' ')[0]}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">No tires in stock older than {agedYears} year{agedYears !== 1 ? 's' : ''}</div>
+                  )}
+                </div>
+              )}
+
+              {activeTab === 'valuation' && (
+                <div className="space-y-6">
+                  <div className="flex items-end justify-between">
+                    <div>
+                      <h3 className="text-lg font-semibold">Stock Valuation</h3>
+                      <p className="text-sm text-gray-500">
+                        Stock on hand at the end of the day, at its {valuation?.method === 'average' ? 'weighted average' : 'FIFO'} cost
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+                      <input
+                        type="date"
+                        value={valuationDate}
+                        onChange={(e) => setValuationDate(e.target.value)}
+                        max={new Date().toISOString().split('T')[0]}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+
+                  {valuation?.costing_since && valuation.costing_since.slice(0, 10) > valuation.as_of && (
+                    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                      Stock costs are recorded from {valuation.costing_since.slice(0, 10)}; earlier dates show no stock.
+                    </div>
+                  )}
+
+                  {valuation && valuation.items.length > 0 ? (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <StatCard title="Stock Value" value={`Rs. ${valuation.total_value.toFixed(2)}`} color="green" />
+                        <StatCard title="Units" value={valuation.total_quantity} color="blue" />
+                        <StatCard title="Products" value={valuation.items.length} color="purple" />
+                      </div>
+
+                      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Product</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Brand</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Qty</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Unit Cost</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Value</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {valuation.items.map((item) => (
+                              <tr key={item.product_id} className="hover:bg-gray-50">
+                                <td className="px-4 py-2 text-sm text-gray-900">
+                                  {item.product_name}
+                                  {(item.size_display || item.sku) && (
+                                    <span className="block text-xs text-gray-500">{[item.size_display, item.sku].filter(Boolean).join(' · ')}</span>
+                                  )}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-500">{item.brand || '-'}</td>
+                                <td className={`px-4 py-2 text-sm text-right ${item.quantity < 0 ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                                  {item.quantity}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">
+                                  {item.unit_cost !== null ? `Rs. ${item.unit_cost.toFixed(2)}` : '-'}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">Rs. {item.value.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">No stock on hand on {valuationDate}</div>
+                  )}
+                </div>
+              )}
+
+              {activeTab === 'margins' && (
+                <div className="space-y-6">
+                  <div className="flex items-center space-x-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+                      <input
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                        max={endDate}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+                      <input
+                        type="date"
+                        value={endDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        min={startDate}
+                        max={new Date().toISOString().split('T')[0]}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Group By</label>
+                      <select
+                        value={marginGroupBy}
+                        onChange={(e) => setMarginGroupBy(e.target.value as MarginGrouping)}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="invoice">Invoice</option>
+                        <option value="product">Product</option>
+                        <option value="brand">Brand</option>
+                        <option value="product_type">Product Type</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  {marginReport && marginReport.rows.length > 0 ? (
+                    <>
+                      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        <StatCard title="Revenue (ex. tax)" value={`Rs. ${marginReport.summary.revenue.toFixed(2)}`} color="blue" />
+                        <StatCard title="Cost of Goods Sold" value={`Rs. ${marginReport.summary.cogs.toFixed(2)}`} color="orange" />
+                        <StatCard title="Gross Profit" value={`Rs. ${marginReport.summary.gross_profit.toFixed(2)}`} color="green" />
+                        <StatCard title="Gross Margin" value={formatPercent(marginReport.summary.margin_percent)} color="purple" />
+                        <StatCard title="Markup" value={formatPercent(marginReport.summary.markup_percent)} color="indigo" />
+                      </div>
+
+                      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">
+                                {{ invoice: 'Invoice', product: 'Product', brand: 'Brand', product_type: 'Product Type' }[marginGroupBy]}
+                              </th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Qty</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Revenue</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">COGS</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Gross Profit</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Margin</th>
+                              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Markup</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {marginReport.rows.map((row) => (
+                              <tr key={row.key} className="hover:bg-gray-50">
+                                <td className="px-4 py-2 text-sm text-gray-900">
+                                  {row.label}
+                                  {row.detail && <span className="block text-xs text-gray-500">{row.detail}</span>}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">{row.quantity}</td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">Rs. {row.revenue.toFixed(2)}</td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">Rs. {row.cogs.toFixed(2)}</td>
+                                <td className={`px-4 py-2 text-sm text-right font-medium ${row.gross_profit < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                  Rs. {row.gross_profit.toFixed(2)}
+                                </td>
+                                <td className={`px-4 py-2 text-sm text-right ${row.margin_percent !== null && row.margin_percent < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                                  {formatPercent(row.margin_percent)}
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-500 text-right">{formatPercent(row.markup_percent)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Costs by {marginReport.method === 'average' ? 'weighted average' : 'FIFO'}. Revenue is after discounts and returns, before tax.
+                      </p>
+                    </>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">No sales in this period</div>
+                  )}
+                </div>
+              )}
+
             </>
           )}
         </div>
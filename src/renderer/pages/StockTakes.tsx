@@ -0,0 +1,530 @@
+import { useEffect, useState } from 'react';
+import { ProductType, StockLocation, StockTake, StockTakeStatus } from '../types';
+
+const STATUS_BADGES: Record<StockTakeStatus, { label: string; className: string }> = {
+  open: { label: 'Counting', className: 'bg-yellow-100 text-yellow-800' },
+  posted: { label: 'Posted', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-200 text-gray-700' },
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  tire: 'Tires',
+  alloy_wheel: 'Alloy Wheels',
+  general: 'General',
+};
+
+const describeScope = (stockTake: StockTake) =>
+  [
+    stockTake.brand,
+    stockTake.rim_size ? `R${stockTake.rim_size}` : null,
+    stockTake.product_type ? TYPE_LABELS[stockTake.product_type] : null,
+  ].filter(Boolean).join(' · ') || 'All products';
+
+const formatVariance = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const StockTakes = () => {
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadStockTakes();
+  }, []);
+
+  const loadStockTakes = async () => {
+    try {
+      setStockTakes(await window.electronAPI.stockTakes.getAll());
+    } catch (error) {
+      console.error('Error loading stock takes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCount = stockTakes.filter((stockTake) => stockTake.status === 'open').length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <p className="ml-3 text-gray-600">Loading stock takes...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg shadow-lg p-6 text-white">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold mb-2">Stock Takes</h2>
+            <p className="text-blue-100 text-sm">Count the racks, review variances and post the corrections in one go</p>
+          </div>
+          <div className="flex gap-3 items-center">
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Counting Now</p>
+              <p className="text-2xl font-bold text-blue-600">{openCount}</p>
+            </div>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="px-4 py-2 bg-white text-blue-600 rounded-lg hover:bg-blue-50 font-medium shadow-md"
+            >
+              New Stock Take
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {stockTakes.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No stock takes yet</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock Take</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scope</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {stockTakes.map((stockTake) => (
+                <tr key={stockTake.id} onClick={() => setSelectedId(stockTake.id)} className="hover:bg-gray-50 cursor-pointer">
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{stockTake.stock_take_number}</div>
+                    <div className="text-xs text-gray-500">{stockTake.created_at.split(' ')[0]}</div>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">{stockTake.location_name}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{describeScope(stockTake)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700 text-right">
+                    {stockTake.counted_count} / {stockTake.item_count}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-right">
+                    <div className={`text-sm font-semibold ${(stockTake.variance_quantity || 0) < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {formatVariance(stockTake.variance_quantity || 0)}
+                    </div>
+                    <div className="text-xs text-gray-500">Rs. {(stockTake.variance_value || 0).toFixed(2)}</div>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGES[stockTake.status].className}`}>
+                      {STATUS_BADGES[stockTake.status].label}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showCreateModal && (
+        <CreateStockTakeModal
+          onClose={() => setShowCreateModal(false)}
+          onCreated={(id) => {
+            setShowCreateModal(false);
+            loadStockTakes();
+            setSelectedId(id);
+          }}
+        />
+      )}
+
+      {selectedId && (
+        <StockTakeModal
+          stockTakeId={selectedId}
+          onClose={() => setSelectedId(null)}
+          onChange={loadStockTakes}
+        />
+      )}
+    </div>
+  );
+};
+
+interface CreateStockTakeModalProps {
+  onClose: () => void;
+  onCreated: (id: number) => void;
+}
+
+const CreateStockTakeModal = ({ onClose, onCreated }: CreateStockTakeModalProps) => {
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [brands, setBrands] = useState<{ id: number; name: string }[]>([]);
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [brand, setBrand] = useState('');
+  const [rimSize, setRimSize] = useState('');
+  const [productType, setProductType] = useState<ProductType | ''>('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([window.electronAPI.locations.getAll(), window.electronAPI.brands.getAll()])
+      .then(([locationsData, brandsData]: [StockLocation[], { id: number; name: string }[]]) => {
+        const active = locationsData.filter((l) => l.is_active);
+        setLocations(active);
+        setLocationId(active.find((l) => l.is_default)?.id ?? active[0]?.id ?? null);
+        setBrands(brandsData);
+      })
+      .catch((error: any) => console.error('Error loading stock take options:', error));
+  }, []);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const result = await window.electronAPI.stockTakes.create({
+        location_id: locationId,
+        brand: brand || null,
+        rim_size: rimSize ? parseInt(rimSize) : null,
+        product_type: productType || null,
+        notes: notes.trim() || null,
+      });
+      onCreated(result.id);
+    } catch (error: any) {
+      alert(error.message || 'Failed to start stock take');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-1">New Stock Take</h2>
+        <p className="text-sm text-gray-500 mb-4">Expected quantities are frozen when the stock take starts.</p>
+        <div className="space-y-4">
+          {locations.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+              <select
+                value={locationId ?? ''}
+                onChange={(e) => setLocationId(parseInt(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {locations.map((l) => (
+                  <option key={l.id} value={l.id}>{l.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Brand</label>
+            <select
+              value={brand}
+              onChange={(e) => setBrand(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">All brands</option>
+              {brands.map((b) => (
+                <option key={b.id} value={b.name}>{b.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rim Size</label>
+              <input
+                type="number"
+                min="10"
+                value={rimSize}
+                onChange={(e) => setRimSize(e.target.value)}
+                placeholder="Any, e.g. 16"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={productType}
+                onChange={(e) => setProductType(e.target.value as ProductType | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">All types</option>
+                {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. October rack count"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end gap-3 pt-6">
+          <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50" disabled={saving}>
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {saving ? 'Starting...' : 'Start Counting'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface StockTakeModalProps {
+  stockTakeId: number;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const StockTakeModal = ({ stockTakeId, onClose, onChange }: StockTakeModalProps) => {
+  const [stockTake, setStockTake] = useState<StockTake | null>(null);
+  const [counts, setCounts] = useState<{ [itemId: number]: string }>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [rimFilter, setRimFilter] = useState('');
+  const [varianceOnly, setVarianceOnly] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadStockTake();
+  }, [stockTakeId]);
+
+  const loadStockTake = async () => {
+    try {
+      const data: StockTake = await window.electronAPI.stockTakes.getById(stockTakeId);
+      setStockTake(data);
+      const initial: { [itemId: number]: string } = {};
+      (data.items || []).forEach((item) => {
+        initial[item.id] = item.counted_quantity === null ? '' : item.counted_quantity.toString();
+      });
+      setCounts(initial);
+    } catch (error) {
+      console.error('Error loading stock take:', error);
+    }
+  };
+
+  if (!stockTake) {
+    return null;
+  }
+
+  const items = stockTake.items || [];
+  const isOpen = stockTake.status === 'open';
+
+  // Variances follow the counts as they are typed, before they are saved
+  const lines = items.map((item) => {
+    const counted = counts[item.id] === undefined || counts[item.id] === '' ? null : parseInt(counts[item.id]);
+    const variance = counted === null || isNaN(counted) ? null : counted - item.expected_quantity;
+    return { ...item, counted, variance, variance_value: variance === null ? null : variance * item.unit_cost };
+  });
+  const rimSizes = Array.from(new Set(items.map((item) => item.tire_diameter || item.wheel_diameter).filter(Boolean))).sort();
+  const visibleLines = lines.filter((line) => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      line.product_name.toLowerCase().includes(term) ||
+      (line.sku || '').toLowerCase().includes(term) ||
+      (line.size_display || '').toLowerCase().includes(term);
+    const matchesRim = !rimFilter || String(line.tire_diameter || line.wheel_diameter) === rimFilter;
+    return matchesSearch && matchesRim && (!varianceOnly || (line.variance !== null && line.variance !== 0));
+  });
+  const countedLines = lines.filter((line) => line.variance !== null);
+  const varianceQuantity = countedLines.reduce((sum, line) => sum + (line.variance || 0), 0);
+  const varianceValue = countedLines.reduce((sum, line) => sum + (line.variance_value || 0), 0);
+  const shortValue = countedLines.reduce((sum, line) => sum + Math.min(line.variance_value || 0, 0), 0);
+
+  const getChangedCounts = () =>
+    lines
+      .filter((line) => line.counted !== items.find((item) => item.id === line.id)?.counted_quantity)
+      .map((line) => ({ item_id: line.id, counted_quantity: line.counted !== null && isNaN(line.counted) ? null : line.counted }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await window.electronAPI.stockTakes.saveCounts(stockTake.id, getChangedCounts());
+      await loadStockTake();
+      onChange();
+    } catch (error: any) {
+      alert(error.message || 'Failed to save counts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async () => {
+    const uncounted = lines.length - countedLines.length;
+    const message = [
+      `Post ${stockTake.stock_take_number}?`,
+      `Stock changes by ${formatVariance(varianceQuantity)} units (Rs. ${varianceValue.toFixed(2)}).`,
+      uncounted > 0 ? `${uncounted} uncounted products are left as they are.` : '',
+    ].filter(Boolean).join('\n');
+    if (!confirm(message)) return;
+
+    setSaving(true);
+    try {
+      await window.electronAPI.stockTakes.saveCounts(stockTake.id, getChangedCounts());
+      const result = await window.electronAPI.stockTakes.post(stockTake.id);
+      alert(`${result.adjusted} products adjusted`);
+      await loadStockTake();
+      onChange();
+    } catch (error: any) {
+      alert(error.message || 'Failed to post stock take');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm(`Cancel ${stockTake.stock_take_number}? Counts are kept but stock is not changed.`)) return;
+    try {
+      await window.electronAPI.stockTakes.cancel(stockTake.id);
+      await loadStockTake();
+      onChange();
+    } catch (error: any) {
+      alert(error.message || 'Failed to cancel stock take');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-xl font-bold">
+                {stockTake.stock_take_number}
+                <span className={`ml-3 px-2 py-0.5 text-xs font-semibold rounded-full align-middle ${STATUS_BADGES[stockTake.status].className}`}>
+                  {STATUS_BADGES[stockTake.status].label}
+                </span>
+              </h2>
+              <p className="text-sm text-gray-500 mt-1">
+                {stockTake.location_name} · {describeScope(stockTake)} · started {stockTake.created_at}
+                {stockTake.created_by && ` by ${stockTake.created_by}`}
+                {stockTake.posted_at && ` · posted ${stockTake.posted_at}`}
+              </p>
+              {stockTake.notes && <p className="text-sm text-gray-600 mt-1">{stockTake.notes}</p>}
+            </div>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl">×</button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Counted</p>
+              <p className="text-lg font-bold text-gray-900">{countedLines.length} / {lines.length}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Unit Variance</p>
+              <p className={`text-lg font-bold ${varianceQuantity < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatVariance(varianceQuantity)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Net Cost Impact</p>
+              <p className={`text-lg font-bold ${varianceValue < 0 ? 'text-red-600' : 'text-gray-900'}`}>Rs. {varianceValue.toFixed(2)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Shortages at Cost</p>
+              <p className="text-lg font-bold text-red-600">Rs. {shortValue.toFixed(2)}</p>
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-3 mt-4">
+            <input
+              type="text"
+              placeholder="Search by name, SKU or size..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+            />
+            {rimSizes.length > 1 && (
+              <select
+                value={rimFilter}
+                onChange={(e) => setRimFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">All rim sizes</option>
+                {rimSizes.map((size) => (
+                  <option key={size} value={String(size)}>R{size}</option>
+                ))}
+              </select>
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={varianceOnly} onChange={(e) => setVarianceOnly(e.target.checked)} />
+              Variances only
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Expected</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Counted</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Variance</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">At Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleLines.map((line) => (
+                <tr key={line.id}>
+                  <td className="px-4 py-2 text-sm">
+                    <div className="text-gray-900">{line.product_name}</div>
+                    {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-700">{line.expected_quantity}</td>
+                  <td className="px-4 py-2 text-right">
+                    {isOpen ? (
+                      <input
+                        type="number"
+                        min="0"
+                        value={counts[line.id] ?? ''}
+                        onChange={(e) => setCounts({ ...counts, [line.id]: e.target.value })}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-right"
+                      />
+                    ) : (
+                      <span className="text-sm text-gray-700">{line.counted ?? '—'}</span>
+                    )}
+                  </td>
+                  <td className={`px-4 py-2 text-sm text-right font-semibold ${(line.variance || 0) < 0 ? 'text-red-600' : (line.variance || 0) > 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                    {line.variance === null ? '—' : formatVariance(line.variance)}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-700">
+                    {line.variance_value === null ? '—' : `Rs. ${line.variance_value.toFixed(2)}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleLines.length === 0 && (
+            <div className="text-center py-8 text-gray-500">No products match your filters</div>
+          )}
+        </div>
+
+        {isOpen && (
+          <div className="p-4 border-t flex justify-between">
+            <button onClick={handleCancel} className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50" disabled={saving}>
+              Cancel Stock Take
+            </button>
+            <div className="flex gap-3">
+              <button onClick={handleSave} className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50" disabled={saving}>
+                Save Counts
+              </button>
+              <button
+                onClick={handlePost}
+                disabled={saving || countedLines.length === 0}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                Post Corrections
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockTakes;
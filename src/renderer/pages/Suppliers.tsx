@@ -0,0 +1,766 @@
+import { useEffect, useState } from 'react';
+import {
+  Product,
+  ProductSupplier,
+  Supplier,
+  SupplierContact,
+  SupplierContactType,
+  SupplierPriceComparison,
+} from '../types';
+
+const CONTACT_TYPE_LABELS: Record<SupplierContactType, string> = {
+  call: 'Phone Call',
+  email: 'Email',
+  visit: 'Visit',
+  price_list: 'Price List Received',
+  other: 'Other',
+};
+
+const formatDate = (dateStr?: string) => {
+  if (!dateStr) return '-';
+  const datePart = dateStr.toString().split(' ')[0];
+  const [year, month, day] = datePart.split('-');
+  const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+const Suppliers = () => {
+  const [activeTab, setActiveTab] = useState<'directory' | 'compare'>('directory');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedSupplierId, setSelectedSupplierId] = useState<number | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, []);
+
+  const loadSuppliers = async () => {
+    try {
+      const data = await window.electronAPI.suppliers.getAll();
+      setSuppliers(data);
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!confirm(`Delete supplier "${supplier.name}"? Its price list and contact history will also be removed.`)) {
+      return;
+    }
+    try {
+      await window.electronAPI.suppliers.delete(supplier.id);
+      setSelectedSupplierId(null);
+      loadSuppliers();
+    } catch (error: any) {
+      console.error('Error deleting supplier:', error);
+      alert(error?.message || 'Failed to delete supplier');
+    }
+  };
+
+  const filteredSuppliers = suppliers.filter((s) =>
+    s.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    s.contact_person?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    s.phone?.includes(searchTerm)
+  );
+
+  const selectedSupplier = suppliers.find((s) => s.id === selectedSupplierId) || null;
+  const linkedProducts = suppliers.reduce((sum, s) => sum + (s.product_count || 0), 0);
+
+  const tabs = [
+    { id: 'directory', name: 'Directory', icon: '📇' },
+    { id: 'compare', name: 'Price Comparison', icon: '⚖️' },
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <p className="ml-3 text-gray-600">Loading suppliers...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg shadow-lg p-6 text-white">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold mb-2">Suppliers</h2>
+            <p className="text-blue-100 text-sm">Distributors, their price lists and contact history</p>
+          </div>
+          <div className="flex gap-3">
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Suppliers</p>
+              <p className="text-2xl font-bold text-blue-600">{suppliers.length}</p>
+            </div>
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Price List Entries</p>
+              <p className="text-2xl font-bold text-purple-600">{linkedProducts}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="bg-white rounded-lg shadow border border-gray-200">
+        <div className="border-b border-gray-200">
+          <nav className="flex space-x-1 p-2" aria-label="Tabs">
+            {tabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id as any)}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  activeTab === tab.id
+                    ? 'bg-blue-600 text-white shadow-md'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <span>{tab.icon}</span>
+                <span>{tab.name}</span>
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        <div className="p-6">
+          {activeTab === 'directory' && (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Supplier List */}
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Search suppliers..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={() => {
+                      setEditingSupplier(null);
+                      setShowModal(true);
+                    }}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+                  >
+                    + Add
+                  </button>
+                </div>
+                {filteredSuppliers.length === 0 ? (
+                  <p className="text-gray-500 text-sm text-center py-8">No suppliers found</p>
+                ) : (
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                    {filteredSuppliers.map((supplier) => (
+                      <button
+                        key={supplier.id}
+                        onClick={() => setSelectedSupplierId(supplier.id)}
+                        className={`w-full text-left px-4 py-3 transition-colors ${
+                          selectedSupplierId === supplier.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <p className="text-sm font-semibold text-gray-900">{supplier.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {supplier.phone || 'No phone'} • {supplier.product_count || 0} products
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Supplier Detail */}
+              <div className="lg:col-span-2">
+                {selectedSupplier ? (
+                  <SupplierDetail
+                    supplier={selectedSupplier}
+                    onEdit={() => {
+                      setEditingSupplier(selectedSupplier);
+                      setShowModal(true);
+                    }}
+                    onDelete={() => handleDelete(selectedSupplier)}
+                    onChange={loadSuppliers}
+                  />
+                ) : (
+                  <div className="border-2 border-dashed border-gray-200 rounded-lg p-12 text-center">
+                    <p className="text-gray-500">Select a supplier to view its price list and contact history</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'compare' && <PriceComparison />}
+        </div>
+      </div>
+
+      {showModal && (
+        <SupplierModal
+          supplier={editingSupplier}
+          onClose={() => {
+            setShowModal(false);
+            setEditingSupplier(null);
+          }}
+          onSave={(id) => {
+            setShowModal(false);
+            setEditingSupplier(null);
+            setSelectedSupplierId(id);
+            loadSuppliers();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface SupplierDetailProps {
+  supplier: Supplier;
+  onEdit: () => void;
+  onDelete: () => void;
+  onChange: () => void;
+}
+
+const SupplierDetail = ({ supplier, onEdit, onDelete, onChange }: SupplierDetailProps) => {
+  const [priceList, setPriceList] = useState<ProductSupplier[]>([]);
+  const [contacts, setContacts] = useState<SupplierContact[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [productSearch, setProductSearch] = useState('');
+  const [newProductId, setNewProductId] = useState<number | null>(null);
+  const [newCost, setNewCost] = useState('');
+  const [newPreferred, setNewPreferred] = useState(false);
+  const [contactType, setContactType] = useState<SupplierContactType>('call');
+  const [contactDate, setContactDate] = useState(new Date().toISOString().split('T')[0]);
+  const [contactSummary, setContactSummary] = useState('');
+
+  useEffect(() => {
+    loadDetail();
+  }, [supplier.id]);
+
+  useEffect(() => {
+    window.electronAPI.products.getAll()
+      .then(setProducts)
+      .catch((error: any) => console.error('Error loading products:', error));
+  }, []);
+
+  const loadDetail = async () => {
+    try {
+      const [priceListData, contactsData] = await Promise.all([
+        window.electronAPI.suppliers.getPriceList(supplier.id),
+        window.electronAPI.suppliers.getContacts(supplier.id),
+      ]);
+      setPriceList(priceListData);
+      setContacts(contactsData);
+    } catch (error) {
+      console.error('Error loading supplier details:', error);
+    }
+  };
+
+  const savePrice = async (productId: number, costPrice: number, isPreferred: boolean, entry?: ProductSupplier) => {
+    try {
+      await window.electronAPI.suppliers.setProductPrice({
+        product_id: productId,
+        supplier_id: supplier.id,
+        cost_price: costPrice,
+        is_preferred: isPreferred,
+        supplier_sku: entry?.supplier_sku || null,
+        notes: entry?.notes || null,
+      });
+      await loadDetail();
+      onChange();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to save price');
+    }
+  };
+
+  const handleAddPrice = async () => {
+    if (!newProductId) {
+      alert('Please select a product');
+      return;
+    }
+    const cost = parseFloat(newCost);
+    if (isNaN(cost) || cost < 0) {
+      alert('Please enter a valid cost price');
+      return;
+    }
+    await savePrice(newProductId, cost, newPreferred);
+    setNewProductId(null);
+    setProductSearch('');
+    setNewCost('');
+    setNewPreferred(false);
+  };
+
+  const handleEditCost = async (entry: ProductSupplier) => {
+    const value = prompt(`New cost price for ${entry.product_name}:`, entry.cost_price.toString());
+    if (value === null) return;
+    const cost = parseFloat(value);
+    if (isNaN(cost) || cost < 0) {
+      alert('Please enter a valid cost price');
+      return;
+    }
+    await savePrice(entry.product_id, cost, entry.is_preferred === 1, entry);
+  };
+
+  const handleRemovePrice = async (entry: ProductSupplier) => {
+    if (!confirm(`Remove ${entry.product_name} from this price list?`)) return;
+    try {
+      await window.electronAPI.suppliers.removeProductPrice(entry.id);
+      await loadDetail();
+      onChange();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to remove price');
+    }
+  };
+
+  const handleAddContact = async () => {
+    if (!contactSummary.trim()) {
+      alert('Please enter a summary');
+      return;
+    }
+    try {
+      await window.electronAPI.suppliers.addContact({
+        supplier_id: supplier.id,
+        contact_date: `${contactDate} 00:00:00`,
+        contact_type: contactType,
+        summary: contactSummary.trim(),
+      });
+      setContactSummary('');
+      loadDetail();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to add contact');
+    }
+  };
+
+  const handleDeleteContact = async (id: number) => {
+    if (!confirm('Delete this contact entry?')) return;
+    try {
+      await window.electronAPI.suppliers.deleteContact(id);
+      loadDetail();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to delete contact');
+    }
+  };
+
+  const listedIds = new Set(priceList.map((entry) => entry.product_id));
+  const matchingProducts = productSearch.trim() && !newProductId
+    ? products
+        .filter((p) => !listedIds.has(p.id))
+        .filter((p) =>
+          p.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+          p.size_display?.toLowerCase().includes(productSearch.toLowerCase()) ||
+          p.sku?.toLowerCase().includes(productSearch.toLowerCase())
+        )
+        .slice(0, 8)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Supplier Info */}
+      <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">{supplier.name}</h3>
+            <div className="mt-2 grid grid-cols-2 gap-x-8 gap-y-1 text-sm text-gray-600">
+              <p><span className="text-gray-500">Contact:</span> {supplier.contact_person || '-'}</p>
+              <p><span className="text-gray-500">Phone:</span> {supplier.phone || '-'}</p>
+              <p><span className="text-gray-500">Email:</span> {supplier.email || '-'}</p>
+              <p><span className="text-gray-500">Address:</span> {supplier.address || '-'}</p>
+              <p><span className="text-gray-500">Lead time:</span> {supplier.lead_time_days != null ? `${supplier.lead_time_days} days` : '-'}</p>
+            </div>
+            {supplier.notes && <p className="mt-2 text-sm text-gray-500 italic">{supplier.notes}</p>}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onEdit}
+              className="px-3 py-1 text-xs font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+            >
+              Edit
+            </button>
+            <button
+              onClick={onDelete}
+              className="px-3 py-1 text-xs font-medium text-red-600 hover:text-red-800 hover:bg-red-50 rounded transition-colors"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Price List */}
+      <div>
+        <h4 className="text-lg font-semibold text-gray-900 mb-3">Price List</h4>
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-3">
+          <div className="flex flex-col md:flex-row gap-2 md:items-center">
+            <div className="flex-1 relative">
+              <input
+                type="text"
+                value={productSearch}
+                onChange={(e) => {
+                  setProductSearch(e.target.value);
+                  setNewProductId(null);
+                }}
+                placeholder="Search product to add..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              {matchingProducts.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                  {matchingProducts.map((product) => (
+                    <button
+                      type="button"
+                      key={product.id}
+                      onClick={() => {
+                        setNewProductId(product.id);
+                        setProductSearch(product.name);
+                        setNewCost((product.cost_price || 0).toString());
+                      }}
+                      className="w-full text-left px-3 py-2 hover:bg-blue-50 text-sm"
+                    >
+                      {product.name}
+                      {product.size_display && <span className="text-blue-600 ml-2">{product.size_display}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={newCost}
+              onChange={(e) => setNewCost(e.target.value)}
+              placeholder="Cost price"
+              className="md:w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input type="checkbox" checked={newPreferred} onChange={(e) => setNewPreferred(e.target.checked)} />
+              Preferred
+            </label>
+            <button
+              onClick={handleAddPrice}
+              className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        {priceList.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center py-6">No products on this supplier's price list</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Size</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost Price</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Role</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {priceList.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-sm text-gray-900">{entry.product_name}</td>
+                    <td className="px-4 py-2 text-sm text-blue-600">{entry.size_display || '-'}</td>
+                    <td className="px-4 py-2 text-sm font-semibold text-gray-900 text-right">
+                      Rs. {entry.cost_price.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      {entry.is_preferred === 1 ? (
+                        <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          Preferred
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => savePrice(entry.product_id, entry.cost_price, true, entry)}
+                          className="px-2 py-1 text-xs text-gray-600 hover:text-green-700 hover:bg-green-50 rounded"
+                          title="Make this the preferred supplier for the product"
+                        >
+                          Alternate
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <div className="flex items-center justify-center gap-2">
+                        <button
+                          onClick={() => handleEditCost(entry)}
+                          className="px-3 py-1 text-xs font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleRemovePrice(entry)}
+                          className="px-3 py-1 text-xs font-medium text-red-600 hover:text-red-800 hover:bg-red-50 rounded transition-colors"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Contact History */}
+      <div>
+        <h4 className="text-lg font-semibold text-gray-900 mb-3">Contact History</h4>
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 mb-3 flex flex-col md:flex-row gap-2">
+          <input
+            type="date"
+            value={contactDate}
+            onChange={(e) => setContactDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <select
+            value={contactType}
+            onChange={(e) => setContactType(e.target.value as SupplierContactType)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            {Object.entries(CONTACT_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={contactSummary}
+            onChange={(e) => setContactSummary(e.target.value)}
+            placeholder="What was discussed?"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button
+            onClick={handleAddContact}
+            className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+          >
+            Log
+          </button>
+        </div>
+        {contacts.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center py-6">No contact history yet</p>
+        ) : (
+          <div className="space-y-2">
+            {contacts.map((contact) => (
+              <div key={contact.id} className="flex justify-between items-start bg-white border border-gray-200 rounded-lg p-3">
+                <div>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(contact.contact_date)} • {CONTACT_TYPE_LABELS[contact.contact_type] || contact.contact_type}
+                  </p>
+                  <p className="text-sm text-gray-900 mt-1">{contact.summary}</p>
+                </div>
+                <button
+                  onClick={() => handleDeleteContact(contact.id)}
+                  className="text-red-600 hover:text-red-800 text-xs"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PriceComparison = () => {
+  const [sizeSearch, setSizeSearch] = useState('');
+  const [rows, setRows] = useState<SupplierPriceComparison[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadComparison();
+  }, [sizeSearch]);
+
+  const loadComparison = async () => {
+    setLoading(true);
+    try {
+      const data = await window.electronAPI.suppliers.comparePrices(sizeSearch);
+      setRows(data);
+    } catch (error) {
+      console.error('Error loading price comparison:', error);
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Rows arrive ordered by size then cost, so the first offer in each group is the cheapest
+  const groups = rows.reduce<Record<string, SupplierPriceComparison[]>>((acc, row) => {
+    (acc[row.size_display] = acc[row.size_display] || []).push(row);
+    return acc;
+  }, {});
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold">Cheapest Supplier by Size</h3>
+        <input
+          type="text"
+          value={sizeSearch}
+          onChange={(e) => setSizeSearch(e.target.value)}
+          placeholder="Filter by size, e.g. 195/65R15"
+          className="w-72 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : Object.keys(groups).length === 0 ? (
+        <p className="text-center text-gray-500 py-12">
+          No supplier prices recorded{sizeSearch ? ' for this size' : ''}. Add products to supplier price lists first.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {Object.entries(groups).map(([size, offers]) => {
+            const cheapest = offers[0].cost_price;
+            return (
+              <div key={size} className="border border-gray-200 rounded-lg overflow-hidden">
+                <div className="bg-gray-50 px-4 py-2 flex justify-between items-center">
+                  <span className="font-semibold text-gray-900">{size}</span>
+                  <span className="text-sm text-gray-600">
+                    {offers.length} offer{offers.length !== 1 ? 's' : ''} • from{' '}
+                    <span className="font-semibold text-green-600">Rs. {cheapest.toFixed(2)}</span>
+                  </span>
+                </div>
+                <table className="w-full">
+                  <tbody className="divide-y divide-gray-200">
+                    {offers.map((offer) => (
+                      <tr key={`${offer.product_id}-${offer.supplier_id}`} className={offer.cost_price === cheapest ? 'bg-green-50' : ''}>
+                        <td className="px-4 py-2 text-sm font-medium text-gray-900 w-1/3">{offer.supplier_name}</td>
+                        <td className="px-4 py-2 text-sm text-gray-600">{offer.product_name}</td>
+                        <td className="px-4 py-2 text-center w-40">
+                          {offer.cost_price === cheapest && (
+                            <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 mr-1">
+                              Cheapest
+                            </span>
+                          )}
+                          {offer.is_preferred === 1 && (
+                            <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                              Preferred
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm font-semibold text-gray-900 text-right w-32">
+                          Rs. {offer.cost_price.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface SupplierModalProps {
+  supplier: Supplier | null;
+  onClose: () => void;
+  onSave: (id: number) => void;
+}
+
+const SupplierModal = ({ supplier, onClose, onSave }: SupplierModalProps) => {
+  const [formData, setFormData] = useState({
+    name: supplier?.name || '',
+    contact_person: supplier?.contact_person || '',
+    phone: supplier?.phone || '',
+    email: supplier?.email || '',
+    address: supplier?.address || '',
+    lead_time_days: supplier?.lead_time_days?.toString() ?? '',
+    notes: supplier?.notes || '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      alert('Supplier name is required');
+      return;
+    }
+    setSaving(true);
+    try {
+      const data = { ...formData, name: formData.name.trim() };
+      if (supplier) {
+        await window.electronAPI.suppliers.update(supplier.id, data);
+        onSave(supplier.id);
+      } else {
+        const created = await window.electronAPI.suppliers.create(data);
+        onSave(Number(created.id));
+      }
+    } catch (error: any) {
+      console.error('Error saving supplier:', error);
+      alert(error?.message || 'Failed to save supplier');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fields: Array<{ key: keyof typeof formData; label: string; type?: string }> = [
+    { key: 'name', label: 'Name *' },
+    { key: 'contact_person', label: 'Contact Person' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'email', label: 'Email', type: 'email' },
+    { key: 'address', label: 'Address' },
+    { key: 'lead_time_days', label: 'Lead Time (days)', type: 'number' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold mb-4">{supplier ? 'Edit Supplier' : 'Add Supplier'}</h2>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {fields.map((field) => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+              <input
+                type={field.type || 'text'}
+                value={formData[field.key]}
+                onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,651 @@
+import { useEffect, useState } from 'react';
+import { Product, Supplier, Warranty, WarrantyClaim, WarrantyClaimStatus } from '../types';
+
+const STATUS_BADGES: Record<WarrantyClaimStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-yellow-100 text-yellow-800' },
+  sent_to_supplier: { label: 'With Supplier', className: 'bg-purple-100 text-purple-800' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  replaced: { label: 'Replaced', className: 'bg-blue-100 text-blue-800' },
+  closed: { label: 'Closed', className: 'bg-gray-200 text-gray-700' },
+};
+
+// Mirrors the main process; 'replaced' is set by issuing a replacement
+const NEXT_STATUSES: Record<WarrantyClaimStatus, WarrantyClaimStatus[]> = {
+  open: ['sent_to_supplier', 'approved', 'rejected', 'closed'],
+  sent_to_supplier: ['approved', 'rejected', 'closed'],
+  approved: ['closed'],
+  rejected: ['open', 'closed'],
+  replaced: ['closed'],
+  closed: [],
+};
+
+const REPLACEABLE: WarrantyClaimStatus[] = ['open', 'sent_to_supplier', 'approved'];
+
+const Warranties = () => {
+  const [claims, setClaims] = useState<WarrantyClaim[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState<WarrantyClaimStatus | 'all'>('all');
+  const [showLogClaim, setShowLogClaim] = useState(false);
+  const [selectedClaimId, setSelectedClaimId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadClaims();
+    loadSuppliers();
+  }, []);
+
+  const loadClaims = async () => {
+    try {
+      setClaims(await window.electronAPI.warranties.getClaims());
+    } catch (error) {
+      console.error('Error loading warranty claims:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSuppliers = async () => {
+    try {
+      setSuppliers(await window.electronAPI.suppliers.getAll());
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+    }
+  };
+
+  const filteredClaims = claims.filter((claim) => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      claim.claim_number.toLowerCase().includes(term) ||
+      claim.invoice_number.toLowerCase().includes(term) ||
+      claim.product_name.toLowerCase().includes(term) ||
+      (claim.customer_name || '').toLowerCase().includes(term) ||
+      (claim.customer_phone || '').includes(term) ||
+      (claim.dot_code || '').includes(term);
+    return matchesSearch && (filterStatus === 'all' || claim.status === filterStatus);
+  });
+
+  const activeCount = claims.filter((claim) => REPLACEABLE.includes(claim.status)).length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <p className="ml-3 text-gray-600">Loading warranty claims...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg shadow-lg p-6 text-white">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold mb-2">Warranty Claims</h2>
+            <p className="text-blue-100 text-sm">Claims on tires and wheels sold under warranty, tracked through the supplier</p>
+          </div>
+          <div className="flex gap-3">
+            <div className="bg-white rounded-lg px-4 py-2 text-right shadow-md">
+              <p className="text-gray-600 text-xs mb-0.5">Claims in Progress</p>
+              <p className="text-2xl font-bold text-blue-600">{activeCount}</p>
+            </div>
+            <button
+              onClick={() => setShowLogClaim(true)}
+              className="bg-white text-blue-600 px-4 py-2 rounded-lg font-semibold hover:bg-blue-50 shadow-md"
+            >
+              Log Claim
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-col md:flex-row gap-4 items-center">
+          <div className="flex-1 w-full">
+            <input
+              type="text"
+              placeholder="Search by claim, invoice, customer, phone, product or DOT..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="md:w-48">
+            <select
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value as WarrantyClaimStatus | 'all')}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">All Statuses</option>
+              {Object.entries(STATUS_BADGES).map(([status, badge]) => (
+                <option key={status} value={status}>{badge.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {filteredClaims.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            {claims.length === 0 ? 'No warranty claims yet. Use "Log Claim" when a customer brings a tire back.' : 'No claims match your filters'}
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Claim</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredClaims.map((claim) => (
+                <tr key={claim.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{claim.claim_number}</div>
+                    <div className="text-xs text-gray-500">{claim.created_at.split(' ')[0]} • {claim.invoice_number}</div>
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="text-sm text-gray-900">{claim.customer_name || 'Walk-in Customer'}</div>
+                    <div className="text-xs text-gray-500">{claim.customer_phone}</div>
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="text-sm text-gray-900">{claim.quantity} × {claim.product_name}</div>
+                    <div className="text-xs text-gray-500">
+                      {claim.dot_code ? `DOT ${claim.dot_code} • ` : ''}Warranty to {claim.expires_on}
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-700">
+                    {claim.supplier_name || '-'}
+                    {claim.supplier_reference && <span className="block text-xs text-gray-500">Ref {claim.supplier_reference}</span>}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGES[claim.status].className}`}>
+                      {STATUS_BADGES[claim.status].label}
+                    </span>
+                    {claim.replacement_invoice_number && (
+                      <span className="block text-xs text-gray-500 mt-0.5">{claim.replacement_invoice_number}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-right text-sm">
+                    <button onClick={() => setSelectedClaimId(claim.id)} className="text-blue-600 hover:text-blue-800 font-medium">
+                      View
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showLogClaim && (
+        <LogClaimModal
+          suppliers={suppliers}
+          onClose={() => setShowLogClaim(false)}
+          onSave={(claimNumber) => {
+            setShowLogClaim(false);
+            alert(`Claim ${claimNumber} logged`);
+            loadClaims();
+          }}
+        />
+      )}
+
+      {selectedClaimId && (
+        <ClaimModal
+          claimId={selectedClaimId}
+          suppliers={suppliers}
+          onClose={() => setSelectedClaimId(null)}
+          onChange={loadClaims}
+        />
+      )}
+    </div>
+  );
+};
+
+interface LogClaimModalProps {
+  suppliers: Supplier[];
+  onClose: () => void;
+  onSave: (claimNumber: string) => void;
+}
+
+const LogClaimModal = ({ suppliers, onClose, onSave }: LogClaimModalProps) => {
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Warranty[]>([]);
+  const [searched, setSearched] = useState(false);
+  const [warranty, setWarranty] = useState<Warranty | null>(null);
+  const [quantity, setQuantity] = useState('1');
+  const [dotCode, setDotCode] = useState('');
+  const [issue, setIssue] = useState('');
+  const [supplierId, setSupplierId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!search.trim()) return;
+    try {
+      setResults(await window.electronAPI.warranties.search(search.trim()));
+      setSearched(true);
+    } catch (error) {
+      console.error('Error searching warranties:', error);
+    }
+  };
+
+  const selectWarranty = (selected: Warranty) => {
+    setWarranty(selected);
+    setQuantity('1');
+    setDotCode('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!warranty) return;
+    setSaving(true);
+    try {
+      const result = await window.electronAPI.warranties.createClaim({
+        warranty_id: warranty.id,
+        quantity: parseInt(quantity),
+        dot_code: dotCode || null,
+        issue,
+        supplier_id: supplierId ? parseInt(supplierId) : null,
+      });
+      onSave(result.claim_number);
+    } catch (error: any) {
+      console.error('Error logging warranty claim:', error);
+      alert(error?.message || 'Failed to log warranty claim');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dotCodes = warranty?.dot_codes ? warranty.dot_codes.split(', ') : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-4">Log Warranty Claim</h2>
+
+        {!warranty ? (
+          <>
+            <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Invoice number, customer, phone, vehicle or DOT code"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                autoFocus
+              />
+              <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+                Find
+              </button>
+            </form>
+            {searched && results.length === 0 && (
+              <p className="text-gray-500 text-sm text-center py-6">No warranties found</p>
+            )}
+            <div className="space-y-2">
+              {results.map((result) => {
+                const expired = result.expires_on < today;
+                const claimable = result.quantity - result.quantity_claimed;
+                return (
+                  <button
+                    key={result.id}
+                    onClick={() => selectWarranty(result)}
+                    disabled={expired || claimable <= 0}
+                    className="w-full text-left p-3 border border-gray-200 rounded-lg hover:bg-blue-50 disabled:opacity-50 disabled:hover:bg-white"
+                  >
+                    <div className="flex justify-between">
+                      <span className="text-sm font-semibold text-gray-900">{result.quantity} × {result.product_name}</span>
+                      <span className={`text-xs ${expired ? 'text-red-600' : 'text-gray-500'}`}>
+                        {expired ? 'Expired' : 'Until'} {result.expires_on}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {[result.invoice_number, result.customer_name, result.customer_phone, result.registration_number]
+                        .filter(Boolean)
+                        .join(' • ')}
+                    </div>
+                    {result.dot_codes && <div className="text-xs text-gray-500">DOT {result.dot_codes}</div>}
+                    {result.quantity_claimed > 0 && (
+                      <div className="text-xs text-orange-600">{result.quantity_claimed} already claimed</div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex justify-end pt-4">
+              <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50">
+                Cancel
+              </button>
+            </div>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="bg-gray-50 rounded-lg p-3 text-sm">
+              <p className="font-semibold text-gray-900">{warranty.product_name}</p>
+              <p className="text-gray-600">
+                {warranty.invoice_number} • {warranty.customer_name || 'Walk-in Customer'} • {warranty.months} months, until{' '}
+                {warranty.expires_on}
+              </p>
+              <button type="button" onClick={() => setWarranty(null)} className="text-xs text-blue-600 hover:text-blue-800">
+                Choose another
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Quantity *</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={warranty.quantity - warranty.quantity_claimed}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">DOT Code</label>
+                <select
+                  value={dotCode}
+                  onChange={(e) => setDotCode(e.target.value)}
+                  disabled={dotCodes.length === 0}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="">{dotCodes.length === 0 ? 'Not recorded' : 'Not known'}</option>
+                  {[...new Set(dotCodes)].map((code) => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Problem *</label>
+              <textarea
+                value={issue}
+                onChange={(e) => setIssue(e.target.value)}
+                rows={3}
+                placeholder="e.g. Sidewall bulge, tread separation"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+              <select
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+              >
+                <option value="">Not chosen yet</option>
+                {suppliers.map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                disabled={saving}
+              >
+                {saving ? 'Saving...' : 'Log Claim'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface ClaimModalProps {
+  claimId: number;
+  suppliers: Supplier[];
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const ClaimModal = ({ claimId, suppliers, onClose, onChange }: ClaimModalProps) => {
+  const [claim, setClaim] = useState<WarrantyClaim | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [status, setStatus] = useState<WarrantyClaimStatus | ''>('');
+  const [supplierId, setSupplierId] = useState('');
+  const [supplierReference, setSupplierReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [replacementProductId, setReplacementProductId] = useState('');
+  const [replacementNotes, setReplacementNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadClaim();
+  }, [claimId]);
+
+  const loadClaim = async () => {
+    try {
+      const full: WarrantyClaim = await window.electronAPI.warranties.getClaimById(claimId);
+      setClaim(full);
+      setStatus('');
+      setSupplierId(full.supplier_id?.toString() || '');
+      setSupplierReference(full.supplier_reference || '');
+      setNotes('');
+      setReplacementProductId(full.product_id.toString());
+      if (REPLACEABLE.includes(full.status) && products.length === 0) {
+        setProducts(await window.electronAPI.products.getAll());
+      }
+    } catch (error) {
+      console.error('Error loading warranty claim:', error);
+    }
+  };
+
+  const handleStatus = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!claim || !status) return;
+    setSaving(true);
+    try {
+      await window.electronAPI.warranties.updateClaimStatus(claim.id, {
+        status,
+        notes,
+        supplier_id: supplierId ? parseInt(supplierId) : null,
+        supplier_reference: supplierReference,
+      });
+      onChange();
+      loadClaim();
+    } catch (error: any) {
+      console.error('Error updating warranty claim:', error);
+      alert(error?.message || 'Failed to update warranty claim');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReplacement = async () => {
+    if (!claim) return;
+    const product = products.find((p) => p.id.toString() === replacementProductId);
+    if (!confirm(`Issue ${claim.quantity} × ${product?.name || claim.product_name} free of charge and take it out of stock?`)) return;
+    setSaving(true);
+    try {
+      const result = await window.electronAPI.warranties.issueReplacement(claim.id, {
+        product_id: parseInt(replacementProductId),
+        notes: replacementNotes,
+      });
+      alert(`Replacement issued on ${result.invoice_number}`);
+      setReplacementNotes('');
+      onChange();
+      loadClaim();
+    } catch (error: any) {
+      console.error('Error issuing warranty replacement:', error);
+      alert(error?.message || 'Failed to issue replacement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!claim) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white rounded-lg p-6">
+          <p className="text-gray-600">Loading claim...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const replacementOptions = products.filter(
+    (p) => p.product_type !== 'service' && p.product_type !== 'bundle' && (p.stock_quantity > 0 || p.id === claim.product_id)
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold">{claim.claim_number}</h2>
+            <p className="text-sm text-gray-600">
+              {claim.invoice_number} • {claim.customer_name || 'Walk-in Customer'}
+              {claim.customer_phone && ` • ${claim.customer_phone}`}
+            </p>
+          </div>
+          <span className={`px-2 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGES[claim.status].className}`}>
+            {STATUS_BADGES[claim.status].label}
+          </span>
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-3 text-sm mb-4">
+          <p className="font-semibold text-gray-900">
+            {claim.quantity} × {claim.product_name}
+            {claim.dot_code && <span className="font-normal text-gray-600 ml-2">DOT {claim.dot_code}</span>}
+          </p>
+          <p className="text-gray-700">{claim.issue}</p>
+          <p className="text-xs text-gray-500 mt-1">Warranty until {claim.expires_on}</p>
+          {claim.replacement_invoice_number && (
+            <p className="text-xs text-blue-700 mt-1">Replaced on {claim.replacement_invoice_number}</p>
+          )}
+        </div>
+
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">History</h3>
+        <div className="space-y-1 mb-4">
+          {(claim.events || []).map((event) => (
+            <div key={event.id} className="flex gap-3 text-sm">
+              <span className="text-xs text-gray-500 w-32 shrink-0">{event.created_at}</span>
+              <span className="font-medium text-gray-800 w-28 shrink-0">{STATUS_BADGES[event.status].label}</span>
+              <span className="text-gray-600">{event.notes}</span>
+            </div>
+          ))}
+        </div>
+
+        {NEXT_STATUSES[claim.status].length > 0 && (
+          <form onSubmit={handleStatus} className="border border-gray-200 rounded-lg p-3 space-y-2 mb-4">
+            <h3 className="text-sm font-semibold text-gray-900">Update Status</h3>
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as WarrantyClaimStatus)}
+                className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm"
+              >
+                <option value="">Choose...</option>
+                {NEXT_STATUSES[claim.status].map((next) => (
+                  <option key={next} value={next}>{STATUS_BADGES[next].label}</option>
+                ))}
+              </select>
+              <select
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm"
+              >
+                <option value="">No supplier</option>
+                {suppliers.map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={supplierReference}
+                onChange={(e) => setSupplierReference(e.target.value)}
+                placeholder="Supplier reference"
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving || !status}
+                className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:bg-gray-400"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        )}
+
+        {REPLACEABLE.includes(claim.status) && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 space-y-2">
+            <h3 className="text-sm font-semibold text-gray-900">Issue Replacement</h3>
+            <p className="text-xs text-gray-600">
+              Creates a zero-value invoice for {claim.quantity} and takes it out of stock as a warranty replacement.
+            </p>
+            <select
+              value={replacementProductId}
+              onChange={(e) => setReplacementProductId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-sm"
+            >
+              {replacementOptions.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.name}
+                  {product.size_display ? ` (${product.size_display})` : ''} - {product.stock_quantity} in stock
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={replacementNotes}
+              onChange={(e) => setReplacementNotes(e.target.value)}
+              placeholder="Notes"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleReplacement}
+                disabled={saving || !replacementProductId}
+                className="px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm disabled:bg-gray-400"
+              >
+                Issue Replacement
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Warranties;
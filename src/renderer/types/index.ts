@@ -1,4 +1,4 @@
-export type ProductType = 'tire' | 'alloy_wheel' | 'general';
+export type ProductType = 'tire' | 'alloy_wheel' | 'general' | 'service' | 'bundle'; // services and kits carry no stock
 
 export interface Product {
   id: number;
@@ -8,9 +8,20 @@ export interface Product {
   price: number;
   cost_price: number;
   stock_quantity: number;
+  held_quantity?: number; // on hold in parked carts
   low_stock_threshold: number;
   category?: string;
   product_type?: ProductType;
+  auto_add_with?: ProductType | null; // services: added to the cart with each unit of this type
+  components?: BundleComponent[]; // kits
+  track_units?: number; // tires: DOT code / serial registered per unit
+  allow_backorder?: number; // may be sold below zero stock
+  reorder_point?: number | null; // null: worked out from sales velocity
+  reorder_quantity?: number | null; // null: enough for a month of sales
+  lead_time_days?: number | null; // null: the supplier's
+  unit_count?: number; // units in stock with a DOT code
+  warranty_months?: number | null; // null: the brand's warranty
+  location_quantity?: number; // stock at the location asked for; stock_quantity is all locations
   // Tire size fields
   tire_width?: number;
   tire_aspect_ratio?: number;
@@ -32,22 +43,92 @@ export interface Product {
   updated_at?: string;
 }
 
+export interface BundleComponent {
+  component_id: number;
+  product_name: string;
+  product_type?: ProductType;
+  quantity: number; // per kit
+  available_quantity: number; // free stock of the component
+}
+
+export interface ProductUnit {
+  id: number;
+  product_id: number;
+  dot_code: string; // week and year, e.g. 2324
+  dot_week: number;
+  dot_year: number;
+  manufactured_on: string;
+  serial_number?: string | null;
+  status: 'in_stock' | 'sold' | 'written_off';
+  location_id?: number | null;
+  location_name?: string | null;
+  grn_id?: number | null;
+  invoice_item_id?: number | null;
+  stock_movement_id?: number | null; // the adjustment that wrote it off
+  received_at: string;
+  sold_at?: string | null;
+  written_off_at?: string | null;
+}
+
+export interface AgedUnit {
+  id: number;
+  product_id: number;
+  product_name: string;
+  size_display?: string;
+  dot_code: string;
+  serial_number?: string | null;
+  manufactured_on: string;
+  received_at: string;
+  location_name?: string | null;
+  cost_price: number;
+  age_years: number;
+}
+
 export interface Invoice {
   id: number;
   invoice_number: string;
+  customer_id?: number;
+  vehicle_id?: number;
   customer_name?: string;
   customer_phone?: string;
   customer_email?: string;
   subtotal: number;
-  tax_amount: number;
-  discount_amount: number;
+  tax_amount: number; // every tax on the bill
+  inclusive_tax_amount?: number; // the part of tax_amount already inside the prices
+  discount_amount: number; // line and bill discounts
+  bill_discount_type?: DiscountType | null;
+  bill_discount_value?: number;
+  discount_authorized?: number;
   total_amount: number;
   payment_method: string;
+  change_due?: number;
+  balance_due?: number;
+  location_id?: number | null;
   status: string;
+  void_reason?: string;
+  voided_at?: string;
   created_at: string;
   updated_at?: string;
 }
 
+export type PaymentMethod = 'cash' | 'card' | 'mobile' | 'bank_transfer' | 'cheque' | 'credit' | 'store_credit';
+
+export interface InvoicePayment {
+  id: number;
+  invoice_id: number;
+  payment_method: PaymentMethod;
+  amount: number;
+  tendered: number;
+  reference?: string;
+  created_at: string;
+}
+
+export interface InvoiceItemComponent {
+  product_id: number;
+  product_name: string;
+  quantity: number; // for the whole line
+}
+
 export interface InvoiceItem {
   id: number;
   invoice_id: number;
@@ -55,9 +136,266 @@ export interface InvoiceItem {
   product_name: string;
   quantity: number;
   unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  discount_amount?: number;
+  total_price: number; // after the line discount
+  tax_amount?: number;
+  quantity_returned?: number;
+  quantity_claimed?: number; // under warranty claim, so not returnable
+  components?: InvoiceItemComponent[]; // kits
+  dot_codes?: string | null; // DOT codes of the tires sold, comma separated
+}
+
+export type RefundMethod = 'refund' | 'store_credit';
+
+export interface Warranty {
+  id: number;
+  invoice_id: number;
+  invoice_item_id: number;
+  invoice_number: string;
+  customer_id?: number | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  vehicle_id?: number | null;
+  registration_number?: string | null;
+  product_id: number;
+  product_name: string;
+  quantity: number; // less any returned
+  quantity_claimed: number; // on claims not rejected
+  dot_codes?: string | null;
+  months: number;
+  starts_on: string;
+  expires_on: string;
+  status: 'active' | 'void';
+  created_at: string;
+}
+
+export type WarrantyClaimStatus = 'open' | 'sent_to_supplier' | 'approved' | 'rejected' | 'replaced' | 'closed';
+
+export interface WarrantyClaimEvent {
+  id: number;
+  claim_id: number;
+  status: WarrantyClaimStatus;
+  notes?: string | null;
+  created_at: string;
+}
+
+export interface WarrantyClaim {
+  id: number;
+  claim_number: string;
+  warranty_id: number;
+  invoice_id: number;
+  invoice_number: string;
+  product_id: number;
+  product_name: string;
+  expires_on: string;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  quantity: number;
+  dot_code?: string | null;
+  issue: string;
+  status: WarrantyClaimStatus;
+  supplier_id?: number | null;
+  supplier_name?: string | null;
+  supplier_reference?: string | null;
+  replacement_invoice_id?: number | null;
+  replacement_invoice_number?: string | null;
+  created_at: string;
+  updated_at: string;
+  events?: WarrantyClaimEvent[];
+}
+
+export type DiscountType = 'percent' | 'amount';
+
+export interface DiscountSettings {
+  approval_limit_percent: number;
+}
+
+export interface TaxAssignment {
+  product_type?: ProductType | null;
+  category?: string | null;
+}
+
+export interface TaxRate {
+  id: number;
+  name: string;
+  rate: number;
+  is_inclusive: number;
+  is_active: number;
+  assignments: TaxAssignment[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface InvoiceTax {
+  tax_name: string;
+  rate: number;
+  is_inclusive: number;
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface TaxSummaryRow extends Omit<InvoiceTax, 'rate'> {
+  period?: string;
+  rate: number | null; // null for invoices taxed before tax rates were set up
+  invoice_count: number;
+  returned_tax: number;
+  net_tax: number;
+}
+
+export interface TaxSummary {
+  periods: TaxSummaryRow[];
+  byRate: TaxSummaryRow[];
+}
+
+export type CostingMethod = 'fifo' | 'average';
+
+export interface CostingSettings {
+  method: CostingMethod;
+}
+
+export interface InventoryValuationItem {
+  product_id: number;
+  product_name: string;
+  sku?: string | null;
+  size_display?: string | null;
+  product_type?: ProductType | null;
+  brand: string | null;
+  quantity: number;
+  value: number;
+  unit_cost: number | null; // null when none is on hand
+}
+
+export interface InventoryValuation {
+  as_of: string;
+  method: CostingMethod;
+  costing_since: string | null; // when the first cost layer was recorded
+  total_quantity: number;
+  total_value: number;
+  items: InventoryValuationItem[];
+}
+
+export type MarginGrouping = 'invoice' | 'product' | 'brand' | 'product_type';
+
+export interface MarginFigures {
+  revenue: number; // after discounts, before tax, net of returns
+  cogs: number;
+  gross_profit: number;
+  margin_percent: number | null; // profit over revenue
+  markup_percent: number | null; // profit over cost
+}
+
+export interface GrossMarginRow extends MarginFigures {
+  key: string;
+  label: string;
+  detail: string | null;
+  quantity: number;
+}
+
+export interface GrossMarginReport {
+  method: CostingMethod;
+  summary: MarginFigures;
+  rows: GrossMarginRow[];
+}
+
+export interface CreditNoteItem {
+  id: number;
+  credit_note_id: number;
+  invoice_item_id: number;
+  product_id: number;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
   total_price: number;
 }
 
+export interface CreditNote {
+  id: number;
+  credit_note_number: string;
+  invoice_id: number;
+  refund_method: RefundMethod;
+  reason?: string;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  credit_balance: number;
+  account_credit: number;
+  created_at: string;
+  items?: CreditNoteItem[];
+}
+
+export type QuotationStatus = 'open' | 'expired' | 'converted' | 'cancelled';
+
+export interface QuotationItem {
+  id: number;
+  quotation_id: number;
+  product_id: number;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value: number;
+  discount_amount: number;
+  total_price: number; // after the line discount
+  tax_amount: number;
+}
+
+export interface Quotation {
+  id: number;
+  quotation_number: string;
+  customer_id?: number | null;
+  vehicle_id?: number | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  customer_email?: string | null;
+  registration_number?: string | null;
+  subtotal: number;
+  discount_amount: number;
+  bill_discount_type?: DiscountType | null;
+  bill_discount_value: number;
+  tax_amount: number;
+  inclusive_tax_amount: number;
+  total_amount: number;
+  valid_until: string;
+  notes?: string | null;
+  status: QuotationStatus; // open quotations past valid_until come back as 'expired'
+  invoice_id?: number | null;
+  invoice_number?: string | null;
+  created_at: string;
+  items?: QuotationItem[];
+  taxes?: InvoiceTax[];
+}
+
+export interface ParkedCartItem {
+  id: number;
+  parked_cart_id: number;
+  product_id: number;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value: number;
+}
+
+export interface ParkedCart {
+  id: number;
+  label: string;
+  customer_id?: number | null;
+  vehicle_id?: number | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  bill_discount_type?: DiscountType | null;
+  bill_discount_value: number;
+  location_id?: number | null; // where its stock is held
+  item_count?: number;
+  total_quantity?: number;
+  gross_total?: number;
+  age_minutes?: number;
+  items?: ParkedCartItem[];
+  created_at: string;
+}
+
 export interface CartItem {
   product_id: number;
   product_name: string;
@@ -66,14 +404,362 @@ export interface CartItem {
   total_price: number;
 }
 
+export type StockAdjustmentReason = 'damage' | 'theft' | 'count_correction' | 'sample';
+
 export interface StockMovement {
   id: number;
   product_id: number;
-  movement_type: 'sale' | 'purchase' | 'adjustment' | 'return';
-  quantity: number;
+  movement_type: 'sale' | 'purchase' | 'adjustment' | 'return' | 'void' | 'warranty' | 'transfer_out' | 'transfer_in';
+  quantity: number; // adjustments are signed; other types are positive
   reference_id?: number;
   notes?: string;
+  location_id?: number | null;
+  reason?: StockAdjustmentReason | 'opening' | 'backorder' | null;
+  created_by?: string | null;
   created_at: string;
+  // From the movement history
+  location_name?: string | null;
+  reference?: string | null; // invoice, GRN, credit note, transfer or stock take number
+  change?: number;
+  balance?: number;
+}
+
+// A sale line the main process refused, parsed from the invoices:create error
+export interface SaleProblem {
+  line: number; // index of the sale line; for stock, the first line that needs it
+  product_id: number;
+  product_name: string;
+  code: 'invalid_quantity' | 'not_found' | 'price_changed' | 'quote_not_valid' | 'insufficient_stock';
+  message: string;
+  requested?: number;
+  available?: number;
+  price?: number;
+}
+
+export interface StockLocation {
+  id: number;
+  name: string;
+  is_default: number;
+  is_active: number;
+  total_quantity: number;
+  product_count: number; // products with stock here
+  created_at: string;
+}
+
+export interface ProductLocationStock {
+  location_id: number;
+  location_name: string;
+  is_default: number;
+  quantity: number;
+}
+
+export interface StockTransferItem {
+  id: number;
+  transfer_id: number;
+  product_id: number;
+  product_name: string;
+  quantity: number;
+}
+
+export interface StockTransfer {
+  id: number;
+  transfer_number: string;
+  from_location_id: number;
+  from_location_name: string;
+  to_location_id: number;
+  to_location_name: string;
+  notes?: string | null;
+  total_quantity?: number;
+  created_at: string;
+  items?: StockTransferItem[];
+}
+
+export type StockTakeStatus = 'open' | 'posted' | 'cancelled';
+
+export interface StockTakeItem {
+  id: number;
+  stock_take_id: number;
+  product_id: number;
+  product_name: string;
+  expected_quantity: number; // frozen when the stock take was opened
+  counted_quantity: number | null;
+  unit_cost: number;
+  variance: number | null;
+  variance_value: number | null;
+  sku?: string | null;
+  product_type?: ProductType;
+  size_display?: string | null;
+  tire_diameter?: number | null;
+  wheel_diameter?: number | null;
+}
+
+export interface StockTake {
+  id: number;
+  stock_take_number: string;
+  location_id: number;
+  location_name: string;
+  status: StockTakeStatus;
+  brand?: string | null;
+  rim_size?: number | null;
+  product_type?: ProductType | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  posted_at?: string | null;
+  item_count?: number;
+  counted_count?: number;
+  variance_quantity?: number;
+  variance_value?: number;
+  items?: StockTakeItem[];
+}
+
+export interface Customer {
+  id: number;
+  name?: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  credit_limit?: number | null;
+  visit_count?: number;
+  total_spent?: number;
+  last_visit?: string;
+  balance_due?: number;
+  store_credit?: number; // left from returns, spendable in Billing
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Vehicle {
+  id: number;
+  customer_id: number;
+  registration_number: string;
+  make?: string;
+  model?: string;
+  year?: number;
+  tire_size?: string;
+  wheel_pcd?: string;
+  wheel_stud_count?: number;
+  notes?: string;
+  visit_count?: number;
+  last_visit?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CustomerInvoice {
+  id: number;
+  invoice_number: string;
+  status: string;
+  total_amount: number;
+  balance_due: number;
+  payment_method: string;
+  item_count: number;
+  returned_amount: number;
+  registration_number?: string;
+  created_at: string;
+}
+
+export interface CustomerPurchase {
+  id: number;
+  product_id: number;
+  product_name: string;
+  product_type?: ProductType;
+  size_display?: string;
+  quantity: number;
+  quantity_returned: number;
+  unit_price: number;
+  total_price: number;
+  invoice_number: string;
+  created_at: string;
+}
+
+export interface CustomerDetail extends Customer {
+  vehicles: Vehicle[];
+  invoices: CustomerInvoice[];
+  items: CustomerPurchase[];
+}
+
+export interface AgingBuckets {
+  days_0_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_over_90: number;
+  balance: number;
+}
+
+export interface OpenInvoice {
+  id: number;
+  invoice_number: string;
+  customer_id: number;
+  total_amount: number;
+  balance_due: number;
+  age_days: number;
+  created_at: string;
+}
+
+export interface ReceivableCustomer extends AgingBuckets {
+  customer_id: number;
+  name?: string;
+  phone: string;
+  credit_limit?: number | null;
+  open_invoices: number;
+  oldest_invoice: string;
+}
+
+export interface StatementEntry {
+  date: string;
+  type: 'invoice' | 'return' | 'payment';
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  customer: Customer;
+  start_date: string | null;
+  end_date: string;
+  opening_balance: number;
+  closing_balance: number;
+  store_credit: number;
+  entries: StatementEntry[];
+  open_invoices: OpenInvoice[];
+  aging: AgingBuckets;
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contact_person?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  lead_time_days?: number | null;
+  product_count?: number;
+  preferred_count?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ReorderSuggestion {
+  product_id: number;
+  product_name: string;
+  sku?: string | null;
+  size_display?: string | null;
+  product_type: ProductType;
+  brand: string | null;
+  supplier_id: number | null;
+  supplier_name: string | null;
+  supplier_sku: string | null;
+  stock_quantity: number;
+  on_order: number; // ordered from suppliers, not yet received
+  units_sold: number; // over the velocity period
+  velocity: number; // units sold per day
+  lead_time_days: number;
+  reorder_point: number;
+  days_left: number | null; // at the current velocity; null when nothing sold
+  suggested_quantity: number;
+  unit_cost: number;
+  total_cost: number;
+}
+
+export interface ProductSupplier {
+  id: number;
+  product_id: number;
+  supplier_id: number;
+  cost_price: number;
+  is_preferred: number;
+  supplier_sku?: string;
+  notes?: string;
+  // Joined fields
+  product_name?: string;
+  sku?: string;
+  size_display?: string;
+  product_type?: ProductType;
+  stock_quantity?: number;
+  supplier_name?: string;
+  supplier_phone?: string;
+  updated_at?: string;
+}
+
+export type SupplierContactType = 'call' | 'email' | 'visit' | 'price_list' | 'other';
+
+export interface SupplierContact {
+  id: number;
+  supplier_id: number;
+  contact_date: string;
+  contact_type: SupplierContactType;
+  summary: string;
+  created_at?: string;
+}
+
+export interface SupplierPriceComparison {
+  size_display: string;
+  product_id: number;
+  product_name: string;
+  product_type?: ProductType;
+  supplier_id: number;
+  supplier_name: string;
+  cost_price: number;
+  is_preferred: number;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderItem {
+  id: number;
+  purchase_order_id: number;
+  product_id: number;
+  product_name: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  total_cost: number;
+  track_units?: number; // DOT code needed for each unit received
+}
+
+export interface GoodsReceivedNoteItem {
+  id: number;
+  grn_id: number;
+  purchase_order_item_id: number;
+  product_id: number;
+  product_name: string;
+  quantity: number;
+  unit_cost: number;
+  total_cost: number;
+}
+
+export interface GoodsReceivedNote {
+  id: number;
+  grn_number: string;
+  purchase_order_id: number;
+  received_date: string;
+  notes?: string;
+  total_amount: number;
+  location_id?: number | null;
+  location_name?: string | null;
+  created_at: string;
+  items?: GoodsReceivedNoteItem[];
+}
+
+export interface PurchaseOrder {
+  id: number;
+  po_number: string;
+  supplier_id: number;
+  supplier_name?: string;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_date?: string;
+  notes?: string;
+  total_amount: number;
+  total_ordered?: number;
+  total_received?: number;
+  created_at: string;
+  items?: PurchaseOrderItem[];
+  receipts?: GoodsReceivedNote[];
 }
 
 export interface DailySalesReport {
@@ -91,3 +777,13 @@ export interface DailySalesReport {
   }>;
 }
 
+
+export type ResetPeriod = 'never' | 'yearly' | 'monthly';
+
+export interface NumberingSettings {
+  document_type: string;
+  prefix: string;
+  reset_period: ResetPeriod;
+  padding: number;
+  next_number: string;
+}
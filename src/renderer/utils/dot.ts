@@ -0,0 +1,31 @@
+export interface UnitEntry {
+  dot_code: string;
+  serial_number: string | null;
+}
+
+/**
+ * Read DOT codes typed one tire per line: "2324", "2324 SN-1001" (with a serial) or
+ * "2324 x4" (four tires from the same week). Codes are checked by the main process.
+ */
+export const parseUnitLines = (text: string): UnitEntry[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .flatMap((line) => {
+      const repeated = line.match(/^(\S+)\s*[x×*]\s*(\d+)$/i);
+      if (repeated) {
+        return Array.from({ length: Number(repeated[2]) }, () => ({ dot_code: repeated[1], serial_number: null }));
+      }
+      const [dotCode, ...serial] = line.split(/\s+/);
+      return [{ dot_code: dotCode, serial_number: serial.join(' ') || null }];
+    });
+
+/**
+ * Age of a tire from its manufacture date, e.g. "3 yr 2 mo"
+ */
+export const formatTireAge = (manufacturedOn: string, now: Date = new Date()) => {
+  const made = new Date(`${manufacturedOn}T00:00:00`);
+  const months = Math.max(0, (now.getFullYear() - made.getFullYear()) * 12 + now.getMonth() - made.getMonth());
+  return months >= 12 ? `${Math.floor(months / 12)} yr ${months % 12} mo` : `${months} mo`;
+};
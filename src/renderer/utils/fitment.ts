@@ -0,0 +1,86 @@
+import { Product, Vehicle } from '../types';
+
+export interface FitmentMatch {
+  score: number; // 0 = no match, higher fits better
+  label: string;
+}
+
+interface TireSize {
+  width: number;
+  aspectRatio: number;
+  diameter: number;
+}
+
+const NO_MATCH: FitmentMatch = { score: 0, label: '' };
+
+/**
+ * Parse a tire size such as "195/65R15", "195/65 R15 91H" or "205/55ZR16"
+ */
+export const parseTireSize = (value?: string | null): TireSize | null => {
+  if (!value) return null;
+  const match = value.match(/(\d{3})\s*\/\s*(\d{2})\s*Z?R\s*(\d{2})/i);
+  if (!match) return null;
+  return { width: parseInt(match[1]), aspectRatio: parseInt(match[2]), diameter: parseInt(match[3]) };
+};
+
+// "5 x 114.3" and "5X114.30" compare equal
+const normalizePcd = (pcd?: string | null): string | null => {
+  if (!pcd) return null;
+  const match = pcd.replace(/\s/g, '').match(/^(\d+)[x×*](\d+(?:\.\d+)?)$/i);
+  return match ? `${parseInt(match[1])}x${parseFloat(match[2])}` : pcd.replace(/\s/g, '').toLowerCase();
+};
+
+const studCountFromPcd = (pcd: string | null): number | null => {
+  const match = pcd?.match(/^(\d+)x/);
+  return match ? parseInt(match[1]) : null;
+};
+
+/**
+ * How well a product fits a vehicle's OEM tire size and wheel PCD/stud count.
+ * Tires: exact size 3, same rim diameter 1. Wheels: PCD 2 + stud count 1 + rim diameter 1,
+ * and never a match when the PCD differs.
+ */
+export const getFitmentMatch = (product: Product, vehicle: Vehicle | null): FitmentMatch => {
+  if (!vehicle) return NO_MATCH;
+  const vehicleSize = parseTireSize(vehicle.tire_size);
+
+  if (product.product_type === 'tire') {
+    if (!vehicleSize) return NO_MATCH;
+    const productSize: TireSize | null = product.tire_width && product.tire_aspect_ratio && product.tire_diameter
+      ? { width: product.tire_width, aspectRatio: product.tire_aspect_ratio, diameter: product.tire_diameter }
+      : parseTireSize(product.size_display);
+    if (!productSize) return NO_MATCH;
+    if (
+      productSize.width === vehicleSize.width &&
+      productSize.aspectRatio === vehicleSize.aspectRatio &&
+      productSize.diameter === vehicleSize.diameter
+    ) {
+      return { score: 3, label: 'OEM size' };
+    }
+    if (productSize.diameter === vehicleSize.diameter) {
+      return { score: 1, label: `R${vehicleSize.diameter}` };
+    }
+    return NO_MATCH;
+  }
+
+  if (product.product_type === 'alloy_wheel') {
+    const vehiclePcd = normalizePcd(vehicle.wheel_pcd);
+    const productPcd = normalizePcd(product.wheel_pcd);
+    if (vehiclePcd && productPcd && vehiclePcd !== productPcd) return NO_MATCH;
+
+    const vehicleStuds = vehicle.wheel_stud_count || studCountFromPcd(vehiclePcd);
+    const productStuds = product.wheel_stud_count || studCountFromPcd(productPcd);
+    if (vehicleStuds && productStuds && vehicleStuds !== productStuds) return NO_MATCH;
+
+    let score = 0;
+    if (vehiclePcd && productPcd) score += 2;
+    if (vehicleStuds && productStuds) score += 1;
+    if (vehicleSize && product.wheel_diameter === vehicleSize.diameter) score += 1;
+    if (score === 0) return NO_MATCH;
+    if (vehiclePcd && productPcd) return { score, label: `PCD ${vehiclePcd}` };
+    if (vehicleStuds && productStuds) return { score, label: `${vehicleStuds} stud` };
+    return { score, label: `R${vehicleSize?.diameter}` };
+  }
+
+  return NO_MATCH;
+};
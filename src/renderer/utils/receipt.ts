@@ -1,11 +1,47 @@
 import jsPDF from 'jspdf';
 import { format } from 'date-fns';
+import { formatTaxLabel } from './tax';
 
 interface InvoiceItem {
   product_name: string;
   quantity: number;
   unit_price: number;
+  discount_type?: string | null;
+  discount_value?: number;
+  discount_amount?: number;
   total_price: number;
+  components?: { product_name: string; quantity: number }[];
+  dot_codes?: string | null;
+}
+
+interface InvoicePayment {
+  payment_method: string;
+  amount: number;
+  tendered: number;
+  reference?: string;
+}
+
+interface InvoiceTax {
+  tax_name: string;
+  rate: number;
+  is_inclusive: number;
+  tax_amount: number;
+}
+
+interface QuotationData {
+  quotation_number: string;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  registration_number?: string | null;
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  total_amount: number;
+  valid_until: string;
+  notes?: string | null;
+  created_at: string;
+  items?: InvoiceItem[];
+  taxes?: InvoiceTax[];
 }
 
 interface InvoiceData {
@@ -18,10 +54,26 @@ interface InvoiceData {
   discount_amount: number;
   total_amount: number;
   payment_method: string;
+  status?: string;
+  change_due?: number;
+  balance_due?: number;
   created_at: string;
   items: InvoiceItem[];
+  payments?: InvoicePayment[];
+  taxes?: InvoiceTax[];
 }
 
+const formatPaymentMethod = (method: string) => method.replace(/_/g, ' ').toUpperCase();
+
+const formatLineDiscount = (item: InvoiceItem) =>
+  item.discount_type === 'percent' ? `Discount ${item.discount_value}%` : 'Discount';
+
+// One line per tax charged; invoices from before tax rates have a single Tax line
+const getTaxLines = (invoice: { taxes?: InvoiceTax[]; tax_amount: number }) =>
+  invoice.taxes && invoice.taxes.length > 0
+    ? invoice.taxes.filter((tax) => tax.tax_amount > 0).map((tax) => ({ label: formatTaxLabel(tax), amount: tax.tax_amount }))
+    : invoice.tax_amount > 0 ? [{ label: 'Tax', amount: invoice.tax_amount }] : [];
+
 /**
  * Generate PDF receipt from invoice data
  */
@@ -42,6 +94,15 @@ export function generateReceiptPDF(invoice: InvoiceData): void {
   doc.text('Dimuth Tirehouse Receipt', pageWidth / 2, yPos, { align: 'center' });
   yPos += 10;
 
+  if (invoice.status === 'void') {
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(220, 38, 38);
+    doc.text('*** VOID ***', pageWidth / 2, yPos, { align: 'center' });
+    doc.setTextColor(0, 0, 0);
+    yPos += 8;
+  }
+
   // Divider line
   doc.setLineWidth(0.5);
   doc.line(margin, yPos, pageWidth - margin, yPos);
@@ -128,6 +189,25 @@ export function generateReceiptPDF(invoice: InvoiceData): void {
     doc.text(`Rs. ${item.total_price.toFixed(2)}`, pageWidth - margin - 20, yPos, {
       align: 'right',
     });
+    if ((item.discount_amount || 0) > 0) {
+      yPos += 4;
+      doc.setFontSize(8);
+      doc.text(`${formatLineDiscount(item)}: -Rs. ${(item.discount_amount || 0).toFixed(2)}`, margin + 110, yPos);
+      doc.setFontSize(9);
+    }
+    // Kit components, listed under the kit
+    (item.components || []).forEach((component) => {
+      yPos += 4;
+      doc.setFontSize(8);
+      doc.text(`  ${component.quantity} x ${component.product_name}`, margin, yPos);
+      doc.setFontSize(9);
+    });
+    if (item.dot_codes) {
+      yPos += 4;
+      doc.setFontSize(8);
+      doc.text(`  DOT ${item.dot_codes}`, margin, yPos);
+      doc.setFontSize(9);
+    }
     yPos += 8;
   });
 
@@ -146,13 +226,13 @@ export function generateReceiptPDF(invoice: InvoiceData): void {
   });
   yPos += 6;
 
-  if (invoice.tax_amount > 0) {
-    doc.text('Tax:', pageWidth - margin - 60, yPos, { align: 'right' });
-    doc.text(`Rs. ${invoice.tax_amount.toFixed(2)}`, pageWidth - margin - 5, yPos, {
+  getTaxLines(invoice).forEach((tax) => {
+    doc.text(`${tax.label}:`, pageWidth - margin - 60, yPos, { align: 'right' });
+    doc.text(`Rs. ${tax.amount.toFixed(2)}`, pageWidth - margin - 5, yPos, {
       align: 'right',
     });
     yPos += 6;
-  }
+  });
 
   if (invoice.discount_amount > 0) {
     doc.text('Discount:', pageWidth - margin - 60, yPos, { align: 'right' });
@@ -175,11 +255,37 @@ export function generateReceiptPDF(invoice: InvoiceData): void {
   });
   yPos += 10;
 
-  // Payment method
+  // Payment method, with each tender when the bill was split or paid in cash
   doc.setFontSize(9);
   doc.setFont('helvetica', 'normal');
-  doc.text(`Payment Method: ${invoice.payment_method.toUpperCase()}`, margin, yPos);
-  yPos += 10;
+  doc.text(`Payment Method: ${formatPaymentMethod(invoice.payment_method)}`, margin, yPos);
+  yPos += 6;
+  const payments = invoice.payments || [];
+  if (payments.length > 1 || (invoice.change_due || 0) > 0) {
+    payments.forEach((payment) => {
+      const label = payment.reference
+        ? `${formatPaymentMethod(payment.payment_method)} (${payment.reference})`
+        : formatPaymentMethod(payment.payment_method);
+      doc.text(label, margin + 5, yPos);
+      doc.text(`Rs. ${payment.tendered.toFixed(2)}`, pageWidth - margin - 5, yPos, { align: 'right' });
+      yPos += 5;
+    });
+    if ((invoice.change_due || 0) > 0) {
+      doc.setFont('helvetica', 'bold');
+      doc.text('Change', margin + 5, yPos);
+      doc.text(`Rs. ${(invoice.change_due || 0).toFixed(2)}`, pageWidth - margin - 5, yPos, { align: 'right' });
+      doc.setFont('helvetica', 'normal');
+      yPos += 5;
+    }
+  }
+  if ((invoice.balance_due || 0) > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Balance on Account', margin, yPos);
+    doc.text(`Rs. ${(invoice.balance_due || 0).toFixed(2)}`, pageWidth - margin - 5, yPos, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    yPos += 5;
+  }
+  yPos += 4;
 
   // Footer
   doc.setLineWidth(0.3);
@@ -197,6 +303,150 @@ export function generateReceiptPDF(invoice: InvoiceData): void {
   doc.save(`Receipt-${invoice.invoice_number}.pdf`);
 }
 
+/**
+ * Generate a quotation PDF. Same layout as the receipt, with the validity date
+ * in place of payment details.
+ */
+export function generateQuotationPDF(quotation: QuotationData): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+  let yPos = margin;
+
+  // Header
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('DIMUTH TIREHOUSE', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 8;
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Quotation', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 10;
+
+  doc.setLineWidth(0.5);
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 8;
+
+  // Quotation details
+  const [datePart] = quotation.created_at.toString().split(' ');
+  const [year, month, day] = datePart.split('-');
+  const [validYear, validMonth, validDay] = quotation.valid_until.split('-');
+  const details: Array<[string, string | null | undefined]> = [
+    ['Quotation Number:', quotation.quotation_number],
+    ['Date:', format(new Date(parseInt(year), parseInt(month) - 1, parseInt(day)), 'dd MMM yyyy')],
+    ['Valid Until:', format(new Date(parseInt(validYear), parseInt(validMonth) - 1, parseInt(validDay)), 'dd MMM yyyy')],
+    ['Customer:', quotation.customer_name],
+    ['Phone:', quotation.customer_phone],
+    ['Vehicle:', quotation.registration_number],
+  ];
+  doc.setFontSize(10);
+  details.forEach(([label, value]) => {
+    if (!value) return;
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, margin, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, margin + 50, yPos);
+    yPos += 6;
+  });
+  yPos += 5;
+
+  doc.setLineWidth(0.3);
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 8;
+
+  // Items header
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Item', margin, yPos);
+  doc.text('Qty', margin + 80, yPos);
+  doc.text('Price', margin + 110, yPos);
+  doc.text('Total', pageWidth - margin - 20, yPos, { align: 'right' });
+  yPos += 5;
+
+  doc.setLineWidth(0.2);
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 6;
+
+  // Items
+  doc.setFont('helvetica', 'normal');
+  (quotation.items || []).forEach((item) => {
+    if (yPos > 250) {
+      doc.addPage();
+      yPos = margin;
+    }
+
+    const productLines = doc.splitTextToSize(item.product_name, 60);
+    doc.text(productLines[0], margin, yPos);
+    if (productLines.length > 1) {
+      yPos += 4;
+      doc.text(productLines[1], margin, yPos);
+    }
+
+    doc.text(item.quantity.toString(), margin + 80, yPos);
+    doc.text(`Rs. ${item.unit_price.toFixed(2)}`, margin + 110, yPos);
+    doc.text(`Rs. ${item.total_price.toFixed(2)}`, pageWidth - margin - 20, yPos, { align: 'right' });
+    if ((item.discount_amount || 0) > 0) {
+      yPos += 4;
+      doc.setFontSize(8);
+      doc.text(`${formatLineDiscount(item)}: -Rs. ${(item.discount_amount || 0).toFixed(2)}`, margin + 110, yPos);
+      doc.setFontSize(9);
+    }
+    yPos += 8;
+  });
+
+  // Totals
+  doc.setLineWidth(0.3);
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 8;
+
+  const totals = [
+    { label: 'Subtotal', amount: quotation.subtotal },
+    ...getTaxLines(quotation),
+  ];
+  if (quotation.discount_amount > 0) {
+    totals.splice(1, 0, { label: 'Discount', amount: quotation.discount_amount });
+  }
+  doc.setFontSize(9);
+  totals.forEach((line) => {
+    doc.text(`${line.label}:`, pageWidth - margin - 60, yPos, { align: 'right' });
+    doc.text(`Rs. ${line.amount.toFixed(2)}`, pageWidth - margin - 5, yPos, { align: 'right' });
+    yPos += 6;
+  });
+
+  yPos += 2;
+  doc.setLineWidth(0.5);
+  doc.line(pageWidth - margin - 60, yPos, pageWidth - margin, yPos);
+  yPos += 6;
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Total:', pageWidth - margin - 60, yPos, { align: 'right' });
+  doc.text(`Rs. ${quotation.total_amount.toFixed(2)}`, pageWidth - margin - 5, yPos, { align: 'right' });
+  yPos += 10;
+
+  if (quotation.notes) {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    const noteLines = doc.splitTextToSize(`Notes: ${quotation.notes}`, pageWidth - margin * 2);
+    doc.text(noteLines, margin, yPos);
+    yPos += noteLines.length * 5 + 2;
+  }
+
+  // Footer
+  doc.setLineWidth(0.3);
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 8;
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Prices are valid until the date above and subject to stock availability.', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 5;
+  doc.text('This is a quotation, not a tax invoice.', pageWidth / 2, yPos, { align: 'center' });
+
+  doc.save(`Quotation-${quotation.quotation_number}.pdf`);
+}
+
 /**
  * Print receipt directly (opens print dialog)
  * Uses iframe to avoid popup blockers
@@ -320,6 +570,7 @@ export function printReceipt(invoice: InvoiceData): void {
         <h1>DIMUTH TIREHOUSE</h1>
         <p>Dimuth Tirehouse Receipt</p>
       </div>
+      ${invoice.status === 'void' ? '<div class="header"><h1>*** VOID ***</h1></div>' : ''}
       <div class="divider"></div>
       <div class="info">
         <span class="info-label">Invoice:</span> ${invoice.invoice_number}
@@ -349,6 +600,9 @@ export function printReceipt(invoice: InvoiceData): void {
               <td class="text-right">Rs. ${item.unit_price.toFixed(2)}</td>
               <td class="text-right">Rs. ${item.total_price.toFixed(2)}</td>
             </tr>
+            ${(item.discount_amount || 0) > 0 ? `<tr><td colspan="4" class="text-right" style="font-size: 10px;">${formatLineDiscount(item)}: -Rs. ${(item.discount_amount || 0).toFixed(2)}</td></tr>` : ''}
+            ${(item.components || []).map((component) => `<tr><td colspan="4" style="font-size: 10px; padding-left: 10px;">${component.quantity} x ${component.product_name}</td></tr>`).join('')}
+            ${item.dot_codes ? `<tr><td colspan="4" style="font-size: 10px; padding-left: 10px;">DOT ${item.dot_codes}</td></tr>` : ''}
           `
             )
             .join('')}
@@ -360,7 +614,7 @@ export function printReceipt(invoice: InvoiceData): void {
           <span>Subtotal:</span>
           <span>Rs. ${invoice.subtotal.toFixed(2)}</span>
         </div>
-        ${invoice.tax_amount > 0 ? `<div class="total-row"><span>Tax:</span><span>Rs. ${invoice.tax_amount.toFixed(2)}</span></div>` : ''}
+        ${getTaxLines(invoice).map((tax) => `<div class="total-row"><span>${tax.label}:</span><span>Rs. ${tax.amount.toFixed(2)}</span></div>`).join('')}
         ${invoice.discount_amount > 0 ? `<div class="total-row"><span>Discount:</span><span>Rs. ${invoice.discount_amount.toFixed(2)}</span></div>` : ''}
         <div class="total-row total-final">
           <span>Total:</span>
@@ -368,8 +622,14 @@ export function printReceipt(invoice: InvoiceData): void {
         </div>
       </div>
       <div class="info">
-        <span class="info-label">Payment:</span> ${invoice.payment_method.toUpperCase()}
+        <span class="info-label">Payment:</span> ${formatPaymentMethod(invoice.payment_method)}
       </div>
+      ${(invoice.payments || []).length > 1 || (invoice.change_due || 0) > 0 ? `
+      <div class="totals">
+        ${(invoice.payments || []).map((payment) => `<div class="total-row"><span>${formatPaymentMethod(payment.payment_method)}${payment.reference ? ` (${payment.reference})` : ''}</span><span>Rs. ${payment.tendered.toFixed(2)}</span></div>`).join('')}
+        ${(invoice.change_due || 0) > 0 ? `<div class="total-row"><span><strong>Change:</strong></span><span><strong>Rs. ${(invoice.change_due || 0).toFixed(2)}</strong></span></div>` : ''}
+      </div>` : ''}
+      ${(invoice.balance_due || 0) > 0 ? `<div class="total-row"><span><strong>Balance on Account:</strong></span><span><strong>Rs. ${(invoice.balance_due || 0).toFixed(2)}</strong></span></div>` : ''}
       <div class="divider"></div>
       <div class="footer">
         <p>Thank you for your business!</p>
@@ -0,0 +1,165 @@
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+import { ReorderSuggestion } from '../types';
+
+export type ReorderGrouping = 'supplier' | 'brand';
+
+export interface ReorderLine extends ReorderSuggestion {
+  order_quantity: number; // the suggestion as edited before export
+}
+
+export interface ReorderGroup {
+  name: string;
+  lines: ReorderLine[];
+  total_quantity: number;
+  total_cost: number;
+}
+
+/**
+ * Group reorder lines by supplier or brand, largest spend first; lines without a
+ * supplier or brand go last
+ */
+export function groupReorderLines(lines: ReorderLine[], grouping: ReorderGrouping): ReorderGroup[] {
+  const fallback = grouping === 'supplier' ? 'No supplier' : 'Other';
+  const groups = new Map<string, ReorderGroup>();
+  for (const line of lines) {
+    const name = (grouping === 'supplier' ? line.supplier_name : line.brand) || fallback;
+    const group = groups.get(name) || { name, lines: [], total_quantity: 0, total_cost: 0 };
+    group.lines.push(line);
+    group.total_quantity += line.order_quantity;
+    group.total_cost += line.order_quantity * line.unit_cost;
+    groups.set(name, group);
+  }
+  return [...groups.values()].sort((a, b) =>
+    a.name === fallback ? 1 : b.name === fallback ? -1 : b.total_cost - a.total_cost
+  );
+}
+
+const csvField = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+/**
+ * Download the purchase list as CSV, one row per product under its group
+ */
+export function exportReorderCSV(groups: ReorderGroup[], grouping: ReorderGrouping): void {
+  const headers = [
+    grouping === 'supplier' ? 'Supplier' : 'Brand',
+    'Product',
+    'SKU',
+    'Supplier SKU',
+    'Size',
+    'In Stock',
+    'On Order',
+    'Sold / Day',
+    'Reorder Point',
+    'Order Quantity',
+    'Unit Cost',
+    'Total Cost',
+  ];
+  const rows = groups.flatMap((group) =>
+    group.lines.map((line) =>
+      [
+        group.name,
+        line.product_name,
+        line.sku,
+        line.supplier_sku,
+        line.size_display,
+        line.stock_quantity,
+        line.on_order,
+        line.velocity,
+        line.reorder_point,
+        line.order_quantity,
+        line.unit_cost.toFixed(2),
+        (line.order_quantity * line.unit_cost).toFixed(2),
+      ].map(csvField).join(',')
+    )
+  );
+
+  const blob = new Blob([[headers.map(csvField).join(','), ...rows].join('\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `Reorder-List-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Generate a PDF purchase list with a section per supplier or brand
+ */
+export function generateReorderPDF(groups: ReorderGroup[], grouping: ReorderGrouping): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+  let yPos = margin;
+
+  const checkPage = (space: number = 0) => {
+    if (yPos + space > 270) {
+      doc.addPage();
+      yPos = margin;
+    }
+  };
+
+  // Header
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('DIMUTH TIREHOUSE', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 8;
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Purchase List by ${grouping === 'supplier' ? 'Supplier' : 'Brand'}`, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 6;
+  doc.setFontSize(9);
+  doc.text(format(new Date(), 'dd MMM yyyy'), pageWidth / 2, yPos, { align: 'center' });
+  yPos += 6;
+
+  doc.setLineWidth(0.5);
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 8;
+
+  const columns = { product: margin, stock: 120, quantity: 145, cost: 170, total: pageWidth - margin };
+  groups.forEach((group) => {
+    checkPage(20);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(group.name, margin, yPos);
+    yPos += 6;
+
+    doc.setFontSize(9);
+    doc.text('Product', columns.product, yPos);
+    doc.text('In Stock', columns.stock, yPos, { align: 'right' });
+    doc.text('Order', columns.quantity, yPos, { align: 'right' });
+    doc.text('Unit Cost', columns.cost, yPos, { align: 'right' });
+    doc.text('Total', columns.total, yPos, { align: 'right' });
+    yPos += 2;
+    doc.setLineWidth(0.2);
+    doc.line(margin, yPos, pageWidth - margin, yPos);
+    yPos += 5;
+
+    doc.setFont('helvetica', 'normal');
+    group.lines.forEach((line) => {
+      checkPage();
+      const label = [line.product_name, line.supplier_sku || line.sku].filter(Boolean).join(' - ');
+      doc.text(doc.splitTextToSize(label, 95)[0], columns.product, yPos);
+      doc.text(String(line.stock_quantity), columns.stock, yPos, { align: 'right' });
+      doc.text(String(line.order_quantity), columns.quantity, yPos, { align: 'right' });
+      doc.text(line.unit_cost.toFixed(2), columns.cost, yPos, { align: 'right' });
+      doc.text((line.order_quantity * line.unit_cost).toFixed(2), columns.total, yPos, { align: 'right' });
+      yPos += 6;
+    });
+
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${group.total_quantity} units`, columns.quantity, yPos, { align: 'right' });
+    doc.text(`Rs. ${group.total_cost.toFixed(2)}`, columns.total, yPos, { align: 'right' });
+    yPos += 10;
+  });
+
+  checkPage();
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  const grandTotal = groups.reduce((sum, group) => sum + group.total_cost, 0);
+  doc.text('Estimated Total:', pageWidth - margin - 45, yPos, { align: 'right' });
+  doc.text(`Rs. ${grandTotal.toFixed(2)}`, pageWidth - margin, yPos, { align: 'right' });
+
+  doc.save(`Reorder-List-${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+}
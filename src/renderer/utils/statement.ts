@@ -0,0 +1,166 @@
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+import { CustomerStatement } from '../types';
+
+// Format a local "YYYY-MM-DD HH:MM:SS" string without timezone conversion
+const formatLocalDate = (value: string) => {
+  const [year, month, day] = value.substring(0, 10).split('-');
+  return format(new Date(parseInt(year), parseInt(month) - 1, parseInt(day)), 'dd MMM yyyy');
+};
+
+const money = (value: number) => `Rs. ${value.toFixed(2)}`;
+
+/**
+ * Generate a PDF account statement: running ledger, open invoices and aging
+ */
+export function generateStatementPDF(statement: CustomerStatement): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+  let yPos = margin;
+
+  const checkPage = () => {
+    if (yPos > 270) {
+      doc.addPage();
+      yPos = margin;
+    }
+  };
+
+  // Header
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('DIMUTH TIREHOUSE', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 8;
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Statement of Account', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 10;
+
+  doc.setLineWidth(0.5);
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 8;
+
+  // Customer and period
+  const { customer } = statement;
+  doc.setFontSize(10);
+  const infoRows: Array<[string, string]> = [
+    ['Customer:', customer.name || customer.phone],
+    ['Phone:', customer.phone],
+    [
+      'Period:',
+      statement.start_date
+        ? `${formatLocalDate(statement.start_date)} - ${formatLocalDate(statement.end_date)}`
+        : `All activity to ${formatLocalDate(statement.end_date)}`,
+    ],
+  ];
+  if (customer.address) infoRows.splice(2, 0, ['Address:', customer.address]);
+  if (customer.credit_limit != null) infoRows.push(['Credit Limit:', money(customer.credit_limit)]);
+  infoRows.forEach(([label, value]) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, margin, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, margin + 35, yPos);
+    yPos += 6;
+  });
+  yPos += 4;
+
+  // Ledger
+  const columns = { date: margin, reference: margin + 28, description: margin + 68, debit: 140, credit: 165, balance: pageWidth - margin };
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Date', columns.date, yPos);
+  doc.text('Reference', columns.reference, yPos);
+  doc.text('Description', columns.description, yPos);
+  doc.text('Charges', columns.debit, yPos, { align: 'right' });
+  doc.text('Credits', columns.credit, yPos, { align: 'right' });
+  doc.text('Balance', columns.balance, yPos, { align: 'right' });
+  yPos += 3;
+  doc.setLineWidth(0.2);
+  doc.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 5;
+
+  doc.setFont('helvetica', 'normal');
+  if (statement.start_date) {
+    doc.text('Opening balance', columns.description, yPos);
+    doc.text(money(statement.opening_balance), columns.balance, yPos, { align: 'right' });
+    yPos += 6;
+  }
+  statement.entries.forEach((entry) => {
+    checkPage();
+    doc.text(formatLocalDate(entry.date), columns.date, yPos);
+    doc.text(entry.reference, columns.reference, yPos);
+    doc.text(doc.splitTextToSize(entry.description, 45)[0], columns.description, yPos);
+    if (entry.debit > 0) doc.text(entry.debit.toFixed(2), columns.debit, yPos, { align: 'right' });
+    if (entry.credit > 0) doc.text(entry.credit.toFixed(2), columns.credit, yPos, { align: 'right' });
+    doc.text(entry.balance.toFixed(2), columns.balance, yPos, { align: 'right' });
+    yPos += 6;
+  });
+
+  yPos += 2;
+  doc.setLineWidth(0.5);
+  doc.line(pageWidth - margin - 70, yPos, pageWidth - margin, yPos);
+  yPos += 6;
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Balance Due:', pageWidth - margin - 45, yPos, { align: 'right' });
+  doc.text(money(statement.closing_balance), pageWidth - margin, yPos, { align: 'right' });
+  // Store credit from returns is spent in the shop, not set against the balance
+  if (statement.store_credit > 0) {
+    yPos += 6;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Store credit available:', pageWidth - margin - 45, yPos, { align: 'right' });
+    doc.text(money(statement.store_credit), pageWidth - margin, yPos, { align: 'right' });
+    doc.setFont('helvetica', 'bold');
+  }
+  yPos += 12;
+
+  // Open invoices
+  if (statement.open_invoices.length > 0) {
+    checkPage();
+    doc.setFontSize(10);
+    doc.text('Open Invoices', margin, yPos);
+    yPos += 6;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    statement.open_invoices.forEach((invoice) => {
+      checkPage();
+      doc.text(formatLocalDate(invoice.created_at), columns.date, yPos);
+      doc.text(invoice.invoice_number, columns.reference, yPos);
+      doc.text(`${invoice.age_days} days`, columns.description, yPos);
+      doc.text(invoice.total_amount.toFixed(2), columns.credit, yPos, { align: 'right' });
+      doc.text(invoice.balance_due.toFixed(2), columns.balance, yPos, { align: 'right' });
+      yPos += 6;
+    });
+    yPos += 6;
+  }
+
+  // Aging
+  checkPage();
+  const buckets: Array<[string, number]> = [
+    ['0-30 days', statement.aging.days_0_30],
+    ['31-60 days', statement.aging.days_31_60],
+    ['61-90 days', statement.aging.days_61_90],
+    ['90+ days', statement.aging.days_over_90],
+  ];
+  const bucketWidth = (pageWidth - margin * 2) / buckets.length;
+  doc.setLineWidth(0.2);
+  doc.rect(margin, yPos - 5, pageWidth - margin * 2, 14);
+  buckets.forEach(([label, amount], index) => {
+    const x = margin + bucketWidth * index + bucketWidth / 2;
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, x, yPos, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.text(money(amount), x, yPos + 6, { align: 'center' });
+  });
+  yPos += 18;
+
+  // Footer
+  doc.setFontSize(8);
+  doc.text('Please quote the invoice numbers with your payment.', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 5;
+  doc.text('This is a computer-generated statement.', pageWidth / 2, yPos, { align: 'center' });
+
+  doc.save(`Statement-${customer.phone}-${statement.end_date}.pdf`);
+}
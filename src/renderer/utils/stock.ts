@@ -0,0 +1,39 @@
+import { Product, SaleProblem } from '../types';
+
+/**
+ * Stock free to sell, not already on hold in parked carts. Products loaded for a location
+ * count only the stock there. Services carry no stock and are always available; a kit is
+ * limited by its scarcest stocked component.
+ */
+export const getAvailableStock = (product: Product): number => {
+  if (product.product_type === 'service') return Infinity;
+  if (product.product_type === 'bundle') {
+    const kits = (product.components || []).map((component) =>
+      component.product_type === 'service' ? Infinity : Math.floor(component.available_quantity / component.quantity)
+    );
+    return Math.max(0, Math.min(...kits));
+  }
+  return (product.location_quantity ?? product.stock_quantity) - (product.held_quantity || 0);
+};
+
+/**
+ * How many may be put in the cart: unlimited for products set to allow backorder
+ */
+export const getSellableQuantity = (product: Product): number =>
+  product.allow_backorder ? Infinity : getAvailableStock(product);
+
+const SALE_REJECTED_MARKER = '[sale-rejected]';
+
+/**
+ * The offending lines of a sale the main process rejected, or null for any other error
+ */
+export const getSaleProblems = (error: any): SaleProblem[] | null => {
+  const message: string = error?.message || '';
+  const start = message.indexOf(SALE_REJECTED_MARKER);
+  if (start < 0) return null;
+  try {
+    return JSON.parse(message.slice(start + SALE_REJECTED_MARKER.length));
+  } catch {
+    return null;
+  }
+};
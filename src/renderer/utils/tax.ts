@@ -0,0 +1,64 @@
+import { Product, TaxRate } from '../types';
+
+export interface LineTaxPreview {
+  tax_name: string;
+  rate: number;
+  is_inclusive: number;
+  tax_amount: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Active rates for a product; a rate applies when any of its assignments matches the
+ * product's type and category. Mirrors getApplicableTaxRates in the main process.
+ */
+export const getApplicableTaxRates = (product: Pick<Product, 'product_type' | 'category'> | undefined, rates: TaxRate[]) => {
+  const productType = product?.product_type || 'general';
+  const category = product?.category?.trim().toLowerCase() || null;
+  return rates.filter((rate) => rate.is_active && rate.assignments.some((assignment) =>
+    (!assignment.product_type || assignment.product_type === productType) &&
+    (!assignment.category || assignment.category.toLowerCase() === category)
+  ));
+};
+
+/**
+ * Taxes on a line amount (after discounts). Inclusive taxes are backed out of the amount;
+ * every tax is charged on what is left. The invoice itself is taxed by the main process.
+ */
+export const calculateLineTaxes = (amount: number, rates: TaxRate[]): LineTaxPreview[] => {
+  const inclusiveRate = rates.filter((rate) => rate.is_inclusive).reduce((sum, rate) => sum + rate.rate, 0);
+  const taxable = roundMoney(amount / (1 + inclusiveRate / 100));
+  const taxes = rates.map((rate) => ({
+    tax_name: rate.name,
+    rate: rate.rate,
+    is_inclusive: rate.is_inclusive,
+    tax_amount: roundMoney(taxable * rate.rate / 100),
+  }));
+  const inclusive = taxes.filter((tax) => tax.is_inclusive);
+  if (inclusive.length > 0) {
+    const others = inclusive.slice(0, -1).reduce((sum, tax) => sum + tax.tax_amount, 0);
+    inclusive[inclusive.length - 1].tax_amount = roundMoney(amount - taxable - others);
+  }
+  return taxes;
+};
+
+/**
+ * Add up line taxes by name and rate for display
+ */
+export const groupTaxes = <T extends { tax_name: string; rate: number; is_inclusive: number; tax_amount: number }>(taxes: T[]) => {
+  const groups = new Map<string, LineTaxPreview>();
+  for (const tax of taxes) {
+    const key = `${tax.tax_name}|${tax.rate}|${tax.is_inclusive}`;
+    const group = groups.get(key) || { tax_name: tax.tax_name, rate: tax.rate, is_inclusive: tax.is_inclusive, tax_amount: 0 };
+    group.tax_amount = roundMoney(group.tax_amount + tax.tax_amount);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+};
+
+/**
+ * Label for a tax line, e.g. "VAT 18% (incl.)"
+ */
+export const formatTaxLabel = (tax: { tax_name: string; rate: number | null; is_inclusive: number }) =>
+  `${tax.tax_name}${tax.rate !== null ? ` ${tax.rate}%` : ''}${tax.is_inclusive ? ' (incl.)' : ''}`;